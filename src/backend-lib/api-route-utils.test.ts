@@ -1,10 +1,12 @@
 import { describe, it, expect, vi } from "vitest";
+import { Stripe } from "stripe";
 import { type ValidateFunction } from "ajv";
 import { type NextApiResponse, type NextApiRequest } from "next/types";
 import { type NextWebhookApiHandler } from "@saleor/app-sdk/handlers/next";
 import { getAuthDataForRequest, getSyncWebhookHandler, validateData } from "./api-route-utils";
 import { testEnv } from "@/__tests__/test-env.mjs";
 import { BaseError, MissingSaleorApiUrlError } from "@/errors";
+import { StripeRequestBudgetExceededError } from "@/modules/stripe/stripe-request-budget";
 
 describe("api-route-utils", () => {
   describe("validateData", () => {
@@ -258,6 +260,71 @@ describe("api-route-utils", () => {
         "[BaseError: Some error]",
       );
     });
+
+    it("returns pending result when Stripe doesn't answer in time", async () => {
+      const handler = vi.fn().mockImplementation(() => {
+        throw new Stripe.errors.StripeConnectionError({
+          message: "Request aborted",
+          type: "api_error",
+        });
+      });
+      const json = vi.fn();
+      const status = vi.fn().mockReturnValue({ json });
+      const errorMapper = vi.fn();
+      const webhookHandler = getSyncWebhookHandler(
+        "TestWebhook",
+        handler,
+        (() => true) as unknown as ValidateFunction,
+        errorMapper,
+        () => ({ pspReference: "pi_1" }),
+      );
+
+      type WebhookContext = Parameters<NextWebhookApiHandler>[2];
+
+      await webhookHandler(
+        {} as NextApiRequest,
+        { json, status } as unknown as NextApiResponse,
+        {
+          authData: { saleorApiUrl: testEnv.TEST_SALEOR_API_URL },
+          payload: {},
+        } as unknown as WebhookContext,
+      );
+
+      expect(status).toHaveBeenCalledWith(200);
+      expect(json).toHaveBeenCalledWith({ pspReference: "pi_1" });
+      expect(errorMapper).not.toHaveBeenCalled();
+    });
+
+    it("returns pending result when budget ran out before the Stripe request was sent", async () => {
+      const handler = vi.fn().mockImplementation(() => {
+        throw new StripeRequestBudgetExceededError("Not enough time left for Stripe request");
+      });
+      const json = vi.fn();
+      const status = vi.fn().mockReturnValue({ json });
+      const errorMapper = vi.fn();
+      const webhookHandler = getSyncWebhookHandler(
+        "TestWebhook",
+        handler,
+        (() => true) as unknown as ValidateFunction,
+        errorMapper,
+        () => ({ pspReference: "pi_1" }),
+      );
+
+      type WebhookContext = Parameters<NextWebhookApiHandler>[2];
+
+      await webhookHandler(
+        {} as NextApiRequest,
+        { json, status } as unknown as NextApiResponse,
+        {
+          authData: { saleorApiUrl: testEnv.TEST_SALEOR_API_URL },
+          payload: {},
+        } as unknown as WebhookContext,
+      );
+
+      expect(status).toHaveBeenCalledWith(200);
+      expect(json).toHaveBeenCalledWith({ pspReference: "pi_1" });
+      expect(errorMapper).not.toHaveBeenCalled();
+    });
   });
 
   describe("getAuthDataForRequest", () => {
@@ -4,6 +4,11 @@ import { type NextApiRequest, type NextApiResponse } from "next";
 import type { ValidateFunction } from "ajv";
 import { type NextWebhookApiHandler } from "@saleor/app-sdk/handlers/next";
 import { createLogger, redactError } from "../lib/logger";
+import { withWebhookLog } from "../modules/webhook-log/webhook-log";
+import {
+  isStripeRequestTimeoutError,
+  StripeRequestBudgetExceededError,
+} from "../modules/stripe/stripe-request-budget";
 import {
   JsonSchemaError,
   UnknownError,
@@ -11,7 +16,7 @@ import {
   MissingAuthDataError,
   MissingSaleorApiUrlError,
 } from "@/errors";
-import { toStringOrEmpty } from "@/lib/utils";
+import { isObject, toStringOrEmpty } from "@/lib/utils";
 import { saleorApp } from "@/saleor-app";
 
 export const validateData = async <S extends ValidateFunction>(data: unknown, validate: S) => {
@@ -32,6 +37,8 @@ export function getSyncWebhookHandler<TPayload, TResult, TSchema extends Validat
   webhookHandler: (payload: TPayload, saleorApiUrl: string) => Promise<TResult>,
   ResponseSchema: TSchema,
   errorMapper: (payload: TPayload, errorResponse: ErrorResponse) => TResult & {},
+  /** Pending result returned when Stripe doesn't answer before Saleor's deadline */
+  timeoutMapper?: (payload: TPayload) => TResult & {},
 ): NextWebhookApiHandler<TPayload> {
   return async (_req, res: NextApiResponse<Error | TResult>, ctx) => {
     const logger = createLogger(
@@ -44,31 +51,77 @@ export function getSyncWebhookHandler<TPayload, TResult, TSchema extends Validat
     logger.info(`handler called: ${webhookHandler.name}`);
     logger.debug({ payload }, "ctx payload");
 
-    try {
-      const result = await webhookHandler(payload, authData.saleorApiUrl);
-      logger.info(`${webhookHandler.name} was successful`);
-      logger.debug({ result }, "Sending successful response");
-      return res.json(await validateData(result, ResponseSchema));
-    } catch (err) {
-      logger.error({ err: redactError(err) }, `${webhookHandler.name} error`);
-
-      const response = errorToResponse(err);
-
-      if (!response) {
-        Sentry.captureException(err);
-        const result = BaseError.serialize(err);
-        logger.debug("Sending error response");
-        return res.status(500).json(result);
-      }
-
-      Sentry.captureException(...response.sentry);
-      const finalErrorResponse = errorMapper(payload, response);
-      logger.debug({ finalErrorResponse }, "Sending error response");
-      return res.status(200).json(await validateData(finalErrorResponse, ResponseSchema));
-    }
+    return withWebhookLog(
+      {
+        saleorApiUrl: authData.saleorApiUrl,
+        source: "saleor",
+        eventType: name,
+        payload,
+        ...getPayloadTransaction(payload),
+      },
+      async (webhookLog) => {
+        try {
+          const result = await webhookHandler(payload, authData.saleorApiUrl);
+          logger.info(`${webhookHandler.name} was successful`);
+          logger.debug({ result }, "Sending successful response");
+          webhookLog.response = result;
+          // e.g. PaymentIntent created by TRANSACTION_INITIALIZE_SESSION
+          if (isObject(result) && typeof result.pspReference === "string") {
+            webhookLog.pspReference ??= result.pspReference;
+          }
+          return res.json(await validateData(result, ResponseSchema));
+        } catch (err) {
+          // Budget running out before the request is sent is reported as pending too,
+          // so that Saleor doesn't fail a payment that can still be retried
+          if (
+            timeoutMapper &&
+            (isStripeRequestTimeoutError(err) || err instanceof StripeRequestBudgetExceededError)
+          ) {
+            logger.warn({ err: redactError(err) }, `${webhookHandler.name} timed out`);
+            const pendingResponse = timeoutMapper(payload);
+            logger.debug({ pendingResponse }, "Sending pending response");
+            webhookLog.response = pendingResponse;
+            webhookLog.errors = [err instanceof Error ? err.message : String(err)];
+            return res.status(200).json(await validateData(pendingResponse, ResponseSchema));
+          }
+
+          logger.error({ err: redactError(err) }, `${webhookHandler.name} error`);
+
+          const response = errorToResponse(err);
+
+          if (!response) {
+            Sentry.captureException(err);
+            const result = BaseError.serialize(err);
+            logger.debug("Sending error response");
+            webhookLog.response = result;
+            webhookLog.errors = [err instanceof Error ? err.message : String(err)];
+            return res.status(500).json(result);
+          }
+
+          Sentry.captureException(...response.sentry);
+          const finalErrorResponse = errorMapper(payload, response);
+          logger.debug({ finalErrorResponse }, "Sending error response");
+          webhookLog.response = finalErrorResponse;
+          webhookLog.errors = response.errors.map((error) => error.message);
+          return res.status(200).json(await validateData(finalErrorResponse, ResponseSchema));
+        }
+      },
+    );
   };
 }
 
+// Transaction webhooks carry the Saleor transaction, other webhooks are logged without it
+const getPayloadTransaction = (payload: unknown) => {
+  const transaction = isObject(payload) && isObject(payload.transaction) ? payload.transaction : {};
+  return {
+    transactionId: typeof transaction.id === "string" ? transaction.id : null,
+    pspReference:
+      typeof transaction.pspReference === "string" && transaction.pspReference
+        ? transaction.pspReference
+        : null,
+  };
+};
+
 type ErrorResponse = Exclude<ReturnType<typeof errorToResponse>, null>;
 const errorToResponse = (err: unknown) => {
   const normalizedError = err instanceof BaseError ? err : null;
@@ -48,6 +48,9 @@ export const ReqMissingTokenError = BaseTrpcError.subclass("ReqMissingTokenError
 export const ReqMissingAppIdError = BaseTrpcError.subclass("ReqMissingAppIdError", {
   props: { trpcCode: "BAD_REQUEST" } as TrpcErrorOptions,
 });
+export const ConfigVersionConflictError = BaseTrpcError.subclass("ConfigVersionConflictError", {
+  props: { trpcCode: "CONFLICT" } as TrpcErrorOptions,
+});
 
 // TRPC + react-hook-form errors
 export interface FieldErrorOptions extends TrpcErrorOptions {
@@ -57,8 +60,11 @@ export interface FieldErrorOptions extends TrpcErrorOptions {
 export const FieldError = BaseTrpcError.subclass("FieldError", {
   props: {} as FieldErrorOptions,
 });
-export const RestrictedKeyNotSupportedError = FieldError.subclass(
-  "RestrictedKeyNotSupportedError",
+export const RestrictedKeyPermissionsError = FieldError.subclass("RestrictedKeyPermissionsError", {
+  props: { fieldName: "secretKey" } as FieldErrorOptions,
+});
+export const MissingRestrictedKeyPermissionError = FieldError.subclass(
+  "MissingRestrictedKeyPermissionError",
   {
     props: { fieldName: "secretKey" } as FieldErrorOptions,
   },
@@ -69,11 +75,17 @@ export const InvalidSecretKeyError = FieldError.subclass("InvalidSecretKeyError"
 export const UnexpectedSecretKeyError = FieldError.subclass("UnexpectedSecretKeyError", {
   props: { fieldName: "secretKey" } as FieldErrorOptions,
 });
+export const SecretKeyAccountMismatchError = FieldError.subclass("SecretKeyAccountMismatchError", {
+  props: { fieldName: "secretKey" } as FieldErrorOptions,
+});
 export const InvalidPublishableKeyError = FieldError.subclass("InvalidPublishableKeyError", {
   props: { fieldName: "publishableKey" } as FieldErrorOptions,
 });
 export const UnexpectedPublishableKeyError = FieldError.subclass("UnexpectedPublishableKeyError", {
   props: { fieldName: "publishableKey" } as FieldErrorOptions,
 });
+export const KeyEnvironmentMismatchError = FieldError.subclass("KeyEnvironmentMismatchError", {
+  props: { fieldName: "publishableKey" } as FieldErrorOptions,
+});
 
 export const FileReaderError = BaseError.subclass("FileReaderError");
@@ -11,6 +11,16 @@ export const env = createEnv({
   server: {
     ENV: z.enum(["development", "test", "staging", "production"]).default("development"),
     SECRET_KEY: z.string().min(8, { message: "Cannot be too short" }),
+    SECRET_KEY_ID: z
+      .string()
+      .regex(/^[\w.-]+$/, { message: "Can contain only letters, digits, `_`, `.` and `-`" })
+      .optional(),
+    PREVIOUS_SECRET_KEYS: z
+      .string()
+      .regex(/^[\w.-]+:[^,]{8,}(,[\w.-]+:[^,]{8,})*$/, {
+        message: "Must be a comma-separated list of `keyId:secret` pairs",
+      })
+      .optional(),
     SENTRY_DSN: z.string().min(1).optional(),
     APL: z.enum(["saleor-cloud", "upstash", "file"]).optional().default("file"),
     CI: z.coerce.boolean().optional().default(false),
@@ -25,6 +35,13 @@ export const env = createEnv({
     REST_APL_ENDPOINT: z.string().optional(),
     REST_APL_TOKEN: z.string().optional(),
     ALLOWED_DOMAIN_PATTERN: z.string().optional(),
+    PROCESSED_EVENTS_STORE: z.enum(["memory", "file", "upstash"]).optional(),
+    PROCESSED_EVENTS_TTL_SECONDS: z.coerce.number().int().positive().optional(),
+    AUDIT_LOG_STORE: z.enum(["memory", "file", "upstash"]).optional(),
+    WEBHOOK_LOG_STORE: z.enum(["memory", "file", "upstash"]).optional(),
+    RECONCILIATION_CRON_SECRET: z.string().min(16).optional(),
+    STRIPE_MAX_NETWORK_RETRIES: z.coerce.number().int().min(0).optional(),
+    STRIPE_REQUEST_BUDGET_MS: z.coerce.number().int().positive().optional(),
   },
 
   /*
@@ -47,6 +64,8 @@ export const env = createEnv({
     NEXT_PUBLIC_SENTRY_DSN: process.env.NEXT_PUBLIC_SENTRY_DSN,
 
     SECRET_KEY: process.env.SECRET_KEY,
+    SECRET_KEY_ID: process.env.SECRET_KEY_ID,
+    PREVIOUS_SECRET_KEYS: process.env.PREVIOUS_SECRET_KEYS,
     SENTRY_DSN: process.env.SENTRY_DSN,
     APL: process.env.APL,
     CI: process.env.CI,
@@ -58,5 +77,12 @@ export const env = createEnv({
     REST_APL_ENDPOINT: process.env.REST_APL_ENDPOINT,
     REST_APL_TOKEN: process.env.REST_APL_TOKEN,
     ALLOWED_DOMAIN_PATTERN: process.env.ALLOWED_DOMAIN_PATTERN,
+    PROCESSED_EVENTS_STORE: process.env.PROCESSED_EVENTS_STORE,
+    PROCESSED_EVENTS_TTL_SECONDS: process.env.PROCESSED_EVENTS_TTL_SECONDS,
+    AUDIT_LOG_STORE: process.env.AUDIT_LOG_STORE,
+    WEBHOOK_LOG_STORE: process.env.WEBHOOK_LOG_STORE,
+    RECONCILIATION_CRON_SECRET: process.env.RECONCILIATION_CRON_SECRET,
+    STRIPE_MAX_NETWORK_RETRIES: process.env.STRIPE_MAX_NETWORK_RETRIES,
+    STRIPE_REQUEST_BUDGET_MS: process.env.STRIPE_REQUEST_BUDGET_MS,
   },
 });
@@ -0,0 +1,48 @@
+import { type AuthData } from "@saleor/app-sdk/APL";
+import { addMissingStripeWebhookEvents } from "@/modules/payment-app-configuration/webhook-manager";
+import { withSecretKeyFallback } from "@/modules/payment-app-configuration/secret-key-rotation";
+import { type PaymentAppConfigurator } from "@/modules/payment-app-configuration/payment-app-configuration";
+import { createLogger, redactError } from "@/lib/logger";
+import { unpackPromise } from "@/lib/utils";
+
+export const requiredSaleorVersion = "3.13";
+
+/**
+ * Stripe webhooks created before disputes and Checkout Sessions were supported
+ * don't receive `charge.dispute.*` and `checkout.session.*` events
+ */
+export async function migrate(authData: AuthData, configurator: PaymentAppConfigurator) {
+  const logger = createLogger(
+    { saleorApiUrl: authData.saleorApiUrl },
+    { msgPrefix: "[2-add-stripe-webhook-events] " },
+  );
+  const { configurations } = await configurator.getConfig();
+
+  const results = await Promise.all(
+    configurations.map(async (entry) => {
+      const [error, addedEvents] = await unpackPromise(
+        withSecretKeyFallback(entry, (secretKey) =>
+          addMissingStripeWebhookEvents({ webhookId: entry.webhookId, secretKey }),
+        ),
+      );
+      if (error) {
+        logger.error(
+          { err: redactError(error), configurationId: entry.configurationId },
+          "Couldn't add events to Stripe webhook",
+        );
+      } else if (addedEvents === null) {
+        // Repairing the webhook in the dashboard creates a new one
+        logger.warn(
+          { configurationId: entry.configurationId },
+          "Stripe webhook no longer exists, skipping",
+        );
+      }
+      return error;
+    }),
+  );
+
+  // Events are only added when missing, so the migration can be run again
+  if (results.some(Boolean)) {
+    throw new Error("Error while adding events to Stripe webhooks");
+  }
+}
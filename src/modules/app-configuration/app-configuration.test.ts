@@ -11,6 +11,7 @@ import {
 } from "./metadata-manager";
 import { obfuscateValue, filterConfigValues, OBFUSCATION_DOTS } from "./utils";
 import { testEnv } from "@/__tests__/test-env.mjs";
+import { ConfigVersionConflictError } from "@/errors";
 
 describe("obfuscateValue", () => {
   it("obfuscates fully short values", () => {
@@ -90,23 +91,119 @@ describe("PublicMetadataAppConfigurator", () => {
       expect(onUpdate).toHaveBeenCalledWith([
         serializeSettingsToMetadata({
           key: "some-metadata",
-          value: JSON.stringify({}),
+          value: JSON.stringify({ version: 1 }),
           domain: testEnv.TEST_SALEOR_API_URL,
         }),
       ]);
 
       await manager.setConfig({ b: "b" }, true);
-      expect(onUpdate).toHaveBeenCalledWith([getMetadata({ b: "b" })]);
+      expect(onUpdate).toHaveBeenCalledWith([getMetadata({ b: "b", version: 2 })]);
     });
 
     it("saves only settings that have values", async () => {
       await managerEmpty.setConfig({ a: null, b: "b", c: undefined });
-      expect(onUpdate).toHaveBeenCalledWith([getMetadata({ b: "b" })]);
+      expect(onUpdate).toHaveBeenCalledWith([getMetadata({ b: "b", version: 1 })]);
     });
 
     it("merges new settings with existing ones", async () => {
       await manager.setConfig({ b: "b" });
-      expect(onUpdate).toHaveBeenCalledWith([getMetadata({ a: "a", b: "b" })]);
+      expect(onUpdate).toHaveBeenCalledWith([getMetadata({ a: "a", b: "b", version: 1 })]);
+    });
+
+    it("replaces arrays instead of merging them", async () => {
+      const managerWithList = new PublicMetadataAppConfiguration(
+        createWebhookPublicSettingsManager([getMetadata({ list: ["a", "b", "c"] })], onUpdate),
+        testEnv.TEST_SALEOR_API_URL,
+        KEY,
+      );
+
+      await managerWithList.setConfig({ list: ["c"] });
+      expect(onUpdate).toHaveBeenCalledWith([getMetadata({ list: ["c"], version: 1 })]);
+    });
+
+    it("increases version of the saved config", async () => {
+      const managerWithVersion = new PublicMetadataAppConfiguration(
+        createWebhookPublicSettingsManager([getMetadata({ a: "a", version: 3 })], onUpdate),
+        testEnv.TEST_SALEOR_API_URL,
+        KEY,
+      );
+
+      await managerWithVersion.setConfig({ b: "b" });
+      expect(onUpdate).toHaveBeenCalledWith([getMetadata({ a: "a", version: 4, b: "b" })]);
+    });
+
+    it("saves config when it wasn't changed since it was read", async () => {
+      const managerWithLatest = new PublicMetadataAppConfiguration(
+        createWebhookPublicSettingsManager([getMetadata({ a: "a", version: 3 })], onUpdate),
+        testEnv.TEST_SALEOR_API_URL,
+        KEY,
+        () => createWebhookPublicSettingsManager([getMetadata({ a: "a", version: 3 })]),
+      );
+
+      await managerWithLatest.setConfig({ b: "b" });
+      expect(onUpdate).toHaveBeenCalledWith([getMetadata({ a: "a", version: 4, b: "b" })]);
+    });
+
+    it("rejects config when someone else changed it since it was read", async () => {
+      const managerWithLatest = new PublicMetadataAppConfiguration(
+        createWebhookPublicSettingsManager([getMetadata({ a: "a", version: 3 })], onUpdate),
+        testEnv.TEST_SALEOR_API_URL,
+        KEY,
+        () => createWebhookPublicSettingsManager([getMetadata({ a: "changed", version: 4 })]),
+      );
+
+      await expect(managerWithLatest.setConfig({ b: "b" })).rejects.toThrow(
+        ConfigVersionConflictError,
+      );
+      expect(onUpdate).not.toHaveBeenCalled();
+    });
+
+    it("rejects config based on an older version than the saved one", async () => {
+      const managerWithExpectedVersion = new PublicMetadataAppConfiguration(
+        createWebhookPublicSettingsManager([getMetadata({ a: "a", version: 3 })], onUpdate),
+        testEnv.TEST_SALEOR_API_URL,
+        KEY,
+        undefined,
+        2,
+      );
+
+      await expect(managerWithExpectedVersion.assertExpectedVersion()).rejects.toThrow(
+        ConfigVersionConflictError,
+      );
+      await expect(managerWithExpectedVersion.setConfig({ b: "b" })).rejects.toThrow(
+        ConfigVersionConflictError,
+      );
+      expect(onUpdate).not.toHaveBeenCalled();
+    });
+
+    it("saves config based on the saved version", async () => {
+      const managerWithExpectedVersion = new PublicMetadataAppConfiguration(
+        createWebhookPublicSettingsManager([getMetadata({ a: "a", version: 3 })], onUpdate),
+        testEnv.TEST_SALEOR_API_URL,
+        KEY,
+        undefined,
+        3,
+      );
+
+      await managerWithExpectedVersion.assertExpectedVersion();
+      await managerWithExpectedVersion.setConfig({ b: "b" });
+      expect(onUpdate).toHaveBeenCalledWith([getMetadata({ a: "a", version: 4, b: "b" })]);
+    });
+
+    it("bases next write on the previous write of the same configurator", async () => {
+      const managerWithExpectedVersion = new PublicMetadataAppConfiguration(
+        createWebhookPublicSettingsManager([getMetadata({ a: "a", version: 3 })], onUpdate),
+        testEnv.TEST_SALEOR_API_URL,
+        KEY,
+        undefined,
+        3,
+      );
+
+      await managerWithExpectedVersion.setConfig({ b: "b" });
+      await managerWithExpectedVersion.setConfig({ c: "c" });
+      expect(onUpdate).toHaveBeenLastCalledWith([
+        getMetadata({ a: "a", version: 5, b: "b", c: "c" }),
+      ]);
     });
   });
 
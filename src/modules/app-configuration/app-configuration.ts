@@ -3,16 +3,28 @@ import {
   type MetadataEntry,
   type SettingsManager,
 } from "@saleor/app-sdk/settings-manager";
-import merge from "lodash-es/merge";
+import mergeWith from "lodash-es/mergeWith";
 import { toStringOrEmpty } from "../../lib/utils";
 import { filterConfigValues, obfuscateValue } from "./utils";
 import { logger as pinoLogger } from "@/lib/logger";
+import { ConfigVersionConflictError } from "@/errors";
 
 export interface GenericAppConfigurator<TConfig extends Record<string, unknown>> {
   setConfig(config: TConfig): Promise<void>;
   getConfig(): Promise<TConfig | undefined>;
 }
 
+// Arrays are always saved as a whole, merging them by index would keep removed items
+const replaceArrays = (_objValue: unknown, srcValue: unknown) =>
+  Array.isArray(srcValue) ? srcValue : undefined;
+
+/**
+ * Version of the stored config, increased with every write.
+ * Configs saved before versioning was introduced have version 0
+ */
+export const getConfigVersion = (config: Record<string, unknown> | undefined) =>
+  typeof config?.version === "number" ? config.version : 0;
+
 // Taken from @saleor/app-sdk/src/settings-manager
 export const serializeSettingsToMetadata = ({
   key,
@@ -37,10 +49,19 @@ export abstract class MetadataConfigurator<TConfig extends Record<string, unknow
     protected metadataManager: SettingsManager,
     protected saleorApiUrl: string,
     protected metadataKey: string,
+    /**
+     * Creates manager that fetches metadata again instead of using cached values.
+     * When it's passed, writes are rejected if someone else changed the config after it was read
+     */
+    protected createLatestMetadataManager?: () => SettingsManager,
+    /**
+     * Version of the config the change is based on, e.g. the one displayed in the dashboard.
+     * When it's missing, the version read by this configurator is used
+     */
+    protected expectedVersion?: number,
   ) {}
 
-  async getConfig(): Promise<TConfig | undefined> {
-    const data = await this.metadataManager.get(this.metadataKey, this.saleorApiUrl);
+  private parseConfig(data: string | undefined): TConfig | undefined {
     if (!data) {
       return undefined;
     }
@@ -52,6 +73,49 @@ export abstract class MetadataConfigurator<TConfig extends Record<string, unknow
     }
   }
 
+  async getConfig(): Promise<TConfig | undefined> {
+    const data = await this.metadataManager.get(this.metadataKey, this.saleorApiUrl);
+    return this.parseConfig(data);
+  }
+
+  private async getLatestConfig() {
+    if (!this.createLatestMetadataManager) {
+      return this.getConfig();
+    }
+    const data = await this.createLatestMetadataManager().get(this.metadataKey, this.saleorApiUrl);
+    return this.parseConfig(data);
+  }
+
+  /**
+   * Saleor metadata has no compare-and-set, so the version is checked against metadata
+   * fetched right before the write. Only writes made at the same moment can still collide
+   */
+  private async getLatestConfigOfExpectedVersion() {
+    const expectedVersion = this.expectedVersion ?? getConfigVersion(await this.getConfig());
+    const latestConfig = await this.getLatestConfig();
+    const version = getConfigVersion(latestConfig);
+    if (version !== expectedVersion) {
+      pinoLogger.info(
+        {
+          saleorApiUrl: this.saleorApiUrl,
+          metadataKey: this.metadataKey,
+          version,
+          expectedVersion,
+        },
+        "Config was changed in the meantime",
+      );
+      throw new ConfigVersionConflictError(
+        "Configuration was changed by someone else in the meantime, reload it and try again",
+      );
+    }
+    return { latestConfig, version };
+  }
+
+  /** Lets callers fail before they make changes outside of the config, e.g. in Stripe */
+  async assertExpectedVersion() {
+    await this.getLatestConfigOfExpectedVersion();
+  }
+
   async getRawConfig(
     prepareValue: (val: string) => string = (data) => data,
   ): Promise<MetadataEntry[]> {
@@ -78,13 +142,20 @@ export abstract class MetadataConfigurator<TConfig extends Record<string, unknow
       return;
     }
 
-    const existingConfig = replace ? {} : await this.getConfig();
+    const { latestConfig, version } = await this.getLatestConfigOfExpectedVersion();
 
-    return this.metadataManager.set({
+    const config = replace
+      ? filteredNewConfig
+      : mergeWith(latestConfig, filteredNewConfig, replaceArrays);
+    logger.debug({ version: version + 1 }, "Saving config in metadata");
+
+    await this.metadataManager.set({
       key: this.metadataKey,
-      value: JSON.stringify(merge(existingConfig, filteredNewConfig)),
+      value: JSON.stringify({ ...config, version: version + 1 }),
       domain: this.saleorApiUrl,
     });
+    // next write made with this configurator is based on this one
+    this.expectedVersion = version + 1;
   }
 
   async clearConfig() {
@@ -103,8 +174,14 @@ export class PublicMetadataAppConfiguration<
 export class PrivateMetadataAppConfigurator<
   TConfig extends Record<string, unknown>,
 > extends MetadataConfigurator<TConfig> {
-  constructor(metadataManager: SettingsManager, saleorApiUrl: string, metadataKey: string) {
-    super(metadataManager, saleorApiUrl, metadataKey);
+  constructor(
+    metadataManager: SettingsManager,
+    saleorApiUrl: string,
+    metadataKey: string,
+    createLatestMetadataManager?: () => SettingsManager,
+    expectedVersion?: number,
+  ) {
+    super(metadataManager, saleorApiUrl, metadataKey, createLatestMetadataManager, expectedVersion);
   }
 
   obfuscateConfig(config: TConfig): TConfig {
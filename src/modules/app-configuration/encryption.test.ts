@@ -0,0 +1,98 @@
+import { encrypt } from "@saleor/app-sdk/settings-manager";
+import { describe, it, expect } from "vitest";
+import {
+  MetadataDecryptionError,
+  decryptWithKeys,
+  encryptWithKey,
+  InvalidEncryptionKeyError,
+  parsePreviousEncryptionKeys,
+  reencryptMetadata,
+} from "./encryption";
+
+const currentKey = { id: "2024-06", secret: "current-secret" };
+const previousKey = { id: "2023-01", secret: "previous-secret" };
+const legacyKey = { id: null, secret: "legacy-secret" };
+
+describe("parsePreviousEncryptionKeys", () => {
+  it("parses comma-separated keyId:secret pairs", () => {
+    expect(parsePreviousEncryptionKeys("2023-01:previous-secret, old:sec:ret")).toEqual([
+      { id: "2023-01", secret: "previous-secret" },
+      { id: "old", secret: "sec:ret" },
+    ]);
+    expect(parsePreviousEncryptionKeys(undefined)).toEqual([]);
+  });
+
+  it("throws on entries that aren't keyId:secret pairs", () => {
+    expect(() => parsePreviousEncryptionKeys("2023-01:previous-secret,secret")).toThrow(
+      InvalidEncryptionKeyError,
+    );
+    expect(() => parsePreviousEncryptionKeys(":secret")).toThrow(InvalidEncryptionKeyError);
+    expect(() => parsePreviousEncryptionKeys("2023-01:")).toThrow(InvalidEncryptionKeyError);
+  });
+});
+
+describe("decryptWithKeys", () => {
+  it("decrypts value with the key matching its id", () => {
+    const value = encryptWithKey("data", previousKey);
+
+    expect(value.startsWith("2023-01:")).toBe(true);
+    expect(decryptWithKeys(value, [currentKey, previousKey])).toEqual({
+      value: "data",
+      key: previousKey,
+    });
+  });
+
+  it("tries each key for values without key id", () => {
+    const value = encrypt("data", "previous-secret");
+
+    expect(decryptWithKeys(value, [currentKey, previousKey])).toEqual({
+      value: "data",
+      key: previousKey,
+    });
+  });
+
+  it("throws for values encrypted with unknown key", () => {
+    expect(() => decryptWithKeys(encryptWithKey("data", previousKey), [currentKey])).toThrow(
+      MetadataDecryptionError,
+    );
+    expect(() => decryptWithKeys(encryptWithKey("data", legacyKey), [currentKey])).toThrow(
+      MetadataDecryptionError,
+    );
+  });
+});
+
+describe("reencryptMetadata", () => {
+  it("re-encrypts only values not encrypted with the current key", () => {
+    const keys = [currentKey, previousKey, legacyKey];
+    const metadata = [
+      { key: "current", value: encryptWithKey("current-data", currentKey) },
+      { key: "previous", value: encryptWithKey("previous-data", previousKey) },
+      { key: "legacy", value: encryptWithKey("legacy-data", legacyKey) },
+      { key: "current-without-id", value: encrypt("current-data", currentKey.secret) },
+      { key: "empty", value: "" },
+    ];
+
+    const reencryptedMetadata = reencryptMetadata(metadata, keys);
+
+    expect(reencryptedMetadata.map(({ key }) => key)).toEqual([
+      "previous",
+      "legacy",
+      "current-without-id",
+    ]);
+    reencryptedMetadata.forEach(({ value }) => {
+      expect(decryptWithKeys(value, [currentKey]).key).toBe(currentKey);
+    });
+  });
+
+  it("throws when any value can't be decrypted", () => {
+    expect(() =>
+      reencryptMetadata(
+        [
+          { key: "previous", value: encryptWithKey("previous-data", previousKey) },
+          { key: "unknown", value: encryptWithKey("data", { id: "unknown", secret: "unknown" }) },
+        ],
+        [currentKey, previousKey],
+      ),
+    ).toThrow(MetadataDecryptionError);
+  });
+});
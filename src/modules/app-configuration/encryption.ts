@@ -0,0 +1,119 @@
+import { decrypt, encrypt, type MetadataEntry } from "@saleor/app-sdk/settings-manager";
+import { env } from "@/lib/env.mjs";
+import { BaseError } from "@/errors";
+
+export const MetadataDecryptionError = BaseError.subclass("MetadataDecryptionError");
+export const InvalidEncryptionKeyError = BaseError.subclass("InvalidEncryptionKeyError");
+
+/**
+ * Values encrypted with a key that has an id are prefixed with it, e.g. `2024-06:<iv><ciphertext>`.
+ * Values without the prefix were encrypted before key ids were introduced
+ */
+export type EncryptionKey = {
+  id: string | null;
+  secret: string;
+};
+
+// Encrypted values are hex-encoded, so the separator never appears in them
+const KEY_ID_SEPARATOR = ":";
+
+/** Parses `keyId:secret` pairs separated with commas */
+export const parsePreviousEncryptionKeys = (value: string | undefined): EncryptionKey[] => {
+  if (!value) {
+    return [];
+  }
+
+  return value.split(",").map((pair, index) => {
+    const separatorIndex = pair.indexOf(KEY_ID_SEPARATOR);
+    const id = pair.slice(0, separatorIndex).trim();
+    const secret = pair.slice(separatorIndex + 1).trim();
+    // Secrets aren't included in the message, so it's safe to log
+    if (separatorIndex === -1 || !id || !secret) {
+      throw new InvalidEncryptionKeyError(
+        `Previous secret key at position ${index + 1} isn't a keyId:secret pair`,
+      );
+    }
+    return { id, secret };
+  });
+};
+
+/** Current key is always the first one */
+export const getEncryptionKeys = (): EncryptionKey[] => [
+  { id: env.SECRET_KEY_ID ?? null, secret: env.SECRET_KEY },
+  ...parsePreviousEncryptionKeys(env.PREVIOUS_SECRET_KEYS),
+];
+
+export const encryptWithKey = (value: string, key: EncryptionKey) => {
+  const encryptedValue = encrypt(value, key.secret);
+  return key.id ? [key.id, encryptedValue].join(KEY_ID_SEPARATOR) : encryptedValue;
+};
+
+// Wrong key fails padding check most of the time, otherwise it returns bytes that aren't valid UTF-8
+const UTF8_REPLACEMENT_CHARACTER = "�";
+
+const tryDecrypt = (value: string, key: EncryptionKey) => {
+  try {
+    const decryptedValue = decrypt(value, key.secret);
+    return decryptedValue.includes(UTF8_REPLACEMENT_CHARACTER) ? null : decryptedValue;
+  } catch (e) {
+    return null;
+  }
+};
+
+/** Returns decrypted value and the key that was used to encrypt it */
+export const decryptWithKeys = (value: string, keys: EncryptionKey[]) => {
+  const separatorIndex = value.indexOf(KEY_ID_SEPARATOR);
+  if (separatorIndex !== -1) {
+    const keyId = value.slice(0, separatorIndex);
+    const key = keys.find((key) => key.id === keyId);
+    if (!key) {
+      throw new MetadataDecryptionError(`Value is encrypted with unknown key "${keyId}"`);
+    }
+
+    const decryptedValue = tryDecrypt(value.slice(separatorIndex + 1), key);
+    if (decryptedValue === null) {
+      throw new MetadataDecryptionError(`Value can't be decrypted with key "${keyId}"`);
+    }
+    return { value: decryptedValue, key };
+  }
+
+  // Values without key id are decrypted with each key until one of them works
+  for (const key of keys) {
+    const decryptedValue = tryDecrypt(value, key);
+    if (decryptedValue !== null) {
+      return { value: decryptedValue, key };
+    }
+  }
+  throw new MetadataDecryptionError("Value can't be decrypted with any of the keys");
+};
+
+export const encryptMetadataValue = (value: string) => {
+  const [currentKey] = getEncryptionKeys();
+  return encryptWithKey(value, currentKey);
+};
+
+export const decryptMetadataValue = (value: string) =>
+  decryptWithKeys(value, getEncryptionKeys()).value;
+
+/**
+ * Returns metadata entries that aren't encrypted with the current key yet,
+ * encrypted again with the current key
+ */
+export const reencryptMetadata = (metadata: MetadataEntry[], keys: EncryptionKey[]) => {
+  const [currentKey] = keys;
+
+  return metadata.flatMap((entry) => {
+    if (!entry.value) {
+      return [];
+    }
+
+    const { value, key } = decryptWithKeys(entry.value, keys);
+    // Values encrypted with the current key before it got an id are saved again with the id
+    const hasCurrentKeyId =
+      !currentKey.id || entry.value.startsWith(`${currentKey.id}${KEY_ID_SEPARATOR}`);
+    if (key === currentKey && hasCurrentKeyId) {
+      return [];
+    }
+    return [{ key: entry.key, value: encryptWithKey(value, currentKey) }];
+  });
+};
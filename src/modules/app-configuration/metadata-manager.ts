@@ -11,6 +11,7 @@ import {
   UpdateAppMetadataDocument,
   UpdatePublicMetadataDocument,
 } from "../../../generated/graphql";
+import { decryptMetadataValue, encryptMetadataValue } from "./encryption";
 import { env } from "@/lib/env.mjs";
 
 export async function fetchAllMetadata(client: Client): Promise<MetadataEntry[]> {
@@ -108,6 +109,9 @@ export const createPrivateSettingsManager = (client: Client) => {
   return new EncryptedMetadataManager({
     // Secret key should be randomly created for production and set as environment variable
     encryptionKey: env.SECRET_KEY,
+    // Values are encrypted with the current key, previous keys are used only for decryption
+    encryptionMethod: encryptMetadataValue,
+    decryptionMethod: decryptMetadataValue,
     fetchMetadata: () => fetchAllMetadata(client),
     mutateMetadata: (metadata) => mutatePrivateMetadata(client, metadata),
   }) as BrandedEncryptedMetadataManager;
@@ -126,6 +130,8 @@ export const createWebhookPrivateSettingsManager = (
 ) => {
   return new EncryptedMetadataManager({
     encryptionKey: env.SECRET_KEY,
+    encryptionMethod: encryptMetadataValue,
+    decryptionMethod: decryptMetadataValue,
     fetchMetadata: () => Promise.resolve(data),
     mutateMetadata: onUpdate ?? (() => Promise.resolve([])),
   }) as BrandedEncryptedMetadataManager;
@@ -0,0 +1,44 @@
+import { type AuditLogStore } from "./audit-log-store";
+import { MemoryAuditLogStore } from "./memory-audit-log-store";
+import { FileAuditLogStore } from "./file-audit-log-store";
+import { UpstashAuditLogStore } from "./upstash-audit-log-store";
+import { env } from "@/lib/env.mjs";
+import { invariant } from "@/lib/invariant";
+import { isTest } from "@/lib/isEnv";
+
+/**
+ * Store is picked the same way as APL in `saleor-app.ts`.
+ * Set `AUDIT_LOG_STORE` to use a different backend than APL
+ */
+const createAuditLogStore = (): AuditLogStore => {
+  if (isTest()) {
+    return new MemoryAuditLogStore();
+  }
+
+  const storeType = env.AUDIT_LOG_STORE ?? (env.APL === "upstash" ? "upstash" : "file");
+
+  /* c8 ignore start */
+  switch (storeType) {
+    case "upstash":
+      invariant(env.UPSTASH_URL, "Missing UPSTASH_URL env variable!");
+      invariant(env.UPSTASH_TOKEN, "Missing UPSTASH_TOKEN env variable!");
+      return new UpstashAuditLogStore({
+        restURL: env.UPSTASH_URL,
+        restToken: env.UPSTASH_TOKEN,
+      });
+    case "memory":
+      return new MemoryAuditLogStore();
+    case "file":
+      return new FileAuditLogStore();
+  }
+  /* c8 ignore stop */
+};
+
+let auditLogStore: AuditLogStore | undefined;
+
+export const getAuditLogStore = () => {
+  if (!auditLogStore) {
+    auditLogStore = createAuditLogStore();
+  }
+  return auditLogStore;
+};
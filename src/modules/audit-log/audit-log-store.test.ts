@@ -0,0 +1,65 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, it, expect, afterEach, beforeEach } from "vitest";
+import { type AuditLogEntry } from "./audit-log-store";
+import { MemoryAuditLogStore } from "./memory-audit-log-store";
+import { FileAuditLogStore } from "./file-audit-log-store";
+
+const saleorApiUrl = "https://saleor.localhost:8080/graphql/";
+
+const createAuditLogEntry = (id: string): AuditLogEntry => ({
+  id,
+  createdAt: new Date().toISOString(),
+  action: "mapping.updated",
+  user: { id: "VXNlcjox", email: "admin@example.com" },
+  changes: [{ path: "channelToConfigurationId.1", before: null, after: "config-id" }],
+});
+
+describe("MemoryAuditLogStore", () => {
+  it("lists entries per Saleor instance, newest first", async () => {
+    const store = new MemoryAuditLogStore();
+
+    await store.append(saleorApiUrl, createAuditLogEntry("1"));
+    await store.append(saleorApiUrl, createAuditLogEntry("2"));
+
+    expect((await store.list(saleorApiUrl)).map(({ id }) => id)).toEqual(["2", "1"]);
+    expect(await store.list("https://other.localhost:8080/graphql/")).toEqual([]);
+  });
+
+  it("lists only the newest entries up to the limit", async () => {
+    const store = new MemoryAuditLogStore();
+
+    await store.append(saleorApiUrl, createAuditLogEntry("1"));
+    await store.append(saleorApiUrl, createAuditLogEntry("2"));
+
+    expect((await store.list(saleorApiUrl, 1)).map(({ id }) => id)).toEqual(["2"]);
+  });
+});
+
+describe("FileAuditLogStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "audit-log-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("returns empty list when file doesn't exist", async () => {
+    const store = new FileAuditLogStore({ fileName: path.join(dir, "audit-log.json") });
+
+    expect(await store.list(saleorApiUrl)).toEqual([]);
+  });
+
+  it("stores entries in file", async () => {
+    const fileName = path.join(dir, "audit-log.json");
+    const entry = createAuditLogEntry("1");
+
+    await new FileAuditLogStore({ fileName }).append(saleorApiUrl, entry);
+
+    expect(await new FileAuditLogStore({ fileName }).list(saleorApiUrl)).toEqual([entry]);
+  });
+});
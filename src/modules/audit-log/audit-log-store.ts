@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+export const auditLogActionSchema = z.enum([
+  "configuration.created",
+  "configuration.updated",
+  "configuration.deleted",
+  "configuration.imported",
+  "secretKey.rotated",
+  "webhook.repaired",
+  "mapping.updated",
+  "channelRules.updated",
+  "channelEnvironment.updated",
+]);
+
+// Dashboard user that made the change, taken from the JWT
+export const auditLogUserSchema = z.object({
+  id: z.string().nullable(),
+  email: z.string().nullable(),
+});
+
+// Secrets are obfuscated before they're stored
+export const auditLogChangeSchema = z.object({
+  path: z.string().min(1),
+  before: z.unknown(),
+  after: z.unknown(),
+});
+
+export const auditLogEntrySchema = z.object({
+  id: z.string().min(1),
+  createdAt: z.string().datetime(),
+  action: auditLogActionSchema,
+  user: auditLogUserSchema.nullable(),
+  changes: auditLogChangeSchema.array(),
+});
+
+export type AuditLogAction = z.infer<typeof auditLogActionSchema>;
+export type AuditLogUser = z.infer<typeof auditLogUserSchema>;
+export type AuditLogChange = z.infer<typeof auditLogChangeSchema>;
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>;
+
+/**
+ * Append-only log of configuration changes for given Saleor instance.
+ * `list` returns the newest entries first
+ */
+export interface AuditLogStore {
+  append(saleorApiUrl: string, entry: AuditLogEntry): Promise<void>;
+  list(saleorApiUrl: string, limit?: number): Promise<AuditLogEntry[]>;
+}
+
+export const DEFAULT_AUDIT_LOG_LIST_LIMIT = 100;
@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { protectedClientProcedure } from "../trpc/protected-client-procedure";
+import { router } from "../trpc/trpc-server";
+import { auditLogEntrySchema, DEFAULT_AUDIT_LOG_LIST_LIMIT } from "./audit-log-store";
+import { getAuditLogStore } from "./audit-log-store-factory";
+
+export const auditLogRouter = router({
+  list: protectedClientProcedure
+    .input(
+      z
+        .object({ limit: z.number().int().positive().max(1000) })
+        .default({ limit: DEFAULT_AUDIT_LOG_LIST_LIMIT }),
+    )
+    .output(auditLogEntrySchema.array())
+    .query(async ({ input, ctx }) => {
+      ctx.logger.info({ limit: input.limit }, "auditLogRouter.list called");
+      return getAuditLogStore().list(ctx.saleorApiUrl, input.limit);
+    }),
+});
@@ -0,0 +1,93 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { describe, it, expect, vi } from "vitest";
+import { diffAppConfig, withAuditLog } from "./audit-log";
+import { getAuditLogStore } from "./audit-log-store-factory";
+import { configEntryAll } from "@/modules/payment-app-configuration/__tests__/mocks";
+import { type PaymentAppConfig } from "@/modules/payment-app-configuration/app-config";
+import { type PaymentAppConfigurator } from "@/modules/payment-app-configuration/payment-app-configuration";
+import { OBFUSCATION_DOTS } from "@/modules/app-configuration/utils";
+import { testEnv } from "@/__tests__/test-env.mjs";
+
+describe("diffAppConfig", () => {
+  it("returns changed fields with obfuscated secrets", () => {
+    const before: PaymentAppConfig = {
+      configurations: [configEntryAll],
+      channelToConfigurationId: { "channel-1": null },
+    };
+    const after: PaymentAppConfig = {
+      configurations: [{ ...configEntryAll, secretKey: "sk_new-secret-key" }],
+      channelToConfigurationId: { "channel-1": configEntryAll.configurationId },
+    };
+
+    expect(diffAppConfig(before, after)).toEqual([
+      {
+        path: `configurations.${configEntryAll.configurationId}.secretKey`,
+        before: `${OBFUSCATION_DOTS}-key`,
+        after: `${OBFUSCATION_DOTS}-key`,
+      },
+      {
+        path: "channelToConfigurationId.channel-1",
+        before: null,
+        after: configEntryAll.configurationId,
+      },
+    ]);
+  });
+
+  it("returns fields of removed configuration", () => {
+    const changes = diffAppConfig(
+      { configurations: [configEntryAll], channelToConfigurationId: {} },
+      { configurations: [], channelToConfigurationId: {} },
+    );
+
+    expect(changes).toContainEqual({
+      path: `configurations.${configEntryAll.configurationId}.configurationName`,
+      before: configEntryAll.configurationName,
+      after: null,
+    });
+    expect(changes.every((change) => change.after === null)).toBe(true);
+  });
+});
+
+describe("withAuditLog", () => {
+  const user = { id: "VXNlcjox", email: "admin@example.com" };
+
+  it("appends entry with changes made by the user", async () => {
+    const configurator = {
+      getConfig: vi
+        .fn()
+        .mockResolvedValueOnce({ configurations: [], channelToConfigurationId: {} })
+        .mockResolvedValueOnce({ configurations: [], channelToConfigurationId: { "1": "id" } }),
+      saleorApiUrl: testEnv.TEST_SALEOR_API_URL,
+    } as unknown as PaymentAppConfigurator;
+
+    const result = await withAuditLog(
+      { configurator, user, action: "mapping.updated" },
+      async () => "result",
+    );
+
+    expect(result).toBe("result");
+    const [entry] = await getAuditLogStore().list(testEnv.TEST_SALEOR_API_URL);
+    expect(entry).toEqual({
+      id: expect.any(String),
+      createdAt: expect.any(String),
+      action: "mapping.updated",
+      user,
+      changes: [{ path: "channelToConfigurationId.1", before: null, after: "id" }],
+    });
+  });
+
+  it("doesn't append entry when the change fails", async () => {
+    const saleorApiUrl = "https://failed.localhost:8080/graphql/";
+    const configurator = {
+      getConfig: vi.fn(async () => ({ configurations: [], channelToConfigurationId: {} })),
+      saleorApiUrl,
+    } as unknown as PaymentAppConfigurator;
+
+    await expect(
+      withAuditLog({ configurator, user, action: "configuration.deleted" }, async () => {
+        throw new Error("Entry was not found");
+      }),
+    ).rejects.toThrow("Entry was not found");
+    expect(await getAuditLogStore().list(saleorApiUrl)).toEqual([]);
+  });
+});
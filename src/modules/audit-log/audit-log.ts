@@ -0,0 +1,110 @@
+import { uuidv7 } from "uuidv7";
+import { type AuditLogAction, type AuditLogChange, type AuditLogUser } from "./audit-log-store";
+import { getAuditLogStore } from "./audit-log-store-factory";
+import { type PaymentAppConfig } from "@/modules/payment-app-configuration/app-config";
+import { type PaymentAppConfigurator } from "@/modules/payment-app-configuration/payment-app-configuration";
+import { obfuscateValue } from "@/modules/app-configuration/utils";
+import { createLogger, redactError } from "@/lib/logger";
+import { unpackPromise } from "@/lib/utils";
+
+const secretFields = ["secretKey", "webhookSecret", "previousSecretKey"];
+
+const redactChangeValue = (path: string, value: unknown) =>
+  typeof value === "string" && secretFields.includes(path.split(".").at(-1) ?? "")
+    ? obfuscateValue(value)
+    : value;
+
+// Configurations are keyed by their ID, so that removing one doesn't shift the others
+const flattenAppConfig = ({
+  configurations,
+  lastMigration: _lastMigration,
+  ...channelSettings
+}: PaymentAppConfig) => {
+  const values = new Map<string, unknown>();
+  for (const entry of configurations) {
+    for (const [field, value] of Object.entries(entry)) {
+      values.set(`configurations.${entry.configurationId}.${field}`, value);
+    }
+  }
+  for (const [key, value] of Object.entries(channelSettings)) {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      for (const [nestedKey, nestedValue] of Object.entries(value)) {
+        values.set(`${key}.${nestedKey}`, nestedValue);
+      }
+    } else {
+      values.set(key, value);
+    }
+  }
+  return values;
+};
+
+/** Changed fields of app config, secrets are compared before they're obfuscated */
+export const diffAppConfig = (before: PaymentAppConfig, after: PaymentAppConfig) => {
+  const beforeValues = flattenAppConfig(before);
+  const afterValues = flattenAppConfig(after);
+  const paths = new Set([...beforeValues.keys(), ...afterValues.keys()]);
+
+  return [...paths].flatMap((path): AuditLogChange[] => {
+    const beforeValue = beforeValues.get(path) ?? null;
+    const afterValue = afterValues.get(path) ?? null;
+    if (JSON.stringify(beforeValue) === JSON.stringify(afterValue)) {
+      return [];
+    }
+    return [
+      {
+        path,
+        before: redactChangeValue(path, beforeValue),
+        after: redactChangeValue(path, afterValue),
+      },
+    ];
+  });
+};
+
+/**
+ * Runs the change and appends what it changed in app config to the audit log.
+ * The change isn't reverted when the entry can't be saved, the error is only logged
+ */
+export const withAuditLog = async <T>(
+  {
+    configurator,
+    user,
+    action,
+  }: {
+    configurator: PaymentAppConfigurator;
+    user: AuditLogUser | null;
+    action: AuditLogAction;
+  },
+  change: () => Promise<T>,
+): Promise<T> => {
+  const logger = createLogger(
+    { saleorApiUrl: configurator.saleorApiUrl, action },
+    { msgPrefix: "[withAuditLog] " },
+  );
+
+  const before = await configurator.getConfig();
+  const result = await change();
+  const after = await configurator.getConfig();
+
+  const changes = diffAppConfig(before, after);
+  if (changes.length === 0) {
+    logger.debug("Nothing changed, skipping audit log entry");
+    return result;
+  }
+
+  const [err] = await unpackPromise(
+    getAuditLogStore().append(configurator.saleorApiUrl, {
+      id: uuidv7(),
+      createdAt: new Date().toISOString(),
+      action,
+      user,
+      changes,
+    }),
+  );
+  if (err) {
+    logger.error({ err: redactError(err) }, "Couldn't save audit log entry");
+  } else {
+    logger.info({ changesLength: changes.length }, "Audit log entry saved");
+  }
+
+  return result;
+};
@@ -0,0 +1,51 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { z } from "zod";
+import {
+  type AuditLogEntry,
+  auditLogEntrySchema,
+  type AuditLogStore,
+  DEFAULT_AUDIT_LOG_LIST_LIMIT,
+} from "./audit-log-store";
+import { createLogger, redactError } from "@/lib/logger";
+
+const auditLogFileSchema = z.record(z.string(), auditLogEntrySchema.array());
+
+type AuditLogFile = z.infer<typeof auditLogFileSchema>;
+
+/**
+ * Stores entries in a JSON file, similar to FileAPL.
+ * Not suitable for serverless or multi-instance deployments, use Upstash there
+ */
+export class FileAuditLogStore implements AuditLogStore {
+  private fileName: string;
+
+  constructor({ fileName = ".stripe-audit-log.json" }: { fileName?: string } = {}) {
+    this.fileName = fileName;
+  }
+
+  private async readEntries(): Promise<AuditLogFile> {
+    const logger = createLogger({ fileName: this.fileName }, { msgPrefix: "[FileAuditLogStore] " });
+
+    try {
+      const content = await readFile(this.fileName, "utf-8");
+      return auditLogFileSchema.parse(JSON.parse(content));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn({ err: redactError(err) }, "Couldn't read audit log file");
+      }
+      return {};
+    }
+  }
+
+  async append(saleorApiUrl: string, entry: AuditLogEntry) {
+    const entries = await this.readEntries();
+    entries[saleorApiUrl] = [...(entries[saleorApiUrl] ?? []), entry];
+
+    await writeFile(this.fileName, JSON.stringify(entries));
+  }
+
+  async list(saleorApiUrl: string, limit = DEFAULT_AUDIT_LOG_LIST_LIMIT) {
+    const entries = await this.readEntries();
+    return (entries[saleorApiUrl] ?? []).slice(-limit).reverse();
+  }
+}
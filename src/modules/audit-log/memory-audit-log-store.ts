@@ -0,0 +1,18 @@
+import {
+  type AuditLogEntry,
+  type AuditLogStore,
+  DEFAULT_AUDIT_LOG_LIST_LIMIT,
+} from "./audit-log-store";
+
+/** Keeps entries only for the lifetime of the process, use it for development and tests */
+export class MemoryAuditLogStore implements AuditLogStore {
+  private entries = new Map<string, AuditLogEntry[]>();
+
+  async append(saleorApiUrl: string, entry: AuditLogEntry) {
+    this.entries.set(saleorApiUrl, [...(this.entries.get(saleorApiUrl) ?? []), entry]);
+  }
+
+  async list(saleorApiUrl: string, limit = DEFAULT_AUDIT_LOG_LIST_LIMIT) {
+    return (this.entries.get(saleorApiUrl) ?? []).slice(-limit).reverse();
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  type AuditLogEntry,
+  auditLogEntrySchema,
+  type AuditLogStore,
+  DEFAULT_AUDIT_LOG_LIST_LIMIT,
+} from "./audit-log-store";
+import { UpstashCommandError } from "@/modules/processed-events/upstash-processed-event-store";
+import { HttpRequestError } from "@/errors";
+
+const KEY_PREFIX = "stripe-audit-log:";
+
+/** Stores entries in Upstash Redis list per Saleor instance, same as UpstashAPL */
+export class UpstashAuditLogStore implements AuditLogStore {
+  private restURL: string;
+  private restToken: string;
+
+  constructor({ restURL, restToken }: { restURL: string; restToken: string }) {
+    this.restURL = restURL;
+    this.restToken = restToken;
+  }
+
+  private async command(command: Array<string | number>): Promise<unknown> {
+    const response = await fetch(this.restURL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.restToken}`,
+      },
+      body: JSON.stringify(command),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new HttpRequestError(`Upstash responded with ${response.status}`, {
+        props: {
+          statusCode: response.status,
+          body,
+          headers: Object.fromEntries(response.headers.entries()),
+        },
+      });
+    }
+
+    const { result, error } = (await response.json()) as { result?: unknown; error?: string };
+    if (error) {
+      throw new UpstashCommandError(error);
+    }
+    return result;
+  }
+
+  async append(saleorApiUrl: string, entry: AuditLogEntry) {
+    await this.command(["RPUSH", KEY_PREFIX + saleorApiUrl, JSON.stringify(entry)]);
+  }
+
+  async list(saleorApiUrl: string, limit = DEFAULT_AUDIT_LOG_LIST_LIMIT) {
+    const result = await this.command(["LRANGE", KEY_PREFIX + saleorApiUrl, -limit, -1]);
+    if (!Array.isArray(result)) {
+      return [];
+    }
+    return result.map((entry) => auditLogEntrySchema.parse(JSON.parse(String(entry)))).reverse();
+  }
+}
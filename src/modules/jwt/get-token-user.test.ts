@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { SignJWT } from "jose";
+import { getTokenUser } from "./get-token-user";
+
+describe("getTokenUser", () => {
+  const secretKey = new TextEncoder().encode("test");
+
+  it("returns dashboard user from token claims", async () => {
+    const jwt = await new SignJWT({ user_id: "VXNlcjox", email: "admin@example.com" })
+      .setProtectedHeader({ alg: "HS256" })
+      .sign(secretKey);
+    expect(getTokenUser(jwt)).toEqual({ id: "VXNlcjox", email: "admin@example.com" });
+  });
+
+  it("returns null if token doesn't have user claims", async () => {
+    const jwt = await new SignJWT({ id: "12345" })
+      .setProtectedHeader({ alg: "HS256" })
+      .sign(secretKey);
+    expect(getTokenUser(jwt)).toBeNull();
+  });
+});
@@ -0,0 +1,18 @@
+import { decodeJwt } from "jose";
+import { z } from "zod";
+import { type AuditLogUser } from "@/modules/audit-log/audit-log-store";
+
+const dashboardTokenClaimsSchema = z.object({
+  user_id: z.string().optional(),
+  email: z.string().optional(),
+});
+
+/** Dashboard user that the token was issued for, token must be verified before */
+export const getTokenUser = (token: string): AuditLogUser | null => {
+  const claims = dashboardTokenClaimsSchema.safeParse(decodeJwt(token));
+  if (!claims.success || (!claims.data.user_id && !claims.data.email)) {
+    return null;
+  }
+
+  return { id: claims.data.user_id ?? null, email: claims.data.email ?? null };
+};
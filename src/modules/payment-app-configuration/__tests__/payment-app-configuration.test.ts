@@ -210,6 +210,48 @@ describe("PaymentAppConfigurator", () => {
 
       expect(setConfig).toHaveBeenCalledWith(newConfig, true);
     });
+
+    it("should remove expired previous secret keys and keep active ones", async () => {
+      const expiredEntry: PaymentAppConfigEntry = {
+        ...configEntryAll,
+        previousSecretKey: "sk_test_expired",
+        previousSecretKeyExpiresAt: new Date(Date.now() - 1000).toISOString(),
+      };
+      const activeEntry: PaymentAppConfigEntry = {
+        ...configEntryAll,
+        configurationId: "active-mock-id",
+        previousSecretKey: "sk_test_active",
+        previousSecretKeyExpiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      };
+      const setConfig = vi.spyOn(configuratorMock, "setConfig");
+
+      await appConfigurator.setConfig({ configurations: [expiredEntry, activeEntry] });
+
+      expect(setConfig).toHaveBeenCalledWith(
+        { configurations: [configEntryAll, activeEntry] },
+        false,
+      );
+    });
+
+    it("should remove expired previous secret keys when other settings are saved", async () => {
+      const expiredEntry: PaymentAppConfigEntry = {
+        ...configEntryAll,
+        previousSecretKey: "sk_test_expired",
+        previousSecretKeyExpiresAt: new Date(Date.now() - 1000).toISOString(),
+      };
+      vi.spyOn(appConfigurator, "getConfig").mockResolvedValue({
+        configurations: [expiredEntry],
+        channelToConfigurationId: {},
+      });
+      const setConfig = vi.spyOn(configuratorMock, "setConfig");
+
+      await appConfigurator.setConfig({ channelToConfigurationId: { "channel-1": "mock-id" } });
+
+      expect(setConfig).toHaveBeenCalledWith(
+        { channelToConfigurationId: { "channel-1": "mock-id" }, configurations: [configEntryAll] },
+        false,
+      );
+    });
   });
 
   describe("clearConfig", () => {
@@ -3,6 +3,8 @@ import {
   paymentAppConfigEntrySchema,
   paymentAppUserVisibleConfigEntrySchema,
 } from "./config-entry";
+import { channelRulesSchema } from "./channel-rules";
+import { channelEnvironmentSchema } from "./channel-environment";
 
 export const paymentAppConfigEntriesSchema = paymentAppConfigEntrySchema.array();
 export const paymentAppUserVisibleConfigEntriesSchema =
@@ -15,10 +17,16 @@ export const channelMappingSchema = z
 
 export type ChannelMapping = z.infer<typeof channelMappingSchema>;
 
+// Used for channels without configuration assigned and not matching any rule
+export const defaultConfigurationIdSchema = z.string().min(1).nullish();
+
 export const paymentAppConfigSchema = z
   .object({
     configurations: paymentAppConfigEntriesSchema,
     channelToConfigurationId: channelMappingSchema,
+    channelRules: channelRulesSchema,
+    defaultConfigurationId: defaultConfigurationIdSchema,
+    channelEnvironment: channelEnvironmentSchema.optional(),
     lastMigration: z.number().nullish(),
   })
   .default({
@@ -31,6 +39,9 @@ export const paymentAppUserVisibleConfigSchema = z
   .object({
     configurations: paymentAppUserVisibleConfigEntriesSchema,
     channelToConfigurationId: channelMappingSchema,
+    channelRules: channelRulesSchema,
+    defaultConfigurationId: defaultConfigurationIdSchema,
+    channelEnvironment: channelEnvironmentSchema.optional(),
   })
   .default({
     configurations: [],
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { getEnvironmentFromKey } from "../stripe/stripe-api";
+import { type PaymentAppUserVisibleConfigEntry } from "./config-entry";
+
+export const stripeEnvironmentSchema = z.enum(["live", "test"]);
+export type StripeEnvironment = z.infer<typeof stripeEnvironmentSchema>;
+
+// Record<ChannelID, environment the channel is tagged with>, untagged channels aren't checked
+export const channelEnvironmentSchema = z.record(z.string().min(1), stripeEnvironmentSchema);
+export type ChannelEnvironment = z.infer<typeof channelEnvironmentSchema>;
+
+export const getChannelEnvironmentWarning = (
+  channelEnvironment: StripeEnvironment | null | undefined,
+  configuration: Pick<PaymentAppUserVisibleConfigEntry, "configurationName" | "publishableKey">,
+) => {
+  if (
+    !channelEnvironment ||
+    channelEnvironment === getEnvironmentFromKey(configuration.publishableKey)
+  ) {
+    return null;
+  }
+
+  return channelEnvironment === "live"
+    ? `Production channel uses configuration "${configuration.configurationName}" with Stripe test keys, payments won't be charged`
+    : `Test channel uses configuration "${configuration.configurationName}" with Stripe live keys, payments will be charged`;
+};
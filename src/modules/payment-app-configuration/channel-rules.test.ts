@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  channelMatchesRule,
+  resolveChannelConfiguration,
+  type ChannelRulesConfig,
+} from "./channel-rules";
+
+describe("channelMatchesRule", () => {
+  it.each([
+    ["eu-*", "eu-poland", true],
+    ["eu-*", "EU-Germany", true],
+    ["eu-*", "us-default", false],
+    ["shop-?", "shop-1", true],
+    ["shop-?", "shop-12", false],
+    ["shop.pl", "shopxpl", false],
+  ])("slug pattern %s matching %s should be %s", (pattern, slug, expected) => {
+    expect(
+      channelMatchesRule({ id: "1", slug }, { type: "slug", pattern, configurationId: "c" }),
+    ).toBe(expected);
+  });
+
+  it("should match currency case-insensitively", () => {
+    const rule = { type: "currency", pattern: "eur", configurationId: "c" } as const;
+
+    expect(channelMatchesRule({ id: "1", currencyCode: "EUR" }, rule)).toBe(true);
+    expect(channelMatchesRule({ id: "1", currencyCode: "PLN" }, rule)).toBe(false);
+    expect(channelMatchesRule({ id: "1" }, rule)).toBe(false);
+  });
+});
+
+describe("resolveChannelConfiguration", () => {
+  const config: ChannelRulesConfig = {
+    channelToConfigurationId: { "channel-1": "explicit", "channel-2": null },
+    channelRules: [
+      { type: "slug", pattern: "eu-*", configurationId: "eu" },
+      { type: "currency", pattern: "EUR", configurationId: "euro" },
+    ],
+    defaultConfigurationId: "fallback",
+  };
+
+  it("should prefer configuration assigned to the channel", () => {
+    expect(
+      resolveChannelConfiguration(config, {
+        id: "channel-1",
+        slug: "eu-poland",
+        currencyCode: "EUR",
+      }),
+    ).toEqual({ configurationId: "explicit", resolvedBy: "channel" });
+  });
+
+  it("should use the first matching rule", () => {
+    expect(
+      resolveChannelConfiguration(config, {
+        id: "channel-2",
+        slug: "eu-poland",
+        currencyCode: "EUR",
+      }),
+    ).toEqual({ configurationId: "eu", resolvedBy: "rule", ruleIndex: 0 });
+    expect(
+      resolveChannelConfiguration(config, {
+        id: "channel-3",
+        slug: "us-shop",
+        currencyCode: "EUR",
+      }),
+    ).toEqual({ configurationId: "euro", resolvedBy: "rule", ruleIndex: 1 });
+  });
+
+  it("should fall back to the default configuration", () => {
+    expect(
+      resolveChannelConfiguration(config, {
+        id: "channel-3",
+        slug: "us-shop",
+        currencyCode: "USD",
+      }),
+    ).toEqual({ configurationId: "fallback", resolvedBy: "default" });
+  });
+
+  it("should return null when nothing matches and there is no default", () => {
+    expect(
+      resolveChannelConfiguration(
+        { ...config, defaultConfigurationId: null },
+        { id: "channel-3", slug: "us-shop", currencyCode: "USD" },
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { z } from "zod";
+
+/**
+ * - `slug` - channel slug matches glob pattern, e.g. `eu-*`
+ * - `currency` - channel currency code equals the pattern, e.g. `EUR`
+ */
+export const channelRuleTypeSchema = z.enum(["slug", "currency"]);
+export type ChannelRuleType = z.infer<typeof channelRuleTypeSchema>;
+
+export const channelRuleSchema = z.object({
+  type: channelRuleTypeSchema,
+  pattern: z.string().trim().min(1),
+  configurationId: z.string().min(1),
+});
+export type ChannelRule = z.infer<typeof channelRuleSchema>;
+
+export const channelRulesSchema = channelRuleSchema.array().optional();
+
+export type ChannelRulesConfig = {
+  channelToConfigurationId: Record<string, string | null>;
+  channelRules?: ChannelRule[];
+  defaultConfigurationId?: string | null;
+};
+
+export type RulesChannel = {
+  id: string;
+  slug?: string | null;
+  currencyCode?: string | null;
+};
+
+/**
+ * - `channel` - configuration assigned to the channel
+ * - `rule` - first matching rule, `ruleIndex` is its position in the list
+ * - `default` - default configuration used when nothing else matched
+ */
+export type ChannelConfigurationResolution =
+  | { configurationId: string; resolvedBy: "channel" }
+  | { configurationId: string; resolvedBy: "rule"; ruleIndex: number }
+  | { configurationId: string; resolvedBy: "default" };
+
+// Only `*` and `?` wildcards are supported, everything else is matched literally
+const globToRegExp = (pattern: string) => {
+  const escapedPattern = pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escapedPattern.replace(/\\\*/g, ".*").replace(/\\\?/g, ".")}$`, "i");
+};
+
+export const channelMatchesRule = (channel: RulesChannel, rule: ChannelRule) => {
+  switch (rule.type) {
+    case "slug":
+      return !!channel.slug && globToRegExp(rule.pattern).test(channel.slug);
+    case "currency":
+      return channel.currencyCode?.toUpperCase() === rule.pattern.toUpperCase();
+  }
+};
+
+/**
+ * Configuration assigned to the channel wins, then rules are checked in their order,
+ * and the default configuration is used last
+ */
+export const resolveChannelConfiguration = (
+  config: ChannelRulesConfig,
+  channel: RulesChannel,
+): ChannelConfigurationResolution | null => {
+  const channelConfigurationId = config.channelToConfigurationId[channel.id];
+  if (channelConfigurationId) {
+    return { configurationId: channelConfigurationId, resolvedBy: "channel" };
+  }
+
+  const ruleIndex = (config.channelRules ?? []).findIndex((rule) =>
+    channelMatchesRule(channel, rule),
+  );
+  const rule = config.channelRules?.[ruleIndex];
+  if (rule) {
+    return { configurationId: rule.configurationId, resolvedBy: "rule", ruleIndex };
+  }
+
+  if (config.defaultConfigurationId) {
+    return { configurationId: config.defaultConfigurationId, resolvedBy: "default" };
+  }
+  return null;
+};
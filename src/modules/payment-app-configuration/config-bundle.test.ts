@@ -0,0 +1,298 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { type Client } from "urql";
+import type * as stripeApiModule from "../stripe/stripe-api";
+import {
+  ConfigBundleSignatureError,
+  InvalidConfigBundleError,
+  exportAppConfig,
+  importAppConfig,
+} from "./config-bundle";
+import { configEntryAll } from "./__tests__/mocks";
+import { type PaymentAppConfigurator } from "./payment-app-configuration";
+import { type PaymentAppConfig } from "./app-config";
+import { repairStripeWebhook } from "./webhook-manager";
+import { validateStripeKeys } from "@/modules/stripe/stripe-api";
+import { testEnv } from "@/__tests__/test-env.mjs";
+
+vi.mock("@/modules/stripe/stripe-api", async () => {
+  const actual = await vi.importActual<typeof stripeApiModule>("@/modules/stripe/stripe-api");
+
+  return {
+    validateStripeKeys: vi.fn(async () => {}),
+    getEnvironmentFromKey: actual.getEnvironmentFromKey,
+  };
+});
+
+vi.mock("@/modules/payment-app-configuration/webhook-manager", () => {
+  return {
+    createStripeWebhook: vi.fn(async () => ({
+      webhookSecret: "whsec_imported",
+      webhookId: "imported-webhook-id",
+    })),
+    repairStripeWebhook: vi.fn(async () => null),
+  };
+});
+
+const getMockClient = (channels: Array<{ id: string; slug: string }>) =>
+  ({
+    query: vi.fn().mockReturnValue({
+      toPromise: () => Promise.resolve({ error: null, data: { channels } }),
+    }),
+  }) as unknown as Client;
+
+const getMockConfigurator = (config: PaymentAppConfig) =>
+  ({
+    getConfig: vi.fn(async () => config),
+    setConfigEntry: vi.fn(async () => {}),
+    setConfig: vi.fn(async () => {}),
+    saleorApiUrl: testEnv.TEST_SALEOR_API_URL,
+  }) as unknown as PaymentAppConfigurator;
+
+const stagingConfig: PaymentAppConfig = {
+  configurations: [configEntryAll],
+  channelToConfigurationId: { "staging-channel": configEntryAll.configurationId },
+  channelRules: [
+    { type: "slug", pattern: "eu-*", configurationId: configEntryAll.configurationId },
+  ],
+  defaultConfigurationId: configEntryAll.configurationId,
+  channelEnvironment: { "staging-channel": "test" },
+};
+
+const passphrase = "correct horse battery staple";
+
+describe("config bundle", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("imports new configurations with secrets and remaps channels by slug", async () => {
+    const bundle = await exportAppConfig(
+      { includeSecrets: true, passphrase },
+      getMockConfigurator(stagingConfig),
+      getMockClient([
+        { id: "staging-channel", slug: "default-channel" },
+        { id: "staging-only-channel", slug: "staging-only" },
+      ]),
+    );
+
+    const productionConfigurator = getMockConfigurator({
+      configurations: [],
+      channelToConfigurationId: {},
+    });
+    const result = await importAppConfig(
+      { bundle, passphrase },
+      productionConfigurator,
+      getMockClient([{ id: "production-channel", slug: "default-channel" }]),
+      "https://stripe.saleor.io",
+    );
+
+    expect(result).toEqual({
+      importedConfigurations: [configEntryAll.configurationName],
+      skippedConfigurations: [],
+      skippedChannels: ["staging-only"],
+      environmentWarnings: [],
+    });
+    expect(validateStripeKeys).toHaveBeenCalledWith(
+      configEntryAll.secretKey,
+      configEntryAll.publishableKey,
+      { savePaymentMethods: undefined, paymentFlow: undefined },
+    );
+    expect(productionConfigurator.setConfigEntry).toHaveBeenCalledWith({
+      configurationName: configEntryAll.configurationName,
+      secretKey: configEntryAll.secretKey,
+      publishableKey: configEntryAll.publishableKey,
+      webhookSecret: "whsec_imported",
+      webhookId: "imported-webhook-id",
+      configurationId: expect.any(String),
+    });
+
+    const [[{ configurationId }]] = vi.mocked(productionConfigurator.setConfigEntry).mock.calls;
+    expect(configurationId).not.toBe(configEntryAll.configurationId);
+    expect(productionConfigurator.setConfig).toHaveBeenCalledWith({
+      channelToConfigurationId: { "production-channel": configurationId },
+      channelEnvironment: { "production-channel": "test" },
+      channelRules: [{ type: "slug", pattern: "eu-*", configurationId }],
+      defaultConfigurationId: configurationId,
+    });
+  });
+
+  it("updates configurations with the same name when secrets are left out", async () => {
+    const bundle = await exportAppConfig(
+      { includeSecrets: false, passphrase },
+      getMockConfigurator({
+        ...stagingConfig,
+        configurations: [
+          configEntryAll,
+          { ...configEntryAll, configurationId: "other-id", configurationName: "other" },
+        ],
+      }),
+      getMockClient([{ id: "staging-channel", slug: "default-channel" }]),
+    );
+
+    const productionEntry = {
+      ...configEntryAll,
+      configurationId: "production-id",
+      publishableKey: "pk_live_key",
+    };
+    const productionConfigurator = getMockConfigurator({
+      configurations: [productionEntry],
+      channelToConfigurationId: {},
+    });
+    const result = await importAppConfig(
+      { bundle, passphrase },
+      productionConfigurator,
+      getMockClient([{ id: "production-channel", slug: "default-channel" }]),
+      "https://stripe.saleor.io",
+    );
+
+    expect(result).toEqual({
+      importedConfigurations: [configEntryAll.configurationName],
+      skippedConfigurations: ["other"],
+      skippedChannels: [],
+      // Keys of the importing instance are kept, and they don't match the exported environment
+      environmentWarnings: [
+        `default-channel: Test channel uses configuration "${configEntryAll.configurationName}" with Stripe live keys, payments will be charged`,
+      ],
+    });
+    expect(validateStripeKeys).not.toHaveBeenCalled();
+    expect(productionConfigurator.setConfigEntry).toHaveBeenCalledWith({
+      configurationName: configEntryAll.configurationName,
+      configurationId: "production-id",
+    });
+    expect(productionConfigurator.setConfig).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channelToConfigurationId: { "production-channel": "production-id" },
+      }),
+    );
+  });
+
+  it("updates keys and webhook of configuration with the same name when secrets are included", async () => {
+    const bundle = await exportAppConfig(
+      { includeSecrets: true, passphrase },
+      getMockConfigurator(stagingConfig),
+      getMockClient([{ id: "staging-channel", slug: "default-channel" }]),
+    );
+    vi.mocked(repairStripeWebhook).mockResolvedValueOnce({
+      webhookSecret: "whsec_recreated",
+      webhookId: "recreated-webhook-id",
+    });
+
+    const productionConfigurator = getMockConfigurator({
+      configurations: [
+        {
+          ...configEntryAll,
+          configurationId: "production-id",
+          secretKey: "sk_live_key",
+          publishableKey: "pk_live_key",
+          webhookId: "production-webhook-id",
+        },
+      ],
+      channelToConfigurationId: {},
+    });
+    const result = await importAppConfig(
+      { bundle, passphrase },
+      productionConfigurator,
+      getMockClient([{ id: "production-channel", slug: "default-channel" }]),
+      "https://stripe.saleor.io",
+    );
+
+    expect(result.importedConfigurations).toEqual([configEntryAll.configurationName]);
+    expect(repairStripeWebhook).toHaveBeenCalledWith(
+      expect.objectContaining({
+        webhookId: "production-webhook-id",
+        secretKey: configEntryAll.secretKey,
+      }),
+    );
+    expect(productionConfigurator.setConfigEntry).toHaveBeenCalledTimes(1);
+    expect(productionConfigurator.setConfigEntry).toHaveBeenCalledWith({
+      configurationName: configEntryAll.configurationName,
+      secretKey: configEntryAll.secretKey,
+      publishableKey: configEntryAll.publishableKey,
+      webhookSecret: "whsec_recreated",
+      webhookId: "recreated-webhook-id",
+      configurationId: "production-id",
+    });
+    expect(productionConfigurator.setConfig).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channelToConfigurationId: { "production-channel": "production-id" },
+      }),
+    );
+  });
+
+  it("warns about imported channels tagged with environment of other keys", async () => {
+    const bundle = await exportAppConfig(
+      { includeSecrets: false, passphrase },
+      getMockConfigurator({ ...stagingConfig, channelEnvironment: { "staging-channel": "live" } }),
+      getMockClient([{ id: "staging-channel", slug: "default-channel" }]),
+    );
+
+    const result = await importAppConfig(
+      { bundle, passphrase },
+      getMockConfigurator({
+        configurations: [{ ...configEntryAll, configurationId: "production-id" }],
+        channelToConfigurationId: {},
+      }),
+      getMockClient([{ id: "production-channel", slug: "default-channel" }]),
+      "https://stripe.saleor.io",
+    );
+
+    expect(result.environmentWarnings).toEqual([
+      `default-channel: Production channel uses configuration "${configEntryAll.configurationName}" with Stripe test keys, payments won't be charged`,
+    ]);
+  });
+
+  it("rejects bundle with invalid passphrase", async () => {
+    const bundle = await exportAppConfig(
+      { includeSecrets: true, passphrase },
+      getMockConfigurator(stagingConfig),
+      getMockClient([]),
+    );
+    const productionConfigurator = getMockConfigurator({
+      configurations: [],
+      channelToConfigurationId: {},
+    });
+
+    await expect(
+      importAppConfig(
+        { bundle, passphrase: "wrong passphrase" },
+        productionConfigurator,
+        getMockClient([]),
+        "https://stripe.saleor.io",
+      ),
+    ).rejects.toThrow(ConfigBundleSignatureError);
+    expect(productionConfigurator.setConfig).not.toHaveBeenCalled();
+  });
+
+  it("rejects bundle modified after export", async () => {
+    const bundle = await exportAppConfig(
+      { includeSecrets: true, passphrase },
+      getMockConfigurator(stagingConfig),
+      getMockClient([]),
+    );
+    const decodedBundle = JSON.parse(Buffer.from(bundle, "base64url").toString("utf8")) as object;
+    const modifiedBundle = Buffer.from(
+      JSON.stringify({ ...decodedBundle, payload: Buffer.from("{}").toString("base64") }),
+    ).toString("base64url");
+
+    await expect(
+      importAppConfig(
+        { bundle: modifiedBundle, passphrase },
+        getMockConfigurator(stagingConfig),
+        getMockClient([]),
+        "https://stripe.saleor.io",
+      ),
+    ).rejects.toThrow(ConfigBundleSignatureError);
+  });
+
+  it("rejects invalid bundle", async () => {
+    await expect(
+      importAppConfig(
+        { bundle: "not-a-bundle", passphrase },
+        getMockConfigurator(stagingConfig),
+        getMockClient([]),
+        "https://stripe.saleor.io",
+      ),
+    ).rejects.toThrow(InvalidConfigBundleError);
+  });
+});
@@ -0,0 +1,351 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "node:crypto";
+import { uuidv7 } from "uuidv7";
+import { type Client } from "urql";
+import { z } from "zod";
+import { validateStripeKeys } from "../stripe/stripe-api";
+import { getStripeAccountForDirectCharges } from "../stripe/stripe-connect";
+import { type ConfigExport, type ConfigImport } from "./input-schemas";
+import { type PaymentAppConfigurator } from "./payment-app-configuration";
+import { type PaymentAppConfig } from "./app-config";
+import { paymentAppConfigEntryPublicSchema } from "./config-entry";
+import { channelRuleSchema } from "./channel-rules";
+import { getChannelEnvironmentWarning, stripeEnvironmentSchema } from "./channel-environment";
+import { fetchChannels } from "./mapping-manager";
+import { createStripeWebhook, repairStripeWebhook } from "./webhook-manager";
+import { createLogger } from "@/lib/logger";
+import { FieldError } from "@/errors";
+
+export const InvalidConfigBundleError = FieldError.subclass("InvalidConfigBundleError", {
+  props: { fieldName: "bundle" },
+});
+
+export const ConfigBundleSignatureError = FieldError.subclass("ConfigBundleSignatureError", {
+  props: { fieldName: "passphrase" },
+});
+
+const configBundleVersion = 2;
+
+// Webhooks are never exported, they're created again for the app URL of the importing instance
+const configBundleEntrySchema = paymentAppConfigEntryPublicSchema.extend({
+  configurationId: z.string().min(1),
+  secretKey: z.string().min(1).optional(),
+});
+
+// Channel IDs differ between Saleor instances, so channels are matched by slug
+const configBundleChannelSchema = z.object({
+  slug: z.string().min(1),
+  configurationId: z.string().min(1).nullable(),
+  environment: stripeEnvironmentSchema.optional(),
+});
+
+const configBundlePayloadSchema = z.object({
+  configurations: configBundleEntrySchema.array(),
+  channels: configBundleChannelSchema.array(),
+  channelRules: channelRuleSchema.array(),
+  defaultConfigurationId: z.string().min(1).nullable(),
+});
+
+const configBundleSchema = z.object({
+  version: z.literal(configBundleVersion),
+  exportedAt: z.string().datetime(),
+  includesSecrets: z.boolean(),
+  // Salt of the scrypt key derived from the passphrase
+  salt: z.string().min(1),
+  iv: z.string().min(1),
+  // PaymentAppConfig encrypted with AES-256-GCM
+  payload: z.string().min(1),
+  // Tells apart wrong passphrase or modified payload from a valid bundle
+  authTag: z.string().min(1),
+});
+
+export const configImportResultSchema = z.object({
+  importedConfigurations: z.string().array(),
+  skippedConfigurations: z.string().array(),
+  skippedChannels: z.string().array(),
+  environmentWarnings: z.string().array(),
+});
+
+type ConfigBundle = z.infer<typeof configBundleSchema>;
+type ConfigBundlePayload = z.infer<typeof configBundlePayloadSchema>;
+export type ConfigImportResult = z.infer<typeof configImportResultSchema>;
+
+type EncryptedConfigBundlePayload = Pick<ConfigBundle, "salt" | "iv" | "payload" | "authTag">;
+
+const payloadCipher = "aes-256-gcm";
+const authTagLength = 16;
+
+// Passphrases are chosen by people, so the key derivation is made slow on purpose
+const deriveBundleKey = (passphrase: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(
+      passphrase,
+      salt,
+      32,
+      { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 },
+      (err, key) => (err ? reject(err) : resolve(key)),
+    );
+  });
+
+const encryptPayload = async (
+  payload: ConfigBundlePayload,
+  passphrase: string,
+): Promise<EncryptedConfigBundlePayload> => {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(payloadCipher, await deriveBundleKey(passphrase, salt), iv, {
+    authTagLength,
+  });
+  const encryptedPayload = Buffer.concat([
+    cipher.update(JSON.stringify(payload), "utf8"),
+    cipher.final(),
+  ]);
+
+  return {
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    payload: encryptedPayload.toString("base64"),
+    authTag: cipher.getAuthTag().toString("base64"),
+  };
+};
+
+const decryptPayload = async (
+  { salt, iv, payload, authTag }: EncryptedConfigBundlePayload,
+  passphrase: string,
+) => {
+  const key = await deriveBundleKey(passphrase, Buffer.from(salt, "base64"));
+  try {
+    const decipher = createDecipheriv(payloadCipher, key, Buffer.from(iv, "base64"), {
+      authTagLength,
+    });
+    decipher.setAuthTag(Buffer.from(authTag, "base64"));
+    return Buffer.concat([decipher.update(payload, "base64"), decipher.final()]).toString("utf8");
+  } catch {
+    throw new ConfigBundleSignatureError(
+      "Passphrase is invalid or the bundle was modified after export",
+    );
+  }
+};
+
+export const exportAppConfig = async (
+  input: ConfigExport,
+  configurator: PaymentAppConfigurator,
+  client: Client,
+) => {
+  const logger = createLogger(
+    { saleorApiUrl: configurator.saleorApiUrl, includeSecrets: input.includeSecrets },
+    { msgPrefix: "[exportAppConfig] " },
+  );
+
+  const [channels, config] = await Promise.all([fetchChannels(client), configurator.getConfig()]);
+  logger.debug({ configurationsLength: config.configurations.length }, "Got app config");
+
+  const payload = {
+    configurations: config.configurations.map((entry) => ({
+      ...paymentAppConfigEntryPublicSchema.parse(entry),
+      configurationId: entry.configurationId,
+      ...(input.includeSecrets && { secretKey: entry.secretKey }),
+    })),
+    channels: channels.map((channel) => ({
+      slug: channel.slug,
+      configurationId: config.channelToConfigurationId[channel.id] ?? null,
+      environment: config.channelEnvironment?.[channel.id],
+    })),
+    channelRules: config.channelRules ?? [],
+    defaultConfigurationId: config.defaultConfigurationId ?? null,
+  } satisfies ConfigBundlePayload;
+
+  const bundle = configBundleSchema.parse({
+    version: configBundleVersion,
+    exportedAt: new Date().toISOString(),
+    includesSecrets: input.includeSecrets,
+    ...(await encryptPayload(payload, input.passphrase)),
+  });
+  logger.info("Config exported");
+
+  return Buffer.from(JSON.stringify(bundle)).toString("base64url");
+};
+
+const decodeConfigBundle = (bundle: string): unknown => {
+  try {
+    return JSON.parse(Buffer.from(bundle, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+};
+
+const parseConfigBundle = async (input: ConfigImport): Promise<ConfigBundlePayload> => {
+  const bundleResult = configBundleSchema.safeParse(decodeConfigBundle(input.bundle));
+  if (!bundleResult.success) {
+    throw new InvalidConfigBundleError("This isn't a configuration bundle exported by the app");
+  }
+
+  const payloadResult = configBundlePayloadSchema.safeParse(
+    JSON.parse(await decryptPayload(bundleResult.data, input.passphrase)),
+  );
+  if (!payloadResult.success) {
+    throw new InvalidConfigBundleError("Configuration bundle is invalid", {
+      cause: payloadResult.error,
+    });
+  }
+  return payloadResult.data;
+};
+
+/**
+ * Configurations are matched by name. Keys from the bundle are validated first, then they replace
+ * keys of the matching configuration and its Stripe webhook is updated, or a new configuration is added.
+ * Configurations exported without secrets only update settings of configurations with the same name,
+ * keys of the importing instance are kept
+ */
+export const importAppConfig = async (
+  input: ConfigImport,
+  configurator: PaymentAppConfigurator,
+  client: Client,
+  appUrl: string,
+): Promise<ConfigImportResult> => {
+  const logger = createLogger(
+    { saleorApiUrl: configurator.saleorApiUrl },
+    { msgPrefix: "[importAppConfig] " },
+  );
+
+  const payload = await parseConfigBundle(input);
+  logger.debug({ configurationsLength: payload.configurations.length }, "Parsed bundle");
+
+  for (const {
+    secretKey,
+    publishableKey,
+    savePaymentMethods,
+    paymentFlow,
+  } of payload.configurations) {
+    if (secretKey) {
+      await validateStripeKeys(secretKey, publishableKey, { savePaymentMethods, paymentFlow });
+    }
+  }
+
+  const [channels, config] = await Promise.all([fetchChannels(client), configurator.getConfig()]);
+  const configurationIds = new Map<string, string>();
+  // Keys of imported configurations, to check them against environments of imported channels
+  const importedEntries = new Map<string, { configurationName: string; publishableKey: string }>();
+  const result: ConfigImportResult = {
+    importedConfigurations: [],
+    skippedConfigurations: [],
+    skippedChannels: [],
+    environmentWarnings: [],
+  };
+
+  for (const {
+    configurationId,
+    secretKey,
+    publishableKey,
+    ...settings
+  } of payload.configurations) {
+    const existingEntry = config.configurations.find(
+      (entry) => entry.configurationName === settings.configurationName,
+    );
+
+    const connect = Boolean(getStripeAccountForDirectCharges(settings));
+
+    if (existingEntry) {
+      // Webhook of the current key isn't available with a key of another Stripe account, so it's recreated
+      const newWebhook = secretKey
+        ? await repairStripeWebhook({
+            webhookId: existingEntry.webhookId,
+            appUrl,
+            saleorApiUrl: configurator.saleorApiUrl,
+            secretKey,
+            connect,
+            configurator,
+          })
+        : null;
+      await configurator.setConfigEntry({
+        ...settings,
+        ...(secretKey && { secretKey, publishableKey }),
+        ...newWebhook,
+        configurationId: existingEntry.configurationId,
+      });
+      configurationIds.set(configurationId, existingEntry.configurationId);
+      importedEntries.set(existingEntry.configurationId, {
+        configurationName: settings.configurationName,
+        publishableKey: secretKey ? publishableKey : existingEntry.publishableKey,
+      });
+    } else if (secretKey) {
+      logger.debug({ configurationId }, "Creating webhook for imported config entry");
+      const { webhookSecret, webhookId } = await createStripeWebhook({
+        appUrl,
+        secretKey,
+        saleorApiUrl: configurator.saleorApiUrl,
+        connect,
+        configurator,
+      });
+      const newConfigurationId = uuidv7();
+      await configurator.setConfigEntry({
+        ...settings,
+        secretKey,
+        publishableKey,
+        webhookSecret,
+        webhookId,
+        configurationId: newConfigurationId,
+      });
+      configurationIds.set(configurationId, newConfigurationId);
+      importedEntries.set(newConfigurationId, {
+        configurationName: settings.configurationName,
+        publishableKey,
+      });
+    } else {
+      logger.warn({ configurationId }, "Configuration without secret key doesn't exist, skipping");
+      result.skippedConfigurations.push(settings.configurationName);
+      continue;
+    }
+    result.importedConfigurations.push(settings.configurationName);
+  }
+
+  const channelToConfigurationId: PaymentAppConfig["channelToConfigurationId"] = {};
+  const channelEnvironment = { ...config.channelEnvironment };
+  for (const bundleChannel of payload.channels) {
+    const channel = channels.find((channel) => channel.slug === bundleChannel.slug);
+    if (!channel) {
+      result.skippedChannels.push(bundleChannel.slug);
+      continue;
+    }
+
+    const configurationId = bundleChannel.configurationId
+      ? configurationIds.get(bundleChannel.configurationId) ?? null
+      : null;
+    channelToConfigurationId[channel.id] = configurationId;
+    if (bundleChannel.environment) {
+      channelEnvironment[channel.id] = bundleChannel.environment;
+    } else {
+      delete channelEnvironment[channel.id];
+    }
+
+    const entry = configurationId ? importedEntries.get(configurationId) : undefined;
+    const warning = entry ? getChannelEnvironmentWarning(bundleChannel.environment, entry) : null;
+    if (warning) {
+      logger.warn({ channelSlug: channel.slug }, warning);
+      result.environmentWarnings.push(`${channel.slug}: ${warning}`);
+    }
+  }
+
+  // Channel settings are written together, once all configurations they point to exist
+  await configurator.setConfig({
+    channelToConfigurationId: { ...config.channelToConfigurationId, ...channelToConfigurationId },
+    channelEnvironment,
+    channelRules: payload.channelRules.flatMap((rule) => {
+      const configurationId = configurationIds.get(rule.configurationId);
+      return configurationId ? [{ ...rule, configurationId }] : [];
+    }),
+    defaultConfigurationId: payload.defaultConfigurationId
+      ? configurationIds.get(payload.defaultConfigurationId) ?? null
+      : null,
+  });
+  logger.info(
+    {
+      importedConfigurations: result.importedConfigurations.length,
+      skippedConfigurations: result.skippedConfigurations.length,
+      skippedChannels: result.skippedChannels.length,
+      environmentWarnings: result.environmentWarnings.length,
+    },
+    "Config imported",
+  );
+
+  return result;
+};
@@ -1,13 +1,19 @@
 import { z } from "zod";
 import { deobfuscateValues } from "../app-configuration/utils";
+import { paymentIntentDataFieldSchema } from "../stripe/payment-intent-data";
+import { paymentFlowSchema } from "../stripe/checkout-session";
+import { applicationFeeTypeSchema, connectChargeTypeSchema } from "../stripe/stripe-connect";
 
 export const DANGEROUS_paymentAppConfigHiddenSchema = z.object({
   webhookSecret: z.string().min(1),
+  // Secret key used before the last rotation, works as a fallback until it expires
+  previousSecretKey: z.string().min(1).optional(),
 });
 
 export const paymentAppConfigEntryInternalSchema = z.object({
   configurationId: z.string().min(1),
   webhookId: z.string().min(1),
+  previousSecretKeyExpiresAt: z.string().datetime().optional(),
 });
 
 export const paymentAppConfigEntryEncryptedSchema = z.object({
@@ -23,6 +29,22 @@ export const paymentAppConfigEntryPublicSchema = z.object({
   configurationName: z
     .string({ required_error: "Configuration name is required" })
     .min(1, { message: "Configuration name is required" }),
+  // PaymentIntent fields the storefront can set in `data`, defaults are used when missing
+  paymentIntentDataAllowList: z.array(paymentIntentDataFieldSchema).optional(),
+  // Storefront can override it per request with `paymentFlow` in `data`
+  paymentFlow: paymentFlowSchema.optional(),
+  // Creates Stripe Customers for logged-in buyers so that their payment methods can be reused
+  savePaymentMethods: z.boolean().optional(),
+  // Lets authorized card payments be incremented when more than authorized is charged
+  incrementalAuthorization: z.boolean().optional(),
+  // Lets authorized card payments be captured in several parts, e.g. for split shipments
+  multicapture: z.boolean().optional(),
+  // Stripe Connect account that receives the payments, e.g. the vendor of a marketplace channel
+  connectedAccountId: z.string().optional(),
+  connectChargeType: connectChargeTypeSchema.optional(),
+  applicationFeeType: applicationFeeTypeSchema.optional(),
+  // Form inputs return strings
+  applicationFeeValue: z.coerce.number().nonnegative().optional(),
 });
 
 export const paymentAppConfigEntrySchema = DANGEROUS_paymentAppConfigHiddenSchema.merge(
@@ -48,20 +70,51 @@ export const paymentAppFullyConfiguredEntrySchema = z
     webhookSecret: DANGEROUS_paymentAppConfigHiddenSchema.shape.webhookSecret,
     webhookId: paymentAppConfigEntryInternalSchema.shape.webhookId,
   })
-  .required();
+  .required()
+  .extend({
+    paymentIntentDataAllowList: paymentAppConfigEntryPublicSchema.shape.paymentIntentDataAllowList,
+    paymentFlow: paymentAppConfigEntryPublicSchema.shape.paymentFlow,
+    savePaymentMethods: paymentAppConfigEntryPublicSchema.shape.savePaymentMethods,
+    incrementalAuthorization: paymentAppConfigEntryPublicSchema.shape.incrementalAuthorization,
+    multicapture: paymentAppConfigEntryPublicSchema.shape.multicapture,
+    connectedAccountId: paymentAppConfigEntryPublicSchema.shape.connectedAccountId,
+    connectChargeType: paymentAppConfigEntryPublicSchema.shape.connectChargeType,
+    applicationFeeType: paymentAppConfigEntryPublicSchema.shape.applicationFeeType,
+    applicationFeeValue: paymentAppConfigEntryPublicSchema.shape.applicationFeeValue,
+    previousSecretKey: DANGEROUS_paymentAppConfigHiddenSchema.shape.previousSecretKey,
+    previousSecretKeyExpiresAt:
+      paymentAppConfigEntryInternalSchema.shape.previousSecretKeyExpiresAt,
+  });
+
+export const paymentAppFormSecretKeySchema =
+  paymentAppConfigEntryEncryptedSchema.shape.secretKey.regex(
+    /^(sk|rk)_/,
+    "This isn't a Stripe secret key, it must start with sk_ or rk_",
+  );
 
 // Schema used as input validation for saving config entires
 export const paymentAppFormConfigEntrySchema = z
   .object({
     configurationName: paymentAppConfigEntryPublicSchema.shape.configurationName,
-    secretKey: paymentAppConfigEntryEncryptedSchema.shape.secretKey.startsWith(
-      "sk_",
-      "This isn't a Stripe secret key, it must start with sk_",
-    ),
+    secretKey: paymentAppFormSecretKeySchema,
     publishableKey: paymentAppConfigEntryPublicSchema.shape.publishableKey.startsWith(
       "pk_",
       "This isn't a Stripe publishable key, it must start with pk_",
     ),
+    paymentIntentDataAllowList: paymentAppConfigEntryPublicSchema.shape.paymentIntentDataAllowList,
+    paymentFlow: paymentAppConfigEntryPublicSchema.shape.paymentFlow,
+    savePaymentMethods: paymentAppConfigEntryPublicSchema.shape.savePaymentMethods,
+    incrementalAuthorization: paymentAppConfigEntryPublicSchema.shape.incrementalAuthorization,
+    multicapture: paymentAppConfigEntryPublicSchema.shape.multicapture,
+    connectedAccountId: z
+      .union([
+        z.literal(""),
+        z.string().startsWith("acct_", "This isn't a Stripe account ID, it must start with acct_"),
+      ])
+      .optional(),
+    connectChargeType: paymentAppConfigEntryPublicSchema.shape.connectChargeType,
+    applicationFeeType: paymentAppConfigEntryPublicSchema.shape.applicationFeeType,
+    applicationFeeValue: paymentAppConfigEntryPublicSchema.shape.applicationFeeValue,
   })
   .strict()
   .default({
@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/unbound-method */
 import { describe, it, expect, vi } from "vitest";
 import { OBFUSCATION_DOTS } from "../app-configuration/utils";
+import type * as stripeApiModule from "../stripe/stripe-api";
 import {
   addConfigEntry,
   updateConfigEntry,
@@ -19,10 +20,14 @@ import {
 } from "./config-entry";
 import { deleteStripeWebhook } from "./webhook-manager";
 import { testEnv } from "@/__tests__/test-env.mjs";
+import { KeyEnvironmentMismatchError } from "@/errors";
 
 vi.mock("@/modules/stripe/stripe-api", async () => {
+  const actual = await vi.importActual<typeof stripeApiModule>("@/modules/stripe/stripe-api");
+
   return {
     validateStripeKeys: () => {},
+    validateKeysEnvironment: actual.validateKeysEnvironment,
   };
 });
 
@@ -129,6 +134,21 @@ describe("updateConfigEntry", () => {
 
     await expect(updateConfigEntry(input, mockConfigurator)).rejects.toThrow(EntryNotFoundError);
   });
+
+  it("throws an error if publishable key doesn't match environment of saved secret key", async () => {
+    const input = {
+      configurationId: configEntryAll.configurationId,
+      entry: {
+        configurationName: configEntryAll.configurationName,
+        secretKey: `${OBFUSCATION_DOTS}-key`,
+        publishableKey: "pk_live_key",
+      },
+    } satisfies ConfigEntryUpdate;
+
+    await expect(updateConfigEntry(input, mockConfigurator)).rejects.toThrow(
+      KeyEnvironmentMismatchError,
+    );
+  });
 });
 
 describe("deleteConfigEntry", () => {
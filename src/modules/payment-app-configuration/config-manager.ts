@@ -1,5 +1,7 @@
 import { uuidv7 } from "uuidv7";
-import { validateStripeKeys } from "../stripe/stripe-api";
+import { validateKeysEnvironment, validateStripeKeys } from "../stripe/stripe-api";
+import { OBFUSCATION_DOTS } from "../app-configuration/utils";
+import { getStripeAccountForDirectCharges } from "../stripe/stripe-connect";
 import { type ConfigEntryUpdate } from "./input-schemas";
 import { obfuscateConfigEntry } from "./utils";
 import { type PaymentAppConfigurator } from "./payment-app-configuration";
@@ -86,13 +88,17 @@ export const addConfigEntry = async (
     { msgPrefix: "[addConfigEntry] " },
   );
 
-  await validateStripeKeys(newConfigEntry.secretKey, newConfigEntry.publishableKey);
+  await validateStripeKeys(newConfigEntry.secretKey, newConfigEntry.publishableKey, {
+    savePaymentMethods: newConfigEntry.savePaymentMethods,
+    paymentFlow: newConfigEntry.paymentFlow,
+  });
 
   logger.debug("Creating new webhook for config entry");
   const { webhookSecret, webhookId } = await createStripeWebhook({
     appUrl,
     secretKey: newConfigEntry.secretKey,
     saleorApiUrl: configurator.saleorApiUrl,
+    connect: Boolean(getStripeAccountForDirectCharges(newConfigEntry)),
     configurator,
   });
 
@@ -125,6 +131,12 @@ export const updateConfigEntry = async (
   const existingEntry = await getConfigEntryDecrypted(configurationId, configurator);
   logger.debug({ existingEntry: redactLogObject(existingEntry) }, "Found entry");
 
+  // Obfuscated secret key means it wasn't changed in the form
+  const secretKey = entry.secretKey.includes(OBFUSCATION_DOTS)
+    ? existingEntry.secretKey
+    : entry.secretKey;
+  validateKeysEnvironment(secretKey, entry.publishableKey);
+
   await configurator.setConfigEntry({
     ...entry,
     configurationId,
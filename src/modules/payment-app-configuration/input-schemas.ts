@@ -1,18 +1,95 @@
 import { z } from "zod";
-import { paymentAppFormConfigEntrySchema } from "./config-entry";
+import { channelRuleSchema } from "./channel-rules";
+import { channelEnvironmentSchema, stripeEnvironmentSchema } from "./channel-environment";
+import { channelMappingSchema, paymentAppUserVisibleConfigEntriesSchema } from "./app-config";
+import { paymentAppFormConfigEntrySchema, paymentAppFormSecretKeySchema } from "./config-entry";
 
-export const mappingUpdate = z.object({
-  channelId: z.string().min(1),
-  configurationId: z.string().nullable(),
+// Version of the config the dashboard has seen, writes based on an older one are rejected
+export const configVersionInput = z.object({ version: z.number().int().min(0) });
+
+export const mappingUpdate = z
+  .object({
+    channelId: z.string().min(1),
+    configurationId: z.string().nullable(),
+  })
+  .merge(configVersionInput);
+
+// Warning is set when the channel environment doesn't match keys of the assigned configuration
+export const mappingUpdateResult = z.object({
+  channelToConfigurationId: channelMappingSchema,
+  warning: z.string().nullable(),
+});
+
+export const channelEnvironmentUpdate = z
+  .object({
+    channelId: z.string().min(1),
+    environment: stripeEnvironmentSchema.nullable(),
+  })
+  .merge(configVersionInput);
+
+export const channelEnvironmentUpdateResult = z.object({
+  channelEnvironment: channelEnvironmentSchema,
+  warning: z.string().nullable(),
 });
 
-export const paymentConfigEntryUpdate = z.object({
-  configurationId: z.string().min(1),
-  entry: paymentAppFormConfigEntrySchema,
+export const channelRulesUpdate = z.object({
+  channelRules: channelRuleSchema.array(),
+  defaultConfigurationId: z.string().min(1).nullable(),
 });
 
-export const paymentConfigEntryDelete = z.object({ configurationId: z.string().min(1) });
+export const channelRulesVersionedUpdate = channelRulesUpdate.merge(configVersionInput);
+
+export const paymentConfigEntryAdd = z
+  .object({ entry: paymentAppFormConfigEntrySchema.removeDefault() })
+  .merge(configVersionInput);
+
+export const paymentConfigEntryUpdate = z
+  .object({
+    configurationId: z.string().min(1),
+    entry: paymentAppFormConfigEntrySchema,
+  })
+  .merge(configVersionInput);
+
+export const paymentConfigEntryDelete = z
+  .object({ configurationId: z.string().min(1) })
+  .merge(configVersionInput);
+
+export const paymentConfigWebhookRepair = z
+  .object({ configurationId: z.string().min(1) })
+  .merge(configVersionInput);
+
+export const paymentConfigSecretKeyRotate = z
+  .object({
+    configurationId: z.string().min(1),
+    secretKey: paymentAppFormSecretKeySchema,
+  })
+  .merge(configVersionInput);
+
+export const configExport = z.object({
+  includeSecrets: z.boolean(),
+  passphrase: z.string().min(12, "Passphrase must have at least 12 characters"),
+});
+
+export const configImport = z
+  .object({
+    bundle: z.string().trim().min(1, "Bundle is required"),
+    passphrase: z.string().min(1, "Passphrase is required"),
+  })
+  .merge(configVersionInput);
+
+export const paymentConfigEntriesWithVersion = z
+  .object({ configurations: paymentAppUserVisibleConfigEntriesSchema })
+  .merge(configVersionInput);
+
+// Managers get inputs without the version, it's checked by the configurator
+type WithoutVersion<T extends z.ZodTypeAny> = Omit<z.infer<T>, "version">;
 
-export type MappingUpdate = z.infer<typeof mappingUpdate>;
-export type ConfigEntryUpdate = z.infer<typeof paymentConfigEntryUpdate>;
-export type ConfigEntryDelete = z.infer<typeof paymentConfigEntryDelete>;
+export type MappingUpdate = WithoutVersion<typeof mappingUpdate>;
+export type ChannelEnvironmentUpdate = WithoutVersion<typeof channelEnvironmentUpdate>;
+export type ChannelRulesUpdate = z.infer<typeof channelRulesUpdate>;
+export type ConfigEntryUpdate = WithoutVersion<typeof paymentConfigEntryUpdate>;
+export type ConfigEntryDelete = WithoutVersion<typeof paymentConfigEntryDelete>;
+export type WebhookRepair = WithoutVersion<typeof paymentConfigWebhookRepair>;
+export type SecretKeyRotation = WithoutVersion<typeof paymentConfigSecretKeyRotate>;
+export type ConfigExport = z.infer<typeof configExport>;
+export type ConfigImport = WithoutVersion<typeof configImport>;
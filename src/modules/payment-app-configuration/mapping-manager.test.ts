@@ -68,4 +68,29 @@ describe("setMappingInAppConfig", () => {
 
     expect(mockConfigurator.setMapping).toBeCalledWith({ "123": "exist" });
   });
+
+  it("should return warning if production channel is mapped to configuration with test keys", async () => {
+    const mockConfigurator = {
+      getConfig: vi.fn().mockResolvedValue({
+        configurations: [
+          { configurationId: "exist", configurationName: "test", publishableKey: "pk_test_key" },
+        ],
+        channelEnvironment: { "123": "live" },
+      }),
+      setMapping: vi.fn(),
+      getConfigObfuscated: vi
+        .fn()
+        .mockResolvedValue({ channelToConfigurationId: { "123": "exist" } }),
+    } as unknown as PaymentAppConfigurator;
+
+    const result = await setMappingInAppConfig(
+      { channelId: "123", configurationId: "exist" },
+      mockConfigurator,
+    );
+
+    expect(result).toEqual({
+      channelToConfigurationId: { "123": "exist" },
+      warning: expect.stringContaining("Production channel"),
+    });
+  });
 });
@@ -1,6 +1,11 @@
 import { type Client } from "urql";
-import { type MappingUpdate } from "./input-schemas";
+import {
+  type ChannelEnvironmentUpdate,
+  type ChannelRulesUpdate,
+  type MappingUpdate,
+} from "./input-schemas";
 import { type PaymentAppConfigurator } from "./payment-app-configuration";
+import { getChannelEnvironmentWarning } from "./channel-environment";
 import { createLogger } from "@/lib/logger";
 import { BaseError, FieldError } from "@/errors";
 import { FetchChannelsDocument, type FetchChannelsQuery } from "generated/graphql";
@@ -85,6 +90,82 @@ export const setMappingInAppConfig = async (
 
   logger.debug("Updated app config");
 
+  const warning = entry
+    ? getChannelEnvironmentWarning(config.channelEnvironment?.[input.channelId], entry)
+    : null;
+  if (warning) {
+    logger.warn(warning);
+  }
+
   const updatedConfig = await configurator.getConfigObfuscated();
-  return updatedConfig.channelToConfigurationId;
+  return { channelToConfigurationId: updatedConfig.channelToConfigurationId, warning };
+};
+
+export const getChannelEnvironmentFromAppConfig = async (configurator: PaymentAppConfigurator) => {
+  const { channelEnvironment } = await configurator.getConfigObfuscated();
+  return channelEnvironment ?? {};
+};
+
+export const setChannelEnvironmentInAppConfig = async (
+  input: ChannelEnvironmentUpdate,
+  configurator: PaymentAppConfigurator,
+) => {
+  const { channelId, environment } = input;
+  const logger = createLogger(
+    { input: { channelId, environment }, saleorApiUrl: configurator.saleorApiUrl },
+    { msgPrefix: "[setChannelEnvironmentInAppConfig] " },
+  );
+
+  await configurator.setChannelEnvironment(channelId, environment);
+  logger.info("Updated channel environment");
+
+  const config = await configurator.getConfig();
+  const configurationId = config.channelToConfigurationId[channelId];
+  const entry = config.configurations.find((entry) => entry.configurationId === configurationId);
+  const warning = entry ? getChannelEnvironmentWarning(environment, entry) : null;
+  if (warning) {
+    logger.warn(warning);
+  }
+
+  return { channelEnvironment: config.channelEnvironment ?? {}, warning };
+};
+
+export const getChannelRulesFromAppConfig = async (configurator: PaymentAppConfigurator) => {
+  const { channelRules, defaultConfigurationId } = await configurator.getConfigObfuscated();
+  return {
+    channelRules: channelRules ?? [],
+    defaultConfigurationId: defaultConfigurationId ?? null,
+  };
+};
+
+export const setChannelRulesInAppConfig = async (
+  input: ChannelRulesUpdate,
+  configurator: PaymentAppConfigurator,
+) => {
+  const logger = createLogger(
+    { rulesLength: input.channelRules.length, saleorApiUrl: configurator.saleorApiUrl },
+    { msgPrefix: "[setChannelRulesInAppConfig] " },
+  );
+  const config = await configurator.getConfig();
+  logger.debug("Got app config");
+
+  const configurationIds = [
+    ...input.channelRules.map((rule) => rule.configurationId),
+    ...(input.defaultConfigurationId ? [input.defaultConfigurationId] : []),
+  ];
+  const missingConfigurationId = configurationIds.find(
+    (configurationId) =>
+      !config.configurations.some((entry) => entry.configurationId === configurationId),
+  );
+  if (missingConfigurationId) {
+    logger.error("Entry with configurationId doesn't exist");
+    throw new EntryDoesntExistError(
+      `Entry with configurationId ${missingConfigurationId} doesn't exist`,
+    );
+  }
+
+  await configurator.setChannelRules(input);
+  logger.info("Updated channel rules");
+
+  return getChannelRulesFromAppConfig(configurator);
 };
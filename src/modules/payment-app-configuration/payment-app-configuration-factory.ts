@@ -6,8 +6,18 @@ import {
 } from "../app-configuration/metadata-manager";
 import { PaymentAppConfigurator } from "./payment-app-configuration";
 
-export const getPaymentAppConfigurator = (client: Client, saleorApiUrl: string) => {
-  return new PaymentAppConfigurator(createPrivateSettingsManager(client), saleorApiUrl);
+/** `expectedVersion` is the config version seen in the dashboard, stale writes are rejected */
+export const getPaymentAppConfigurator = (
+  client: Client,
+  saleorApiUrl: string,
+  expectedVersion?: number,
+) => {
+  return new PaymentAppConfigurator(
+    createPrivateSettingsManager(client),
+    saleorApiUrl,
+    () => createPrivateSettingsManager(client),
+    expectedVersion,
+  );
 };
 
 export const getWebhookPaymentAppConfigurator = (
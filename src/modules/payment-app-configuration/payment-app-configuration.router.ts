@@ -1,14 +1,34 @@
 import { z } from "zod";
+import { type Client } from "urql";
 import { protectedClientProcedure } from "../trpc/protected-client-procedure";
 import { router } from "../trpc/trpc-server";
-import { channelMappingSchema, paymentAppUserVisibleConfigEntriesSchema } from "./app-config";
-import { mappingUpdate, paymentConfigEntryDelete, paymentConfigEntryUpdate } from "./input-schemas";
-import { getMappingFromAppConfig, setMappingInAppConfig } from "./mapping-manager";
-import { getPaymentAppConfigurator } from "./payment-app-configuration-factory";
+import { channelMappingSchema } from "./app-config";
+import {
+  channelRulesUpdate,
+  channelRulesVersionedUpdate,
+  channelEnvironmentUpdate,
+  configExport,
+  configImport,
+  channelEnvironmentUpdateResult,
+  mappingUpdate,
+  mappingUpdateResult,
+  paymentConfigEntriesWithVersion,
+  paymentConfigEntryAdd,
+  paymentConfigEntryDelete,
+  paymentConfigEntryUpdate,
+  paymentConfigSecretKeyRotate,
+  paymentConfigWebhookRepair,
+} from "./input-schemas";
 import {
-  paymentAppFormConfigEntrySchema,
-  paymentAppUserVisibleConfigEntrySchema,
-} from "./config-entry";
+  getChannelEnvironmentFromAppConfig,
+  getChannelRulesFromAppConfig,
+  getMappingFromAppConfig,
+  setChannelEnvironmentInAppConfig,
+  setChannelRulesInAppConfig,
+  setMappingInAppConfig,
+} from "./mapping-manager";
+import { getPaymentAppConfigurator } from "./payment-app-configuration-factory";
+import { paymentAppUserVisibleConfigEntrySchema } from "./config-entry";
 import {
   addConfigEntry,
   deleteConfigEntry,
@@ -16,9 +36,31 @@ import {
   getConfigEntryObfuscated,
   updateConfigEntry,
 } from "./config-manager";
+import { rotateSecretKey } from "./secret-key-rotation";
+import { channelEnvironmentSchema } from "./channel-environment";
+import { configImportResultSchema, exportAppConfig, importAppConfig } from "./config-bundle";
+import {
+  getConfigEntriesWebhookHealth,
+  repairConfigEntryWebhook,
+  webhookHealthListSchema,
+} from "./webhook-health";
 import { redactLogValue } from "@/lib/logger";
+import { withAuditLog } from "@/modules/audit-log/audit-log";
 import { invariant } from "@/lib/invariant";
 
+/**
+ * Writes are based on the config version seen in the dashboard. Stale ones fail before
+ * anything is changed, including webhooks created or removed in Stripe
+ */
+const getVersionedPaymentAppConfigurator = async (
+  ctx: { apiClient: Client; saleorApiUrl: string },
+  version: number,
+) => {
+  const configurator = getPaymentAppConfigurator(ctx.apiClient, ctx.saleorApiUrl, version);
+  await configurator.assertExpectedVersion();
+  return configurator;
+};
+
 export const paymentAppConfigurationRouter = router({
   mapping: router({
     getAll: protectedClientProcedure.output(channelMappingSchema).query(async ({ ctx }) => {
@@ -28,7 +70,7 @@ export const paymentAppConfigurationRouter = router({
     }),
     update: protectedClientProcedure
       .input(mappingUpdate)
-      .output(channelMappingSchema)
+      .output(mappingUpdateResult)
       .mutation(async ({ input, ctx }) => {
         const { configurationId, channelId } = input;
         ctx.logger.info(
@@ -36,8 +78,55 @@ export const paymentAppConfigurationRouter = router({
           "appConfigurationRouter.mapping.update called",
         );
 
+        const configurator = await getVersionedPaymentAppConfigurator(ctx, input.version);
+        return withAuditLog({ configurator, user: ctx.user, action: "mapping.updated" }, () =>
+          setMappingInAppConfig(input, configurator),
+        );
+      }),
+    getRules: protectedClientProcedure.output(channelRulesUpdate).query(async ({ ctx }) => {
+      ctx.logger.info("appConfigurationRouter.mapping.getRules called");
+      const configurator = getPaymentAppConfigurator(ctx.apiClient, ctx.saleorApiUrl);
+      return getChannelRulesFromAppConfig(configurator);
+    }),
+    updateRules: protectedClientProcedure
+      .input(channelRulesVersionedUpdate)
+      .output(channelRulesUpdate)
+      .mutation(async ({ input, ctx }) => {
+        ctx.logger.info(
+          {
+            rulesLength: input.channelRules.length,
+            defaultConfigurationId: input.defaultConfigurationId,
+          },
+          "appConfigurationRouter.mapping.updateRules called",
+        );
+
+        const configurator = await getVersionedPaymentAppConfigurator(ctx, input.version);
+        return withAuditLog({ configurator, user: ctx.user, action: "channelRules.updated" }, () =>
+          setChannelRulesInAppConfig(input, configurator),
+        );
+      }),
+    getEnvironments: protectedClientProcedure
+      .output(channelEnvironmentSchema)
+      .query(async ({ ctx }) => {
+        ctx.logger.info("appConfigurationRouter.mapping.getEnvironments called");
         const configurator = getPaymentAppConfigurator(ctx.apiClient, ctx.saleorApiUrl);
-        return setMappingInAppConfig(input, configurator);
+        return getChannelEnvironmentFromAppConfig(configurator);
+      }),
+    updateEnvironment: protectedClientProcedure
+      .input(channelEnvironmentUpdate)
+      .output(channelEnvironmentUpdateResult)
+      .mutation(async ({ input, ctx }) => {
+        const { channelId, environment } = input;
+        ctx.logger.info(
+          { channelId, environment },
+          "appConfigurationRouter.mapping.updateEnvironment called",
+        );
+
+        const configurator = await getVersionedPaymentAppConfigurator(ctx, input.version);
+        return withAuditLog(
+          { configurator, user: ctx.user, action: "channelEnvironment.updated" },
+          () => setChannelEnvironmentInAppConfig(input, configurator),
+        );
       }),
   }),
   paymentConfig: router({
@@ -52,26 +141,32 @@ export const paymentAppConfigurationRouter = router({
         return getConfigEntryObfuscated(input.configurationId, configurator);
       }),
     getAll: protectedClientProcedure
-      .output(paymentAppUserVisibleConfigEntriesSchema)
+      .output(paymentConfigEntriesWithVersion)
       .query(async ({ ctx }) => {
         ctx.logger.info("appConfigurationRouter.paymentConfig.getAll called");
         const configurator = getPaymentAppConfigurator(ctx.apiClient, ctx.saleorApiUrl);
-        return getAllConfigEntriesObfuscated(configurator);
+        const [configurations, version] = await Promise.all([
+          getAllConfigEntriesObfuscated(configurator),
+          configurator.getVersion(),
+        ]);
+        return { configurations, version };
       }),
-    add: protectedClientProcedure
-      .input(paymentAppFormConfigEntrySchema)
-      .mutation(async ({ input, ctx }) => {
-        const { configurationName, secretKey } = input;
-        ctx.logger.info("appConfigurationRouter.paymentConfig.add called");
-        ctx.logger.debug(
-          { configurationName, secretKey: redactLogValue(secretKey) },
-          "appConfigurationRouter.paymentConfig.add input",
-        );
-        invariant(ctx.appUrl, "Missing app url");
+    add: protectedClientProcedure.input(paymentConfigEntryAdd).mutation(async ({ input, ctx }) => {
+      const { version, entry } = input;
+      const { configurationName, secretKey } = entry;
+      ctx.logger.info("appConfigurationRouter.paymentConfig.add called");
+      ctx.logger.debug(
+        { configurationName, secretKey: redactLogValue(secretKey) },
+        "appConfigurationRouter.paymentConfig.add input",
+      );
+      const { appUrl } = ctx;
+      invariant(appUrl, "Missing app url");
 
-        const configurator = getPaymentAppConfigurator(ctx.apiClient, ctx.saleorApiUrl);
-        return addConfigEntry(input, configurator, ctx.appUrl);
-      }),
+      const configurator = await getVersionedPaymentAppConfigurator(ctx, version);
+      return withAuditLog({ configurator, user: ctx.user, action: "configuration.created" }, () =>
+        addConfigEntry(entry, configurator, appUrl),
+      );
+    }),
     update: protectedClientProcedure
       .input(paymentConfigEntryUpdate)
       .output(paymentAppUserVisibleConfigEntrySchema)
@@ -91,8 +186,84 @@ export const paymentAppConfigurationRouter = router({
         );
         invariant(ctx.appUrl, "Missing app URL");
 
+        const configurator = await getVersionedPaymentAppConfigurator(ctx, input.version);
+        return withAuditLog({ configurator, user: ctx.user, action: "configuration.updated" }, () =>
+          updateConfigEntry(input, configurator),
+        );
+      }),
+    rotateSecretKey: protectedClientProcedure
+      .input(paymentConfigSecretKeyRotate)
+      .output(paymentAppUserVisibleConfigEntrySchema)
+      .mutation(async ({ input, ctx }) => {
+        const { configurationId, secretKey } = input;
+        ctx.logger.info(
+          { configurationId },
+          "appConfigurationRouter.paymentConfig.rotateSecretKey called",
+        );
+        ctx.logger.debug(
+          { configurationId, secretKey: redactLogValue(secretKey) },
+          "appConfigurationRouter.paymentConfig.rotateSecretKey input",
+        );
+        const { appUrl } = ctx;
+        invariant(appUrl, "Missing app URL");
+
+        const configurator = await getVersionedPaymentAppConfigurator(ctx, input.version);
+        return withAuditLog({ configurator, user: ctx.user, action: "secretKey.rotated" }, () =>
+          rotateSecretKey(input, configurator, appUrl),
+        );
+      }),
+    // Mutation, because app URL is taken from the Origin header that browsers skip in GET requests
+    checkWebhooks: protectedClientProcedure
+      .output(webhookHealthListSchema)
+      .mutation(async ({ ctx }) => {
+        ctx.logger.info("appConfigurationRouter.paymentConfig.checkWebhooks called");
+        invariant(ctx.appUrl, "Missing app URL");
+
         const configurator = getPaymentAppConfigurator(ctx.apiClient, ctx.saleorApiUrl);
-        return updateConfigEntry(input, configurator);
+        return getConfigEntriesWebhookHealth(configurator, ctx.appUrl);
+      }),
+    repairWebhook: protectedClientProcedure
+      .input(paymentConfigWebhookRepair)
+      .output(paymentAppUserVisibleConfigEntrySchema)
+      .mutation(async ({ input, ctx }) => {
+        const { configurationId } = input;
+        ctx.logger.info(
+          { configurationId },
+          "appConfigurationRouter.paymentConfig.repairWebhook called",
+        );
+        const { appUrl } = ctx;
+        invariant(appUrl, "Missing app URL");
+
+        const configurator = await getVersionedPaymentAppConfigurator(ctx, input.version);
+        return withAuditLog({ configurator, user: ctx.user, action: "webhook.repaired" }, () =>
+          repairConfigEntryWebhook(configurationId, configurator, appUrl),
+        );
+      }),
+    exportConfig: protectedClientProcedure
+      .input(configExport)
+      .output(z.object({ bundle: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        ctx.logger.info(
+          { includeSecrets: input.includeSecrets },
+          "appConfigurationRouter.paymentConfig.exportConfig called",
+        );
+
+        const configurator = getPaymentAppConfigurator(ctx.apiClient, ctx.saleorApiUrl);
+        return { bundle: await exportAppConfig(input, configurator, ctx.apiClient) };
+      }),
+    importConfig: protectedClientProcedure
+      .input(configImport)
+      .output(configImportResultSchema)
+      .mutation(async ({ input, ctx }) => {
+        ctx.logger.info("appConfigurationRouter.paymentConfig.importConfig called");
+        const { appUrl } = ctx;
+        invariant(appUrl, "Missing app URL");
+
+        const configurator = await getVersionedPaymentAppConfigurator(ctx, input.version);
+        return withAuditLog(
+          { configurator, user: ctx.user, action: "configuration.imported" },
+          () => importAppConfig(input, configurator, ctx.apiClient, appUrl),
+        );
       }),
     delete: protectedClientProcedure
       .input(paymentConfigEntryDelete)
@@ -100,8 +271,10 @@ export const paymentAppConfigurationRouter = router({
         const { configurationId } = input;
         ctx.logger.info({ configurationId }, "appConfigurationRouter.paymentConfig.delete called");
 
-        const configurator = getPaymentAppConfigurator(ctx.apiClient, ctx.saleorApiUrl);
-        return deleteConfigEntry(configurationId, configurator);
+        const configurator = await getVersionedPaymentAppConfigurator(ctx, input.version);
+        return withAuditLog({ configurator, user: ctx.user, action: "configuration.deleted" }, () =>
+          deleteConfigEntry(configurationId, configurator),
+        );
       }),
   }),
 });
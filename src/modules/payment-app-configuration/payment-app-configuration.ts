@@ -1,9 +1,11 @@
-import { encrypt, type MetadataEntry } from "@saleor/app-sdk/settings-manager";
+import { type MetadataEntry } from "@saleor/app-sdk/settings-manager";
 import {
   type GenericAppConfigurator,
+  getConfigVersion,
   PrivateMetadataAppConfigurator,
 } from "../app-configuration/app-configuration";
 import { type BrandedEncryptedMetadataManager } from "../app-configuration/metadata-manager";
+import { encryptMetadataValue } from "../app-configuration/encryption";
 import { type PaymentAppConfig, paymentAppConfigSchema, type ChannelMapping } from "./app-config";
 import {
   type PaymentAppConfigEntryUpdate,
@@ -11,7 +13,9 @@ import {
   paymentAppConfigEntrySchema,
 } from "./config-entry";
 import { obfuscateConfigEntry } from "./utils";
-import { env } from "@/lib/env.mjs";
+import { type RulesChannel, resolveChannelConfiguration } from "./channel-rules";
+import { type StripeEnvironment } from "./channel-environment";
+import { removeExpiredPreviousSecretKey } from "./secret-key-rotation";
 import { BaseError } from "@/errors";
 import { createLogger } from "@/lib/logger";
 
@@ -25,11 +29,18 @@ export class PaymentAppConfigurator implements GenericAppConfigurator<PaymentApp
   private configurator: PrivateMetadataAppConfigurator<PaymentAppConfig>;
   public saleorApiUrl: string;
 
-  constructor(privateMetadataManager: BrandedEncryptedMetadataManager, saleorApiUrl: string) {
+  constructor(
+    privateMetadataManager: BrandedEncryptedMetadataManager,
+    saleorApiUrl: string,
+    createLatestMetadataManager?: () => BrandedEncryptedMetadataManager,
+    expectedVersion?: number,
+  ) {
     this.configurator = new PrivateMetadataAppConfigurator(
       privateMetadataManager,
       saleorApiUrl,
       privateMetadataKey,
+      createLatestMetadataManager,
+      expectedVersion,
     );
     this.saleorApiUrl = saleorApiUrl;
   }
@@ -40,18 +51,35 @@ export class PaymentAppConfigurator implements GenericAppConfigurator<PaymentApp
   }
 
   async getConfigObfuscated() {
-    const { configurations, channelToConfigurationId } = await this.getConfig();
+    const {
+      configurations,
+      channelToConfigurationId,
+      channelRules,
+      defaultConfigurationId,
+      channelEnvironment,
+    } = await this.getConfig();
 
     return {
       configurations: configurations.map((entry) => obfuscateConfigEntry(entry)),
       channelToConfigurationId,
+      channelRules,
+      defaultConfigurationId,
+      channelEnvironment,
     };
   }
 
-  async getRawConfig(): Promise<MetadataEntry[]> {
-    const encryptFn = (data: string) => encrypt(data, env.SECRET_KEY);
+  /** Sent back with config changes made in the dashboard, see `ConfigVersionConflictError` */
+  async getVersion() {
+    return getConfigVersion(await this.configurator.getConfig());
+  }
 
-    return this.configurator.getRawConfig(encryptFn);
+  /** Throws ConfigVersionConflictError when the config was changed since the expected version */
+  async assertExpectedVersion() {
+    return this.configurator.assertExpectedVersion();
+  }
+
+  async getRawConfig(): Promise<MetadataEntry[]> {
+    return this.configurator.getRawConfig(encryptMetadataValue);
   }
 
   async getConfigEntry(configurationId: string): Promise<PaymentAppConfigEntry | null | undefined> {
@@ -99,7 +127,18 @@ export class PaymentAppConfigurator implements GenericAppConfigurator<PaymentApp
       ),
     );
     await this.setConfig(
-      { ...oldConfig, configurations: newConfigurations, channelToConfigurationId: newMappings },
+      {
+        ...oldConfig,
+        configurations: newConfigurations,
+        channelToConfigurationId: newMappings,
+        channelRules: oldConfig.channelRules?.filter(
+          (rule) => rule.configurationId !== configurationId,
+        ),
+        defaultConfigurationId:
+          oldConfig.defaultConfigurationId === configurationId
+            ? null
+            : oldConfig.defaultConfigurationId,
+      },
       true,
     );
   }
@@ -112,6 +151,24 @@ export class PaymentAppConfigurator implements GenericAppConfigurator<PaymentApp
     });
   }
 
+  async setChannelRules({
+    channelRules,
+    defaultConfigurationId,
+  }: Pick<PaymentAppConfig, "channelRules" | "defaultConfigurationId">) {
+    return this.setConfig({ channelRules, defaultConfigurationId });
+  }
+
+  async setChannelEnvironment(channelId: string, environment: StripeEnvironment | null) {
+    const { channelEnvironment } = await this.getConfig();
+    const newChannelEnvironment = { ...channelEnvironment };
+    if (environment) {
+      newChannelEnvironment[channelId] = environment;
+    } else {
+      delete newChannelEnvironment[channelId];
+    }
+    return this.setConfig({ channelEnvironment: newChannelEnvironment });
+  }
+
   async deleteMapping(channelId: string) {
     const { channelToConfigurationId } = await this.getConfig();
     const newMapping = { ...channelToConfigurationId };
@@ -120,9 +177,27 @@ export class PaymentAppConfigurator implements GenericAppConfigurator<PaymentApp
   }
 
   /** Method that directly updates the config in MetadataConfigurator.
-   *  You should probably use setConfigEntry or setMapping instead */
+   *  You should probably use setConfigEntry or setMapping instead.
+   *  Throws ConfigVersionConflictError when the config was changed since the expected version */
   async setConfig(newConfig: Partial<PaymentAppConfig>, replace = false) {
-    return this.configurator.setConfig(newConfig, replace);
+    return this.configurator.setConfig(
+      await this.withoutExpiredPreviousSecretKeys(newConfig),
+      replace,
+    );
+  }
+
+  /** Previous secret keys are kept only for the grace period, so the next write removes them */
+  private async withoutExpiredPreviousSecretKeys(
+    newConfig: Partial<PaymentAppConfig>,
+  ): Promise<Partial<PaymentAppConfig>> {
+    const configurations = newConfig.configurations ?? (await this.getConfig()).configurations;
+    const configurationsWithoutExpiredKeys = configurations.map((entry) =>
+      removeExpiredPreviousSecretKey(entry),
+    );
+    if (configurationsWithoutExpiredKeys.every((entry, index) => entry === configurations[index])) {
+      return newConfig;
+    }
+    return { ...newConfig, configurations: configurationsWithoutExpiredKeys };
   }
 
   async clearConfig() {
@@ -133,26 +208,31 @@ export class PaymentAppConfigurator implements GenericAppConfigurator<PaymentApp
 
 export const getConfigurationForChannel = (
   appConfig: PaymentAppConfig,
-  channelId?: string | undefined | null,
+  channel?: RulesChannel | undefined | null,
 ) => {
-  const logger = createLogger({ channelId }, { msgPrefix: "[getConfigurationForChannel] " });
-  if (!channelId) {
+  const logger = createLogger(
+    { channelId: channel?.id },
+    { msgPrefix: "[getConfigurationForChannel] " },
+  );
+  if (!channel?.id) {
     logger.warn("Missing channelId");
     return null;
   }
 
-  const configurationId = appConfig.channelToConfigurationId[channelId];
-  if (!configurationId) {
-    logger.warn(`Missing mapping for channelId ${channelId}`);
+  const resolution = resolveChannelConfiguration(appConfig, channel);
+  if (!resolution) {
+    logger.warn(`Missing mapping for channelId ${channel.id}`);
     return null;
   }
 
+  const { configurationId, resolvedBy } = resolution;
   const perChannelConfig = appConfig.configurations.find(
     (config) => config.configurationId === configurationId,
   );
   if (!perChannelConfig) {
-    logger.warn({ configurationId }, "Missing configuration for configurationId");
+    logger.warn({ configurationId, resolvedBy }, "Missing configuration for configurationId");
     return null;
   }
+  logger.debug({ configurationId, resolvedBy }, "Resolved configuration for channel");
   return perChannelConfig;
 };
@@ -0,0 +1,211 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Stripe } from "stripe";
+import {
+  SECRET_KEY_ROTATION_GRACE_PERIOD_MS,
+  getActivePreviousSecretKey,
+  rotateSecretKey,
+  withSecretKeyFallback,
+} from "./secret-key-rotation";
+import { configEntryAll } from "./__tests__/mocks";
+import { type PaymentAppConfigurator } from "./payment-app-configuration";
+import { moveStripeWebhookToSecretKey } from "./webhook-manager";
+import { getStripeAccountIdForKey, validateStripeKeys } from "@/modules/stripe/stripe-api";
+import { testEnv } from "@/__tests__/test-env.mjs";
+import { RestrictedKeyPermissionsError, SecretKeyAccountMismatchError } from "@/errors";
+
+vi.mock("@/modules/stripe/stripe-api", () => {
+  return {
+    validateStripeKeys: vi.fn(async () => {}),
+    getStripeAccountIdForKey: vi.fn(async () => "acct_1"),
+  };
+});
+
+vi.mock("@/modules/payment-app-configuration/webhook-manager", () => {
+  return {
+    moveStripeWebhookToSecretKey: vi.fn(async () => null),
+  };
+});
+
+const mockConfigurator = {
+  getConfig: vi.fn(async () => ({ configurations: [configEntryAll] })),
+  setConfigEntry: vi.fn(async () => {}),
+  saleorApiUrl: testEnv.TEST_SALEOR_API_URL,
+} as unknown as PaymentAppConfigurator;
+
+const authenticationError = new Stripe.errors.StripeAuthenticationError({
+  type: "authentication_error",
+  message: "Invalid API Key provided",
+});
+
+const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+describe("getActivePreviousSecretKey", () => {
+  it("returns previous key until it expires", () => {
+    const keys = {
+      secretKey: "sk_new",
+      previousSecretKey: "sk_old",
+      previousSecretKeyExpiresAt: "2023-01-02T00:00:00.000Z",
+    };
+
+    expect(getActivePreviousSecretKey(keys, new Date("2023-01-01T00:00:00.000Z"))).toBe("sk_old");
+    expect(getActivePreviousSecretKey(keys, new Date("2023-01-03T00:00:00.000Z"))).toBeNull();
+    expect(getActivePreviousSecretKey({ secretKey: "sk_new" })).toBeNull();
+  });
+});
+
+describe("withSecretKeyFallback", () => {
+  it("retries with previous key when current one is rejected", async () => {
+    const request = vi.fn(async (secretKey: string) => {
+      if (secretKey === "sk_new") {
+        throw authenticationError;
+      }
+      return secretKey;
+    });
+
+    await expect(
+      withSecretKeyFallback(
+        {
+          secretKey: "sk_new",
+          previousSecretKey: "sk_old",
+          previousSecretKeyExpiresAt: inOneHour(),
+        },
+        request,
+      ),
+    ).resolves.toBe("sk_old");
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't retry other errors", async () => {
+    const request = vi.fn(async () => {
+      throw new Error("Network error");
+    });
+
+    await expect(
+      withSecretKeyFallback(
+        {
+          secretKey: "sk_new",
+          previousSecretKey: "sk_old",
+          previousSecretKeyExpiresAt: inOneHour(),
+        },
+        request,
+      ),
+    ).rejects.toThrowError("Network error");
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't retry with expired previous key", async () => {
+    const request = vi.fn(async () => {
+      throw authenticationError;
+    });
+
+    await expect(
+      withSecretKeyFallback(
+        {
+          secretKey: "sk_new",
+          previousSecretKey: "sk_old",
+          previousSecretKeyExpiresAt: "2023-01-01T00:00:00.000Z",
+        },
+        request,
+      ),
+    ).rejects.toThrowError(authenticationError);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("rotateSecretKey", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("replaces secret key and keeps the previous one for the grace period", async () => {
+    const result = await rotateSecretKey(
+      { configurationId: configEntryAll.configurationId, secretKey: "sk_new-key" },
+      mockConfigurator,
+      "https://example.com",
+    );
+
+    expect(moveStripeWebhookToSecretKey).toHaveBeenCalledWith(
+      expect.objectContaining({ webhookId: configEntryAll.webhookId, secretKey: "sk_new-key" }),
+    );
+    const [[savedEntry]] = vi.mocked(mockConfigurator.setConfigEntry).mock.calls;
+    expect(savedEntry).toMatchObject({
+      ...configEntryAll,
+      secretKey: "sk_new-key",
+      previousSecretKey: configEntryAll.secretKey,
+    });
+    expect(new Date(savedEntry.previousSecretKeyExpiresAt!).getTime()).toBeGreaterThan(
+      Date.now() + SECRET_KEY_ROTATION_GRACE_PERIOD_MS - 60 * 1000,
+    );
+    expect(result).not.toHaveProperty("previousSecretKey");
+    expect(result.previousSecretKeyExpiresAt).toBe(savedEntry.previousSecretKeyExpiresAt);
+  });
+
+  it("saves recreated webhook", async () => {
+    vi.mocked(moveStripeWebhookToSecretKey).mockResolvedValueOnce({
+      webhookId: "new-webhook-id",
+      webhookSecret: "whsec_new",
+    });
+
+    await rotateSecretKey(
+      { configurationId: configEntryAll.configurationId, secretKey: "sk_new-key" },
+      mockConfigurator,
+      "https://example.com",
+    );
+
+    expect(mockConfigurator.setConfigEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ webhookId: "new-webhook-id", webhookSecret: "whsec_new" }),
+    );
+  });
+
+  it("rejects key of a different Stripe account", async () => {
+    vi.mocked(getStripeAccountIdForKey).mockImplementation(async (secretKey) =>
+      secretKey === "sk_new-key" ? "acct_2" : "acct_1",
+    );
+
+    await expect(
+      rotateSecretKey(
+        { configurationId: configEntryAll.configurationId, secretKey: "sk_new-key" },
+        mockConfigurator,
+        "https://example.com",
+      ),
+    ).rejects.toThrowError(SecretKeyAccountMismatchError);
+    expect(moveStripeWebhookToSecretKey).not.toHaveBeenCalled();
+    expect(mockConfigurator.setConfigEntry).not.toHaveBeenCalled();
+  });
+
+  it("checks that the new key can read its Stripe account", async () => {
+    await rotateSecretKey(
+      { configurationId: configEntryAll.configurationId, secretKey: "rk_test_new-key" },
+      mockConfigurator,
+      "https://example.com",
+    );
+
+    expect(validateStripeKeys).toHaveBeenCalledWith(
+      "rk_test_new-key",
+      configEntryAll.publishableKey,
+      expect.objectContaining({ readAccount: true }),
+    );
+  });
+
+  it("rejects rotation when the current restricted key can't read its Stripe account", async () => {
+    vi.mocked(getStripeAccountIdForKey).mockImplementation(async (secretKey) => {
+      if (secretKey === configEntryAll.secretKey) {
+        throw new Stripe.errors.StripePermissionError({
+          type: "invalid_request_error",
+          message: "The provided key does not have the required permissions for this endpoint.",
+        });
+      }
+      return "acct_1";
+    });
+
+    await expect(
+      rotateSecretKey(
+        { configurationId: configEntryAll.configurationId, secretKey: "sk_new-key" },
+        mockConfigurator,
+        "https://example.com",
+      ),
+    ).rejects.toThrowError(RestrictedKeyPermissionsError);
+    expect(mockConfigurator.setConfigEntry).not.toHaveBeenCalled();
+  });
+});
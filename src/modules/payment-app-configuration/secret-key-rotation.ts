@@ -0,0 +1,137 @@
+import { Stripe } from "stripe";
+import { getStripeAccountIdForKey, validateStripeKeys } from "../stripe/stripe-api";
+import { getStripeAccountForDirectCharges } from "../stripe/stripe-connect";
+import { getConfigEntryDecrypted } from "./config-manager";
+import { type PaymentAppConfigurator } from "./payment-app-configuration";
+import { type PaymentAppConfigEntry, paymentAppFullyConfiguredEntrySchema } from "./config-entry";
+import { moveStripeWebhookToSecretKey } from "./webhook-manager";
+import { obfuscateConfigEntry } from "./utils";
+import { type SecretKeyRotation } from "./input-schemas";
+import { createLogger } from "@/lib/logger";
+import { RestrictedKeyPermissionsError, SecretKeyAccountMismatchError } from "@/errors";
+
+/** How long the previous key keeps working after rotation */
+export const SECRET_KEY_ROTATION_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+type SecretKeys = Pick<
+  PaymentAppConfigEntry,
+  "secretKey" | "previousSecretKey" | "previousSecretKeyExpiresAt"
+>;
+
+export const getActivePreviousSecretKey = (
+  { previousSecretKey, previousSecretKeyExpiresAt }: Partial<SecretKeys>,
+  now = new Date(),
+) => {
+  if (!previousSecretKey || !previousSecretKeyExpiresAt) {
+    return null;
+  }
+  return new Date(previousSecretKeyExpiresAt) > now ? previousSecretKey : null;
+};
+
+/** Expired previous key is useless, so it's dropped from the entry instead of being kept forever */
+export const removeExpiredPreviousSecretKey = <T extends Partial<SecretKeys>>(
+  entry: T,
+  now = new Date(),
+): T => {
+  const hasPreviousSecretKey = entry.previousSecretKey || entry.previousSecretKeyExpiresAt;
+  if (!hasPreviousSecretKey || getActivePreviousSecretKey(entry, now)) {
+    return entry;
+  }
+  const {
+    previousSecretKey: _,
+    previousSecretKeyExpiresAt: __,
+    ...entryWithoutPreviousKey
+  } = entry;
+  return entryWithoutPreviousKey as T;
+};
+
+/**
+ * Retries the request with the previous key when Stripe rejects the current one,
+ * e.g. when the new key was rolled back in Stripe Dashboard during the grace period
+ */
+export const withSecretKeyFallback = async <T>(
+  config: SecretKeys,
+  request: (secretKey: string) => Promise<T>,
+): Promise<T> => {
+  try {
+    return await request(config.secretKey);
+  } catch (err) {
+    const previousSecretKey = getActivePreviousSecretKey(config);
+    if (!previousSecretKey || !(err instanceof Stripe.errors.StripeAuthenticationError)) {
+      throw err;
+    }
+
+    const logger = createLogger({}, { msgPrefix: "[withSecretKeyFallback] " });
+    logger.warn("Secret key was rejected by Stripe, retrying with the previous key");
+    return request(previousSecretKey);
+  }
+};
+
+/**
+ * Replaces secret key with a new one of the same Stripe account.
+ * The old key is kept as a fallback for the grace period and dropped on the next rotation
+ */
+export const rotateSecretKey = async (
+  { configurationId, secretKey }: SecretKeyRotation,
+  configurator: PaymentAppConfigurator,
+  appUrl: string,
+) => {
+  const logger = createLogger(
+    { configurationId, saleorApiUrl: configurator.saleorApiUrl },
+    { msgPrefix: "[rotateSecretKey] " },
+  );
+
+  const existingEntry = paymentAppFullyConfiguredEntrySchema.parse(
+    await getConfigEntryDecrypted(configurationId, configurator),
+  );
+  await validateStripeKeys(secretKey, existingEntry.publishableKey, {
+    savePaymentMethods: existingEntry.savePaymentMethods,
+    paymentFlow: existingEntry.paymentFlow,
+    readAccount: true,
+  });
+
+  const [currentAccountId, newAccountId] = await Promise.all([
+    getStripeAccountIdForKey(existingEntry.secretKey).catch((err: unknown) => {
+      // Only new keys are checked for this permission, the current one may have been saved without it
+      if (err instanceof Stripe.errors.StripePermissionError) {
+        throw new RestrictedKeyPermissionsError(
+          "Current restricted key can't read the Stripe account, so the new key can't be compared with it. Add Account (read) permission to the current key and try again",
+        );
+      }
+      throw err;
+    }),
+    getStripeAccountIdForKey(secretKey),
+  ]);
+  if (currentAccountId !== newAccountId) {
+    logger.warn({ currentAccountId, newAccountId }, "Secret key belongs to a different account");
+    throw new SecretKeyAccountMismatchError(
+      "This key belongs to a different Stripe account than the current one",
+    );
+  }
+
+  const newWebhook = await moveStripeWebhookToSecretKey({
+    webhookId: existingEntry.webhookId,
+    appUrl,
+    saleorApiUrl: configurator.saleorApiUrl,
+    secretKey,
+    connect: Boolean(getStripeAccountForDirectCharges(existingEntry)),
+    configurator,
+  });
+
+  const rotatedEntry = {
+    ...existingEntry,
+    ...newWebhook,
+    secretKey,
+    previousSecretKey: existingEntry.secretKey,
+    previousSecretKeyExpiresAt: new Date(
+      Date.now() + SECRET_KEY_ROTATION_GRACE_PERIOD_MS,
+    ).toISOString(),
+  };
+  await configurator.setConfigEntry(rotatedEntry);
+  logger.info(
+    { previousSecretKeyExpiresAt: rotatedEntry.previousSecretKeyExpiresAt },
+    "Secret key rotated",
+  );
+
+  return obfuscateConfigEntry(rotatedEntry);
+};
@@ -9,7 +9,23 @@ import {
 export const obfuscateConfigEntry = (
   entry: PaymentAppConfigEntry | PaymentAppUserVisibleConfigEntry,
 ): PaymentAppUserVisibleConfigEntry => {
-  const { secretKey, publishableKey, configurationName, configurationId, webhookId } = entry;
+  const {
+    secretKey,
+    publishableKey,
+    configurationName,
+    configurationId,
+    webhookId,
+    paymentIntentDataAllowList,
+    paymentFlow,
+    savePaymentMethods,
+    incrementalAuthorization,
+    multicapture,
+    connectedAccountId,
+    connectChargeType,
+    applicationFeeType,
+    applicationFeeValue,
+    previousSecretKeyExpiresAt,
+  } = entry;
 
   const configValuesToObfuscate = {
     secretKey,
@@ -20,6 +36,16 @@ export const obfuscateConfigEntry = (
     configurationId,
     configurationName,
     webhookId,
+    ...(paymentIntentDataAllowList && { paymentIntentDataAllowList }),
+    ...(paymentFlow && { paymentFlow }),
+    ...(savePaymentMethods && { savePaymentMethods }),
+    ...(incrementalAuthorization && { incrementalAuthorization }),
+    ...(multicapture && { multicapture }),
+    ...(connectedAccountId && { connectedAccountId }),
+    ...(connectChargeType && { connectChargeType }),
+    ...(applicationFeeType && { applicationFeeType }),
+    ...(applicationFeeValue && { applicationFeeValue }),
+    ...(previousSecretKeyExpiresAt && { previousSecretKeyExpiresAt }),
     ...obfuscateConfig(configValuesToObfuscate),
   } satisfies PaymentAppUserVisibleConfigEntry);
 };
@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { getStripeAccountForDirectCharges } from "../stripe/stripe-connect";
+import { getAllConfigEntriesDecrypted, getConfigEntryDecrypted } from "./config-manager";
+import { type PaymentAppConfigurator } from "./payment-app-configuration";
+import { paymentAppFullyConfiguredEntrySchema } from "./config-entry";
+import {
+  getStripeWebhookIssues,
+  repairStripeWebhook,
+  stripeWebhookIssueSchema,
+} from "./webhook-manager";
+import { withSecretKeyFallback } from "./secret-key-rotation";
+import { obfuscateConfigEntry } from "./utils";
+import { createLogger } from "@/lib/logger";
+
+export const webhookHealthSchema = z.object({
+  configurationId: z.string().min(1),
+  webhookId: z.string().min(1),
+  issues: stripeWebhookIssueSchema.array(),
+});
+export const webhookHealthListSchema = webhookHealthSchema.array();
+
+export type WebhookHealth = z.infer<typeof webhookHealthSchema>;
+
+/** Compares Stripe webhook endpoint of each configuration with what the app expects */
+export const getConfigEntriesWebhookHealth = async (
+  configurator: PaymentAppConfigurator,
+  appUrl: string,
+): Promise<WebhookHealth[]> => {
+  const logger = createLogger(
+    { saleorApiUrl: configurator.saleorApiUrl },
+    { msgPrefix: "[getConfigEntriesWebhookHealth] " },
+  );
+
+  const entries = await getAllConfigEntriesDecrypted(configurator);
+  logger.debug({ entriesLength: entries.length }, "Checking webhooks");
+
+  return Promise.all(
+    entries.map(async (entry) => ({
+      configurationId: entry.configurationId,
+      webhookId: entry.webhookId,
+      issues: await withSecretKeyFallback(entry, (secretKey) =>
+        getStripeWebhookIssues({
+          webhookId: entry.webhookId,
+          appUrl,
+          saleorApiUrl: configurator.saleorApiUrl,
+          secretKey,
+          connect: Boolean(getStripeAccountForDirectCharges(entry)),
+        }),
+      ),
+    })),
+  );
+};
+
+/** Updates the webhook endpoint, or recreates it and stores its new secret when it's gone */
+export const repairConfigEntryWebhook = async (
+  configurationId: string,
+  configurator: PaymentAppConfigurator,
+  appUrl: string,
+) => {
+  const logger = createLogger(
+    { configurationId, saleorApiUrl: configurator.saleorApiUrl },
+    { msgPrefix: "[repairConfigEntryWebhook] " },
+  );
+
+  const entry = paymentAppFullyConfiguredEntrySchema.parse(
+    await getConfigEntryDecrypted(configurationId, configurator),
+  );
+  const newWebhook = await withSecretKeyFallback(entry, (secretKey) =>
+    repairStripeWebhook({
+      webhookId: entry.webhookId,
+      appUrl,
+      saleorApiUrl: configurator.saleorApiUrl,
+      secretKey,
+      connect: Boolean(getStripeAccountForDirectCharges(entry)),
+      configurator,
+    }),
+  );
+  if (!newWebhook) {
+    logger.info("Webhook repaired");
+    return obfuscateConfigEntry(entry);
+  }
+
+  const repairedEntry = { ...entry, ...newWebhook };
+  await configurator.setConfigEntry(repairedEntry);
+  logger.info({ webhookId: newWebhook.webhookId }, "Webhook recreated");
+
+  return obfuscateConfigEntry(repairedEntry);
+};
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  addMissingStripeWebhookEvents,
+  getStripeWebhookIssues,
+  repairStripeWebhook,
+} from "./webhook-manager";
+import { type PaymentAppConfigurator } from "./payment-app-configuration";
+import { setupRecording } from "@/__tests__/polly";
+import { testEnv } from "@/__tests__/test-env.mjs";
+
+const webhookUrl = "https://api.stripe.com/v1/webhook_endpoints/we_1";
+const appUrl = "https://app.example.com";
+const saleorApiUrl = "https://saleor.example.com/graphql/";
+const expectedUrl = `${appUrl}/api/webhooks/stripe?saleorApiUrl=${encodeURIComponent(
+  saleorApiUrl,
+)}`;
+
+const createWebhookEndpoint = (overrides: Record<string, unknown> = {}) => ({
+  id: "we_1",
+  object: "webhook_endpoint",
+  url: expectedUrl,
+  status: "enabled",
+  enabled_events: ["*"],
+  ...overrides,
+});
+
+const resourceMissing = {
+  error: {
+    type: "invalid_request_error",
+    code: "resource_missing",
+    message: "No such webhook endpoint: 'we_1'",
+  },
+};
+
+const mockConfigurator = {
+  getConfig: vi.fn(async () => ({ configurations: [] })),
+} as unknown as PaymentAppConfigurator;
+
+describe("webhook-manager", () => {
+  setupRecording({});
+
+  const webhookOptions = {
+    webhookId: "we_1",
+    appUrl,
+    saleorApiUrl,
+    secretKey: testEnv.TEST_PAYMENT_APP_SECRET_KEY,
+  };
+
+  describe("getStripeWebhookIssues", () => {
+    it("returns no issues for webhook matching the app", async (ctx) => {
+      ctx.polly?.server.get(webhookUrl).intercept((_req, res) => {
+        res.json(createWebhookEndpoint());
+      });
+
+      await expect(getStripeWebhookIssues(webhookOptions)).resolves.toEqual([]);
+    });
+
+    it("detects webhook changed in Stripe Dashboard", async (ctx) => {
+      ctx.polly?.server.get(webhookUrl).intercept((_req, res) => {
+        res.json(
+          createWebhookEndpoint({
+            url: "https://old-app.example.com/api/webhooks/stripe",
+            status: "disabled",
+            enabled_events: ["payment_intent.succeeded"],
+          }),
+        );
+      });
+
+      await expect(getStripeWebhookIssues(webhookOptions)).resolves.toEqual([
+        "disabled",
+        "urlMismatch",
+        "eventsMismatch",
+      ]);
+    });
+
+    it("detects deleted webhook", async (ctx) => {
+      ctx.polly?.server.get(webhookUrl).intercept((_req, res) => {
+        res.status(404).json(resourceMissing);
+      });
+
+      await expect(getStripeWebhookIssues(webhookOptions)).resolves.toEqual(["missing"]);
+    });
+  });
+
+  describe("repairStripeWebhook", () => {
+    it("updates existing webhook and keeps its secret", async (ctx) => {
+      ctx.polly?.server.post(webhookUrl).intercept((req, res) => {
+        const params = new URLSearchParams(req.body ?? "");
+        expect(params.get("url")).toBe(expectedUrl);
+        expect(params.get("disabled")).toBe("false");
+        expect([...params.values()]).toContain("payment_intent.succeeded");
+        res.json(createWebhookEndpoint());
+      });
+
+      await expect(
+        repairStripeWebhook({ ...webhookOptions, configurator: mockConfigurator }),
+      ).resolves.toBeNull();
+    });
+
+    it("recreates deleted webhook", async (ctx) => {
+      ctx.polly?.server.post(webhookUrl).intercept((_req, res) => {
+        res.status(404).json(resourceMissing);
+      });
+      ctx.polly?.server
+        .get("https://api.stripe.com/v1/webhook_endpoints")
+        .intercept((_req, res) => {
+          res.json({ object: "list", data: [], has_more: false, url: "/v1/webhook_endpoints" });
+        });
+      ctx.polly?.server
+        .post("https://api.stripe.com/v1/webhook_endpoints")
+        .intercept((_req, res) => {
+          res.json(createWebhookEndpoint({ id: "we_2", secret: "whsec_new" }));
+        });
+
+      await expect(
+        repairStripeWebhook({ ...webhookOptions, configurator: mockConfigurator }),
+      ).resolves.toEqual({ webhookId: "we_2", webhookSecret: "whsec_new" });
+    });
+  });
+
+  describe("addMissingStripeWebhookEvents", () => {
+    const options = { webhookId: "we_1", secretKey: testEnv.TEST_PAYMENT_APP_SECRET_KEY };
+
+    it("adds events missing in the webhook and keeps the existing ones", async (ctx) => {
+      ctx.polly?.server.get(webhookUrl).intercept((_req, res) => {
+        res.json(
+          createWebhookEndpoint({
+            enabled_events: ["payment_intent.succeeded", "customer.created"],
+          }),
+        );
+      });
+      const updatedEvents: string[] = [];
+      ctx.polly?.server.post(webhookUrl).intercept((req, res) => {
+        updatedEvents.push(...new URLSearchParams(req.body ?? "").values());
+        res.json(createWebhookEndpoint());
+      });
+
+      const addedEvents = await addMissingStripeWebhookEvents(options);
+
+      expect(addedEvents).toContain("charge.dispute.funds_withdrawn");
+      expect(addedEvents).toContain("checkout.session.completed");
+      expect(addedEvents).not.toContain("payment_intent.succeeded");
+      expect(updatedEvents).toContain("customer.created");
+      expect(updatedEvents).toContain("charge.dispute.created");
+      expect(updatedEvents).toContain("checkout.session.async_payment_failed");
+    });
+
+    it("doesn't update webhook listening to all events", async (ctx) => {
+      ctx.polly?.server.get(webhookUrl).intercept((_req, res) => {
+        res.json(createWebhookEndpoint());
+      });
+      const onUpdate = vi.fn();
+      ctx.polly?.server.post(webhookUrl).on("request", onUpdate);
+
+      await expect(addMissingStripeWebhookEvents(options)).resolves.toEqual([]);
+      expect(onUpdate).not.toHaveBeenCalled();
+    });
+
+    it("skips deleted webhook", async (ctx) => {
+      ctx.polly?.server.get(webhookUrl).intercept((_req, res) => {
+        res.status(404).json(resourceMissing);
+      });
+
+      await expect(addMissingStripeWebhookEvents(options)).resolves.toBeNull();
+    });
+  });
+});
@@ -1,8 +1,10 @@
-import { type Stripe } from "stripe";
+import { Stripe } from "stripe";
+import { z } from "zod";
 import { getStripeApiClient } from "../stripe/stripe-api";
 import { type PaymentAppConfigurator } from "./payment-app-configuration";
 import { invariant } from "@/lib/invariant";
-import { createLogger, redactLogObject } from "@/lib/logger";
+import { createLogger, redactError, redactLogObject } from "@/lib/logger";
+import { unpackPromise } from "@/lib/utils";
 
 const stripeWebhookEndpointRoute = "/api/webhooks/stripe";
 
@@ -17,12 +19,25 @@ const enabledEvents: Array<Stripe.WebhookEndpointCreateParams.EnabledEvent> = [
   "payment_intent.amount_capturable_updated",
   "charge.refund.updated",
   "charge.refunded",
+  "charge.dispute.created",
+  "charge.dispute.updated",
+  "charge.dispute.closed",
+  "charge.dispute.funds_withdrawn",
+  "charge.dispute.funds_reinstated",
+  "checkout.session.completed",
+  "checkout.session.expired",
+  "checkout.session.async_payment_succeeded",
+  "checkout.session.async_payment_failed",
 ];
 
-const getWebhookUrl = (appUrl: string, saleorApiUrl: string): string => {
+// Connect endpoints get their own URL, so that they aren't mistaken for the platform endpoint
+const getWebhookUrl = (appUrl: string, saleorApiUrl: string, connect?: boolean): string => {
   const url = new URL(appUrl);
   url.pathname = stripeWebhookEndpointRoute;
   url.searchParams.set("saleorApiUrl", saleorApiUrl);
+  if (connect) {
+    url.searchParams.set("connect", "true");
+  }
   return url.toString();
 };
 
@@ -35,19 +50,27 @@ export const createStripeWebhook = async ({
   appUrl,
   saleorApiUrl,
   secretKey,
+  connect,
   configurator,
 }: {
   appUrl: string;
   saleorApiUrl: string;
   secretKey: string;
+  /** Listens to events of connected accounts instead of the platform account, for direct charges */
+  connect?: boolean;
   configurator: PaymentAppConfigurator;
 }): Promise<StripeWebhookResult> => {
   const logger = createLogger({ saleorApiUrl, appUrl }, { msgPrefix: "[createStripeWebhook] " });
   const stripe = getStripeApiClient(secretKey);
 
-  const url = getWebhookUrl(appUrl, saleorApiUrl);
+  const url = getWebhookUrl(appUrl, saleorApiUrl, connect);
 
-  const existingStripeWebhook = await findExistingWebhook({ appUrl, saleorApiUrl, secretKey });
+  const existingStripeWebhook = await findExistingWebhook({
+    appUrl,
+    saleorApiUrl,
+    secretKey,
+    connect,
+  });
   if (existingStripeWebhook) {
     const existingAppWebhook = await checkWebhookUsage({
       webhookId: existingStripeWebhook.id,
@@ -68,6 +91,7 @@ export const createStripeWebhook = async ({
     url,
     enabled_events: enabledEvents,
     description: "Saleor Stripe App",
+    ...(connect && { connect }),
   });
 
   logger.debug({ webhook: redactLogObject(stripeWebhook) }, "Webhook created");
@@ -84,15 +108,17 @@ export const findExistingWebhook = async ({
   appUrl,
   saleorApiUrl,
   secretKey,
+  connect,
 }: {
   appUrl: string;
   saleorApiUrl: string;
   secretKey: string;
+  connect?: boolean;
 }) => {
   const logger = createLogger({ saleorApiUrl, appUrl }, { msgPrefix: "[findExistingWebhook] " });
   const stripe = getStripeApiClient(secretKey);
 
-  const url = getWebhookUrl(appUrl, saleorApiUrl);
+  const url = getWebhookUrl(appUrl, saleorApiUrl, connect);
   logger.debug({ url }, "Finding existing stripe webhook");
 
   const webhooks = await stripe.webhookEndpoints.list();
@@ -106,6 +132,195 @@ export const findExistingWebhook = async ({
   return existingWebhook;
 };
 
+const isResourceMissingError = (err: unknown) =>
+  err instanceof Stripe.errors.StripeInvalidRequestError && err.code === "resource_missing";
+
+/**
+ * Webhook endpoints belong to the Stripe account, not to the key, so any key of the same account
+ * can take over the existing endpoint. It's only recreated when it no longer exists
+ */
+export const moveStripeWebhookToSecretKey = async ({
+  webhookId,
+  appUrl,
+  saleorApiUrl,
+  secretKey,
+  connect,
+  configurator,
+}: {
+  webhookId: string;
+  appUrl: string;
+  saleorApiUrl: string;
+  secretKey: string;
+  connect?: boolean;
+  configurator: PaymentAppConfigurator;
+}): Promise<StripeWebhookResult | null> => {
+  const logger = createLogger(
+    { webhookId, saleorApiUrl },
+    { msgPrefix: "[moveStripeWebhookToSecretKey] " },
+  );
+  const stripe = getStripeApiClient(secretKey);
+
+  const [retrieveError, stripeWebhook] = await unpackPromise(
+    stripe.webhookEndpoints.retrieve(webhookId),
+  );
+  if (stripeWebhook) {
+    logger.debug("Webhook is available with the new key");
+    return null;
+  }
+  if (!isResourceMissingError(retrieveError)) {
+    throw retrieveError;
+  }
+
+  logger.info("Webhook no longer exists, creating a new one");
+  return createStripeWebhook({ appUrl, saleorApiUrl, secretKey, connect, configurator });
+};
+
+/**
+ * - `missing` - endpoint was deleted in Stripe
+ * - `disabled` - endpoint was disabled in Stripe
+ * - `urlMismatch` - endpoint doesn't point to the current app URL
+ * - `eventsMismatch` - some of the events the app needs aren't enabled
+ * - `unavailable` - endpoint couldn't be checked, e.g. because of an invalid key
+ */
+export const stripeWebhookIssueSchema = z.enum([
+  "missing",
+  "disabled",
+  "urlMismatch",
+  "eventsMismatch",
+  "unavailable",
+]);
+export type StripeWebhookIssue = z.infer<typeof stripeWebhookIssueSchema>;
+
+export const getStripeWebhookIssues = async ({
+  webhookId,
+  appUrl,
+  saleorApiUrl,
+  secretKey,
+  connect,
+}: {
+  webhookId: string;
+  appUrl: string;
+  saleorApiUrl: string;
+  secretKey: string;
+  connect?: boolean;
+}): Promise<StripeWebhookIssue[]> => {
+  const logger = createLogger(
+    { webhookId, saleorApiUrl },
+    { msgPrefix: "[getStripeWebhookIssues] " },
+  );
+  const stripe = getStripeApiClient(secretKey);
+
+  const [retrieveError, stripeWebhook] = await unpackPromise(
+    stripe.webhookEndpoints.retrieve(webhookId),
+  );
+  if (retrieveError) {
+    logger.warn({ err: redactError(retrieveError) }, "Couldn't retrieve webhook");
+    return [isResourceMissingError(retrieveError) ? "missing" : "unavailable"];
+  }
+
+  const issues: StripeWebhookIssue[] = [];
+  if (stripeWebhook.status !== "enabled") {
+    issues.push("disabled");
+  }
+  if (stripeWebhook.url !== getWebhookUrl(appUrl, saleorApiUrl, connect)) {
+    issues.push("urlMismatch");
+  }
+  const webhookEvents = new Set(stripeWebhook.enabled_events);
+  if (!webhookEvents.has("*") && enabledEvents.some((event) => !webhookEvents.has(event))) {
+    issues.push("eventsMismatch");
+  }
+
+  logger.debug({ issues: issues.join(", ") }, "Checked webhook");
+  return issues;
+};
+
+/**
+ * Brings back the endpoint to the state set by `createStripeWebhook`.
+ * Endpoint is updated in place, so its secret doesn't change. New secret is only returned when
+ * the endpoint has to be recreated
+ */
+export const repairStripeWebhook = async ({
+  webhookId,
+  appUrl,
+  saleorApiUrl,
+  secretKey,
+  connect,
+  configurator,
+}: {
+  webhookId: string;
+  appUrl: string;
+  saleorApiUrl: string;
+  secretKey: string;
+  connect?: boolean;
+  configurator: PaymentAppConfigurator;
+}): Promise<StripeWebhookResult | null> => {
+  const logger = createLogger({ webhookId, saleorApiUrl }, { msgPrefix: "[repairStripeWebhook] " });
+  const stripe = getStripeApiClient(secretKey);
+
+  const [updateError] = await unpackPromise(
+    stripe.webhookEndpoints.update(webhookId, {
+      url: getWebhookUrl(appUrl, saleorApiUrl, connect),
+      enabled_events: enabledEvents,
+      disabled: false,
+    }),
+  );
+  if (!updateError) {
+    logger.info("Webhook updated");
+    return null;
+  }
+  if (!isResourceMissingError(updateError)) {
+    throw updateError;
+  }
+
+  logger.info("Webhook no longer exists, creating a new one");
+  return createStripeWebhook({ appUrl, saleorApiUrl, secretKey, connect, configurator });
+};
+
+/**
+ * Enables events added to the app after the endpoint was created, e.g. by a migration.
+ * Events enabled in Stripe Dashboard are kept. Returns the added events,
+ * or `null` when the endpoint no longer exists
+ */
+export const addMissingStripeWebhookEvents = async ({
+  webhookId,
+  secretKey,
+}: {
+  webhookId: string;
+  secretKey: string;
+}): Promise<Stripe.WebhookEndpointUpdateParams.EnabledEvent[] | null> => {
+  const logger = createLogger({ webhookId }, { msgPrefix: "[addMissingStripeWebhookEvents] " });
+  const stripe = getStripeApiClient(secretKey);
+
+  const [retrieveError, stripeWebhook] = await unpackPromise(
+    stripe.webhookEndpoints.retrieve(webhookId),
+  );
+  if (retrieveError) {
+    if (isResourceMissingError(retrieveError)) {
+      logger.warn("Webhook no longer exists");
+      return null;
+    }
+    throw retrieveError;
+  }
+
+  const webhookEvents = new Set(stripeWebhook.enabled_events);
+  const missingEvents = webhookEvents.has("*")
+    ? []
+    : enabledEvents.filter((event) => !webhookEvents.has(event));
+  if (missingEvents.length === 0) {
+    logger.debug("Webhook already has all events");
+    return [];
+  }
+
+  await stripe.webhookEndpoints.update(webhookId, {
+    enabled_events: [
+      ...(stripeWebhook.enabled_events as Stripe.WebhookEndpointUpdateParams.EnabledEvent[]),
+      ...missingEvents,
+    ],
+  });
+  logger.info({ missingEvents: missingEvents.join(", ") }, "Webhook events added");
+  return missingEvents;
+};
+
 export const deleteStripeWebhook = async ({
   webhookId,
   secretKey,
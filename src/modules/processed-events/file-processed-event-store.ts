@@ -0,0 +1,124 @@
+import { open, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { setTimeout } from "node:timers/promises";
+import { z } from "zod";
+import {
+  DEFAULT_PROCESSED_EVENT_TTL_SECONDS,
+  getProcessedEventKey,
+  isDuplicateEvent,
+  type ProcessedEvent,
+  processedEventSchema,
+  type ProcessedEventStore,
+} from "./processed-event-store";
+import { createLogger, redactError } from "@/lib/logger";
+import { unpackPromise } from "@/lib/utils";
+
+const processedEventsFileSchema = z.record(
+  z.string(),
+  z.object({
+    event: processedEventSchema,
+    expiresAt: z.number(),
+  }),
+);
+
+type ProcessedEventsFile = z.infer<typeof processedEventsFileSchema>;
+
+const LOCK_RETRY_MS = 10;
+// Lock of a process that crashed while holding it
+const STALE_LOCK_MS = 10_000;
+
+/**
+ * Stores records in a JSON file, similar to FileAPL.
+ * Not suitable for serverless or multi-instance deployments, use Upstash there
+ */
+export class FileProcessedEventStore implements ProcessedEventStore {
+  private fileName: string;
+  private ttlSeconds: number;
+
+  constructor({
+    fileName = ".stripe-processed-events.json",
+    ttlSeconds = DEFAULT_PROCESSED_EVENT_TTL_SECONDS,
+  }: { fileName?: string; ttlSeconds?: number } = {}) {
+    this.fileName = fileName;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  private async readEvents(): Promise<ProcessedEventsFile> {
+    const logger = createLogger(
+      { fileName: this.fileName },
+      { msgPrefix: "[FileProcessedEventStore] " },
+    );
+
+    try {
+      const content = await readFile(this.fileName, "utf-8");
+      return processedEventsFileSchema.parse(JSON.parse(content));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn({ err: redactError(err) }, "Couldn't read processed events file");
+      }
+      return {};
+    }
+  }
+
+  /** Lock file is created exclusively, so only one claim or write runs at a time */
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const lockFileName = `${this.fileName}.lock`;
+    for (;;) {
+      const [lockError, handle] = await unpackPromise(open(lockFileName, "wx"));
+      if (handle) {
+        await handle.close();
+        break;
+      }
+      if ((lockError as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw lockError;
+      }
+      const lockStats = await stat(lockFileName).catch(() => null);
+      if (lockStats && Date.now() - lockStats.mtimeMs > STALE_LOCK_MS) {
+        await rm(lockFileName, { force: true });
+      } else {
+        await setTimeout(LOCK_RETRY_MS);
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await rm(lockFileName, { force: true });
+    }
+  }
+
+  private async writeEvent(saleorApiUrl: string, event: ProcessedEvent) {
+    const now = Date.now();
+    const events = await this.readEvents();
+    const notExpiredEvents = Object.fromEntries(
+      Object.entries(events).filter(([, entry]) => entry.expiresAt > now),
+    );
+    notExpiredEvents[getProcessedEventKey(saleorApiUrl, event.eventId)] = {
+      event,
+      expiresAt: now + this.ttlSeconds * 1000,
+    };
+    await writeFile(this.fileName, JSON.stringify(notExpiredEvents));
+  }
+
+  async get(saleorApiUrl: string, eventId: string) {
+    const events = await this.readEvents();
+    const entry = events[getProcessedEventKey(saleorApiUrl, eventId)];
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    return entry.event;
+  }
+
+  async claim(saleorApiUrl: string, event: ProcessedEvent) {
+    return this.withLock(async () => {
+      if (isDuplicateEvent(await this.get(saleorApiUrl, event.eventId))) {
+        return false;
+      }
+      await this.writeEvent(saleorApiUrl, event);
+      return true;
+    });
+  }
+
+  async set(saleorApiUrl: string, event: ProcessedEvent) {
+    await this.withLock(() => this.writeEvent(saleorApiUrl, event));
+  }
+}
@@ -0,0 +1,54 @@
+import {
+  DEFAULT_PROCESSED_EVENT_TTL_SECONDS,
+  getProcessedEventKey,
+  isDuplicateEvent,
+  type ProcessedEvent,
+  type ProcessedEventStore,
+} from "./processed-event-store";
+
+/** Keeps records only for the lifetime of the process, use it for development and tests */
+export class MemoryProcessedEventStore implements ProcessedEventStore {
+  private events = new Map<string, { event: ProcessedEvent; expiresAt: number }>();
+  private ttlSeconds: number;
+
+  constructor(ttlSeconds = DEFAULT_PROCESSED_EVENT_TTL_SECONDS) {
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  private getEvent(saleorApiUrl: string, eventId: string) {
+    const key = getProcessedEventKey(saleorApiUrl, eventId);
+    const entry = this.events.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.events.delete(key);
+      return undefined;
+    }
+    return entry.event;
+  }
+
+  private setEvent(saleorApiUrl: string, event: ProcessedEvent) {
+    this.events.set(getProcessedEventKey(saleorApiUrl, event.eventId), {
+      event,
+      expiresAt: Date.now() + this.ttlSeconds * 1000,
+    });
+  }
+
+  async get(saleorApiUrl: string, eventId: string) {
+    return this.getEvent(saleorApiUrl, eventId);
+  }
+
+  // Check and write are synchronous, so concurrent claims can't interleave
+  async claim(saleorApiUrl: string, event: ProcessedEvent) {
+    if (isDuplicateEvent(this.getEvent(saleorApiUrl, event.eventId))) {
+      return false;
+    }
+    this.setEvent(saleorApiUrl, event);
+    return true;
+  }
+
+  async set(saleorApiUrl: string, event: ProcessedEvent) {
+    this.setEvent(saleorApiUrl, event);
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from "vitest";
+import { processEventOnce } from "./process-event-once";
+import { MemoryProcessedEventStore } from "./memory-processed-event-store";
+import { type ProcessedEventStore } from "./processed-event-store";
+import { BaseError } from "@/errors";
+
+const saleorApiUrl = "https://saleor.localhost:8080/graphql/";
+
+describe("processEventOnce", () => {
+  it("processes new event and records success", async () => {
+    const store = new MemoryProcessedEventStore();
+    const process = vi.fn(async () => "result");
+
+    const processed = await processEventOnce({
+      store,
+      saleorApiUrl,
+      eventId: "evt_1",
+      eventType: "payment_intent.succeeded",
+      process,
+    });
+
+    expect(processed).toEqual({ duplicate: false, result: "result" });
+    expect(process).toHaveBeenCalledTimes(1);
+    expect(await store.get(saleorApiUrl, "evt_1")).toEqual({
+      eventId: "evt_1",
+      eventType: "payment_intent.succeeded",
+      status: "success",
+      receivedAt: expect.any(String),
+      finishedAt: expect.any(String),
+    });
+  });
+
+  it("skips event that was already processed", async () => {
+    const store = new MemoryProcessedEventStore();
+    const process = vi.fn(async () => "result");
+    const params = { store, saleorApiUrl, eventId: "evt_1", eventType: "charge.refunded", process };
+
+    await processEventOnce(params);
+    const processed = await processEventOnce(params);
+
+    expect(processed).toEqual({ duplicate: true });
+    expect(process).toHaveBeenCalledTimes(1);
+  });
+
+  it("processes concurrent deliveries of the same event once", async () => {
+    const store = new MemoryProcessedEventStore();
+    const process = vi.fn(async () => "result");
+    const params = { store, saleorApiUrl, eventId: "evt_1", eventType: "charge.refunded", process };
+
+    const results = await Promise.all([processEventOnce(params), processEventOnce(params)]);
+
+    expect(results).toContainEqual({ duplicate: true });
+    expect(results).toContainEqual({ duplicate: false, result: "result" });
+    expect(process).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't treat the same event id from another Saleor instance as duplicate", async () => {
+    const store = new MemoryProcessedEventStore();
+    const process = vi.fn(async () => "result");
+    const params = { store, eventId: "evt_1", eventType: "charge.refunded", process };
+
+    await processEventOnce({ ...params, saleorApiUrl });
+    const processed = await processEventOnce({
+      ...params,
+      saleorApiUrl: "https://other.localhost:8080/graphql/",
+    });
+
+    expect(processed).toEqual({ duplicate: false, result: "result" });
+    expect(process).toHaveBeenCalledTimes(2);
+  });
+
+  it("records failure and processes the event again when it's retried", async () => {
+    const store = new MemoryProcessedEventStore();
+    const process = vi
+      .fn<[], Promise<string>>()
+      .mockRejectedValueOnce(new BaseError("Saleor is down"))
+      .mockResolvedValueOnce("result");
+    const params = { store, saleorApiUrl, eventId: "evt_1", eventType: "charge.refunded", process };
+
+    await expect(processEventOnce(params)).rejects.toThrowError("Saleor is down");
+    expect(await store.get(saleorApiUrl, "evt_1")).toMatchObject({
+      status: "failure",
+      error: { name: "BaseError", message: "Saleor is down" },
+    });
+
+    await expect(processEventOnce(params)).resolves.toEqual({ duplicate: false, result: "result" });
+    expect(await store.get(saleorApiUrl, "evt_1")).toMatchObject({ status: "success" });
+  });
+
+  it("processes the event when store is unavailable", async () => {
+    const store: ProcessedEventStore = {
+      get: vi.fn(async () => {
+        throw new Error("Connection refused");
+      }),
+      set: vi.fn(async () => {
+        throw new Error("Connection refused");
+      }),
+      claim: vi.fn(async () => {
+        throw new Error("Connection refused");
+      }),
+    };
+    const process = vi.fn(async () => "result");
+
+    const processed = await processEventOnce({
+      store,
+      saleorApiUrl,
+      eventId: "evt_1",
+      eventType: "charge.refunded",
+      process,
+    });
+
+    expect(processed).toEqual({ duplicate: false, result: "result" });
+  });
+});
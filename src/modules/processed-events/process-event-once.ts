@@ -0,0 +1,61 @@
+import { type ProcessedEvent, type ProcessedEventStore } from "./processed-event-store";
+import { createLogger, redactError } from "@/lib/logger";
+import { unpackPromise } from "@/lib/utils";
+
+/**
+ * Runs `process` unless the event was already processed for given Saleor instance.
+ * Returns `{ duplicate: true }` for duplicates, otherwise records the outcome in the store.
+ * Store errors are only logged - processing an event twice is better than not processing it at all
+ */
+export const processEventOnce = async <T>({
+  store,
+  saleorApiUrl,
+  eventId,
+  eventType,
+  process,
+}: {
+  store: ProcessedEventStore;
+  saleorApiUrl: string;
+  eventId: string;
+  eventType: string;
+  process: () => Promise<T>;
+}): Promise<{ duplicate: true } | { duplicate: false; result: T }> => {
+  const logger = createLogger(
+    { saleorApiUrl, eventId, eventType },
+    { msgPrefix: "[processEventOnce] " },
+  );
+
+  const receivedAt = new Date().toISOString();
+
+  const [claimError, claimed] = await unpackPromise(
+    store.claim(saleorApiUrl, { eventId, eventType, receivedAt, status: "processing" }),
+  );
+  if (claimError) {
+    logger.warn({ err: redactError(claimError) }, "Couldn't check if event was already processed");
+  } else if (!claimed) {
+    logger.info("Event was already processed or is being processed, skipping");
+    return { duplicate: true };
+  }
+
+  const saveOutcome = async (outcome: Pick<ProcessedEvent, "status" | "error" | "finishedAt">) => {
+    const [setError] = await unpackPromise(
+      store.set(saleorApiUrl, { eventId, eventType, receivedAt, ...outcome }),
+    );
+    if (setError) {
+      logger.warn({ err: redactError(setError) }, "Couldn't save processed event");
+    }
+  };
+
+  const [processError, result] = await unpackPromise(process());
+  if (processError) {
+    await saveOutcome({
+      status: "failure",
+      finishedAt: new Date().toISOString(),
+      error: { name: processError.name, message: processError.message },
+    });
+    throw processError;
+  }
+
+  await saveOutcome({ status: "success", finishedAt: new Date().toISOString() });
+  return { duplicate: false, result: result as T };
+};
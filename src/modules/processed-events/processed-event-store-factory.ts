@@ -0,0 +1,46 @@
+import { type ProcessedEventStore } from "./processed-event-store";
+import { MemoryProcessedEventStore } from "./memory-processed-event-store";
+import { FileProcessedEventStore } from "./file-processed-event-store";
+import { UpstashProcessedEventStore } from "./upstash-processed-event-store";
+import { env } from "@/lib/env.mjs";
+import { invariant } from "@/lib/invariant";
+import { isTest } from "@/lib/isEnv";
+
+/**
+ * Store is picked the same way as APL in `saleor-app.ts`.
+ * Set `PROCESSED_EVENTS_STORE` to use a different backend than APL
+ */
+const createProcessedEventStore = (): ProcessedEventStore => {
+  if (isTest()) {
+    return new MemoryProcessedEventStore();
+  }
+
+  const ttlSeconds = env.PROCESSED_EVENTS_TTL_SECONDS;
+  const storeType = env.PROCESSED_EVENTS_STORE ?? (env.APL === "upstash" ? "upstash" : "file");
+
+  /* c8 ignore start */
+  switch (storeType) {
+    case "upstash":
+      invariant(env.UPSTASH_URL, "Missing UPSTASH_URL env variable!");
+      invariant(env.UPSTASH_TOKEN, "Missing UPSTASH_TOKEN env variable!");
+      return new UpstashProcessedEventStore({
+        restURL: env.UPSTASH_URL,
+        restToken: env.UPSTASH_TOKEN,
+        ttlSeconds,
+      });
+    case "memory":
+      return new MemoryProcessedEventStore(ttlSeconds);
+    case "file":
+      return new FileProcessedEventStore({ ttlSeconds });
+  }
+  /* c8 ignore stop */
+};
+
+let processedEventStore: ProcessedEventStore | undefined;
+
+export const getProcessedEventStore = () => {
+  if (!processedEventStore) {
+    processedEventStore = createProcessedEventStore();
+  }
+  return processedEventStore;
+};
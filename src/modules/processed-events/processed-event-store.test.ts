@@ -0,0 +1,201 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import {
+  isDuplicateEvent,
+  PROCESSING_TIMEOUT_MS,
+  type ProcessedEvent,
+} from "./processed-event-store";
+import { MemoryProcessedEventStore } from "./memory-processed-event-store";
+import { FileProcessedEventStore } from "./file-processed-event-store";
+import { UpstashProcessedEventStore } from "./upstash-processed-event-store";
+import { __do } from "@/lib/utils";
+
+const saleorApiUrl = "https://saleor.localhost:8080/graphql/";
+
+const createProcessedEvent = (overrides: Partial<ProcessedEvent> = {}): ProcessedEvent => ({
+  eventId: "evt_1",
+  eventType: "payment_intent.succeeded",
+  status: "success",
+  receivedAt: new Date().toISOString(),
+  ...overrides,
+});
+
+describe("isDuplicateEvent", () => {
+  it("returns false for events that weren't processed", () => {
+    expect(isDuplicateEvent(undefined)).toBe(false);
+  });
+
+  it("returns true for successfully processed events", () => {
+    expect(isDuplicateEvent(createProcessedEvent({ status: "success" }))).toBe(true);
+  });
+
+  it("returns false for failed events so they can be retried", () => {
+    expect(isDuplicateEvent(createProcessedEvent({ status: "failure" }))).toBe(false);
+  });
+
+  it("returns true for events being processed until processing times out", () => {
+    const receivedAt = new Date("2023-01-01T00:00:00Z");
+    const event = createProcessedEvent({
+      status: "processing",
+      receivedAt: receivedAt.toISOString(),
+    });
+
+    expect(isDuplicateEvent(event, new Date(receivedAt.getTime() + 1000))).toBe(true);
+    expect(isDuplicateEvent(event, new Date(receivedAt.getTime() + PROCESSING_TIMEOUT_MS))).toBe(
+      false,
+    );
+  });
+});
+
+describe("MemoryProcessedEventStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("stores events per Saleor instance", async () => {
+    const store = new MemoryProcessedEventStore();
+    const event = createProcessedEvent();
+
+    await store.set(saleorApiUrl, event);
+
+    expect(await store.get(saleorApiUrl, "evt_1")).toEqual(event);
+    expect(await store.get("https://other.localhost:8080/graphql/", "evt_1")).toBeUndefined();
+  });
+
+  it("claims event once until it fails", async () => {
+    const store = new MemoryProcessedEventStore();
+    const event = createProcessedEvent({ status: "processing" });
+
+    await expect(
+      Promise.all([store.claim(saleorApiUrl, event), store.claim(saleorApiUrl, event)]),
+    ).resolves.toEqual([true, false]);
+
+    await store.set(saleorApiUrl, { ...event, status: "failure" });
+    await expect(store.claim(saleorApiUrl, event)).resolves.toBe(true);
+  });
+
+  it("forgets events after TTL", async () => {
+    vi.useFakeTimers();
+    const store = new MemoryProcessedEventStore(60);
+
+    await store.set(saleorApiUrl, createProcessedEvent());
+    vi.advanceTimersByTime(60 * 1000);
+
+    expect(await store.get(saleorApiUrl, "evt_1")).toBeUndefined();
+  });
+});
+
+describe("FileProcessedEventStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "processed-events-"));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("returns undefined when file doesn't exist", async () => {
+    const store = new FileProcessedEventStore({ fileName: path.join(dir, "events.json") });
+
+    expect(await store.get(saleorApiUrl, "evt_1")).toBeUndefined();
+  });
+
+  it("stores events in file", async () => {
+    const fileName = path.join(dir, "events.json");
+    const event = createProcessedEvent();
+
+    await new FileProcessedEventStore({ fileName }).set(saleorApiUrl, event);
+
+    expect(await new FileProcessedEventStore({ fileName }).get(saleorApiUrl, "evt_1")).toEqual(
+      event,
+    );
+  });
+
+  it("claims event once across store instances", async () => {
+    const fileName = path.join(dir, "events.json");
+    const event = createProcessedEvent({ status: "processing" });
+
+    const claims = await Promise.all([
+      new FileProcessedEventStore({ fileName }).claim(saleorApiUrl, event),
+      new FileProcessedEventStore({ fileName }).claim(saleorApiUrl, event),
+      new FileProcessedEventStore({ fileName }).claim(saleorApiUrl, event),
+    ]);
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+  });
+
+  it("claims event that was already processed again after it fails", async () => {
+    const fileName = path.join(dir, "events.json");
+    const store = new FileProcessedEventStore({ fileName });
+
+    await store.set(saleorApiUrl, createProcessedEvent({ status: "success" }));
+    await expect(store.claim(saleorApiUrl, createProcessedEvent())).resolves.toBe(false);
+
+    await store.set(saleorApiUrl, createProcessedEvent({ status: "failure" }));
+    await expect(store.claim(saleorApiUrl, createProcessedEvent())).resolves.toBe(true);
+  });
+
+  it("removes expired events when saving new ones", async () => {
+    vi.useFakeTimers();
+    const store = new FileProcessedEventStore({
+      fileName: path.join(dir, "events.json"),
+      ttlSeconds: 60,
+    });
+
+    await store.set(saleorApiUrl, createProcessedEvent({ eventId: "evt_1" }));
+    vi.advanceTimersByTime(60 * 1000);
+    await store.set(saleorApiUrl, createProcessedEvent({ eventId: "evt_2" }));
+
+    expect(await store.get(saleorApiUrl, "evt_1")).toBeUndefined();
+    expect(await store.get(saleorApiUrl, "evt_2")).toBeDefined();
+  });
+});
+
+describe("UpstashProcessedEventStore", () => {
+  // Handles commands used by the store like Redis does
+  const createRedisFetch = () => {
+    const values = new Map<string, string>();
+    return vi.fn(async (_url: string, { body }: { body: string }) => {
+      const [command, key, value, ...options] = JSON.parse(body) as string[];
+      const result = __do(() => {
+        switch (command) {
+          case "GET":
+            return values.get(key) ?? null;
+          case "SET":
+            if (options.includes("NX") && values.has(key)) {
+              return null;
+            }
+            values.set(key, value);
+            return "OK";
+          case "DEL":
+            return Number(values.delete(key));
+        }
+      });
+      return new Response(JSON.stringify({ result }));
+    });
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("claims event once until it fails", async () => {
+    vi.stubGlobal("fetch", createRedisFetch());
+    const store = new UpstashProcessedEventStore({ restURL: "https://upstash", restToken: "t" });
+    const event = createProcessedEvent({ status: "processing" });
+
+    await expect(store.claim(saleorApiUrl, event)).resolves.toBe(true);
+    await expect(store.claim(saleorApiUrl, event)).resolves.toBe(false);
+
+    await store.set(saleorApiUrl, { ...event, status: "failure" });
+    await expect(store.claim(saleorApiUrl, event)).resolves.toBe(true);
+
+    await store.set(saleorApiUrl, { ...event, status: "success" });
+    await expect(store.claim(saleorApiUrl, event)).resolves.toBe(false);
+  });
+});
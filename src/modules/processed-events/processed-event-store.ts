@@ -0,0 +1,64 @@
+import { z } from "zod";
+
+export const processedEventStatusSchema = z.enum(["processing", "success", "failure"]);
+
+export const processedEventSchema = z.object({
+  eventId: z.string().min(1),
+  eventType: z.string().min(1),
+  status: processedEventStatusSchema,
+  receivedAt: z.string().datetime(),
+  finishedAt: z.string().datetime().optional(),
+  error: z
+    .object({
+      name: z.string(),
+      message: z.string(),
+    })
+    .optional(),
+});
+
+export type ProcessedEventStatus = z.infer<typeof processedEventStatusSchema>;
+export type ProcessedEvent = z.infer<typeof processedEventSchema>;
+
+/**
+ * Stores Stripe events that were already handled for given Saleor instance.
+ * Records expire after `ttlSeconds` passed to the store
+ */
+export interface ProcessedEventStore {
+  get(saleorApiUrl: string, eventId: string): Promise<ProcessedEvent | undefined>;
+  set(saleorApiUrl: string, event: ProcessedEvent): Promise<void>;
+  /**
+   * Atomically saves the event as "processing" unless it's a duplicate, see `isDuplicateEvent`.
+   * Returns `false` for duplicates, so concurrent deliveries of the same event are processed once
+   */
+  claim(saleorApiUrl: string, event: ProcessedEvent): Promise<boolean>;
+}
+
+/** Stripe retries deliveries for up to 3 days, later deliveries are only sent manually */
+export const DEFAULT_PROCESSED_EVENT_TTL_SECONDS = 3 * 24 * 60 * 60;
+
+/** Event that is still "processing" after this time is treated as abandoned and can be retried */
+export const PROCESSING_TIMEOUT_MS = 60 * 1000;
+
+export const getProcessedEventKey = (saleorApiUrl: string, eventId: string) =>
+  `${saleorApiUrl}:${eventId}`;
+
+/**
+ * Event is a duplicate when it was already reported to Saleor or is being processed right now.
+ * Failed events are processed again when Stripe retries them
+ */
+export const isDuplicateEvent = (
+  processedEvent: ProcessedEvent | null | undefined,
+  now = new Date(),
+): boolean => {
+  if (!processedEvent) {
+    return false;
+  }
+  switch (processedEvent.status) {
+    case "success":
+      return true;
+    case "failure":
+      return false;
+    case "processing":
+      return now.getTime() - new Date(processedEvent.receivedAt).getTime() < PROCESSING_TIMEOUT_MS;
+  }
+};
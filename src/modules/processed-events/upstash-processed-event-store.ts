@@ -0,0 +1,111 @@
+import {
+  DEFAULT_PROCESSED_EVENT_TTL_SECONDS,
+  getProcessedEventKey,
+  PROCESSING_TIMEOUT_MS,
+  processedEventSchema,
+  type ProcessedEvent,
+  type ProcessedEventStore,
+} from "./processed-event-store";
+import { BaseError, HttpRequestError } from "@/errors";
+
+export const UpstashCommandError = BaseError.subclass("UpstashCommandError");
+
+const KEY_PREFIX = "stripe-processed-event:";
+const LOCK_KEY_PREFIX = "stripe-processed-event-lock:";
+
+/**
+ * Stores records in Upstash Redis using its REST API, same as UpstashAPL.
+ * Expiration is handled by Redis
+ */
+export class UpstashProcessedEventStore implements ProcessedEventStore {
+  private restURL: string;
+  private restToken: string;
+  private ttlSeconds: number;
+
+  constructor({
+    restURL,
+    restToken,
+    ttlSeconds = DEFAULT_PROCESSED_EVENT_TTL_SECONDS,
+  }: {
+    restURL: string;
+    restToken: string;
+    ttlSeconds?: number;
+  }) {
+    this.restURL = restURL;
+    this.restToken = restToken;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  private async command(command: Array<string | number>): Promise<unknown> {
+    const response = await fetch(this.restURL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.restToken}`,
+      },
+      body: JSON.stringify(command),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new HttpRequestError(`Upstash responded with ${response.status}`, {
+        props: {
+          statusCode: response.status,
+          body,
+          headers: Object.fromEntries(response.headers.entries()),
+        },
+      });
+    }
+
+    const { result, error } = (await response.json()) as { result?: unknown; error?: string };
+    if (error) {
+      throw new UpstashCommandError(error);
+    }
+    return result;
+  }
+
+  async get(saleorApiUrl: string, eventId: string) {
+    const result = await this.command([
+      "GET",
+      KEY_PREFIX + getProcessedEventKey(saleorApiUrl, eventId),
+    ]);
+    if (typeof result !== "string") {
+      return undefined;
+    }
+    return processedEventSchema.parse(JSON.parse(result));
+  }
+
+  /**
+   * Lock is taken with `SET NX` and expires like an abandoned "processing" event.
+   * Event is checked after the lock is taken, so the one finished in the meantime isn't processed again
+   */
+  async claim(saleorApiUrl: string, event: ProcessedEvent) {
+    const lockResult = await this.command([
+      "SET",
+      LOCK_KEY_PREFIX + getProcessedEventKey(saleorApiUrl, event.eventId),
+      event.receivedAt,
+      "NX",
+      "PX",
+      PROCESSING_TIMEOUT_MS,
+    ]);
+    if (lockResult !== "OK") {
+      return false;
+    }
+
+    const processedEvent = await this.get(saleorApiUrl, event.eventId);
+    if (processedEvent?.status === "success") {
+      return false;
+    }
+    await this.set(saleorApiUrl, event);
+    return true;
+  }
+
+  async set(saleorApiUrl: string, event: ProcessedEvent) {
+    const key = getProcessedEventKey(saleorApiUrl, event.eventId);
+    await this.command(["SET", KEY_PREFIX + key, JSON.stringify(event), "EX", this.ttlSeconds]);
+    // Failed event can be retried right away
+    if (event.status !== "processing") {
+      await this.command(["DEL", LOCK_KEY_PREFIX + key]);
+    }
+  }
+}
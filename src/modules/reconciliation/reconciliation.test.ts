@@ -0,0 +1,198 @@
+import type Stripe from "stripe";
+import { describe, it, expect } from "vitest";
+import {
+  findMissingTransactionEvent,
+  getExpectedPaymentIntentEvent,
+  getExpectedRefundEvent,
+  isStripeObjectOfSaleorInstance,
+} from "./reconciliation";
+import { TransactionEventTypeEnum } from "generated/graphql";
+
+const saleorApiUrl = "https://example.com/graphql/";
+const metadata = { transactionId: "transaction-id", channelId: "channel-id", saleorApiUrl };
+
+const getPaymentIntent = (paymentIntent: Partial<Stripe.PaymentIntent>) =>
+  ({
+    id: "pi_123",
+    object: "payment_intent",
+    amount: 1000,
+    amount_capturable: 0,
+    amount_received: 0,
+    currency: "usd",
+    capture_method: "automatic",
+    last_payment_error: null,
+    metadata,
+    ...paymentIntent,
+  }) as Stripe.PaymentIntent;
+
+const getRefund = (refund: Partial<Stripe.Refund>) =>
+  ({
+    id: "re_123",
+    object: "refund",
+    amount: 500,
+    currency: "usd",
+    status: "succeeded",
+    metadata: {},
+    payment_intent: getPaymentIntent({ status: "succeeded", amount_received: 1000 }),
+    ...refund,
+  }) as Stripe.Refund;
+
+const getTransaction = (
+  events: Array<{ pspReference: string; type: TransactionEventTypeEnum; amount: number }>,
+) => ({
+  id: "transaction-id",
+  pspReference: "pi_123",
+  events: events.map((event) => ({
+    ...event,
+    amount: { amount: event.amount, currency: "USD" },
+  })),
+});
+
+describe("isStripeObjectOfSaleorInstance", () => {
+  it("matches PaymentIntents and refunds by Saleor API URL in metadata", () => {
+    expect(isStripeObjectOfSaleorInstance(getPaymentIntent({}), saleorApiUrl)).toBe(true);
+    expect(isStripeObjectOfSaleorInstance(getRefund({}), saleorApiUrl)).toBe(true);
+  });
+
+  it("skips objects of other Saleor instances or without Saleor API URL", () => {
+    expect(
+      isStripeObjectOfSaleorInstance(getPaymentIntent({}), "https://other.example.com/graphql/"),
+    ).toBe(false);
+    expect(
+      isStripeObjectOfSaleorInstance(getRefund({ payment_intent: "pi_123" }), saleorApiUrl),
+    ).toBe(false);
+    expect(
+      isStripeObjectOfSaleorInstance(
+        getPaymentIntent({
+          metadata: { transactionId: "transaction-id", channelId: "channel-id" },
+        }),
+        saleorApiUrl,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("getExpectedPaymentIntentEvent", () => {
+  it.each([
+    [
+      { status: "succeeded", amount_received: 1000 },
+      { type: TransactionEventTypeEnum.ChargeSuccess, amount: 10 },
+    ],
+    [
+      { status: "requires_capture", capture_method: "manual", amount_capturable: 1000 },
+      { type: TransactionEventTypeEnum.AuthorizationSuccess, amount: 10 },
+    ],
+    [
+      { status: "canceled", capture_method: "manual" },
+      { type: TransactionEventTypeEnum.AuthorizationFailure, amount: 10 },
+    ],
+    [
+      { status: "requires_payment_method", last_payment_error: { type: "card_error" } },
+      { type: TransactionEventTypeEnum.ChargeFailure, amount: 10 },
+    ],
+  ] as const)("maps PaymentIntent %j to %j", (paymentIntent, expected) => {
+    expect(
+      getExpectedPaymentIntentEvent(
+        getPaymentIntent(paymentIntent as Partial<Stripe.PaymentIntent>),
+      ),
+    ).toMatchObject({
+      ...expected,
+      transactionId: "transaction-id",
+      pspReference: "pi_123",
+      currency: "USD",
+    });
+  });
+
+  it("skips PaymentIntents in progress or created outside of the app", () => {
+    expect(getExpectedPaymentIntentEvent(getPaymentIntent({ status: "processing" }))).toBeNull();
+    expect(
+      getExpectedPaymentIntentEvent(getPaymentIntent({ status: "requires_payment_method" })),
+    ).toBeNull();
+    expect(
+      getExpectedPaymentIntentEvent(getPaymentIntent({ status: "succeeded", metadata: {} })),
+    ).toBeNull();
+  });
+});
+
+describe("getExpectedRefundEvent", () => {
+  it("takes transaction from metadata of the refunded PaymentIntent", () => {
+    expect(getExpectedRefundEvent(getRefund({}))).toMatchObject({
+      transactionId: "transaction-id",
+      pspReference: "re_123",
+      type: TransactionEventTypeEnum.RefundSuccess,
+      amount: 5,
+    });
+    expect(getExpectedRefundEvent(getRefund({ status: "failed" }))).toMatchObject({
+      type: TransactionEventTypeEnum.RefundFailure,
+    });
+    expect(getExpectedRefundEvent(getRefund({ status: "pending" }))).toBeNull();
+  });
+});
+
+describe("findMissingTransactionEvent", () => {
+  it("returns event missing in Saleor transaction", () => {
+    const expectedEvent = getExpectedPaymentIntentEvent(
+      getPaymentIntent({ status: "succeeded", amount_received: 1000 }),
+    )!;
+
+    expect(
+      findMissingTransactionEvent(
+        expectedEvent,
+        getTransaction([
+          { pspReference: "pi_123", type: TransactionEventTypeEnum.ChargeRequest, amount: 10 },
+        ]),
+      ),
+    ).toEqual({
+      transactionId: "transaction-id",
+      pspReference: "pi_123",
+      type: TransactionEventTypeEnum.ChargeSuccess,
+      amount: 10,
+      currency: "USD",
+      externalUrl: "https://dashboard.stripe.com/payments/pi_123",
+    });
+    expect(
+      findMissingTransactionEvent(
+        expectedEvent,
+        getTransaction([
+          { pspReference: "pi_123", type: TransactionEventTypeEnum.ChargeSuccess, amount: 10 },
+        ]),
+      ),
+    ).toBeNull();
+  });
+
+  it("treats canceled authorization as up to date", () => {
+    const expectedEvent = getExpectedPaymentIntentEvent(
+      getPaymentIntent({ status: "canceled", capture_method: "manual" }),
+    )!;
+
+    expect(
+      findMissingTransactionEvent(
+        expectedEvent,
+        getTransaction([
+          { pspReference: "pi_123", type: TransactionEventTypeEnum.CancelSuccess, amount: 10 },
+        ]),
+      ),
+    ).toBeNull();
+  });
+
+  it("matches refunds reported with PaymentIntent id by Stripe webhook", () => {
+    const expectedEvent = getExpectedRefundEvent(getRefund({}))!;
+
+    expect(
+      findMissingTransactionEvent(
+        expectedEvent,
+        getTransaction([
+          { pspReference: "pi_123", type: TransactionEventTypeEnum.RefundSuccess, amount: 5 },
+        ]),
+      ),
+    ).toBeNull();
+    expect(
+      findMissingTransactionEvent(
+        expectedEvent,
+        getTransaction([
+          { pspReference: "pi_123", type: TransactionEventTypeEnum.RefundSuccess, amount: 2 },
+        ]),
+      ),
+    ).not.toBeNull();
+  });
+});
@@ -0,0 +1,331 @@
+import type Stripe from "stripe";
+import { type Client } from "urql";
+import uniqBy from "lodash-es/uniqBy";
+import { getStripeApiClient, getStripeExternalUrlForIntentId } from "../stripe/stripe-api";
+import { getStripeAccountForDirectCharges } from "../stripe/stripe-connect";
+import { getSaleorAmountFromStripeAmount } from "../stripe/currencies";
+import { getPaymentAppConfigurator } from "../payment-app-configuration/payment-app-configuration-factory";
+import { type PaymentAppConfigEntry } from "../payment-app-configuration/config-entry";
+import { withSecretKeyFallback } from "../payment-app-configuration/secret-key-rotation";
+import {
+  getAvailableActionsForType,
+  processTransactionEventReport,
+} from "../webhooks/stripe-webhook";
+import { createLogger, redactError } from "@/lib/logger";
+import {
+  FetchTransactionDocument,
+  type FetchTransactionQuery,
+  TransactionEventTypeEnum,
+} from "generated/graphql";
+import { __do, unpackPromise } from "@/lib/utils";
+
+// Stops a single run from listing the whole Stripe account history
+const MAX_STRIPE_OBJECTS_PER_CONFIGURATION = 1000;
+
+type SaleorTransaction = NonNullable<FetchTransactionQuery["transaction"]>;
+
+/** Event Saleor should have for the current state of a Stripe object */
+export type ExpectedTransactionEvent = {
+  transactionId: string;
+  pspReference: string;
+  type: TransactionEventTypeEnum;
+  amount: number;
+  currency: string;
+  externalUrl: string;
+  /** Events already reported for the same object that mean the transaction is up to date */
+  matches: (event: SaleorTransaction["events"][number]) => boolean;
+};
+
+export type MissingTransactionEvent = Omit<ExpectedTransactionEvent, "matches">;
+
+export type ReconciliationResult = {
+  checked: number;
+  missing: MissingTransactionEvent[];
+  reported: number;
+  errors: string[];
+};
+
+const getSaleorTransactionIds = (metadata: Stripe.Metadata | null | undefined) =>
+  metadata?.transactionId && metadata.channelId
+    ? { transactionId: metadata.transactionId, channelId: metadata.channelId }
+    : null;
+
+/**
+ * Stripe account can be shared by many Saleor instances, objects of other instances would point
+ * to transactions that don't exist here. Refunds are matched by metadata of their PaymentIntent
+ */
+export const isStripeObjectOfSaleorInstance = (
+  object: Stripe.PaymentIntent | Stripe.Refund,
+  saleorApiUrl: string,
+) => {
+  const paymentIntent =
+    object.object === "refund" && object.payment_intent && typeof object.payment_intent === "object"
+      ? object.payment_intent
+      : null;
+  return [object.metadata, paymentIntent?.metadata].some(
+    (metadata) => metadata?.saleorApiUrl === saleorApiUrl,
+  );
+};
+
+const isManualCapture = (paymentIntent: Stripe.PaymentIntent) =>
+  paymentIntent.capture_method === "manual";
+
+/**
+ * Maps the final state of a PaymentIntent to the event reported by the Stripe webhook.
+ * PaymentIntents that are still in progress are skipped, Saleor correctly shows them as requested
+ */
+export const getExpectedPaymentIntentEvent = (
+  paymentIntent: Stripe.PaymentIntent,
+): ExpectedTransactionEvent | null => {
+  const saleorIds = getSaleorTransactionIds(paymentIntent.metadata);
+  if (!saleorIds) {
+    return null;
+  }
+
+  const getEvent = (
+    type: TransactionEventTypeEnum,
+    stripeAmount: number,
+    alsoMatchingTypes: TransactionEventTypeEnum[] = [],
+  ): ExpectedTransactionEvent => ({
+    transactionId: saleorIds.transactionId,
+    pspReference: paymentIntent.id,
+    type,
+    amount: getSaleorAmountFromStripeAmount({
+      amount: stripeAmount,
+      currency: paymentIntent.currency,
+    }),
+    currency: paymentIntent.currency.toUpperCase(),
+    externalUrl: getStripeExternalUrlForIntentId(paymentIntent.id),
+    matches: (event) =>
+      event.pspReference === paymentIntent.id &&
+      !!event.type &&
+      [type, ...alsoMatchingTypes].includes(event.type),
+  });
+  const failureType = isManualCapture(paymentIntent)
+    ? TransactionEventTypeEnum.AuthorizationFailure
+    : TransactionEventTypeEnum.ChargeFailure;
+
+  switch (paymentIntent.status) {
+    case "succeeded":
+      return getEvent(TransactionEventTypeEnum.ChargeSuccess, paymentIntent.amount_received);
+    case "requires_capture":
+      return getEvent(
+        TransactionEventTypeEnum.AuthorizationSuccess,
+        paymentIntent.amount_capturable,
+        // Partially captured authorizations are already charged in Saleor
+        [TransactionEventTypeEnum.ChargeSuccess],
+      );
+    case "canceled":
+      return getEvent(failureType, paymentIntent.amount, [TransactionEventTypeEnum.CancelSuccess]);
+    case "requires_payment_method":
+      return paymentIntent.last_payment_error ? getEvent(failureType, paymentIntent.amount) : null;
+    case "processing":
+    case "requires_action":
+    case "requires_confirmation":
+      return null;
+  }
+};
+
+/**
+ * Refunds are reported with their id by the sync webhook,
+ * and with id of the PaymentIntent by the Stripe webhook
+ */
+export const getExpectedRefundEvent = (refund: Stripe.Refund): ExpectedTransactionEvent | null => {
+  const paymentIntent =
+    refund.payment_intent && typeof refund.payment_intent === "object"
+      ? refund.payment_intent
+      : null;
+  const saleorIds =
+    getSaleorTransactionIds(refund.metadata) ?? getSaleorTransactionIds(paymentIntent?.metadata);
+  if (!saleorIds) {
+    return null;
+  }
+
+  const type = __do(() => {
+    switch (refund.status) {
+      case "succeeded":
+        return TransactionEventTypeEnum.RefundSuccess;
+      case "canceled":
+      case "failed":
+        return TransactionEventTypeEnum.RefundFailure;
+      default:
+        return null;
+    }
+  });
+  if (!type) {
+    return null;
+  }
+
+  const amount = getSaleorAmountFromStripeAmount({
+    amount: refund.amount,
+    currency: refund.currency,
+  });
+  return {
+    transactionId: saleorIds.transactionId,
+    pspReference: refund.id,
+    type,
+    amount,
+    currency: refund.currency.toUpperCase(),
+    externalUrl: getStripeExternalUrlForIntentId(paymentIntent?.id ?? refund.id),
+    matches: (event) =>
+      event.type === type &&
+      (event.pspReference === refund.id ||
+        (!!paymentIntent &&
+          event.pspReference === paymentIntent.id &&
+          event.amount.amount === amount)),
+  };
+};
+
+export const findMissingTransactionEvent = (
+  expectedEvent: ExpectedTransactionEvent,
+  transaction: SaleorTransaction,
+): MissingTransactionEvent | null => {
+  if (transaction.events.some(expectedEvent.matches)) {
+    return null;
+  }
+
+  const { matches: _matches, ...missingEvent } = expectedEvent;
+  return missingEvent;
+};
+
+const listExpectedTransactionEvents = async (
+  configEntry: PaymentAppConfigEntry,
+  secretKey: string,
+  saleorApiUrl: string,
+  since: Date,
+) => {
+  const stripe = getStripeApiClient(secretKey, getStripeAccountForDirectCharges(configEntry));
+  const created = { gte: Math.floor(since.getTime() / 1000) };
+
+  const [paymentIntents, refunds] = await Promise.all([
+    stripe.paymentIntents
+      .list({ created, limit: 100 })
+      .autoPagingToArray({ limit: MAX_STRIPE_OBJECTS_PER_CONFIGURATION }),
+    stripe.refunds
+      // Refunds don't have our metadata, it's taken from their PaymentIntent
+      .list({ created, limit: 100, expand: ["data.payment_intent"] })
+      .autoPagingToArray({ limit: MAX_STRIPE_OBJECTS_PER_CONFIGURATION }),
+  ]);
+
+  const isOfSaleorInstance = (object: Stripe.PaymentIntent | Stripe.Refund) =>
+    isStripeObjectOfSaleorInstance(object, saleorApiUrl);
+
+  return [
+    ...paymentIntents.filter(isOfSaleorInstance).map(getExpectedPaymentIntentEvent),
+    ...refunds.filter(isOfSaleorInstance).map(getExpectedRefundEvent),
+  ].filter((event): event is ExpectedTransactionEvent => event !== null);
+};
+
+const fetchTransaction = async (client: Client, id: string) => {
+  const { data, error } = await client.query(FetchTransactionDocument, { id }).toPromise();
+  if (error) {
+    throw error;
+  }
+  return data?.transaction ?? null;
+};
+
+/**
+ * Compares PaymentIntents and refunds of this Saleor instance created since the given date with Saleor transactions,
+ * and reports events that are missing in Saleor, e.g. because a Stripe webhook delivery was lost
+ */
+export const reconcileTransactions = async ({
+  client,
+  saleorApiUrl,
+  since,
+  dryRun,
+}: {
+  client: Client;
+  saleorApiUrl: string;
+  since: Date;
+  dryRun: boolean;
+}): Promise<ReconciliationResult> => {
+  const logger = createLogger(
+    { saleorApiUrl, since: since.toISOString(), dryRun },
+    { msgPrefix: "[reconcileTransactions] " },
+  );
+  const result: ReconciliationResult = { checked: 0, missing: [], reported: 0, errors: [] };
+
+  const configurator = getPaymentAppConfigurator(client, saleorApiUrl);
+  const { configurations } = await configurator.getConfig();
+  // Configurations sharing the same Stripe account would return the same objects
+  const uniqueConfigurations = uniqBy(
+    configurations,
+    (entry) => `${entry.secretKey}:${getStripeAccountForDirectCharges(entry) ?? ""}`,
+  );
+
+  for (const configEntry of uniqueConfigurations) {
+    const [listError, expectedEvents] = await unpackPromise(
+      withSecretKeyFallback(configEntry, (secretKey) =>
+        listExpectedTransactionEvents(configEntry, secretKey, saleorApiUrl, since),
+      ),
+    );
+    if (listError) {
+      logger.error(
+        { err: redactError(listError), configurationId: configEntry.configurationId },
+        "Couldn't list Stripe objects",
+      );
+      result.errors.push(`${configEntry.configurationName}: ${listError.message}`);
+      continue;
+    }
+
+    for (const expectedEvent of expectedEvents) {
+      result.checked++;
+      const [transactionError, transaction] = await unpackPromise(
+        fetchTransaction(client, expectedEvent.transactionId),
+      );
+      if (transactionError || !transaction) {
+        result.errors.push(
+          `${expectedEvent.pspReference}: transaction ${expectedEvent.transactionId} ${
+            transactionError ? `couldn't be fetched: ${transactionError.message}` : "not found"
+          }`,
+        );
+        continue;
+      }
+
+      const missingEvent = findMissingTransactionEvent(expectedEvent, transaction);
+      if (!missingEvent) {
+        continue;
+      }
+      result.missing.push(missingEvent);
+      if (dryRun) {
+        continue;
+      }
+
+      const { errors } = await processTransactionEventReport({
+        client,
+        transactionEventReport: {
+          transactionId: missingEvent.transactionId,
+          amount: missingEvent.amount,
+          availableActions: getAvailableActionsForType(missingEvent.type),
+          externalUrl: missingEvent.externalUrl,
+          message: "Reported by reconciliation, Stripe webhook wasn't processed",
+          pspReference: missingEvent.pspReference,
+          time: new Date().toISOString(),
+          type: missingEvent.type,
+        },
+      });
+      if (errors.length > 0) {
+        result.errors.push(
+          `${missingEvent.pspReference}: ${errors.map((err) => err.message).join(", ")}`,
+        );
+        continue;
+      }
+      result.reported++;
+    }
+  }
+
+  logger.info(
+    {
+      checked: result.checked,
+      missing: result.missing.length,
+      reported: result.reported,
+      errors: result.errors.length,
+    },
+    "Reconciliation finished",
+  );
+  return result;
+};
+
+/** Single line per missing event, e.g. `+ CHARGE_SUCCESS 10 USD pi_123 (transaction: VHJh...)` */
+export const formatMissingTransactionEvent = (event: MissingTransactionEvent) =>
+  `+ ${event.type} ${event.amount} ${event.currency} ${event.pspReference} (transaction: ${event.transactionId})`;
@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import {
+  CheckoutSessionDataFieldInvalidError,
+  InvalidCheckoutSessionDataError,
+  getCheckoutSessionLineItems,
+  getPaymentFlow,
+  omitPaymentFlow,
+  parseCheckoutSessionData,
+  transactionSessionInitializeEventToStripeCheckoutSessionCreate,
+} from "./checkout-session";
+import {
+  createMockTransactionInitializeSessionEvent,
+  createMockTransactionInitializeSessionSourceObjectCheckout,
+  createMockTransactionInitializeSessionSourceObjectOrder,
+} from "@/modules/webhooks/__tests__/utils";
+import { TransactionFlowStrategyEnum } from "generated/graphql";
+
+const checkoutSessionData = {
+  paymentFlow: "checkoutSession",
+  checkoutSession: {
+    successUrl: "https://example.com/success",
+    cancelUrl: "https://example.com/cancel",
+  },
+} as const;
+
+describe("getPaymentFlow", () => {
+  it("uses flow from data over the configured one", () => {
+    expect(getPaymentFlow({ paymentFlow: "checkoutSession" }, "paymentElement")).toBe(
+      "checkoutSession",
+    );
+    expect(getPaymentFlow({ paymentFlow: "paymentElement" }, "checkoutSession")).toBe(
+      "paymentElement",
+    );
+  });
+
+  it("falls back to the configured flow and then to Payment Element", () => {
+    expect(getPaymentFlow({}, "checkoutSession")).toBe("checkoutSession");
+    expect(getPaymentFlow(null, undefined)).toBe("paymentElement");
+  });
+
+  it("throws on unknown flow", () => {
+    expect(() => getPaymentFlow({ paymentFlow: "hosted" })).toThrowError(
+      InvalidCheckoutSessionDataError,
+    );
+  });
+});
+
+describe("omitPaymentFlow", () => {
+  it("removes paymentFlow and keeps other fields", () => {
+    expect(omitPaymentFlow({ paymentFlow: "paymentElement", description: "Order #1" })).toEqual({
+      description: "Order #1",
+    });
+    expect(omitPaymentFlow(null)).toBeNull();
+  });
+});
+
+describe("parseCheckoutSessionData", () => {
+  it("accepts redirect urls", () => {
+    expect(parseCheckoutSessionData(checkoutSessionData)).toEqual(checkoutSessionData);
+  });
+
+  it("rejects invalid urls and unknown fields", () => {
+    const parse = () =>
+      parseCheckoutSessionData({
+        checkoutSession: { successUrl: "not-an-url", cancelUrl: "https://example.com/cancel" },
+        description: "Order #1",
+      });
+
+    expect(parse).toThrowError(InvalidCheckoutSessionDataError);
+    try {
+      parse();
+    } catch (err) {
+      expect((err as InstanceType<typeof InvalidCheckoutSessionDataError>).errors).toEqual([
+        new CheckoutSessionDataFieldInvalidError("checkoutSession.successUrl: Invalid url"),
+        new CheckoutSessionDataFieldInvalidError("Unrecognized key(s) in object: 'description'"),
+      ]);
+    }
+  });
+});
+
+describe("getCheckoutSessionLineItems", () => {
+  it("maps lines and shipping to line items", () => {
+    expect(
+      getCheckoutSessionLineItems(createMockTransactionInitializeSessionSourceObjectCheckout()),
+    ).toEqual([
+      {
+        quantity: 1,
+        price_data: {
+          currency: "PLN",
+          unit_amount: 9999,
+          product_data: { name: "product (product variant)" },
+        },
+      },
+      {
+        quantity: 1,
+        price_data: {
+          currency: "PLN",
+          unit_amount: 12300,
+          product_data: { name: "Shipping: some-shipping-name" },
+        },
+      },
+    ]);
+  });
+
+  it("uses quantity when line total can be divided into unit prices", () => {
+    const sourceObject = createMockTransactionInitializeSessionSourceObjectCheckout({
+      total: { gross: { amount: 20 + 123.0 } },
+      lines: [{ quantity: 4, totalPrice: { gross: { amount: 20 } } }],
+    });
+
+    expect(getCheckoutSessionLineItems(sourceObject)[0]).toEqual({
+      quantity: 4,
+      price_data: {
+        currency: "PLN",
+        unit_amount: 500,
+        product_data: { name: "product (product variant)" },
+      },
+    });
+  });
+
+  it("keeps line total when it can't be divided into unit prices", () => {
+    const sourceObject = createMockTransactionInitializeSessionSourceObjectCheckout({
+      total: { gross: { amount: 10 + 123.0 } },
+      lines: [{ quantity: 3, totalPrice: { gross: { amount: 10 } } }],
+    });
+
+    expect(getCheckoutSessionLineItems(sourceObject)[0]).toEqual({
+      quantity: 1,
+      price_data: {
+        currency: "PLN",
+        unit_amount: 1000,
+        product_data: { name: "product (product variant) × 3" },
+      },
+    });
+  });
+
+  it("uses a single line when lines don't add up to the total", () => {
+    const sourceObject = createMockTransactionInitializeSessionSourceObjectOrder({
+      total: { gross: { amount: 200 } },
+    });
+
+    expect(getCheckoutSessionLineItems(sourceObject)).toEqual([
+      {
+        quantity: 1,
+        price_data: {
+          currency: "PLN",
+          unit_amount: 20000,
+          product_data: { name: "Order total" },
+        },
+      },
+    ]);
+  });
+});
+
+describe("transactionSessionInitializeEventToStripeCheckoutSessionCreate", () => {
+  it.each([
+    { actionType: TransactionFlowStrategyEnum.Charge, captureMethod: "automatic" },
+    { actionType: TransactionFlowStrategyEnum.Authorization, captureMethod: "manual" },
+  ])("creates session for $actionType", async ({ actionType, captureMethod }) => {
+    const event = await createMockTransactionInitializeSessionEvent({ action: { actionType } });
+
+    const params = transactionSessionInitializeEventToStripeCheckoutSessionCreate(
+      event,
+      "https://example.com/graphql/",
+      checkoutSessionData,
+    );
+
+    expect(params).toMatchObject({
+      mode: "payment",
+      success_url: "https://example.com/success",
+      cancel_url: "https://example.com/cancel",
+      client_reference_id: "555555",
+      customer_email: "test@saleor.io",
+      payment_intent_data: {
+        capture_method: captureMethod,
+        metadata: {
+          transactionId: "555555",
+          channelId: "1",
+          saleorApiUrl: "https://example.com/graphql/",
+          checkoutId: "c29tZS1jaGVja291dC1pZA==",
+        },
+      },
+      metadata: {
+        transactionId: "555555",
+        channelId: "1",
+        saleorApiUrl: "https://example.com/graphql/",
+        checkoutId: "c29tZS1jaGVja291dC1pZA==",
+        captureMethod,
+      },
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { z } from "zod";
+import type Stripe from "stripe";
+import { getStripeAmountFromSaleorMoney } from "./currencies";
+import { type StripeConnectConfig, getStripeConnectPaymentIntentData } from "./stripe-connect";
+import {
+  TransactionFlowStrategyEnum,
+  type OrderOrCheckoutLinesFragment,
+  type TransactionInitializeSessionEventFragment,
+} from "generated/graphql";
+import { BaseError, JsonSchemaError } from "@/errors";
+import { isObject } from "@/lib/utils";
+
+export const InvalidCheckoutSessionDataError = JsonSchemaError.subclass(
+  "InvalidCheckoutSessionDataError",
+);
+export const CheckoutSessionDataFieldInvalidError = BaseError.subclass(
+  "CheckoutSessionDataFieldInvalidError",
+);
+
+/**
+ * - `paymentElement` - PaymentIntent is created and confirmed in the storefront with Stripe Elements
+ * - `checkoutSession` - customer is redirected to Stripe-hosted Checkout page
+ */
+export const paymentFlowSchema = z.enum(["paymentElement", "checkoutSession"]);
+export type PaymentFlow = z.infer<typeof paymentFlowSchema>;
+
+const checkoutSessionDataSchema = z
+  .object({
+    paymentFlow: z.literal("checkoutSession").optional(),
+    checkoutSession: z
+      .object({
+        successUrl: z.string().url(),
+        cancelUrl: z.string().url(),
+      })
+      .strict(),
+  })
+  .strict();
+
+export type CheckoutSessionData = z.infer<typeof checkoutSessionDataSchema>;
+
+/** Storefront can override flow set in the configuration with `paymentFlow` in `data` */
+export const getPaymentFlow = (data: unknown, configuredFlow?: PaymentFlow): PaymentFlow => {
+  if (isObject(data) && "paymentFlow" in data) {
+    const result = paymentFlowSchema.safeParse(data.paymentFlow);
+    if (!result.success) {
+      throw new InvalidCheckoutSessionDataError("Invalid payment flow", {
+        errors: [
+          new CheckoutSessionDataFieldInvalidError(
+            `paymentFlow: ${result.error.issues.map((issue) => issue.message).join(", ")}`,
+          ),
+        ],
+      });
+    }
+    return result.data;
+  }
+  return configuredFlow ?? "paymentElement";
+};
+
+/** Removes `paymentFlow` so that the rest of `data` can be validated as PaymentIntent fields */
+export const omitPaymentFlow = (data: unknown): unknown => {
+  if (!isObject(data)) {
+    return data;
+  }
+  const { paymentFlow: _paymentFlow, ...rest } = data;
+  return rest;
+};
+
+export const parseCheckoutSessionData = (data: unknown): CheckoutSessionData => {
+  const result = checkoutSessionDataSchema.safeParse(data);
+  if (!result.success) {
+    throw new InvalidCheckoutSessionDataError("Invalid Checkout Session data", {
+      errors: result.error.issues.map((issue) => {
+        const path = issue.path.join(".");
+        return new CheckoutSessionDataFieldInvalidError(
+          path ? `${path}: ${issue.message}` : issue.message,
+        );
+      }),
+    });
+  }
+  return result.data;
+};
+
+const getLineName = (line: OrderOrCheckoutLinesFragment["lines"][number]) => {
+  const variant = line.__typename === "CheckoutLine" ? line.checkoutVariant : line.orderVariant;
+  if (!variant) {
+    return line.id;
+  }
+  return variant.name ? `${variant.product.name} (${variant.name})` : variant.product.name;
+};
+
+/**
+ * Line items shown on the Checkout page. When lines don't add up to the total (e.g. discounts or
+ * gift cards were applied) a single line with the total is used, so the customer is charged
+ * exactly what Saleor expects
+ */
+export const getCheckoutSessionLineItems = (
+  sourceObject: TransactionInitializeSessionEventFragment["sourceObject"],
+): Stripe.Checkout.SessionCreateParams.LineItem[] => {
+  const currency = sourceObject.total.gross.currency;
+  const total = getStripeAmountFromSaleorMoney(sourceObject.total.gross);
+
+  const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = sourceObject.lines.map(
+    (line) => {
+      const lineTotal = getStripeAmountFromSaleorMoney(line.totalPrice.gross);
+      const canUseQuantity = line.quantity > 0 && lineTotal % line.quantity === 0;
+      return {
+        quantity: canUseQuantity ? line.quantity : 1,
+        price_data: {
+          currency,
+          unit_amount: canUseQuantity ? lineTotal / line.quantity : lineTotal,
+          product_data: {
+            name: canUseQuantity ? getLineName(line) : `${getLineName(line)} × ${line.quantity}`,
+          },
+        },
+      };
+    },
+  );
+
+  const shippingAmount = getStripeAmountFromSaleorMoney(sourceObject.shippingPrice.gross);
+  if (shippingAmount > 0) {
+    lineItems.push({
+      quantity: 1,
+      price_data: {
+        currency,
+        unit_amount: shippingAmount,
+        product_data: {
+          name:
+            sourceObject.deliveryMethod?.__typename === "ShippingMethod"
+              ? `Shipping: ${sourceObject.deliveryMethod.name}`
+              : "Shipping",
+        },
+      },
+    });
+  }
+
+  const linesTotal = lineItems.reduce(
+    (sum, item) => sum + (item.price_data?.unit_amount ?? 0) * (item.quantity ?? 1),
+    0,
+  );
+  if (lineItems.length > 0 && linesTotal === total) {
+    return lineItems;
+  }
+
+  return [
+    {
+      quantity: 1,
+      price_data: {
+        currency,
+        unit_amount: total,
+        product_data: {
+          name: sourceObject.__typename === "Order" ? "Order total" : "Checkout total",
+        },
+      },
+    },
+  ];
+};
+
+export const transactionSessionInitializeEventToStripeCheckoutSessionCreate = (
+  event: TransactionInitializeSessionEventFragment,
+  saleorApiUrl: string,
+  { checkoutSession }: CheckoutSessionData,
+  connectConfig: StripeConnectConfig = {},
+): Stripe.Checkout.SessionCreateParams => {
+  const captureMethod =
+    event.action.actionType === TransactionFlowStrategyEnum.Charge ? "automatic" : "manual";
+  const metadata = {
+    transactionId: event.transaction.id,
+    channelId: event.sourceObject.channel.id,
+    saleorApiUrl,
+    ...(event.sourceObject.__typename === "Checkout" && { checkoutId: event.sourceObject.id }),
+    ...(event.sourceObject.__typename === "Order" && { orderId: event.sourceObject.id }),
+  };
+
+  return {
+    mode: "payment",
+    line_items: getCheckoutSessionLineItems(event.sourceObject),
+    success_url: checkoutSession.successUrl,
+    cancel_url: checkoutSession.cancelUrl,
+    client_reference_id: event.transaction.id,
+    ...(event.sourceObject.userEmail && { customer_email: event.sourceObject.userEmail }),
+    // PaymentIntent created by the session is handled by existing payment_intent.* webhooks
+    payment_intent_data: {
+      ...getStripeConnectPaymentIntentData(event.sourceObject.total.gross, connectConfig),
+      capture_method: captureMethod,
+      metadata,
+    },
+    metadata: {
+      ...metadata,
+      captureMethod,
+    },
+  };
+};
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  IncrementalAuthorizationDeclinedError,
+  IncrementalAuthorizationNotAvailableError,
+  ensureStripePaymentIntentAuthorizedAmount,
+  withIncrementalAuthorization,
+} from "./incremental-authorization";
+import { setupRecording } from "@/__tests__/polly";
+import { testEnv } from "@/__tests__/test-env.mjs";
+
+const paymentIntentUrl = "https://api.stripe.com/v1/payment_intents/pi_1";
+const incrementAuthorizationUrl = `${paymentIntentUrl}/increment_authorization`;
+
+const createPaymentIntent = ({
+  amountCapturable = 1000,
+  amount = amountCapturable,
+  incrementalAuthorization = "available",
+}: {
+  amountCapturable?: number;
+  amount?: number;
+  incrementalAuthorization?: "available" | "unavailable";
+} = {}) => ({
+  id: "pi_1",
+  object: "payment_intent",
+  amount,
+  amount_capturable: amountCapturable,
+  capture_method: "manual",
+  currency: "usd",
+  status: "requires_capture",
+  latest_charge: {
+    id: "ch_1",
+    object: "charge",
+    payment_method_details: {
+      type: "card",
+      card: { incremental_authorization: { status: incrementalAuthorization } },
+    },
+  },
+});
+
+describe("withIncrementalAuthorization", () => {
+  it("requests incremental authorization for manual capture and keeps card options", () => {
+    expect(
+      withIncrementalAuthorization({
+        amount: 1000,
+        currency: "usd",
+        capture_method: "manual",
+        payment_method_options: { card: { request_three_d_secure: "any" } },
+      }),
+    ).toEqual({
+      amount: 1000,
+      currency: "usd",
+      capture_method: "manual",
+      payment_method_options: {
+        card: { request_three_d_secure: "any", request_incremental_authorization: "if_available" },
+      },
+    });
+  });
+
+  it("doesn't change automatic capture", () => {
+    const params = { amount: 1000, currency: "usd", capture_method: "automatic" } as const;
+
+    expect(withIncrementalAuthorization(params)).toBe(params);
+  });
+});
+
+describe("ensureStripePaymentIntentAuthorizedAmount", () => {
+  setupRecording({});
+
+  const ensure = (stripeAmount: number) =>
+    ensureStripePaymentIntentAuthorizedAmount({
+      paymentIntentId: "pi_1",
+      stripeAmount,
+      secretKey: testEnv.TEST_PAYMENT_APP_SECRET_KEY,
+    });
+
+  it("doesn't increment when enough is authorized", async (ctx) => {
+    ctx.polly?.server.get(paymentIntentUrl).intercept((_req, res) => {
+      res.json(createPaymentIntent());
+    });
+    const onIncrement = vi.fn();
+    ctx.polly?.server.post(incrementAuthorizationUrl).on("request", onIncrement);
+
+    await expect(ensure(1000)).resolves.toMatchObject({ amount_capturable: 1000 });
+    expect(onIncrement).not.toHaveBeenCalled();
+  });
+
+  it("increments authorization to the requested amount", async (ctx) => {
+    ctx.polly?.server.get(paymentIntentUrl).intercept((_req, res) => {
+      res.json(createPaymentIntent());
+    });
+    ctx.polly?.server.post(incrementAuthorizationUrl).intercept((req, res) => {
+      expect(req.body).toBe("amount=1500");
+      res.json(createPaymentIntent({ amountCapturable: 1500 }));
+    });
+
+    await expect(ensure(1500)).resolves.toMatchObject({ amount_capturable: 1500 });
+  });
+
+  it("increments authorization to the captured amount plus the requested amount after a partial capture", async (ctx) => {
+    ctx.polly?.server.get(paymentIntentUrl).intercept((_req, res) => {
+      res.json(createPaymentIntent({ amount: 1000, amountCapturable: 600 }));
+    });
+    ctx.polly?.server.post(incrementAuthorizationUrl).intercept((req, res) => {
+      expect(req.body).toBe("amount=1200");
+      res.json(createPaymentIntent({ amount: 1200, amountCapturable: 800 }));
+    });
+
+    await expect(ensure(800)).resolves.toMatchObject({ amount: 1200, amount_capturable: 800 });
+  });
+
+  it("throws when incremental authorization isn't available", async (ctx) => {
+    ctx.polly?.server.get(paymentIntentUrl).intercept((_req, res) => {
+      res.json(createPaymentIntent({ incrementalAuthorization: "unavailable" }));
+    });
+
+    await expect(ensure(1500)).rejects.toThrowError(IncrementalAuthorizationNotAvailableError);
+  });
+
+  it("throws with decline code when card network declines", async (ctx) => {
+    ctx.polly?.server.get(paymentIntentUrl).intercept((_req, res) => {
+      res.json(createPaymentIntent());
+    });
+    ctx.polly?.server.post(incrementAuthorizationUrl).intercept((_req, res) => {
+      res.status(402).json({
+        error: {
+          type: "card_error",
+          code: "card_declined",
+          decline_code: "insufficient_funds",
+          message: "Your card has insufficient funds.",
+        },
+      });
+    });
+
+    const result = ensure(1500);
+    await expect(result).rejects.toThrowError(IncrementalAuthorizationDeclinedError);
+    await expect(result).rejects.toThrowError(
+      "Incremental authorization was declined: insufficient_funds",
+    );
+  });
+});
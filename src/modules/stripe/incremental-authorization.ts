@@ -0,0 +1,118 @@
+import { Stripe } from "stripe";
+import { getStripeApiClient } from "./stripe-api";
+import { getStripeRequestOptions, type StripeRequestBudget } from "./stripe-request-budget";
+import { BaseError } from "@/errors";
+import { createLogger } from "@/lib/logger";
+import { unpackPromise } from "@/lib/utils";
+
+export const IncrementalAuthorizationNotAvailableError = BaseError.subclass(
+  "IncrementalAuthorizationNotAvailableError",
+);
+export const IncrementalAuthorizationDeclinedError = BaseError.subclass(
+  "IncrementalAuthorizationDeclinedError",
+);
+
+/**
+ * Asks Stripe to make the authorization incrementable. Only card payments captured manually
+ * can be incremented, other payment methods ignore this option
+ */
+export const withIncrementalAuthorization = (
+  paymentIntentCreateParams: Stripe.PaymentIntentCreateParams,
+): Stripe.PaymentIntentCreateParams => {
+  if (paymentIntentCreateParams.capture_method !== "manual") {
+    return paymentIntentCreateParams;
+  }
+
+  const paymentMethodOptions = paymentIntentCreateParams.payment_method_options;
+  return {
+    ...paymentIntentCreateParams,
+    payment_method_options: {
+      ...paymentMethodOptions,
+      card: {
+        ...paymentMethodOptions?.card,
+        request_incremental_authorization: "if_available",
+      },
+    },
+  };
+};
+
+export const getIncrementalAuthorizationStatus = (paymentIntent: Stripe.PaymentIntent) => {
+  const latestCharge = paymentIntent.latest_charge;
+  if (!latestCharge || typeof latestCharge === "string") {
+    return "unavailable";
+  }
+  return (
+    latestCharge.payment_method_details?.card?.incremental_authorization?.status ?? "unavailable"
+  );
+};
+
+/**
+ * Increments authorization of the PaymentIntent so that `stripeAmount` can be captured.
+ * Does nothing when enough is already authorized.
+ * Stripe expects the new total amount, which includes what partial captures already took
+ */
+export const ensureStripePaymentIntentAuthorizedAmount = async ({
+  paymentIntentId,
+  stripeAmount,
+  secretKey,
+  stripeAccount,
+  budget,
+  idempotencyKey,
+}: {
+  paymentIntentId: string;
+  stripeAmount: number;
+  secretKey: string;
+  stripeAccount?: string;
+  budget?: StripeRequestBudget;
+  idempotencyKey?: string;
+}): Promise<Stripe.PaymentIntent> => {
+  const logger = createLogger(
+    { paymentIntentId, stripeAmount },
+    { msgPrefix: "[ensureStripePaymentIntentAuthorizedAmount] " },
+  );
+  const stripe = getStripeApiClient(secretKey, stripeAccount);
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(
+    paymentIntentId,
+    { expand: ["latest_charge"] },
+    getStripeRequestOptions({ budget }),
+  );
+  if (
+    paymentIntent.status !== "requires_capture" ||
+    paymentIntent.amount_capturable >= stripeAmount
+  ) {
+    return paymentIntent;
+  }
+
+  if (getIncrementalAuthorizationStatus(paymentIntent) !== "available") {
+    throw new IncrementalAuthorizationNotAvailableError(
+      "Requested amount exceeds authorized amount and incremental authorization isn't available for this payment",
+    );
+  }
+
+  const amountCaptured = paymentIntent.amount - paymentIntent.amount_capturable;
+  logger.info(
+    { amountCapturable: paymentIntent.amount_capturable, amountCaptured },
+    "Incrementing authorization",
+  );
+  const [incrementError, incrementedPaymentIntent] = await unpackPromise(
+    stripe.paymentIntents.incrementAuthorization(
+      paymentIntentId,
+      { amount: amountCaptured + stripeAmount },
+      getStripeRequestOptions({ budget, idempotencyKey }),
+    ),
+  );
+  if (incrementError instanceof Stripe.errors.StripeCardError) {
+    throw new IncrementalAuthorizationDeclinedError(
+      `Incremental authorization was declined: ${
+        incrementError.decline_code || incrementError.code || incrementError.message
+      }`,
+      { cause: incrementError },
+    );
+  }
+  if (incrementError) {
+    throw incrementError;
+  }
+
+  return incrementedPaymentIntent;
+};
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { isFinalStripeCapture, withMulticapture } from "./multicapture";
+import { setupRecording } from "@/__tests__/polly";
+import { testEnv } from "@/__tests__/test-env.mjs";
+
+const paymentIntentUrl = "https://api.stripe.com/v1/payment_intents/pi_1";
+
+const createPaymentIntent = (multicapture: "available" | "unavailable") => ({
+  id: "pi_1",
+  object: "payment_intent",
+  amount: 1000,
+  amount_capturable: 1000,
+  capture_method: "manual",
+  currency: "usd",
+  status: "requires_capture",
+  latest_charge: {
+    id: "ch_1",
+    object: "charge",
+    payment_method_details: { type: "card", card: { multicapture: { status: multicapture } } },
+  },
+});
+
+describe("withMulticapture", () => {
+  it("requests multicapture for manual capture", () => {
+    expect(withMulticapture({ amount: 1000, currency: "usd", capture_method: "manual" })).toEqual({
+      amount: 1000,
+      currency: "usd",
+      capture_method: "manual",
+      payment_method_options: { card: { request_multicapture: "if_available" } },
+    });
+  });
+
+  it("doesn't change automatic capture", () => {
+    const params = { amount: 1000, currency: "usd", capture_method: "automatic" } as const;
+
+    expect(withMulticapture(params)).toBe(params);
+  });
+});
+
+describe("isFinalStripeCapture", () => {
+  setupRecording({});
+
+  const isFinal = (stripeAmount: number | null) =>
+    isFinalStripeCapture({
+      paymentIntentId: "pi_1",
+      stripeAmount,
+      secretKey: testEnv.TEST_PAYMENT_APP_SECRET_KEY,
+    });
+
+  it("keeps the rest authorized for partial capture with multicapture", async (ctx) => {
+    ctx.polly?.server.get(paymentIntentUrl).intercept((_req, res) => {
+      res.json(createPaymentIntent("available"));
+    });
+
+    await expect(isFinal(400)).resolves.toBe(false);
+  });
+
+  it("makes capture of the remaining amount final", async (ctx) => {
+    ctx.polly?.server.get(paymentIntentUrl).intercept((_req, res) => {
+      res.json(createPaymentIntent("available"));
+    });
+
+    await expect(isFinal(1000)).resolves.toBe(true);
+    await expect(isFinal(null)).resolves.toBe(true);
+  });
+
+  it("makes partial capture final when multicapture isn't available", async (ctx) => {
+    ctx.polly?.server.get(paymentIntentUrl).intercept((_req, res) => {
+      res.json(createPaymentIntent("unavailable"));
+    });
+
+    await expect(isFinal(400)).resolves.toBe(true);
+  });
+});
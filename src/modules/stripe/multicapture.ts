@@ -0,0 +1,142 @@
+import { Stripe } from "stripe";
+import { getStripeApiClient, processStripePaymentIntentCancelRequest } from "./stripe-api";
+import { getStripeRequestOptions, type StripeRequestBudget } from "./stripe-request-budget";
+import { createLogger } from "@/lib/logger";
+import { unpackPromise } from "@/lib/utils";
+
+/**
+ * Asks Stripe to allow capturing the authorization in several parts, e.g. for split shipments.
+ * Only card payments captured manually support it, other payment methods ignore this option
+ */
+export const withMulticapture = (
+  paymentIntentCreateParams: Stripe.PaymentIntentCreateParams,
+): Stripe.PaymentIntentCreateParams => {
+  if (paymentIntentCreateParams.capture_method !== "manual") {
+    return paymentIntentCreateParams;
+  }
+
+  const paymentMethodOptions = paymentIntentCreateParams.payment_method_options;
+  return {
+    ...paymentIntentCreateParams,
+    payment_method_options: {
+      ...paymentMethodOptions,
+      card: {
+        ...paymentMethodOptions?.card,
+        request_multicapture: "if_available",
+      },
+    },
+  };
+};
+
+export const getMulticaptureStatus = (paymentIntent: Stripe.PaymentIntent) => {
+  const latestCharge = paymentIntent.latest_charge;
+  if (!latestCharge || typeof latestCharge === "string") {
+    return "unavailable";
+  }
+  return latestCharge.payment_method_details?.card?.multicapture?.status ?? "unavailable";
+};
+
+/**
+ * Capture is final when it takes everything that is still capturable.
+ * Partial captures keep the rest of the authorization only when multicapture is available,
+ * otherwise Stripe releases it after the first capture
+ */
+export const isFinalStripeCapture = async ({
+  paymentIntentId,
+  stripeAmount,
+  secretKey,
+  stripeAccount,
+  budget,
+}: {
+  paymentIntentId: string;
+  stripeAmount: number | null | undefined;
+  secretKey: string;
+  stripeAccount?: string;
+  budget?: StripeRequestBudget;
+}) => {
+  const stripe = getStripeApiClient(secretKey, stripeAccount);
+  const paymentIntent = await stripe.paymentIntents.retrieve(
+    paymentIntentId,
+    { expand: ["latest_charge"] },
+    getStripeRequestOptions({ budget }),
+  );
+
+  if (!stripeAmount || stripeAmount >= paymentIntent.amount_capturable) {
+    return true;
+  }
+  return getMulticaptureStatus(paymentIntent) !== "available";
+};
+
+const isUnexpectedStateError = (err: unknown) =>
+  err instanceof Stripe.errors.StripeInvalidRequestError &&
+  err.code === "payment_intent_unexpected_state";
+
+/**
+ * Releases the part of the authorization that wasn't captured.
+ * After a partial capture without multicapture Stripe has already released the rest and the
+ * PaymentIntent can't be canceled anymore, so the release is only reported.
+ * With multicapture, canceling releases the rest and keeps the captured amount
+ */
+export const releaseStripePaymentIntentAuthorization = async ({
+  paymentIntentId,
+  secretKey,
+  stripeAccount,
+  budget,
+  idempotencyKey,
+}: {
+  paymentIntentId: string;
+  secretKey: string;
+  stripeAccount?: string;
+  budget?: StripeRequestBudget;
+  idempotencyKey?: string;
+}): Promise<{ paymentIntent: Stripe.PaymentIntent; releasedStripeAmount: number | null }> => {
+  const logger = createLogger(
+    { paymentIntentId },
+    { msgPrefix: "[releaseStripePaymentIntentAuthorization] " },
+  );
+
+  const [cancelError, canceledPaymentIntent] = await unpackPromise(
+    processStripePaymentIntentCancelRequest({
+      paymentIntentId,
+      secretKey,
+      stripeAccount,
+      budget,
+      idempotencyKey,
+    }),
+  );
+  if (cancelError && !isUnexpectedStateError(cancelError)) {
+    throw cancelError;
+  }
+  if (canceledPaymentIntent) {
+    // captured part stays on the PaymentIntent, so it may end up succeeded instead of canceled
+    const released =
+      canceledPaymentIntent.status === "canceled" || canceledPaymentIntent.status === "succeeded";
+    return {
+      paymentIntent: canceledPaymentIntent,
+      releasedStripeAmount: released
+        ? canceledPaymentIntent.amount - canceledPaymentIntent.amount_received
+        : null,
+    };
+  }
+
+  const stripe = getStripeApiClient(secretKey, stripeAccount);
+  const paymentIntent = await stripe.paymentIntents.retrieve(
+    paymentIntentId,
+    {},
+    getStripeRequestOptions({ budget }),
+  );
+  const isPartiallyCaptured =
+    paymentIntent.amount_received > 0 && paymentIntent.amount_received < paymentIntent.amount;
+  if (paymentIntent.status !== "succeeded" || !isPartiallyCaptured) {
+    throw cancelError;
+  }
+
+  logger.info(
+    { amount: paymentIntent.amount, amountReceived: paymentIntent.amount_received },
+    "Authorization was partially captured, the rest is already released",
+  );
+  return {
+    paymentIntent,
+    releasedStripeAmount: paymentIntent.amount - paymentIntent.amount_received,
+  };
+};
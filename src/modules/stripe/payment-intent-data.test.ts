@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  InvalidPaymentIntentDataError,
+  PaymentIntentDataFieldInvalidError,
+  PaymentIntentDataFieldNotAllowedError,
+  parsePaymentIntentData,
+} from "./payment-intent-data";
+
+describe("parsePaymentIntentData", () => {
+  it("returns empty object when data is missing", () => {
+    expect(parsePaymentIntentData(null)).toEqual({});
+    expect(parsePaymentIntentData(undefined)).toEqual({});
+  });
+
+  it("accepts fields from the default allow-list", () => {
+    const data = {
+      automatic_payment_methods: { enabled: true },
+      description: "Order #1",
+      metadata: { foo: "bar" },
+      receipt_email: "customer@example.com",
+    };
+
+    expect(parsePaymentIntentData(data)).toEqual(data);
+  });
+
+  it.each([
+    ["transfer_data", { destination: "acct_123" }],
+    ["application_fee_amount", 100],
+    ["on_behalf_of", "acct_123"],
+    ["customer", "cus_123"],
+    ["confirm", true],
+  ])("rejects %s by default", (field, value) => {
+    const parse = () => parsePaymentIntentData({ [field]: value });
+
+    expect(parse).toThrowError(InvalidPaymentIntentDataError);
+    try {
+      parse();
+    } catch (err) {
+      expect((err as InstanceType<typeof InvalidPaymentIntentDataError>).errors).toEqual([
+        new PaymentIntentDataFieldNotAllowedError(
+          `Field "${field}" can't be set in PaymentIntent data`,
+        ),
+      ]);
+    }
+  });
+
+  it("accepts fields explicitly allowed in configuration", () => {
+    const data = { customer: "cus_123" };
+
+    expect(parsePaymentIntentData(data, ["customer"])).toEqual(data);
+  });
+
+  it("rejects default fields when they are not in configured allow-list", () => {
+    expect(() => parsePaymentIntentData({ description: "Order #1" }, ["customer"])).toThrowError(
+      InvalidPaymentIntentDataError,
+    );
+  });
+
+  it("returns one error per invalid field", () => {
+    try {
+      parsePaymentIntentData({
+        automatic_payment_methods: { enabled: "yes" },
+        receipt_email: "not-an-email",
+        transfer_data: { destination: "acct_123" },
+      });
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(InvalidPaymentIntentDataError);
+      const { errors } = err as InstanceType<typeof InvalidPaymentIntentDataError>;
+      expect(errors?.map((e) => [e.name, e.message])).toEqual([
+        [
+          PaymentIntentDataFieldInvalidError.name,
+          "automatic_payment_methods.enabled: Expected boolean, received string",
+        ],
+        [PaymentIntentDataFieldInvalidError.name, "receipt_email: Invalid email"],
+        [
+          PaymentIntentDataFieldNotAllowedError.name,
+          'Field "transfer_data" can\'t be set in PaymentIntent data',
+        ],
+      ]);
+    }
+  });
+
+  it("rejects data that isn't an object", () => {
+    expect(() => parsePaymentIntentData("data")).toThrowError(InvalidPaymentIntentDataError);
+    expect(() => parsePaymentIntentData([])).toThrowError(InvalidPaymentIntentDataError);
+  });
+});
@@ -0,0 +1,145 @@
+import { z } from "zod";
+import type Stripe from "stripe";
+import { BaseError, JsonSchemaError } from "@/errors";
+import { isObject } from "@/lib/utils";
+
+export const InvalidPaymentIntentDataError = JsonSchemaError.subclass(
+  "InvalidPaymentIntentDataError",
+);
+export const PaymentIntentDataFieldNotAllowedError = BaseError.subclass(
+  "PaymentIntentDataFieldNotAllowedError",
+);
+export const PaymentIntentDataFieldInvalidError = BaseError.subclass(
+  "PaymentIntentDataFieldInvalidError",
+);
+
+const stripeMetadataSchema = z.record(z.string().max(40), z.string().max(500));
+
+const stripeAddressSchema = z
+  .object({
+    city: z.string(),
+    country: z.string(),
+    line1: z.string(),
+    line2: z.string(),
+    postal_code: z.string(),
+    state: z.string(),
+  })
+  .partial()
+  .strict();
+
+/**
+ * PaymentIntent fields that can be passed from the storefront in `data`.
+ * Which of them are actually accepted is decided per configuration, see `paymentIntentDataAllowList`
+ */
+export const paymentIntentDataFieldSchemas = {
+  automatic_payment_methods: z
+    .object({
+      enabled: z.boolean(),
+      allow_redirects: z.enum(["always", "never"]).optional(),
+    })
+    .strict(),
+  description: z.string().max(1000),
+  metadata: stripeMetadataSchema,
+  payment_method_options: z.record(z.string(), z.record(z.string(), z.unknown())),
+  payment_method_types: z.array(z.string().min(1)),
+  receipt_email: z.string().email(),
+  shipping: z
+    .object({
+      address: stripeAddressSchema,
+      name: z.string(),
+      carrier: z.string().optional(),
+      phone: z.string().optional(),
+      tracking_number: z.string().optional(),
+    })
+    .strict(),
+  statement_descriptor: z.string().max(22),
+  statement_descriptor_suffix: z.string().max(22),
+
+  // Fields below move money or change who is charged - they are never allowed by default
+  application_fee_amount: z.number().int().nonnegative(),
+  confirm: z.boolean(),
+  customer: z.string().min(1),
+  on_behalf_of: z.string().min(1),
+  payment_method: z.string().min(1),
+  setup_future_usage: z.enum(["off_session", "on_session"]),
+  transfer_data: z
+    .object({
+      destination: z.string().min(1),
+      amount: z.number().int().nonnegative().optional(),
+    })
+    .strict(),
+  transfer_group: z.string().min(1),
+} satisfies {
+  [Field in keyof Stripe.PaymentIntentCreateParams]?: z.ZodTypeAny;
+};
+
+export type PaymentIntentDataField = keyof typeof paymentIntentDataFieldSchemas;
+
+export const paymentIntentDataFields = Object.keys(paymentIntentDataFieldSchemas) as [
+  PaymentIntentDataField,
+  ...PaymentIntentDataField[],
+];
+
+export const paymentIntentDataFieldSchema = z.enum(paymentIntentDataFields);
+
+/** Used when configuration doesn't specify its own allow-list */
+export const DEFAULT_PAYMENT_INTENT_DATA_ALLOW_LIST: PaymentIntentDataField[] = [
+  "automatic_payment_methods",
+  "description",
+  "metadata",
+  "payment_method_options",
+  "payment_method_types",
+  "receipt_email",
+  "shipping",
+  "statement_descriptor",
+  "statement_descriptor_suffix",
+];
+
+export type PaymentIntentData = Partial<Stripe.PaymentIntentCreateParams>;
+
+const getPaymentIntentDataSchema = (allowList: readonly PaymentIntentDataField[]) => {
+  const shape = Object.fromEntries(
+    allowList.map((field) => [field, paymentIntentDataFieldSchemas[field].optional()]),
+  );
+  return z.object(shape).strict();
+};
+
+const zodIssueToError = (issue: z.ZodIssue) => {
+  if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+    return issue.keys.map(
+      (key) =>
+        new PaymentIntentDataFieldNotAllowedError(
+          `Field "${key}" can't be set in PaymentIntent data`,
+        ),
+    );
+  }
+  const path = issue.path.join(".");
+  return [
+    new PaymentIntentDataFieldInvalidError(path ? `${path}: ${issue.message}` : issue.message),
+  ];
+};
+
+/**
+ * Validates `data` sent from the storefront against the configured allow-list.
+ * Throws `InvalidPaymentIntentDataError` with one inner error per rejected field
+ */
+export const parsePaymentIntentData = (
+  data: unknown,
+  allowList: readonly PaymentIntentDataField[] = DEFAULT_PAYMENT_INTENT_DATA_ALLOW_LIST,
+): PaymentIntentData => {
+  if (data === null || data === undefined) {
+    return {};
+  }
+  if (!isObject(data)) {
+    throw new InvalidPaymentIntentDataError("PaymentIntent data must be an object");
+  }
+
+  const result = getPaymentIntentDataSchema(allowList).safeParse(data);
+  if (!result.success) {
+    throw new InvalidPaymentIntentDataError("Invalid PaymentIntent data", {
+      errors: result.error.issues.flatMap(zodIssueToError),
+    });
+  }
+
+  return result.data as PaymentIntentData;
+};
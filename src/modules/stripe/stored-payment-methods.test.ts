@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import type Stripe from "stripe";
+import {
+  StoredPaymentMethodNotFoundError,
+  detachStripeCustomerPaymentMethod,
+  retrieveStripeCustomerSetupIntent,
+  stripePaymentMethodToStoredPaymentMethod,
+  stripeSetupIntentToTokenizationResult,
+} from "./stored-payment-methods";
+import { setupRecording } from "@/__tests__/polly";
+import { testEnv } from "@/__tests__/test-env.mjs";
+
+const publishableKey = "pk_test_1";
+
+const createSetupIntent = (overrides: Partial<Stripe.SetupIntent>) =>
+  ({
+    id: "seti_1",
+    object: "setup_intent",
+    client_secret: "seti_1_secret_1",
+    customer: "cus_1",
+    payment_method: null,
+    last_setup_error: null,
+    status: "requires_payment_method",
+    ...overrides,
+  }) as Stripe.SetupIntent;
+
+describe("stripePaymentMethodToStoredPaymentMethod", () => {
+  it("lists cards with their details", () => {
+    expect(
+      stripePaymentMethodToStoredPaymentMethod({
+        id: "pm_1",
+        type: "card",
+        billing_details: { name: "John Doe" },
+        card: { brand: "visa", last4: "4242", exp_month: 12, exp_year: 2030 },
+      } as Stripe.PaymentMethod),
+    ).toEqual({
+      id: "pm_1",
+      supportedPaymentFlows: ["INTERACTIVE"],
+      type: "card",
+      creditCardInfo: { brand: "visa", lastDigits: "4242", expMonth: 12, expYear: 2030 },
+      name: "John Doe",
+    });
+  });
+
+  it("lists other payment methods only with their type", () => {
+    expect(
+      stripePaymentMethodToStoredPaymentMethod({
+        id: "pm_2",
+        type: "sepa_debit",
+        billing_details: { name: null },
+      } as Stripe.PaymentMethod),
+    ).toEqual({ id: "pm_2", supportedPaymentFlows: ["INTERACTIVE"], type: "sepa_debit" });
+  });
+});
+
+describe("stripeSetupIntentToTokenizationResult", () => {
+  it("returns saved payment method id once SetupIntent succeeds", () => {
+    expect(
+      stripeSetupIntentToTokenizationResult(
+        createSetupIntent({ status: "succeeded", payment_method: "pm_1" }),
+        publishableKey,
+      ),
+    ).toEqual({ result: "SUCCESSFULLY_TOKENIZED", id: "pm_1", data: {} });
+  });
+
+  it("returns client_secret while SetupIntent needs to be confirmed in the storefront", () => {
+    expect(stripeSetupIntentToTokenizationResult(createSetupIntent({}), publishableKey)).toEqual({
+      result: "ADDITIONAL_ACTION_REQUIRED",
+      id: "seti_1",
+      data: { setupIntent: { client_secret: "seti_1_secret_1" }, publishableKey },
+    });
+  });
+
+  it("returns pending result while SetupIntent is processing", () => {
+    expect(
+      stripeSetupIntentToTokenizationResult(
+        createSetupIntent({ status: "processing" }),
+        publishableKey,
+      ),
+    ).toEqual({ result: "PENDING", data: {} });
+  });
+
+  it("fails when payment method couldn't be set up", () => {
+    expect(
+      stripeSetupIntentToTokenizationResult(
+        createSetupIntent({
+          last_setup_error: { type: "card_error", message: "Your card was declined." },
+        }),
+        publishableKey,
+      ),
+    ).toEqual({ result: "FAILED_TO_TOKENIZE", error: "Your card was declined." });
+    expect(
+      stripeSetupIntentToTokenizationResult(
+        createSetupIntent({ status: "canceled" }),
+        publishableKey,
+      ),
+    ).toMatchObject({ result: "FAILED_TO_TOKENIZE" });
+  });
+});
+
+describe("detachStripeCustomerPaymentMethod", () => {
+  setupRecording({});
+
+  it("doesn't detach payment method of another Customer", async (ctx) => {
+    ctx.polly?.server
+      .get("https://api.stripe.com/v1/payment_methods/pm_1")
+      .intercept((_req, res) => {
+        res.json({ id: "pm_1", object: "payment_method", customer: "cus_other" });
+      });
+
+    await expect(
+      detachStripeCustomerPaymentMethod({
+        customerId: "cus_1",
+        paymentMethodId: "pm_1",
+        secretKey: testEnv.TEST_PAYMENT_APP_SECRET_KEY,
+      }),
+    ).rejects.toThrow(StoredPaymentMethodNotFoundError);
+  });
+});
+
+describe("retrieveStripeCustomerSetupIntent", () => {
+  setupRecording({});
+
+  it("doesn't return SetupIntent of another Customer", async (ctx) => {
+    ctx.polly?.server
+      .get("https://api.stripe.com/v1/setup_intents/seti_1")
+      .intercept((_req, res) => {
+        res.json(createSetupIntent({ customer: "cus_other" }));
+      });
+
+    await expect(
+      retrieveStripeCustomerSetupIntent({
+        customerId: "cus_1",
+        setupIntentId: "seti_1",
+        secretKey: testEnv.TEST_PAYMENT_APP_SECRET_KEY,
+      }),
+    ).rejects.toThrow(StoredPaymentMethodNotFoundError);
+  });
+});
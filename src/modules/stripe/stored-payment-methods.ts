@@ -0,0 +1,190 @@
+import { Stripe } from "stripe";
+import { getStripeApiClient } from "./stripe-api";
+import { getStripeRequestOptions, type StripeRequestBudget } from "./stripe-request-budget";
+import { TokenizedPaymentFlowEnum } from "generated/graphql";
+import { type ListStoredPaymentMethodsResponse } from "@/schemas/ListStoredPaymentMethods/ListStoredPaymentMethodsResponse.mjs";
+import { type PaymentMethodProcessTokenizationSessionResponse } from "@/schemas/PaymentMethodProcessTokenizationSession/PaymentMethodProcessTokenizationSessionResponse.mjs";
+import { BaseError } from "@/errors";
+import { invariant } from "@/lib/invariant";
+
+export const StoredPaymentMethodNotFoundError = BaseError.subclass(
+  "StoredPaymentMethodNotFoundError",
+);
+
+type StoredPaymentMethod = ListStoredPaymentMethodsResponse["paymentMethods"][number];
+
+const getStripeObjectId = (object: string | { id: string } | null | undefined) =>
+  typeof object === "string" ? object : object?.id ?? null;
+
+const isMissingResourceError = (err: unknown) =>
+  err instanceof Stripe.errors.StripeInvalidRequestError && err.code === "resource_missing";
+
+/** Saleor only supports payment methods used by the buyer in the storefront */
+export const getSetupIntentUsage = (
+  paymentFlowToSupport: TokenizedPaymentFlowEnum,
+): Stripe.SetupIntentCreateParams.Usage => {
+  switch (paymentFlowToSupport) {
+    case TokenizedPaymentFlowEnum.Interactive:
+      return "on_session";
+  }
+};
+
+/** Cards are listed with their details, other payment methods only with their type */
+export const stripePaymentMethodToStoredPaymentMethod = (
+  paymentMethod: Stripe.PaymentMethod,
+): StoredPaymentMethod => ({
+  id: paymentMethod.id,
+  supportedPaymentFlows: [TokenizedPaymentFlowEnum.Interactive],
+  type: paymentMethod.type,
+  ...(paymentMethod.card && {
+    creditCardInfo: {
+      brand: paymentMethod.card.brand,
+      lastDigits: paymentMethod.card.last4,
+      expMonth: paymentMethod.card.exp_month,
+      expYear: paymentMethod.card.exp_year,
+    },
+  }),
+  ...(paymentMethod.billing_details.name && { name: paymentMethod.billing_details.name }),
+});
+
+/**
+ * SetupIntent is confirmed in the storefront with Stripe Elements, like PaymentIntent.
+ * Saved payment method id is returned once it succeeds
+ */
+export const stripeSetupIntentToTokenizationResult = (
+  setupIntent: Stripe.SetupIntent,
+  publishableKey: string,
+): PaymentMethodProcessTokenizationSessionResponse => {
+  switch (setupIntent.status) {
+    case "succeeded": {
+      const paymentMethodId = getStripeObjectId(setupIntent.payment_method);
+      invariant(paymentMethodId, "Missing payment method of succeeded SetupIntent");
+      return { result: "SUCCESSFULLY_TOKENIZED", id: paymentMethodId, data: {} };
+    }
+    case "processing":
+      return { result: "PENDING", data: {} };
+    case "canceled":
+      return { result: "FAILED_TO_TOKENIZE", error: "SetupIntent was canceled" };
+    case "requires_payment_method":
+    case "requires_confirmation":
+    case "requires_action": {
+      if (setupIntent.last_setup_error) {
+        return {
+          result: "FAILED_TO_TOKENIZE",
+          error: setupIntent.last_setup_error.message || "Payment method couldn't be saved",
+        };
+      }
+      invariant(setupIntent.client_secret, "Missing client_secret of SetupIntent");
+      return {
+        result: "ADDITIONAL_ACTION_REQUIRED",
+        id: setupIntent.id,
+        data: {
+          setupIntent: { client_secret: setupIntent.client_secret },
+          publishableKey,
+        },
+      };
+    }
+  }
+};
+
+/** Customer deleted in Stripe has no payment methods left */
+export const listStripeCustomerPaymentMethods = async ({
+  customerId,
+  secretKey,
+  stripeAccount,
+  budget,
+}: {
+  customerId: string;
+  secretKey: string;
+  stripeAccount?: string;
+  budget?: StripeRequestBudget;
+}): Promise<Stripe.PaymentMethod[]> => {
+  const stripe = getStripeApiClient(secretKey, stripeAccount);
+  try {
+    const { data } = await stripe.customers.listPaymentMethods(
+      customerId,
+      { limit: 100 },
+      getStripeRequestOptions({ budget }),
+    );
+    return data;
+  } catch (err) {
+    if (isMissingResourceError(err)) {
+      return [];
+    }
+    throw err;
+  }
+};
+
+/** Payment method id comes from the storefront, so it's only detached from the user's own Customer */
+export const detachStripeCustomerPaymentMethod = async ({
+  customerId,
+  paymentMethodId,
+  secretKey,
+  stripeAccount,
+  budget,
+}: {
+  customerId: string;
+  paymentMethodId: string;
+  secretKey: string;
+  stripeAccount?: string;
+  budget?: StripeRequestBudget;
+}) => {
+  const stripe = getStripeApiClient(secretKey, stripeAccount);
+  const paymentMethod = await stripe.paymentMethods
+    .retrieve(paymentMethodId, {}, getStripeRequestOptions({ budget }))
+    .catch((err) => {
+      if (isMissingResourceError(err)) {
+        return null;
+      }
+      throw err;
+    });
+  if (!paymentMethod || getStripeObjectId(paymentMethod.customer) !== customerId) {
+    throw new StoredPaymentMethodNotFoundError(
+      `Payment method ${paymentMethodId} isn't stored for the user`,
+    );
+  }
+  return stripe.paymentMethods.detach(paymentMethodId, {}, getStripeRequestOptions({ budget }));
+};
+
+export const createStripeSetupIntent = ({
+  setupIntentCreateParams,
+  secretKey,
+  stripeAccount,
+  budget,
+}: {
+  setupIntentCreateParams: Stripe.SetupIntentCreateParams;
+  secretKey: string;
+  stripeAccount?: string;
+  budget?: StripeRequestBudget;
+}) => {
+  const stripe = getStripeApiClient(secretKey, stripeAccount);
+  return stripe.setupIntents.create(setupIntentCreateParams, getStripeRequestOptions({ budget }));
+};
+
+/** SetupIntent id comes from the storefront, so it must belong to the user's own Customer */
+export const retrieveStripeCustomerSetupIntent = async ({
+  customerId,
+  setupIntentId,
+  secretKey,
+  stripeAccount,
+  budget,
+}: {
+  customerId: string;
+  setupIntentId: string;
+  secretKey: string;
+  stripeAccount?: string;
+  budget?: StripeRequestBudget;
+}) => {
+  const stripe = getStripeApiClient(secretKey, stripeAccount);
+  const setupIntent = await stripe.setupIntents.retrieve(
+    setupIntentId,
+    {},
+    getStripeRequestOptions({ budget }),
+  );
+  if (getStripeObjectId(setupIntent.customer) !== customerId) {
+    throw new StoredPaymentMethodNotFoundError(
+      `SetupIntent ${setupIntentId} doesn't belong to the user`,
+    );
+  }
+  return setupIntent;
+};
@@ -3,12 +3,19 @@ import type Stripe from "stripe";
 import {
   getStripeExternalUrlForIntentId,
   stripePaymentIntentToTransactionResult,
+  validateKeysEnvironment,
+  validateRestrictedKeyPermissions,
   validateStripeKeys,
 } from "./stripe-api";
 import { TransactionFlowStrategyEnum } from "generated/graphql";
 import { type TransactionInitializeSessionResponse } from "@/schemas/TransactionInitializeSession/TransactionInitializeSessionResponse.mjs";
 import { setupRecording } from "@/__tests__/polly";
 import { testEnv } from "@/__tests__/test-env.mjs";
+import {
+  InvalidSecretKeyError,
+  KeyEnvironmentMismatchError,
+  RestrictedKeyPermissionsError,
+} from "@/errors";
 
 describe("stripe-api", () => {
   describe("stripeResultCodeToTransactionResult", () => {
@@ -61,6 +68,24 @@ describe("stripe-api", () => {
     });
   });
 
+  describe("validateKeysEnvironment", () => {
+    it("should throw error if keys are from different environments", () => {
+      expect(() =>
+        validateKeysEnvironment("sk_live_key", "pk_test_key"),
+      ).toThrowErrorMatchingInlineSnapshot(
+        '"Publishable key is a test key, but secret key is a live key"',
+      );
+      expect(() => validateKeysEnvironment("rk_test_key", "pk_live_key")).toThrow(
+        KeyEnvironmentMismatchError,
+      );
+    });
+
+    it("should not throw error if keys are from the same environment", () => {
+      expect(() => validateKeysEnvironment("rk_live_key", "pk_live_key")).not.toThrow();
+      expect(() => validateKeysEnvironment("sk_test_key", "pk_test_key")).not.toThrow();
+    });
+  });
+
   describe("validateStripeKeys", () => {
     setupRecording();
 
@@ -90,5 +115,141 @@ describe("stripe-api", () => {
         ),
       ).resolves.toMatchInlineSnapshot("undefined");
     });
+
+    describe("validateRestrictedKeyPermissions", () => {
+      const probeUrls = {
+        paymentIntents: "https://api.stripe.com/v1/payment_intents/pi_permission_probe/cancel",
+        refunds: "https://api.stripe.com/v1/refunds/re_permission_probe/cancel",
+        webhookEndpoints: "https://api.stripe.com/v1/webhook_endpoints/we_permission_probe",
+        charges: "https://api.stripe.com/v1/charges/ch_permission_probe",
+        customers: "https://api.stripe.com/v1/customers/cus_permission_probe",
+        checkoutSessions: "https://api.stripe.com/v1/checkout/sessions/cs_permission_probe/expire",
+        account: "https://api.stripe.com/v1/account",
+      };
+
+      const resourceMissing = {
+        error: {
+          type: "invalid_request_error",
+          code: "resource_missing",
+          message: "No such object",
+        },
+      };
+      const permissionDenied = {
+        error: {
+          type: "invalid_request_error",
+          message: "The provided key does not have the required permissions for this endpoint.",
+        },
+      };
+
+      it("passes when the key has all permissions", async (ctx) => {
+        ctx.polly?.server.post(probeUrls.paymentIntents).intercept((_req, res) => {
+          res.status(404).json(resourceMissing);
+        });
+        ctx.polly?.server.post(probeUrls.refunds).intercept((_req, res) => {
+          res.status(404).json(resourceMissing);
+        });
+        ctx.polly?.server.delete(probeUrls.webhookEndpoints).intercept((_req, res) => {
+          res.status(404).json(resourceMissing);
+        });
+        ctx.polly?.server.get(probeUrls.charges).intercept((_req, res) => {
+          res.status(404).json(resourceMissing);
+        });
+
+        await expect(validateRestrictedKeyPermissions("rk_test_key")).resolves.toBeUndefined();
+      });
+
+      it("throws with an error for each missing permission", async (ctx) => {
+        ctx.polly?.server.post(probeUrls.paymentIntents).intercept((_req, res) => {
+          res.status(404).json(resourceMissing);
+        });
+        ctx.polly?.server.post(probeUrls.refunds).intercept((_req, res) => {
+          res.status(403).json(permissionDenied);
+        });
+        ctx.polly?.server.delete(probeUrls.webhookEndpoints).intercept((_req, res) => {
+          res.status(404).json(resourceMissing);
+        });
+        ctx.polly?.server.get(probeUrls.charges).intercept((_req, res) => {
+          res.status(404).json(resourceMissing);
+        });
+        ctx.polly?.server.delete(probeUrls.customers).intercept((_req, res) => {
+          res.status(403).json(permissionDenied);
+        });
+
+        const error = await validateRestrictedKeyPermissions("rk_test_key", {
+          savePaymentMethods: true,
+        }).catch((err: unknown) => err);
+
+        expect(error).toBeInstanceOf(RestrictedKeyPermissionsError);
+        expect(error).toMatchObject({
+          fieldName: "secretKey",
+          message: "Restricted key is missing permissions: Refunds (write), Customers (write)",
+          errors: [
+            { fieldName: "secretKey", message: "Missing permission: Refunds (write)" },
+            { fieldName: "secretKey", message: "Missing permission: Customers (write)" },
+          ],
+        });
+      });
+
+      it("checks that the key can read its account when asked to", async (ctx) => {
+        ctx.polly?.server.post(probeUrls.paymentIntents).intercept((_req, res) => {
+          res.status(404).json(resourceMissing);
+        });
+        ctx.polly?.server.post(probeUrls.refunds).intercept((_req, res) => {
+          res.status(404).json(resourceMissing);
+        });
+        ctx.polly?.server.delete(probeUrls.webhookEndpoints).intercept((_req, res) => {
+          res.status(404).json(resourceMissing);
+        });
+        ctx.polly?.server.get(probeUrls.charges).intercept((_req, res) => {
+          res.status(404).json(resourceMissing);
+        });
+        ctx.polly?.server.get(probeUrls.account).intercept((_req, res) => {
+          res.status(403).json(permissionDenied);
+        });
+
+        await expect(
+          validateRestrictedKeyPermissions("rk_test_key", { readAccount: true }),
+        ).rejects.toMatchObject({
+          message: "Restricted key is missing permissions: Account (read)",
+        });
+      });
+
+      it("checks Checkout Sessions permission when they're the default payment flow", async (ctx) => {
+        ctx.polly?.server.post(probeUrls.paymentIntents).intercept((_req, res) => {
+          res.status(404).json(resourceMissing);
+        });
+        ctx.polly?.server.post(probeUrls.refunds).intercept((_req, res) => {
+          res.status(404).json(resourceMissing);
+        });
+        ctx.polly?.server.delete(probeUrls.webhookEndpoints).intercept((_req, res) => {
+          res.status(404).json(resourceMissing);
+        });
+        ctx.polly?.server.get(probeUrls.charges).intercept((_req, res) => {
+          res.status(403).json(permissionDenied);
+        });
+        ctx.polly?.server.post(probeUrls.checkoutSessions).intercept((_req, res) => {
+          res.status(403).json(permissionDenied);
+        });
+
+        await expect(
+          validateRestrictedKeyPermissions("rk_test_key", { paymentFlow: "checkoutSession" }),
+        ).rejects.toMatchObject({
+          message:
+            "Restricted key is missing permissions: Charges (read), Checkout Sessions (write)",
+        });
+      });
+
+      it("throws when the key is invalid", async (ctx) => {
+        ctx.polly?.server.post(probeUrls.paymentIntents).intercept((_req, res) => {
+          res.status(401).json({
+            error: { type: "invalid_request_error", message: "Invalid API Key provided" },
+          });
+        });
+
+        await expect(validateRestrictedKeyPermissions("rk_test_key")).rejects.toThrowError(
+          InvalidSecretKeyError,
+        );
+      });
+    });
   });
 });
@@ -1,5 +1,13 @@
 import { Stripe } from "stripe";
 import { getStripeAmountFromSaleorMoney } from "./currencies";
+import { type PaymentIntentDataField, parsePaymentIntentData } from "./payment-intent-data";
+import { type PaymentFlow, omitPaymentFlow } from "./checkout-session";
+import { type StripeConnectConfig, getStripeConnectPaymentIntentData } from "./stripe-connect";
+import {
+  getStripeMaxNetworkRetries,
+  getStripeRequestOptions,
+  type StripeRequestBudget,
+} from "./stripe-request-budget";
 import {
   TransactionFlowStrategyEnum,
   type TransactionProcessSessionEventFragment,
@@ -7,29 +15,158 @@ import {
 } from "generated/graphql";
 import { invariant } from "@/lib/invariant";
 import type { TransactionInitializeSessionResponse } from "@/schemas/TransactionInitializeSession/TransactionInitializeSessionResponse.mjs";
-import { InvalidSecretKeyError, RestrictedKeyNotSupportedError } from "@/errors";
+import {
+  InvalidSecretKeyError,
+  KeyEnvironmentMismatchError,
+  MissingRestrictedKeyPermissionError,
+  RestrictedKeyPermissionsError,
+} from "@/errors";
 import { unpackPromise } from "@/lib/utils";
 import { createLogger, redactError } from "@/lib/logger";
 
-export const getStripeApiClient = (secretKey: string) => {
+const stripeApiVersion = "2023-10-16";
+
+/** `stripeAccount` sends requests on behalf of a connected account, e.g. for direct charges */
+export const getStripeApiClient = (secretKey: string, stripeAccount?: string) => {
   const stripe = new Stripe(secretKey, {
-    apiVersion: "2023-10-16",
+    apiVersion: stripeApiVersion,
     typescript: true,
     httpClient: Stripe.createFetchHttpClient(fetch),
+    // Retries back off exponentially, POST requests are retried with the same idempotency key
+    maxNetworkRetries: getStripeMaxNetworkRetries(),
+    ...(stripeAccount && { stripeAccount }),
   });
   return stripe;
 };
 
-export const validateStripeKeys = async (secretKey: string, publishableKey: string) => {
-  const logger = createLogger({}, { msgPrefix: "[validateStripeKeys] " });
+// Write probes use objects that don't exist. Stripe checks permissions before looking them up,
+// so a key with the permission gets `resource_missing` and nothing is ever changed
+const getRestrictedKeyPermissionProbes = ({
+  savePaymentMethods,
+  paymentFlow,
+  readAccount,
+}: RestrictedKeyOptions) => [
+  {
+    permission: "PaymentIntents (write)",
+    probe: (stripe: Stripe) => stripe.paymentIntents.cancel("pi_permission_probe"),
+  },
+  {
+    permission: "Refunds (write)",
+    probe: (stripe: Stripe) => stripe.refunds.cancel("re_permission_probe"),
+  },
+  {
+    permission: "Webhook Endpoints (write)",
+    probe: (stripe: Stripe) => stripe.webhookEndpoints.del("we_permission_probe"),
+  },
+  // Refunded and disputed Charges are fetched when processing Stripe webhooks
+  {
+    permission: "Charges (read)",
+    probe: (stripe: Stripe) => stripe.charges.retrieve("ch_permission_probe"),
+  },
+  ...(paymentFlow === "checkoutSession"
+    ? [
+        {
+          permission: "Checkout Sessions (write)",
+          probe: (stripe: Stripe) => stripe.checkout.sessions.expire("cs_permission_probe"),
+        },
+      ]
+    : []),
+  ...(savePaymentMethods
+    ? [
+        {
+          permission: "Customers (write)",
+          probe: (stripe: Stripe) => stripe.customers.del("cus_permission_probe"),
+        },
+      ]
+    : []),
+  ...(readAccount
+    ? [
+        {
+          permission: "Account (read)",
+          probe: (stripe: Stripe) => stripe.accounts.retrieve(),
+        },
+      ]
+    : []),
+];
 
-  if (secretKey.startsWith("rk_")) {
-    // @todo remove this once restricted keys are supported
-    // validate that restricted keys have required permissions
-    throw new RestrictedKeyNotSupportedError("Restricted keys are not supported");
+interface RestrictedKeyOptions {
+  savePaymentMethods?: boolean;
+  paymentFlow?: PaymentFlow;
+  /** Account of the key is read when the key is rotated, to compare it with the current one */
+  readAccount?: boolean;
+}
+
+/**
+ * Restricted keys only work when the app can do everything it needs with them.
+ * Throws with one error for each missing permission
+ */
+export const validateRestrictedKeyPermissions = async (
+  restrictedKey: string,
+  options: RestrictedKeyOptions = {},
+) => {
+  const logger = createLogger({}, { msgPrefix: "[validateRestrictedKeyPermissions] " });
+  const stripe = getStripeApiClient(restrictedKey);
+
+  const missingPermissions: string[] = [];
+  for (const { permission, probe } of getRestrictedKeyPermissionProbes(options)) {
+    const [probeError] = await unpackPromise(probe(stripe));
+    if (probeError instanceof Stripe.errors.StripePermissionError) {
+      missingPermissions.push(permission);
+    } else if (probeError instanceof Stripe.errors.StripeAuthenticationError) {
+      throw new InvalidSecretKeyError("Provided secret key is invalid");
+    } else if (
+      probeError &&
+      !(
+        probeError instanceof Stripe.errors.StripeInvalidRequestError &&
+        probeError.code === "resource_missing"
+      )
+    ) {
+      logger.error({ error: redactError(probeError), permission }, "Couldn't check permission");
+      throw new InvalidSecretKeyError("There was an error while checking secret key");
+    }
   }
 
-  {
+  if (missingPermissions.length > 0) {
+    logger.warn(
+      { missingPermissions: missingPermissions.join(", ") },
+      "Restricted key is missing permissions",
+    );
+    throw new RestrictedKeyPermissionsError(
+      `Restricted key is missing permissions: ${missingPermissions.join(", ")}`,
+      {
+        errors: missingPermissions.map(
+          (permission) =>
+            new MissingRestrictedKeyPermissionError(`Missing permission: ${permission}`),
+        ),
+      },
+    );
+  }
+};
+
+/** Both keys must come from the same Stripe mode, otherwise payments fail in the storefront */
+export const validateKeysEnvironment = (secretKey: string, publishableKey: string) => {
+  const secretKeyEnvironment = getEnvironmentFromKey(secretKey);
+  const publishableKeyEnvironment = getEnvironmentFromKey(publishableKey);
+
+  if (secretKeyEnvironment !== publishableKeyEnvironment) {
+    throw new KeyEnvironmentMismatchError(
+      `Publishable key is a ${publishableKeyEnvironment} key, but secret key is a ${secretKeyEnvironment} key`,
+    );
+  }
+};
+
+export const validateStripeKeys = async (
+  secretKey: string,
+  publishableKey: string,
+  options: RestrictedKeyOptions = {},
+) => {
+  const logger = createLogger({}, { msgPrefix: "[validateStripeKeys] " });
+
+  validateKeysEnvironment(secretKey, publishableKey);
+
+  if (secretKey.startsWith("rk_")) {
+    await validateRestrictedKeyPermissions(secretKey, options);
+  } else {
     const stripe = getStripeApiClient(secretKey);
     const [intentsError] = await unpackPromise(stripe.paymentIntents.list({ limit: 1 }));
 
@@ -60,6 +197,13 @@ export const validateStripeKeys = async (secretKey: string, publishableKey: stri
   }
 };
 
+/** Id of the Stripe account that the key belongs to */
+export const getStripeAccountIdForKey = async (secretKey: string) => {
+  const stripe = getStripeApiClient(secretKey);
+  const account = await stripe.accounts.retrieve();
+  return account.id;
+};
+
 export const getEnvironmentFromKey = (secretKeyOrPublishableKey: string) => {
   return secretKeyOrPublishableKey.startsWith("sk_live_") ||
     secretKeyOrPublishableKey.startsWith("pk_live_") ||
@@ -81,11 +225,15 @@ export const getStripeWebhookDashboardLink = (
 
 export const transactionSessionInitializeEventToStripeCreate = (
   event: TransactionInitializeSessionEventFragment,
+  saleorApiUrl: string,
+  allowList?: readonly PaymentIntentDataField[],
+  connectConfig: StripeConnectConfig = {},
 ): Stripe.PaymentIntentCreateParams => {
-  const data = event.data as Partial<Stripe.PaymentIntentCreateParams>;
+  const data = parsePaymentIntentData(omitPaymentFlow(event.data), allowList);
 
   return {
     ...data,
+    ...getStripeConnectPaymentIntentData(event.sourceObject.total.gross, connectConfig),
     amount: getStripeAmountFromSaleorMoney({
       amount: event.sourceObject.total.gross.amount,
       currency: event.sourceObject.total.gross.currency,
@@ -97,6 +245,7 @@ export const transactionSessionInitializeEventToStripeCreate = (
       ...data.metadata,
       transactionId: event.transaction.id,
       channelId: event.sourceObject.channel.id,
+      saleorApiUrl,
       ...(event.sourceObject.__typename === "Checkout" && { checkoutId: event.sourceObject.id }),
       ...(event.sourceObject.__typename === "Order" && { orderId: event.sourceObject.id }),
     },
@@ -105,11 +254,23 @@ export const transactionSessionInitializeEventToStripeCreate = (
 
 export const transactionSessionProcessEventToStripeUpdate = (
   event: TransactionInitializeSessionEventFragment | TransactionProcessSessionEventFragment,
+  saleorApiUrl: string,
+  allowList?: readonly PaymentIntentDataField[],
+  connectConfig: StripeConnectConfig = {},
 ): Stripe.PaymentIntentUpdateParams => {
-  const data = event.data as Partial<Stripe.PaymentIntentUpdateParams>;
+  const data = parsePaymentIntentData(
+    omitPaymentFlow(event.data),
+    allowList,
+  ) as Stripe.PaymentIntentUpdateParams;
+  // Destination of the transfer can't be changed after the PaymentIntent was created
+  const { application_fee_amount } = getStripeConnectPaymentIntentData(
+    event.sourceObject.total.gross,
+    connectConfig,
+  );
 
   return {
     ...data,
+    ...(application_fee_amount && { application_fee_amount }),
     amount: getStripeAmountFromSaleorMoney({
       amount: event.sourceObject.total.gross.amount,
       currency: event.sourceObject.total.gross.currency,
@@ -121,6 +282,7 @@ export const transactionSessionProcessEventToStripeUpdate = (
       ...data.metadata,
       transactionId: event.transaction.id,
       channelId: event.sourceObject.channel.id,
+      saleorApiUrl,
       ...(event.sourceObject.__typename === "Checkout" && { checkoutId: event.sourceObject.id }),
       ...(event.sourceObject.__typename === "Order" && { orderId: event.sourceObject.id }),
     },
@@ -160,25 +322,107 @@ export const stripePaymentIntentToTransactionResult = (
 export const initializeStripePaymentIntent = ({
   paymentIntentCreateParams,
   secretKey,
+  stripeAccount,
+  budget,
+  idempotencyKey,
 }: {
   paymentIntentCreateParams: Stripe.PaymentIntentCreateParams;
   secretKey: string;
+  stripeAccount?: string;
+  budget?: StripeRequestBudget;
+  idempotencyKey?: string;
 }) => {
-  const stripe = getStripeApiClient(secretKey);
-  return stripe.paymentIntents.create(paymentIntentCreateParams);
+  const stripe = getStripeApiClient(secretKey, stripeAccount);
+  return stripe.paymentIntents.create(
+    paymentIntentCreateParams,
+    getStripeRequestOptions({ budget, idempotencyKey }),
+  );
+};
+
+export const initializeStripeCheckoutSession = ({
+  checkoutSessionCreateParams,
+  secretKey,
+  stripeAccount,
+  budget,
+  idempotencyKey,
+}: {
+  checkoutSessionCreateParams: Stripe.Checkout.SessionCreateParams;
+  secretKey: string;
+  stripeAccount?: string;
+  budget?: StripeRequestBudget;
+  idempotencyKey?: string;
+}) => {
+  const stripe = getStripeApiClient(secretKey, stripeAccount);
+  return stripe.checkout.sessions.create(
+    checkoutSessionCreateParams,
+    getStripeRequestOptions({ budget, idempotencyKey }),
+  );
+};
+
+/** Lets Payment Element list and save payment methods of the customer */
+export const createStripeCustomerEphemeralKey = ({
+  customerId,
+  secretKey,
+  stripeAccount,
+  budget,
+}: {
+  customerId: string;
+  secretKey: string;
+  stripeAccount?: string;
+  budget?: StripeRequestBudget;
+}) => {
+  const stripe = getStripeApiClient(secretKey, stripeAccount);
+  return stripe.ephemeralKeys.create(
+    { customer: customerId },
+    { apiVersion: stripeApiVersion, ...getStripeRequestOptions({ budget }) },
+  );
 };
 
 export const updateStripePaymentIntent = ({
   intentId,
   paymentIntentUpdateParams,
   secretKey,
+  stripeAccount,
+  budget,
 }: {
   intentId: string;
   paymentIntentUpdateParams: Stripe.PaymentIntentUpdateParams;
   secretKey: string;
+  stripeAccount?: string;
+  budget?: StripeRequestBudget;
 }) => {
-  const stripe = getStripeApiClient(secretKey);
-  return stripe.paymentIntents.update(intentId, paymentIntentUpdateParams);
+  const stripe = getStripeApiClient(secretKey, stripeAccount);
+  return stripe.paymentIntents.update(
+    intentId,
+    paymentIntentUpdateParams,
+    getStripeRequestOptions({ budget }),
+  );
+};
+
+/**
+ * Disputes don't carry our metadata, so we need to fetch the disputed PaymentIntent (or Charge)
+ * in order to find out which Saleor transaction and channel they belong to
+ */
+export const retrieveStripeDisputedObject = async ({
+  dispute,
+  secretKey,
+  stripeAccount,
+}: {
+  dispute: Stripe.Dispute;
+  secretKey: string;
+  stripeAccount?: string;
+}): Promise<Stripe.PaymentIntent | Stripe.Charge> => {
+  const stripe = getStripeApiClient(secretKey, stripeAccount);
+
+  if (dispute.payment_intent) {
+    return typeof dispute.payment_intent === "string"
+      ? stripe.paymentIntents.retrieve(dispute.payment_intent)
+      : dispute.payment_intent;
+  }
+
+  return typeof dispute.charge === "string"
+    ? stripe.charges.retrieve(dispute.charge)
+    : dispute.charge;
 };
 
 export const getStripeExternalUrlForIntentId = (intentId: string) => {
@@ -190,41 +434,74 @@ export async function processStripePaymentIntentRefundRequest({
   paymentIntentId,
   stripeAmount,
   secretKey,
+  stripeAccount,
+  budget,
+  idempotencyKey,
 }: {
   paymentIntentId: string;
   stripeAmount: number | null | undefined;
   secretKey: string;
+  stripeAccount?: string;
+  budget?: StripeRequestBudget;
+  idempotencyKey?: string;
 }) {
-  const stripeClient = getStripeApiClient(secretKey);
-  return stripeClient.refunds.create({
-    payment_intent: paymentIntentId,
-    amount: stripeAmount ?? undefined,
-  });
+  const stripeClient = getStripeApiClient(secretKey, stripeAccount);
+  return stripeClient.refunds.create(
+    {
+      payment_intent: paymentIntentId,
+      amount: stripeAmount ?? undefined,
+    },
+    getStripeRequestOptions({ budget, idempotencyKey }),
+  );
 }
 
 export async function processStripePaymentIntentCancelRequest({
   paymentIntentId,
   secretKey,
+  stripeAccount,
+  budget,
+  idempotencyKey,
 }: {
   paymentIntentId: string;
   secretKey: string;
+  stripeAccount?: string;
+  budget?: StripeRequestBudget;
+  idempotencyKey?: string;
 }) {
-  const stripeClient = getStripeApiClient(secretKey);
+  const stripeClient = getStripeApiClient(secretKey, stripeAccount);
 
-  return stripeClient.paymentIntents.cancel(paymentIntentId);
+  return stripeClient.paymentIntents.cancel(
+    paymentIntentId,
+    {},
+    getStripeRequestOptions({ budget, idempotencyKey }),
+  );
 }
 
 export async function processStripePaymentIntentCaptureRequest({
   paymentIntentId,
   stripeAmount,
+  finalCapture = true,
   secretKey,
+  stripeAccount,
+  budget,
+  idempotencyKey,
 }: {
   paymentIntentId: string;
   stripeAmount: number | null | undefined;
+  /** `false` keeps the rest of the authorization for later captures, requires multicapture */
+  finalCapture?: boolean;
   secretKey: string;
+  stripeAccount?: string;
+  budget?: StripeRequestBudget;
+  idempotencyKey?: string;
 }) {
-  const stripeClient = getStripeApiClient(secretKey);
-  return stripeClient.paymentIntents.capture(paymentIntentId, {
-    amount_to_capture: stripeAmount ?? undefined,
-  });
+  const stripeClient = getStripeApiClient(secretKey, stripeAccount);
+  return stripeClient.paymentIntents.capture(
+    paymentIntentId,
+    {
+      amount_to_capture: stripeAmount ?? undefined,
+      ...(!finalCapture && { final_capture: false }),
+    },
+    getStripeRequestOptions({ budget, idempotencyKey }),
+  );
 }
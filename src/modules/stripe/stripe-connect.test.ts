@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  getApplicationFeeAmount,
+  getStripeAccountForDirectCharges,
+  getStripeConnectPaymentIntentData,
+} from "./stripe-connect";
+import { transactionSessionInitializeEventToStripeCreate } from "./stripe-api";
+import { createMockTransactionInitializeSessionEvent } from "@/modules/webhooks/__tests__/utils";
+
+const money = { amount: 222.99, currency: "USD" };
+
+describe("getApplicationFeeAmount", () => {
+  it("calculates percentage of the payment", () => {
+    expect(
+      getApplicationFeeAmount(22299, money, {
+        applicationFeeType: "percentage",
+        applicationFeeValue: 10,
+      }),
+    ).toBe(2230);
+  });
+
+  it("converts fixed fee to the smallest currency unit", () => {
+    expect(
+      getApplicationFeeAmount(22299, money, {
+        applicationFeeType: "fixed",
+        applicationFeeValue: 1.5,
+      }),
+    ).toBe(150);
+    expect(
+      getApplicationFeeAmount(
+        1000,
+        { currency: "JPY" },
+        { applicationFeeType: "fixed", applicationFeeValue: 50 },
+      ),
+    ).toBe(50);
+  });
+
+  it("doesn't exceed the payment amount", () => {
+    expect(
+      getApplicationFeeAmount(22299, money, {
+        applicationFeeType: "fixed",
+        applicationFeeValue: 500,
+      }),
+    ).toBe(22299);
+  });
+
+  it("returns null without fee", () => {
+    expect(getApplicationFeeAmount(22299, money, {})).toBeNull();
+    expect(
+      getApplicationFeeAmount(22299, money, {
+        applicationFeeType: "percentage",
+        applicationFeeValue: 0,
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("getStripeConnectPaymentIntentData", () => {
+  it("transfers destination charges to the connected account", () => {
+    expect(
+      getStripeConnectPaymentIntentData(money, {
+        connectedAccountId: "acct_1",
+        applicationFeeType: "percentage",
+        applicationFeeValue: 10,
+      }),
+    ).toEqual({ application_fee_amount: 2230, transfer_data: { destination: "acct_1" } });
+  });
+
+  it("only collects the fee from direct charges", () => {
+    expect(
+      getStripeConnectPaymentIntentData(money, {
+        connectedAccountId: "acct_1",
+        connectChargeType: "direct",
+        applicationFeeType: "fixed",
+        applicationFeeValue: 1,
+      }),
+    ).toEqual({ application_fee_amount: 100 });
+  });
+
+  it("does nothing without connected account", () => {
+    expect(
+      getStripeConnectPaymentIntentData(money, {
+        applicationFeeType: "fixed",
+        applicationFeeValue: 1,
+      }),
+    ).toEqual({});
+  });
+});
+
+describe("getStripeAccountForDirectCharges", () => {
+  it("returns connected account only for direct charges", () => {
+    expect(
+      getStripeAccountForDirectCharges({
+        connectedAccountId: "acct_1",
+        connectChargeType: "direct",
+      }),
+    ).toBe("acct_1");
+    expect(
+      getStripeAccountForDirectCharges({
+        connectedAccountId: "acct_1",
+        connectChargeType: "destination",
+      }),
+    ).toBeUndefined();
+    expect(getStripeAccountForDirectCharges({ connectedAccountId: "acct_1" })).toBeUndefined();
+  });
+});
+
+describe("transactionSessionInitializeEventToStripeCreate", () => {
+  it("doesn't let storefront override Connect fields", async () => {
+    const event = await createMockTransactionInitializeSessionEvent({
+      data: { transfer_data: { destination: "acct_storefront" } },
+    });
+
+    const params = transactionSessionInitializeEventToStripeCreate(
+      event,
+      "https://example.com/graphql/",
+      ["automatic_payment_methods", "transfer_data"],
+      { connectedAccountId: "acct_1" },
+    );
+
+    expect(params.transfer_data).toEqual({ destination: "acct_1" });
+  });
+});
@@ -0,0 +1,73 @@
+import { z } from "zod";
+import type Stripe from "stripe";
+import { getStripeAmountFromSaleorMoney } from "./currencies";
+import { type Money } from "generated/graphql";
+
+/**
+ * - `destination` - PaymentIntent is created on the platform account and funds are transferred to the connected account
+ * - `direct` - PaymentIntent is created on the connected account, the platform only collects the fee
+ */
+export const connectChargeTypeSchema = z.enum(["destination", "direct"]);
+export type ConnectChargeType = z.infer<typeof connectChargeTypeSchema>;
+
+/**
+ * - `percentage` - percent of the payment amount
+ * - `fixed` - amount in the currency of the payment, e.g. `1.5` is $1.50
+ */
+export const applicationFeeTypeSchema = z.enum(["percentage", "fixed"]);
+export type ApplicationFeeType = z.infer<typeof applicationFeeTypeSchema>;
+
+export interface StripeConnectConfig {
+  connectedAccountId?: string;
+  connectChargeType?: ConnectChargeType;
+  applicationFeeType?: ApplicationFeeType;
+  applicationFeeValue?: number;
+}
+
+/** Fee can't be higher than the payment itself */
+export const getApplicationFeeAmount = (
+  stripeAmount: number,
+  { currency }: Pick<Money, "currency">,
+  { applicationFeeType, applicationFeeValue }: StripeConnectConfig,
+) => {
+  if (!applicationFeeType || !applicationFeeValue) {
+    return null;
+  }
+
+  const feeAmount =
+    applicationFeeType === "percentage"
+      ? Math.round((stripeAmount * applicationFeeValue) / 100)
+      : getStripeAmountFromSaleorMoney({ amount: applicationFeeValue, currency });
+  return Math.min(feeAmount, stripeAmount);
+};
+
+/**
+ * Requests made for direct charges need to be sent on behalf of the connected account,
+ * because that's where their PaymentIntents live
+ */
+export const getStripeAccountForDirectCharges = (config: StripeConnectConfig) =>
+  config.connectedAccountId && config.connectChargeType === "direct"
+    ? config.connectedAccountId
+    : undefined;
+
+/** PaymentIntent fields that route the payment to the connected account and collect the fee */
+export const getStripeConnectPaymentIntentData = (
+  money: Money,
+  config: StripeConnectConfig,
+): Pick<Stripe.PaymentIntentCreateParams, "application_fee_amount" | "transfer_data"> => {
+  if (!config.connectedAccountId) {
+    return {};
+  }
+
+  const applicationFeeAmount = getApplicationFeeAmount(
+    getStripeAmountFromSaleorMoney(money),
+    money,
+    config,
+  );
+  return {
+    ...(applicationFeeAmount && { application_fee_amount: applicationFeeAmount }),
+    ...(config.connectChargeType !== "direct" && {
+      transfer_data: { destination: config.connectedAccountId },
+    }),
+  };
+};
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  StripeCustomerMetadataError,
+  getOrCreateStripeCustomer,
+  getStripeCustomerIdMetadataKey,
+  hasSavePaymentMethodsPermission,
+} from "./stripe-customer";
+import { setupRecording } from "@/__tests__/polly";
+import { testEnv } from "@/__tests__/test-env.mjs";
+import { createServerClient } from "@/lib/create-graphq-client";
+import { PermissionEnum } from "generated/graphql";
+
+const customer = { id: "VXNlcjox", email: "customer@example.com" };
+const configurationId = "some-configuration-id";
+
+const createStripeCustomer = (id: string) => ({
+  id,
+  object: "customer",
+  email: customer.email,
+  metadata: { saleorUserId: customer.id },
+});
+
+describe("getOrCreateStripeCustomer", () => {
+  setupRecording({});
+
+  const getOrCreate = () =>
+    getOrCreateStripeCustomer({
+      client: createServerClient(testEnv.TEST_SALEOR_API_URL, "token"),
+      customer,
+      configurationId,
+      secretKey: testEnv.TEST_PAYMENT_APP_SECRET_KEY,
+    });
+
+  it("reuses Stripe Customer saved in user private metadata", async (ctx) => {
+    ctx.polly?.server.post(testEnv.TEST_SALEOR_API_URL).intercept((req, res) => {
+      expect(req.jsonBody()).toMatchObject({
+        variables: { id: customer.id, key: getStripeCustomerIdMetadataKey(configurationId) },
+      });
+      res.json({ data: { user: { id: customer.id, privateMetafield: "cus_saved" } } });
+    });
+    ctx.polly?.server
+      .get("https://api.stripe.com/v1/customers/cus_saved")
+      .intercept((_req, res) => {
+        res.json(createStripeCustomer("cus_saved"));
+      });
+    const onCreate = vi.fn();
+    ctx.polly?.server.post("https://api.stripe.com/v1/customers").on("request", onCreate);
+
+    await expect(getOrCreate()).resolves.toMatchObject({ id: "cus_saved" });
+    expect(onCreate).not.toHaveBeenCalled();
+  });
+
+  it("creates Stripe Customer and saves it in user private metadata", async (ctx) => {
+    const saleorRequests: unknown[] = [];
+    ctx.polly?.server.post(testEnv.TEST_SALEOR_API_URL).intercept((req, res) => {
+      saleorRequests.push(req.jsonBody().variables);
+      res.json(
+        saleorRequests.length === 1
+          ? { data: { user: { id: customer.id, privateMetafield: null } } }
+          : { data: { updatePrivateMetadata: { errors: [] } } },
+      );
+    });
+    ctx.polly?.server.post("https://api.stripe.com/v1/customers").intercept((_req, res) => {
+      res.json(createStripeCustomer("cus_new"));
+    });
+
+    await expect(getOrCreate()).resolves.toMatchObject({ id: "cus_new" });
+    expect(saleorRequests[1]).toEqual({
+      id: customer.id,
+      input: [{ key: getStripeCustomerIdMetadataKey(configurationId), value: "cus_new" }],
+    });
+  });
+
+  it("creates new Stripe Customer when the saved one was deleted", async (ctx) => {
+    let saleorRequestsCount = 0;
+    ctx.polly?.server.post(testEnv.TEST_SALEOR_API_URL).intercept((_req, res) => {
+      saleorRequestsCount++;
+      res.json(
+        saleorRequestsCount === 1
+          ? { data: { user: { id: customer.id, privateMetafield: "cus_deleted" } } }
+          : { data: { updatePrivateMetadata: { errors: [] } } },
+      );
+    });
+    ctx.polly?.server
+      .get("https://api.stripe.com/v1/customers/cus_deleted")
+      .intercept((_req, res) => {
+        res.json({ id: "cus_deleted", object: "customer", deleted: true });
+      });
+    ctx.polly?.server.post("https://api.stripe.com/v1/customers").intercept((_req, res) => {
+      res.json(createStripeCustomer("cus_new"));
+    });
+
+    await expect(getOrCreate()).resolves.toMatchObject({ id: "cus_new" });
+    expect(saleorRequestsCount).toBe(2);
+  });
+
+  it("throws when Stripe Customer id can't be saved", async (ctx) => {
+    let saleorRequestsCount = 0;
+    ctx.polly?.server.post(testEnv.TEST_SALEOR_API_URL).intercept((_req, res) => {
+      saleorRequestsCount++;
+      res.json(
+        saleorRequestsCount === 1
+          ? { data: { user: { id: customer.id, privateMetafield: null } } }
+          : {
+              data: {
+                updatePrivateMetadata: {
+                  errors: [{ field: "id", code: "NOT_FOUND", message: "Couldn't resolve user" }],
+                },
+              },
+            },
+      );
+    });
+    ctx.polly?.server.post("https://api.stripe.com/v1/customers").intercept((_req, res) => {
+      res.json(createStripeCustomer("cus_new"));
+    });
+
+    await expect(getOrCreate()).rejects.toThrowError(StripeCustomerMetadataError);
+  });
+});
+
+describe("hasSavePaymentMethodsPermission", () => {
+  it("is true when the app was granted MANAGE_USERS", () => {
+    expect(
+      hasSavePaymentMethodsPermission([
+        { code: PermissionEnum.HandlePayments },
+        { code: PermissionEnum.ManageUsers },
+      ]),
+    ).toBe(true);
+  });
+
+  it("is false for installations with payment permissions only", () => {
+    expect(hasSavePaymentMethodsPermission([{ code: PermissionEnum.HandlePayments }])).toBe(false);
+    expect(hasSavePaymentMethodsPermission(null)).toBe(false);
+  });
+});
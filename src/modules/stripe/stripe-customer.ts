@@ -0,0 +1,156 @@
+import { Stripe } from "stripe";
+import { type Client } from "urql";
+import { getStripeApiClient } from "./stripe-api";
+import { getStripeRequestOptions, type StripeRequestBudget } from "./stripe-request-budget";
+import {
+  FetchUserPrivateMetafieldDocument,
+  PermissionEnum,
+  type FetchUserPrivateMetafieldQuery,
+  type FetchUserPrivateMetafieldQueryVariables,
+  type TransactionInitializeSessionEventFragment,
+  UpdateUserPrivateMetadataDocument,
+  type UpdateUserPrivateMetadataMutation,
+  type UpdateUserPrivateMetadataMutationVariables,
+} from "generated/graphql";
+import { BaseError } from "@/errors";
+import { createLogger } from "@/lib/logger";
+import { unpackPromise } from "@/lib/utils";
+
+export const StripeCustomerMetadataError = BaseError.subclass("StripeCustomerMetadataError");
+
+export interface SaleorCustomer {
+  id: string;
+  email: string;
+}
+
+/**
+ * Stripe Customer ids are kept in user private metadata, which needs this permission.
+ * It's not required by the manifest, so saving payment methods only works once it's granted
+ */
+export const SAVE_PAYMENT_METHODS_PERMISSION = PermissionEnum.ManageUsers;
+
+export const hasSavePaymentMethodsPermission = (
+  permissions: ReadonlyArray<{ code: PermissionEnum }> | null | undefined,
+) => !!permissions?.some(({ code }) => code === SAVE_PAYMENT_METHODS_PERMISSION);
+
+/** Customers belong to a Stripe account, so their ids are stored separately for each configuration */
+export const getStripeCustomerIdMetadataKey = (configurationId: string) =>
+  `stripeCustomerId.${configurationId}`;
+
+/**
+ * Only logged-in buyers get a Stripe Customer.
+ * `issuingPrincipal` isn't used, because it's the staff user when payment is started from the Dashboard
+ */
+export const getSaleorCustomerFromEvent = (
+  event: TransactionInitializeSessionEventFragment,
+): SaleorCustomer | null => {
+  const user = event.sourceObject.user;
+  return user ? { id: user.id, email: user.email } : null;
+};
+
+const fetchStoredStripeCustomerId = async (client: Client, userId: string, key: string) => {
+  const { data, error } = await client
+    .query<FetchUserPrivateMetafieldQuery, FetchUserPrivateMetafieldQueryVariables>(
+      FetchUserPrivateMetafieldDocument,
+      { id: userId, key },
+    )
+    .toPromise();
+
+  if (error) {
+    throw new StripeCustomerMetadataError("Couldn't fetch Stripe Customer id of the user", {
+      cause: error,
+    });
+  }
+  return data?.user?.privateMetafield || null;
+};
+
+const storeStripeCustomerId = async (
+  client: Client,
+  userId: string,
+  key: string,
+  customerId: string,
+) => {
+  const { data, error } = await client
+    .mutation<UpdateUserPrivateMetadataMutation, UpdateUserPrivateMetadataMutationVariables>(
+      UpdateUserPrivateMetadataDocument,
+      { id: userId, input: [{ key, value: customerId }] },
+    )
+    .toPromise();
+
+  const errors = [error, ...(data?.updatePrivateMetadata?.errors || [])].filter(Boolean);
+  if (errors.length > 0) {
+    throw new StripeCustomerMetadataError(
+      errors.map((err) => err?.message ?? "").join("\n") ||
+        "Couldn't save Stripe Customer id of the user",
+    );
+  }
+};
+
+/** Stripe Customer id saved for the user, without creating a Customer when there's none */
+export const getStoredStripeCustomerId = ({
+  client,
+  customer,
+  configurationId,
+}: {
+  client: Client;
+  customer: SaleorCustomer;
+  configurationId: string;
+}) =>
+  fetchStoredStripeCustomerId(client, customer.id, getStripeCustomerIdMetadataKey(configurationId));
+
+const isMissingResourceError = (err: unknown) =>
+  err instanceof Stripe.errors.StripeInvalidRequestError && err.code === "resource_missing";
+
+/**
+ * Reuses Stripe Customer saved in Saleor user private metadata, or creates a new one.
+ * New Customer is created when the saved one was deleted in Stripe
+ */
+export const getOrCreateStripeCustomer = async ({
+  client,
+  customer,
+  configurationId,
+  secretKey,
+  stripeAccount,
+  budget,
+}: {
+  client: Client;
+  customer: SaleorCustomer;
+  configurationId: string;
+  secretKey: string;
+  stripeAccount?: string;
+  budget?: StripeRequestBudget;
+}): Promise<Stripe.Customer> => {
+  const logger = createLogger(
+    { userId: customer.id, configurationId },
+    { msgPrefix: "[getOrCreateStripeCustomer] " },
+  );
+  const stripe = getStripeApiClient(secretKey, stripeAccount);
+  const key = getStripeCustomerIdMetadataKey(configurationId);
+
+  const storedCustomerId = await fetchStoredStripeCustomerId(client, customer.id, key);
+  if (storedCustomerId) {
+    const [retrieveError, stripeCustomer] = await unpackPromise(
+      stripe.customers.retrieve(storedCustomerId, {}, getStripeRequestOptions({ budget })),
+    );
+    if (retrieveError && !isMissingResourceError(retrieveError)) {
+      throw retrieveError;
+    }
+    if (stripeCustomer && !stripeCustomer.deleted) {
+      logger.debug({ customerId: stripeCustomer.id }, "Reusing Stripe Customer");
+      return stripeCustomer;
+    }
+    logger.info({ customerId: storedCustomerId }, "Stripe Customer no longer exists");
+  }
+
+  const stripeCustomer = await stripe.customers.create(
+    {
+      email: customer.email,
+      metadata: { saleorUserId: customer.id },
+    },
+    getStripeRequestOptions({ budget }),
+  );
+  await storeStripeCustomerId(client, customer.id, key, stripeCustomer.id);
+  logger.info({ customerId: stripeCustomer.id }, "Created Stripe Customer");
+
+  return stripeCustomer;
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  getSaleorRequestEventId,
+  getStripeIdempotencyKey,
+  getStripeInitializeIdempotencyKey,
+} from "./stripe-idempotency";
+import { TransactionActionEnum, TransactionEventTypeEnum } from "generated/graphql";
+
+describe("getStripeIdempotencyKey", () => {
+  const request = {
+    transactionId: "VHJhbnNhY3Rpb25JdGVtOjE=",
+    action: "REFUND",
+    amount: 10.5,
+    requestEventId: "VHJhbnNhY3Rpb25FdmVudDox",
+  };
+
+  it("returns the same key for the same request", () => {
+    expect(getStripeIdempotencyKey(request)).toBe(
+      "saleor:VHJhbnNhY3Rpb25JdGVtOjE=:REFUND:10.5:VHJhbnNhY3Rpb25FdmVudDox",
+    );
+    expect(getStripeIdempotencyKey({ ...request })).toBe(getStripeIdempotencyKey(request));
+  });
+
+  it("returns different keys for different requests", () => {
+    const key = getStripeIdempotencyKey(request);
+
+    expect(getStripeIdempotencyKey({ ...request, action: "CHARGE" })).not.toBe(key);
+    expect(getStripeIdempotencyKey({ ...request, amount: 5 })).not.toBe(key);
+    expect(getStripeIdempotencyKey({ ...request, amount: null })).not.toBe(key);
+    expect(
+      getStripeIdempotencyKey({ ...request, requestEventId: "VHJhbnNhY3Rpb25FdmVudDoy" }),
+    ).not.toBe(key);
+  });
+
+  it("returns key of the transaction, action and amount without request event", () => {
+    expect(getStripeIdempotencyKey({ ...request, requestEventId: null })).toBe(
+      "saleor:VHJhbnNhY3Rpb25JdGVtOjE=:REFUND:10.5",
+    );
+  });
+});
+
+describe("getSaleorRequestEventId", () => {
+  const events = [
+    { id: "1", type: TransactionEventTypeEnum.RefundRequest },
+    { id: "2", type: TransactionEventTypeEnum.RefundSuccess },
+    { id: "3", type: TransactionEventTypeEnum.RefundRequest },
+    { id: "4", type: TransactionEventTypeEnum.ChargeRequest },
+  ];
+
+  it("returns the latest request event of the action", () => {
+    expect(getSaleorRequestEventId(TransactionActionEnum.Refund, events)).toBe("3");
+    expect(getSaleorRequestEventId(TransactionActionEnum.Charge, events)).toBe("4");
+  });
+
+  it("returns nothing without request events", () => {
+    expect(getSaleorRequestEventId(TransactionActionEnum.Cancel, events)).toBeUndefined();
+    expect(getSaleorRequestEventId(TransactionActionEnum.Refund, undefined)).toBeUndefined();
+  });
+});
+
+describe("getStripeInitializeIdempotencyKey", () => {
+  it("returns key of the transaction", () => {
+    expect(
+      getStripeInitializeIdempotencyKey({ transactionId: "VHJhbnNhY3Rpb25JdGVtOjE=", amount: 10 }),
+    ).toBe("saleor:VHJhbnNhY3Rpb25JdGVtOjE=:initialize:10");
+  });
+});
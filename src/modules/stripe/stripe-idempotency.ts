@@ -0,0 +1,54 @@
+import { TransactionActionEnum, TransactionEventTypeEnum } from "generated/graphql";
+
+// Saleor records every requested action as a transaction event before sending the webhook
+const requestEventTypes = {
+  [TransactionActionEnum.Charge]: TransactionEventTypeEnum.ChargeRequest,
+  [TransactionActionEnum.Refund]: TransactionEventTypeEnum.RefundRequest,
+  [TransactionActionEnum.Cancel]: TransactionEventTypeEnum.CancelRequest,
+  [TransactionActionEnum.Void]: TransactionEventTypeEnum.CancelRequest,
+} satisfies Record<TransactionActionEnum, TransactionEventTypeEnum>;
+
+/** Id of the latest request event of the action, the same when Saleor sends the webhook again */
+export const getSaleorRequestEventId = (
+  actionType: TransactionActionEnum,
+  events: ReadonlyArray<{ id: string; type?: TransactionEventTypeEnum | null }> | null | undefined,
+) => events?.filter((event) => event.type === requestEventTypes[actionType]).at(-1)?.id;
+
+/**
+ * Key sent with Stripe requests made for a Saleor transaction action. When Saleor sends the same
+ * request again, e.g. after a timeout, Stripe returns the original object instead of refunding
+ * or capturing twice. Time of the webhook isn't a part of the key, because it changes with every
+ * attempt. Separate requests of the same amount, e.g. two partial refunds, are told apart by
+ * their request events. A refund requested again by hand gets a new request event, so it also
+ * gets a new key and Stripe refunds again - this is intended, it isn't a duplicate webhook.
+ * Without request events, requests share the key of the transaction, action and amount, so
+ * Stripe returns the first object for 24 hours
+ */
+export const getStripeIdempotencyKey = ({
+  transactionId,
+  action,
+  amount,
+  requestEventId,
+}: {
+  transactionId: string;
+  action: string;
+  /** Amount requested by Saleor, missing means the whole amount */
+  amount: number | null | undefined;
+  requestEventId: string | null | undefined;
+}) =>
+  [
+    "saleor",
+    transactionId,
+    action,
+    amount ?? "full",
+    ...(requestEventId ? [requestEventId] : []),
+  ].join(":");
+
+/** Saleor creates a single PaymentIntent or Checkout Session for each transaction */
+export const getStripeInitializeIdempotencyKey = ({
+  transactionId,
+  amount,
+}: {
+  transactionId: string;
+  amount: number;
+}) => ["saleor", transactionId, "initialize", amount].join(":");
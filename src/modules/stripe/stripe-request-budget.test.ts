@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { Stripe } from "stripe";
+import {
+  createStripeRequestBudget,
+  getStripeMaxNetworkRetries,
+  getStripeRequestOptions,
+  getStripeRequestTimeout,
+  isStripeRequestTimeoutError,
+  StripeRequestBudgetExceededError,
+} from "./stripe-request-budget";
+
+describe("getStripeRequestTimeout", () => {
+  it("splits remaining time between the request and its retries", () => {
+    const budget = createStripeRequestBudget(12_000, 0);
+
+    expect(getStripeRequestTimeout(budget, 0)).toBe(
+      Math.floor(12_000 / (getStripeMaxNetworkRetries() + 1)),
+    );
+    expect(getStripeRequestTimeout(budget, 6_000)).toBe(
+      Math.floor(6_000 / (getStripeMaxNetworkRetries() + 1)),
+    );
+  });
+
+  it("throws when there is not enough time left", () => {
+    const budget = createStripeRequestBudget(12_000, 0);
+
+    expect(() => getStripeRequestTimeout(budget, 11_900)).toThrow(StripeRequestBudgetExceededError);
+    expect(() => getStripeRequestTimeout(budget, 20_000)).toThrow(StripeRequestBudgetExceededError);
+  });
+});
+
+describe("getStripeRequestOptions", () => {
+  it("returns timeout and idempotency key", () => {
+    expect(
+      getStripeRequestOptions({
+        budget: createStripeRequestBudget(60_000),
+        idempotencyKey: "saleor:transaction:initialize",
+      }),
+    ).toEqual({
+      timeout: expect.any(Number) as number,
+      idempotencyKey: "saleor:transaction:initialize",
+    });
+  });
+
+  it("returns nothing without budget and idempotency key", () => {
+    expect(getStripeRequestOptions({})).toBeUndefined();
+  });
+});
+
+describe("isStripeRequestTimeoutError", () => {
+  it("matches connection errors", () => {
+    expect(
+      isStripeRequestTimeoutError(
+        new Stripe.errors.StripeConnectionError({ message: "Request aborted", type: "api_error" }),
+      ),
+    ).toBe(true);
+    expect(
+      isStripeRequestTimeoutError(
+        new Stripe.errors.StripeCardError({ message: "Card declined", type: "card_error" }),
+      ),
+    ).toBe(false);
+  });
+
+  it("doesn't match exhausted budget, because the request wasn't sent", () => {
+    expect(isStripeRequestTimeoutError(new StripeRequestBudgetExceededError("Timeout"))).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { Stripe } from "stripe";
+import { BaseError } from "@/errors";
+import { env } from "@/lib/env.mjs";
+
+export const StripeRequestBudgetExceededError = BaseError.subclass(
+  "StripeRequestBudgetExceededError",
+);
+
+// Saleor waits 20 seconds for sync webhooks, the rest is left for Saleor API calls and the response
+const DEFAULT_STRIPE_REQUEST_BUDGET_MS = 15_000;
+const DEFAULT_STRIPE_MAX_NETWORK_RETRIES = 2;
+// Shorter requests would most likely time out anyway
+const MIN_STRIPE_REQUEST_TIMEOUT_MS = 1_000;
+
+/** Time left for Stripe requests made while handling a single sync webhook */
+export type StripeRequestBudget = {
+  readonly deadline: number;
+};
+
+export const createStripeRequestBudget = (
+  budgetMs = env.STRIPE_REQUEST_BUDGET_MS ?? DEFAULT_STRIPE_REQUEST_BUDGET_MS,
+  now = Date.now(),
+): StripeRequestBudget => ({ deadline: now + budgetMs });
+
+export const getStripeMaxNetworkRetries = () =>
+  env.STRIPE_MAX_NETWORK_RETRIES ?? DEFAULT_STRIPE_MAX_NETWORK_RETRIES;
+
+/**
+ * Remaining time is split between the request and its retries, so even the last retry ends
+ * before the deadline. Throws when there is not enough time left to make the request at all
+ */
+export const getStripeRequestTimeout = (budget: StripeRequestBudget, now = Date.now()) => {
+  const remainingMs = budget.deadline - now;
+  const timeout = Math.floor(remainingMs / (getStripeMaxNetworkRetries() + 1));
+  if (timeout < MIN_STRIPE_REQUEST_TIMEOUT_MS) {
+    throw new StripeRequestBudgetExceededError(
+      `Not enough time left for Stripe request: ${Math.max(remainingMs, 0)} ms`,
+    );
+  }
+  return timeout;
+};
+
+/** Stripe treats an empty object as request params, so nothing is returned without options */
+export const getStripeRequestOptions = ({
+  budget,
+  idempotencyKey,
+}: {
+  budget?: StripeRequestBudget;
+  idempotencyKey?: string;
+}): Stripe.RequestOptions | undefined =>
+  budget || idempotencyKey
+    ? {
+        ...(budget && { timeout: getStripeRequestTimeout(budget) }),
+        ...(idempotencyKey && { idempotencyKey }),
+      }
+    : undefined;
+
+export const STRIPE_REQUEST_TIMEOUT_MESSAGE =
+  "Stripe didn't answer in time, the result will be reported by Stripe webhook";
+
+/**
+ * Request was sent, but Stripe didn't answer in time.
+ * Result of the request is unknown, Stripe webhook reports it once it's known.
+ * Exhausted budget isn't included - the request wasn't sent, see `StripeRequestBudgetExceededError`
+ */
+export const isStripeRequestTimeoutError = (err: unknown) =>
+  err instanceof Stripe.errors.StripeConnectionError;
@@ -3,6 +3,7 @@ import { logger, redactLogValue } from "../../lib/logger";
 import { REQUIRED_SALEOR_PERMISSIONS } from "../jwt/consts";
 import { middleware, procedure } from "./trpc-server";
 import { checkTokenExpiration } from "@/modules/jwt/check-token-expiration";
+import { getTokenUser } from "@/modules/jwt/get-token-user";
 import { saleorApp } from "@/saleor-app";
 import { createClient } from "@/lib/create-graphq-client";
 import {
@@ -87,6 +88,7 @@ const validateClientToken = middleware(async ({ ctx, next }) => {
     ctx: {
       ...ctx,
       saleorApiUrl: ctx.saleorApiUrl,
+      user: getTokenUser(ctx.token),
     },
   });
 });
@@ -116,6 +118,7 @@ export const protectedClientProcedure = procedure
         apiClient: client,
         appToken: ctx.appToken,
         saleorApiUrl: ctx.saleorApiUrl,
+        user: ctx.user,
         logger: pinoLoggerInstance,
       },
     });
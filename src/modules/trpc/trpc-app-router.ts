@@ -1,8 +1,12 @@
 import { paymentAppConfigurationRouter } from "../payment-app-configuration/payment-app-configuration.router";
+import { auditLogRouter } from "../audit-log/audit-log.router";
+import { webhookLogRouter } from "../webhook-log/webhook-log.router";
 import { router } from "./trpc-server";
 
 export const appRouter = router({
   paymentAppConfigurationRouter,
+  auditLogRouter,
+  webhookLogRouter,
   // CHANGEME: Add additioal routers here
 });
 
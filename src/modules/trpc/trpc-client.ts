@@ -7,7 +7,12 @@ import { type AppRouter } from "./trpc-app-router";
 import { getErrorHandler } from "./utils";
 import { logger } from "@/lib/logger";
 import { appBridgeInstance } from "@/app-bridge-instance";
-import { BaseTrpcError, JwtInvalidError, JwtTokenExpiredError } from "@/errors";
+import {
+  BaseTrpcError,
+  ConfigVersionConflictError,
+  JwtInvalidError,
+  JwtTokenExpiredError,
+} from "@/errors";
 import { isDevelopment } from "@/lib/isEnv";
 
 const genericErrorHandler = (err: unknown) => {
@@ -50,6 +55,16 @@ export const trpcClient = createTRPCNext<AppRouter>({
                   message: "JWT Token is invalid. Please refresh the page.",
                 });
               }
+
+              // Sending the change again would overwrite changes the user hasn't seen
+              if (error instanceof ConfigVersionConflictError) {
+                useErrorModalStore.setState({
+                  isOpen: true,
+                  message:
+                    "Configuration was changed by someone else in the meantime. Reload it, check the changes and try again.",
+                  canReloadConfig: true,
+                });
+              }
             }
           },
         }),
@@ -0,0 +1,19 @@
+import { trpcClient } from "./trpc-client";
+import { invariant } from "@/lib/invariant";
+
+/**
+ * Version of the config seen in the dashboard. It's sent with every config change, so changes
+ * based on a config that someone else has changed in the meantime are rejected
+ */
+export const useConfigVersion = () => {
+  const context = trpcClient.useContext();
+  const { data } = trpcClient.paymentAppConfigurationRouter.paymentConfig.getAll.useQuery();
+
+  return {
+    getVersion: () => {
+      invariant(data, "Configuration version isn't loaded yet");
+      return data.version;
+    },
+    refetchVersion: () => context.paymentAppConfigurationRouter.paymentConfig.getAll.invalidate(),
+  };
+};
@@ -0,0 +1,50 @@
+import { Checkbox as $Checkbox, Text } from "@saleor/macaw-ui/next";
+import { type ComponentProps, type ReactNode } from "react";
+import {
+  type UseControllerProps,
+  type FieldPath,
+  type FieldValues,
+  useController,
+  type PathValue,
+} from "react-hook-form";
+
+type $FormCheckboxProps = ComponentProps<typeof $Checkbox>;
+
+export type FormCheckboxProps<
+  TFieldValues extends FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+> = UseControllerProps<TFieldValues, TName> &
+  Omit<$FormCheckboxProps, "checked" | "onCheckedChange" | "name" | "defaultValue"> & {
+    label: ReactNode;
+  };
+
+/** Checkbox bound to a boolean form field */
+export function FormCheckbox<
+  TFieldValues extends FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+>(props: FormCheckboxProps<TFieldValues, TName>) {
+  const { field, fieldState } = useController<TFieldValues, TName>(props);
+  const {
+    control: _control,
+    rules: _rules,
+    shouldUnregister: _shouldUnregister,
+    label,
+    ...rest
+  } = props;
+
+  return (
+    <$Checkbox
+      error={!!fieldState.error?.message}
+      {...rest}
+      name={field.name}
+      ref={field.ref}
+      checked={!!field.value}
+      onCheckedChange={(checked) => {
+        field.onChange((checked === true) as PathValue<TFieldValues, TName>);
+        field.onBlur();
+      }}
+    >
+      <Text>{label}</Text>
+    </$Checkbox>
+  );
+}
@@ -0,0 +1,49 @@
+import {
+  Multiselect as $Multiselect,
+  type MultiselectProps as $MultiselectProps,
+  type Option,
+} from "@saleor/macaw-ui/next";
+import {
+  type UseControllerProps,
+  type FieldPath,
+  type FieldValues,
+  useController,
+  type PathValue,
+} from "react-hook-form";
+
+type $FormMultiselectProps = $MultiselectProps<Option, Option>;
+
+export type FormMultiselectProps<
+  TFieldValues extends FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+> = UseControllerProps<TFieldValues, TName> &
+  Omit<$FormMultiselectProps, "value" | "onChange" | "name" | "defaultValue">;
+
+/** Multiselect bound to a form field holding an array of option values */
+export function FormMultiselect<
+  TFieldValues extends FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+>(props: FormMultiselectProps<TFieldValues, TName>) {
+  const { field, fieldState } = useController<TFieldValues, TName>(props);
+  const { control: _control, rules: _rules, shouldUnregister: _shouldUnregister, ...rest } = props;
+
+  const values = (field.value as string[] | undefined) ?? [];
+
+  return (
+    <$Multiselect
+      error={!!fieldState.error?.message}
+      {...rest}
+      name={field.name}
+      ref={field.ref}
+      value={props.options.filter((option) => values.includes(option.value))}
+      helperText={fieldState.error?.message || props.helperText}
+      onChange={(selected) => {
+        field.onChange(selected.map((option) => option.value) as PathValue<TFieldValues, TName>);
+      }}
+      onBlur={(e) => {
+        field.onBlur();
+        props.onBlur?.(e);
+      }}
+    />
+  );
+}
@@ -0,0 +1,70 @@
+import { Box, Text } from "@saleor/macaw-ui/next";
+import { Tr, Td, Table, Tbody, Th, Thead } from "@/modules/ui/atoms/Table/Table";
+import { ChipNeutral } from "@/modules/ui/atoms/Chip/Chip";
+import { type AuditLogAction, type AuditLogEntry } from "@/modules/audit-log/audit-log-store";
+
+const actionLabels: Record<AuditLogAction, string> = {
+  "configuration.created": "Configuration created",
+  "configuration.updated": "Configuration updated",
+  "configuration.deleted": "Configuration deleted",
+  "configuration.imported": "Configuration imported",
+  "secretKey.rotated": "Secret key rotated",
+  "webhook.repaired": "Webhook repaired",
+  "mapping.updated": "Channel assignment changed",
+  "channelRules.updated": "Channel rules changed",
+  "channelEnvironment.updated": "Channel environment changed",
+};
+
+const formatChangeValue = (value: unknown) =>
+  value === null || value === undefined
+    ? "(empty)"
+    : typeof value === "string"
+      ? value
+      : JSON.stringify(value);
+
+const AuditLogTableRow = ({ entry }: { entry: AuditLogEntry }) => {
+  return (
+    <Tr>
+      <Td>
+        <Text as="p" variant="bodyStrong" size="medium">
+          {new Date(entry.createdAt).toLocaleString()}
+        </Text>
+        <Text as="p" size="small" variant="caption" color="textNeutralSubdued">
+          {entry.user?.email ?? entry.user?.id ?? "Unknown user"}
+        </Text>
+      </Td>
+      <Td>
+        <ChipNeutral>{actionLabels[entry.action]}</ChipNeutral>
+      </Td>
+      <Td>
+        <Box display="flex" flexDirection="column" rowGap={1}>
+          {entry.changes.map((change) => (
+            <Text key={change.path} as="p" size="small" variant="caption">
+              <strong>{change.path}</strong>: {formatChangeValue(change.before)} →{" "}
+              {formatChangeValue(change.after)}
+            </Text>
+          ))}
+        </Box>
+      </Td>
+    </Tr>
+  );
+};
+
+export const AuditLogTable = ({ entries }: { entries: readonly AuditLogEntry[] }) => {
+  return (
+    <Table>
+      <Thead>
+        <Tr>
+          <Th>Changed</Th>
+          <Th>Action</Th>
+          <Th>Changes</Th>
+        </Tr>
+      </Thead>
+      <Tbody>
+        {entries.map((entry) => (
+          <AuditLogTableRow key={entry.id} entry={entry} />
+        ))}
+      </Tbody>
+    </Table>
+  );
+};
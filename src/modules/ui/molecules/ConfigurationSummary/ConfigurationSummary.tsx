@@ -1,10 +1,30 @@
-import { Box } from "@saleor/macaw-ui/next";
-import { ChipSuccess, ChipStripeOrange, ChipInfo } from "@/modules/ui/atoms/Chip/Chip";
+import { Box, Button } from "@saleor/macaw-ui/next";
+import { ChipSuccess, ChipStripeOrange, ChipInfo, ChipDanger } from "@/modules/ui/atoms/Chip/Chip";
 import { type PaymentAppUserVisibleConfigEntry } from "@/modules/payment-app-configuration/config-entry";
 import { getEnvironmentFromKey, getStripeWebhookDashboardLink } from "@/modules/stripe/stripe-api";
 import { appBridgeInstance } from "@/app-bridge-instance";
+import { type WebhookHealth } from "@/modules/payment-app-configuration/webhook-health";
+import { type StripeWebhookIssue } from "@/modules/payment-app-configuration/webhook-manager";
 
-export const ConfigurationSummary = ({ config }: { config: PaymentAppUserVisibleConfigEntry }) => {
+const webhookIssueLabels: Record<StripeWebhookIssue, string> = {
+  missing: "DELETED",
+  disabled: "DISABLED",
+  urlMismatch: "WRONG URL",
+  eventsMismatch: "MISSING EVENTS",
+  unavailable: "UNAVAILABLE",
+};
+
+export const ConfigurationSummary = ({
+  config,
+  webhookHealth,
+  repairDisabled,
+  onWebhookRepair,
+}: {
+  config: PaymentAppUserVisibleConfigEntry;
+  webhookHealth?: WebhookHealth;
+  repairDisabled?: boolean;
+  onWebhookRepair?: () => void;
+}) => {
   return (
     <Box
       as="dl"
@@ -52,6 +72,42 @@ export const ConfigurationSummary = ({ config }: { config: PaymentAppUserVisible
           <ChipInfo>{config.webhookId}</ChipInfo>
         </a>
       </Box>
+      {webhookHealth && (
+        <>
+          <Box as="dt" margin={0} fontSize="captionSmall" color="textNeutralSubdued">
+            Webhook status
+          </Box>
+          <Box
+            as="dd"
+            margin={0}
+            display="flex"
+            flexWrap="wrap"
+            justifyContent="flex-end"
+            alignItems="center"
+            gap={2}
+          >
+            {webhookHealth.issues.length === 0 ? (
+              <ChipSuccess>OK</ChipSuccess>
+            ) : (
+              <>
+                {webhookHealth.issues.map((issue) => (
+                  <ChipDanger key={issue}>{webhookIssueLabels[issue]}</ChipDanger>
+                ))}
+                {onWebhookRepair && !webhookHealth.issues.includes("unavailable") && (
+                  <Button
+                    size="small"
+                    variant="secondary"
+                    disabled={repairDisabled}
+                    onClick={onWebhookRepair}
+                  >
+                    Repair
+                  </Button>
+                )}
+              </>
+            )}
+          </Box>
+        </>
+      )}
     </Box>
   );
 };
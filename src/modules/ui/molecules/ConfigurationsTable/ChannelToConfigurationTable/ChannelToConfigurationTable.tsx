@@ -5,6 +5,7 @@ import * as tableStyles from "./channelToConfigurationTable.css";
 import { Table, Thead, Tr, Th, Tbody, Td } from "@/modules/ui/atoms/Table/Table";
 import { ChipStripeOrange, ChipNeutral, ChipSuccess } from "@/modules/ui/atoms/Chip/Chip";
 import { trpcClient } from "@/modules/trpc/trpc-client";
+import { useConfigVersion } from "@/modules/trpc/use-config-version";
 import { type Channel } from "@/types";
 import { getErrorHandler } from "@/modules/trpc/utils";
 import {
@@ -13,39 +14,92 @@ import {
 } from "@/modules/payment-app-configuration/app-config";
 import { type PaymentAppConfigEntry } from "@/modules/payment-app-configuration/config-entry";
 import { getEnvironmentFromKey } from "@/modules/stripe/stripe-api";
+import {
+  type ChannelConfigurationResolution,
+  type ChannelRule,
+  resolveChannelConfiguration,
+} from "@/modules/payment-app-configuration/channel-rules";
+import {
+  type StripeEnvironment,
+  getChannelEnvironmentWarning,
+} from "@/modules/payment-app-configuration/channel-environment";
+
+const environmentOptions = [
+  { value: "", label: "(not tagged)" },
+  { value: "live", label: "Production" },
+  { value: "test", label: "Test" },
+];
+
+const getResolutionLabel = (
+  resolution: ChannelConfigurationResolution | null,
+  channelRules: readonly ChannelRule[],
+) => {
+  switch (resolution?.resolvedBy) {
+    case "rule": {
+      const rule = channelRules[resolution.ruleIndex];
+      return `Rule ${resolution.ruleIndex + 1}: ${rule.type} ${rule.pattern}`;
+    }
+    case "default":
+      return "Default configuration";
+    default:
+      return null;
+  }
+};
 
 const ChannelToConfigurationTableRow = ({
   channel,
   configurations,
   selectedConfigurationId,
+  resolution,
+  resolutionLabel,
+  channelEnvironment,
   disabled,
 }: {
   channel: Channel;
   configurations: PaymentAppUserVisibleEntries;
   selectedConfigurationId?: PaymentAppConfigEntry["configurationId"] | null;
+  resolution: ChannelConfigurationResolution | null;
+  resolutionLabel: string | null;
+  channelEnvironment: StripeEnvironment | null;
   disabled?: boolean;
 }) => {
   const { appBridge } = useAppBridge();
   const selectedConfiguration = configurations.find(
-    (config) => config.configurationId === selectedConfigurationId,
+    (config) => config.configurationId === resolution?.configurationId,
   );
 
+  const environmentWarning =
+    selectedConfiguration &&
+    getChannelEnvironmentWarning(channelEnvironment, selectedConfiguration);
+
   const context = trpcClient.useContext();
-  const { mutate: saveMapping } =
-    trpcClient.paymentAppConfigurationRouter.mapping.update.useMutation({
-      onSettled: () => {
-        return context.paymentAppConfigurationRouter.mapping.getAll.invalidate();
-      },
-      onSuccess: () => {
-        void appBridge?.dispatch({
-          type: "notification",
-          payload: {
+  const { getVersion, refetchVersion } = useConfigVersion();
+  const onSaved = ({ warning }: { warning: string | null }) => {
+    void appBridge?.dispatch({
+      type: "notification",
+      payload: warning
+        ? {
+            title: "Saved with warning",
+            text: warning,
+            status: "warning",
+            actionId: "ChannelToConfigurationTableRow",
+          }
+        : {
             title: "Saved",
             status: "success",
             actionId: "ChannelToConfigurationTableRow",
           },
-        });
+    });
+  };
+  const { mutate: saveMapping } =
+    trpcClient.paymentAppConfigurationRouter.mapping.update.useMutation({
+      onSettled: () => {
+        return Promise.all([
+          context.paymentAppConfigurationRouter.mapping.getAll.invalidate(),
+          refetchVersion(),
+        ]);
       },
+      onSuccess: onSaved,
       onError: (err) => {
         getErrorHandler({
           appBridge,
@@ -55,6 +109,24 @@ const ChannelToConfigurationTableRow = ({
         })(err);
       },
     });
+  const { mutate: saveEnvironment } =
+    trpcClient.paymentAppConfigurationRouter.mapping.updateEnvironment.useMutation({
+      onSettled: () => {
+        return Promise.all([
+          context.paymentAppConfigurationRouter.mapping.getEnvironments.invalidate(),
+          refetchVersion(),
+        ]);
+      },
+      onSuccess: onSaved,
+      onError: (err) => {
+        getErrorHandler({
+          appBridge,
+          actionId: "ChannelToConfigurationTableRow",
+          message: "Error while saving channel environment",
+          title: "Mapping error",
+        })(err);
+      },
+    });
 
   return (
     <Tr>
@@ -62,10 +134,43 @@ const ChannelToConfigurationTableRow = ({
         <Text
           variant="bodyStrong"
           size="medium"
-          color={selectedConfigurationId ? "textNeutralDefault" : "textNeutralDisabled"}
+          color={selectedConfiguration ? "textNeutralDefault" : "textNeutralDisabled"}
         >
           {channel.name}
         </Text>
+        {resolutionLabel && selectedConfiguration && (
+          <Text as="p" size="small" variant="caption" color="textNeutralSubdued">
+            {resolutionLabel} ({selectedConfiguration.configurationName})
+          </Text>
+        )}
+        {environmentWarning && (
+          <Text as="p" size="small" variant="caption" color="textCriticalDefault">
+            {environmentWarning}
+          </Text>
+        )}
+      </Td>
+      <Td className={classNames(tableStyles.td, tableStyles.environmentColumnTd)}>
+        <Combobox
+          label="Environment"
+          size="small"
+          disabled={disabled}
+          value={channelEnvironment ?? ""}
+          options={environmentOptions}
+          onChange={(e: string | { value: string | null } | null) => {
+            const value = e === null || typeof e === "string" ? e : e.value;
+            const environment = value === "live" || value === "test" ? value : null;
+            context.paymentAppConfigurationRouter.mapping.getEnvironments.setData(
+              undefined,
+              (environments) => {
+                const { [channel.id]: _, ...otherEnvironments } = environments ?? {};
+                return environment
+                  ? { ...otherEnvironments, [channel.id]: environment }
+                  : otherEnvironments;
+              },
+            );
+            saveEnvironment({ channelId: channel.id, environment, version: getVersion() });
+          }}
+        />
       </Td>
       <Td className={classNames(tableStyles.td, tableStyles.dropdownColumnTd)}>
         <Combobox
@@ -74,7 +179,7 @@ const ChannelToConfigurationTableRow = ({
           disabled={disabled}
           value={selectedConfigurationId || ""}
           options={[
-            { value: "", label: "(disabled)" },
+            { value: "", label: "(not assigned)" },
             ...configurations.map((c) => ({
               value: c.configurationId,
               label: c.configurationName,
@@ -91,7 +196,7 @@ const ChannelToConfigurationTableRow = ({
                 [newMapping.channelId]: newMapping.configurationId,
               };
             });
-            saveMapping(newMapping);
+            saveMapping({ ...newMapping, version: getVersion() });
           }}
         />
       </Td>
@@ -110,20 +215,36 @@ const ChannelToConfigurationTableRow = ({
 
 export const ChannelToConfigurationTable = ({
   channelMappings,
+  channelRules,
+  defaultConfigurationId,
   channels,
   configurations,
   disabled,
 }: {
   channelMappings: ChannelMapping;
+  channelRules: ChannelRule[];
+  defaultConfigurationId: string | null;
   channels: readonly Channel[];
   configurations: PaymentAppUserVisibleEntries;
   disabled?: boolean;
 }) => {
+  const { appBridge } = useAppBridge();
+  const { data: channelEnvironments } =
+    trpcClient.paymentAppConfigurationRouter.mapping.getEnvironments.useQuery(undefined, {
+      onError: getErrorHandler({
+        appBridge,
+        actionId: "channel-environments-get-all",
+        message: "Error while fetching the channel environments",
+        title: "API Error",
+      }),
+    });
+
   return (
     <Table>
       <Thead>
         <Tr>
           <Th>Saleor Channel</Th>
+          <Th className={tableStyles.environmentColumnTd}>Environment</Th>
           <Th className={tableStyles.dropdownColumnTd}>Configuration</Th>
           <Th className={tableStyles.statusColumnTd}>
             <span className="visually-hidden">Status</span>
@@ -137,12 +258,19 @@ export const ChannelToConfigurationTable = ({
             return null;
           }
 
+          const resolution = resolveChannelConfiguration(
+            { channelToConfigurationId: channelMappings, channelRules, defaultConfigurationId },
+            channel,
+          );
           return (
             <ChannelToConfigurationTableRow
               key={channel.id}
               channel={channel}
               configurations={configurations}
               selectedConfigurationId={configurationId}
+              resolution={resolution}
+              resolutionLabel={getResolutionLabel(resolution, channelRules)}
+              channelEnvironment={channelEnvironments?.[channel.id] ?? null}
               disabled={disabled}
             />
           );
@@ -12,6 +12,17 @@ export const dropdownColumnTd = style(
   ],
   "summaryColumnTd",
 );
+export const environmentColumnTd = style(
+  [
+    sprinkles({
+      paddingLeft: 10,
+    }),
+    {
+      width: "20%",
+    },
+  ],
+  "environmentColumnTd",
+);
 export const statusColumnTd = style(
   [
     sprinkles({
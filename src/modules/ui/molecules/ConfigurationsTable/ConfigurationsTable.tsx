@@ -5,8 +5,19 @@ import * as tableStyles from "./configurationsTable.css";
 import { Tr, Td, Table, Tbody, Th, Thead } from "@/modules/ui/atoms/Table/Table";
 import { type PaymentAppUserVisibleConfigEntry } from "@/modules/payment-app-configuration/config-entry";
 import { type PaymentAppUserVisibleEntries } from "@/modules/payment-app-configuration/app-config";
+import { type WebhookHealth } from "@/modules/payment-app-configuration/webhook-health";
 
-const ConfigurationsTableRow = ({ item }: { item: PaymentAppUserVisibleConfigEntry }) => {
+const ConfigurationsTableRow = ({
+  item,
+  webhookHealth,
+  repairDisabled,
+  onWebhookRepair,
+}: {
+  item: PaymentAppUserVisibleConfigEntry;
+  webhookHealth?: WebhookHealth;
+  repairDisabled?: boolean;
+  onWebhookRepair?: (configurationId: string) => void;
+}) => {
   return (
     <Tr>
       <Td>
@@ -15,7 +26,12 @@ const ConfigurationsTableRow = ({ item }: { item: PaymentAppUserVisibleConfigEnt
         </Text>
       </Td>
       <Td className={tableStyles.summaryColumnTd}>
-        <ConfigurationSummary config={item} />
+        <ConfigurationSummary
+          config={item}
+          webhookHealth={webhookHealth}
+          repairDisabled={repairDisabled}
+          onWebhookRepair={onWebhookRepair && (() => onWebhookRepair(item.configurationId))}
+        />
       </Td>
       <Td className={tableStyles.actionsColumnTd}>
         <Link href={`/configurations/edit/${item.configurationId}`} passHref legacyBehavior>
@@ -38,8 +54,14 @@ const ConfigurationsTableRow = ({ item }: { item: PaymentAppUserVisibleConfigEnt
 
 export const ConfigurationsTable = ({
   configurations,
+  webhookHealth,
+  repairDisabled,
+  onWebhookRepair,
 }: {
   configurations: PaymentAppUserVisibleEntries;
+  webhookHealth?: WebhookHealth[];
+  repairDisabled?: boolean;
+  onWebhookRepair?: (configurationId: string) => void;
 }) => {
   return (
     <Table>
@@ -54,7 +76,15 @@ export const ConfigurationsTable = ({
       </Thead>
       <Tbody>
         {configurations.map((item) => (
-          <ConfigurationsTableRow key={item.configurationId} item={item} />
+          <ConfigurationsTableRow
+            key={item.configurationId}
+            item={item}
+            webhookHealth={webhookHealth?.find(
+              (health) => health.configurationId === item.configurationId,
+            )}
+            repairDisabled={repairDisabled}
+            onWebhookRepair={onWebhookRepair}
+          />
         ))}
       </Tbody>
     </Table>
@@ -0,0 +1,118 @@
+import { Box, Button, Text } from "@saleor/macaw-ui/next";
+import { Tr, Td, Table, Tbody, Th, Thead } from "@/modules/ui/atoms/Table/Table";
+import { ChipDanger, ChipNeutral, ChipSuccess } from "@/modules/ui/atoms/Chip/Chip";
+import {
+  isReplayableWebhookLogEntry,
+  type WebhookLogEntry,
+  type WebhookLogSource,
+} from "@/modules/webhook-log/webhook-log-store";
+
+const sourceLabels: Record<WebhookLogSource, string> = {
+  stripe: "Stripe",
+  saleor: "Saleor",
+  replay: "Replay",
+};
+
+const WebhookLogTableRow = ({
+  entry,
+  onReplay,
+  isReplaying,
+}: {
+  entry: WebhookLogEntry;
+  onReplay: (id: string) => void;
+  isReplaying: boolean;
+}) => {
+  const report = entry.transactionEventReport;
+
+  return (
+    <Tr>
+      <Td>
+        <Text as="p" variant="bodyStrong" size="medium">
+          {new Date(entry.createdAt).toLocaleString()}
+        </Text>
+        <Text as="p" size="small" variant="caption" color="textNeutralSubdued">
+          {sourceLabels[entry.source]} · {entry.durationMs} ms
+        </Text>
+      </Td>
+      <Td>
+        <Text as="p" size="small" variant="caption">
+          {entry.eventType}
+        </Text>
+        {report && (
+          <Text as="p" size="small" variant="caption" color="textNeutralSubdued">
+            {report.type} {report.amount}
+          </Text>
+        )}
+      </Td>
+      <Td>
+        <Text as="p" size="small" variant="caption">
+          {entry.transactionId ?? "–"}
+        </Text>
+        <Text as="p" size="small" variant="caption" color="textNeutralSubdued">
+          {entry.pspReference ?? "–"}
+        </Text>
+      </Td>
+      <Td>
+        <Box display="flex" flexDirection="column" rowGap={1} alignItems="flex-start">
+          {entry.errors.length > 0 ? (
+            <ChipDanger>Failed</ChipDanger>
+          ) : (
+            <ChipSuccess>OK</ChipSuccess>
+          )}
+          {entry.replayOf && <ChipNeutral>Replayed</ChipNeutral>}
+          {entry.errors.map((error, index) => (
+            <Text key={index} as="p" size="small" variant="caption" color="textCriticalDefault">
+              {error}
+            </Text>
+          ))}
+        </Box>
+      </Td>
+      <Td>
+        {isReplayableWebhookLogEntry(entry) && (
+          <Button
+            variant="secondary"
+            size="small"
+            disabled={isReplaying}
+            onClick={() => onReplay(entry.id)}
+          >
+            Replay
+          </Button>
+        )}
+      </Td>
+    </Tr>
+  );
+};
+
+export const WebhookLogTable = ({
+  entries,
+  onReplay,
+  replayingId,
+}: {
+  entries: readonly WebhookLogEntry[];
+  onReplay: (id: string) => void;
+  replayingId?: string;
+}) => {
+  return (
+    <Table>
+      <Thead>
+        <Tr>
+          <Th>Received</Th>
+          <Th>Event</Th>
+          <Th>Transaction / PSP reference</Th>
+          <Th>Result</Th>
+          <Th>Actions</Th>
+        </Tr>
+      </Thead>
+      <Tbody>
+        {entries.map((entry) => (
+          <WebhookLogTableRow
+            key={entry.id}
+            entry={entry}
+            onReplay={onReplay}
+            isReplaying={replayingId === entry.id}
+          />
+        ))}
+      </Tbody>
+    </Table>
+  );
+};
@@ -6,6 +6,7 @@ import { AppLayoutRow } from "../../templates/AppLayout";
 import { FullPageError } from "../../molecules/FullPageError/FullPageError";
 import { AddStripeCredentialsForm } from "./AddStripeCredentialsForm";
 import { DeleteStripeConfigurationForm } from "./DeleteStripeConfigurationForm";
+import { RotateSecretKeyForm } from "./RotateSecretKeyForm";
 import { checkTokenPermissions } from "@/modules/jwt/check-token-offline";
 import { REQUIRED_SALEOR_PERMISSIONS } from "@/modules/jwt/consts";
 import { trpcClient } from "@/modules/trpc/trpc-client";
@@ -13,6 +14,7 @@ import {
   type PaymentAppFormConfigEntry,
   paymentAppFormConfigEntrySchema,
 } from "@/modules/payment-app-configuration/config-entry";
+import { DEFAULT_PAYMENT_INTENT_DATA_ALLOW_LIST } from "@/modules/stripe/payment-intent-data";
 
 export const StripeConfigurationForm = ({
   configurationId,
@@ -30,6 +32,9 @@ export const StripeConfigurationForm = ({
       configurationName: "",
       publishableKey: "",
       secretKey: "",
+      paymentIntentDataAllowList: DEFAULT_PAYMENT_INTENT_DATA_ALLOW_LIST,
+      paymentFlow: "paymentElement",
+      connectChargeType: "destination",
     },
   });
 
@@ -52,6 +57,17 @@ export const StripeConfigurationForm = ({
       <AppLayoutRow title="Stripe Credentials" description="Enter Private API Key from Stripe.">
         <AddStripeCredentialsForm configurationId={configurationId} />
       </AppLayoutRow>
+      {data && configurationId && (
+        <AppLayoutRow
+          title="Secret key rotation"
+          description="Replace the secret key without interrupting payments."
+        >
+          <RotateSecretKeyForm
+            configurationId={configurationId}
+            previousSecretKeyExpiresAt={data.previousSecretKeyExpiresAt}
+          />
+        </AppLayoutRow>
+      )}
       {data && configurationId && (
         <AppLayoutRow error={true} title="Danger zone">
           <DeleteStripeConfigurationForm
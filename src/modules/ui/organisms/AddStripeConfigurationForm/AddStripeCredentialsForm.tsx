@@ -1,27 +1,65 @@
-import { Button, Box } from "@saleor/macaw-ui/next";
+import { Button, Box, Text } from "@saleor/macaw-ui/next";
 import { type SubmitHandler, useFormContext } from "react-hook-form";
 import { useCallback, useEffect } from "react";
-import { useAppBridge } from "@saleor/app-sdk/app-bridge";
+import { actions, useAppBridge } from "@saleor/app-sdk/app-bridge";
 import { useRouter } from "next/router";
 import { RoundedBoxWithFooter } from "../../atoms/RoundedActionBox/RoundedActionBox";
 import { FormInput } from "@/modules/ui/atoms/macaw-ui/FormInput";
+import { FormCheckbox } from "@/modules/ui/atoms/macaw-ui/FormCheckbox";
+import { FormMultiselect } from "@/modules/ui/atoms/macaw-ui/FormMultiselect";
+import { FormSelect } from "@/modules/ui/atoms/macaw-ui/FormSelect";
 import { trpcClient } from "@/modules/trpc/trpc-client";
+import { useConfigVersion } from "@/modules/trpc/use-config-version";
 import { getErrorHandler, getFieldErrorHandler, getFormFields } from "@/modules/trpc/utils";
 import { invariant } from "@/lib/invariant";
 import { type PaymentAppFormConfigEntry } from "@/modules/payment-app-configuration/config-entry";
+import {
+  DEFAULT_PAYMENT_INTENT_DATA_ALLOW_LIST,
+  paymentIntentDataFields,
+} from "@/modules/stripe/payment-intent-data";
+import { type PaymentFlow } from "@/modules/stripe/checkout-session";
+import { type ApplicationFeeType, type ConnectChargeType } from "@/modules/stripe/stripe-connect";
+
+const paymentIntentDataFieldOptions = paymentIntentDataFields.map((field) => ({
+  label: field,
+  value: field,
+}));
+
+const paymentFlowOptions: Array<{ label: string; value: PaymentFlow }> = [
+  { label: "Payment Element", value: "paymentElement" },
+  { label: "Checkout Session", value: "checkoutSession" },
+];
+
+const connectChargeTypeOptions: Array<{ label: string; value: ConnectChargeType }> = [
+  { label: "Destination charges", value: "destination" },
+  { label: "Direct charges", value: "direct" },
+];
+
+const applicationFeeTypeOptions: Array<{ label: string; value: ApplicationFeeType }> = [
+  { label: "Percentage of the payment", value: "percentage" },
+  { label: "Fixed amount", value: "fixed" },
+];
 
 const actionId = "payment-form";
 
+// Stripe Customer ids are kept in user private metadata, the manifest doesn't require this permission
+const SAVE_PAYMENT_METHODS_PERMISSION = "MANAGE_USERS";
+
 export const AddStripeCredentialsForm = ({
   configurationId,
 }: {
   configurationId?: string | undefined | null;
 }) => {
   const formMethods = useFormContext<PaymentAppFormConfigEntry>();
-  const { appBridge } = useAppBridge();
+  const { appBridge, appBridgeState } = useAppBridge();
   const router = useRouter();
+  // Older Dashboards don't send app permissions, so missing permission is only shown when they're known
+  const isMissingSavePaymentMethodsPermission =
+    !!appBridgeState?.appPermissions &&
+    !appBridgeState.appPermissions.includes(SAVE_PAYMENT_METHODS_PERMISSION);
 
   const context = trpcClient.useContext();
+  const { getVersion, refetchVersion } = useConfigVersion();
 
   const {
     handleSubmit,
@@ -49,7 +87,14 @@ export const AddStripeCredentialsForm = ({
 
   useEffect(() => {
     if (stripeConfigurationData) {
-      reset(stripeConfigurationData);
+      reset({
+        ...stripeConfigurationData,
+        paymentIntentDataAllowList:
+          stripeConfigurationData.paymentIntentDataAllowList ??
+          DEFAULT_PAYMENT_INTENT_DATA_ALLOW_LIST,
+        paymentFlow: stripeConfigurationData.paymentFlow ?? "paymentElement",
+        connectChargeType: stripeConfigurationData.connectChargeType ?? "destination",
+      });
     }
   }, [stripeConfigurationData, reset]);
 
@@ -96,6 +141,7 @@ export const AddStripeCredentialsForm = ({
           { configurationId: data.configurationId },
           data,
         );
+        void refetchVersion();
         if (!configurationId) {
           await router.replace(`/configurations/edit/${data.configurationId}`);
         }
@@ -108,8 +154,9 @@ export const AddStripeCredentialsForm = ({
       ? updateConfig({
           configurationId,
           entry: data,
+          version: getVersion(),
         })
-      : addNewConfig(data);
+      : addNewConfig({ entry: data, version: getVersion() });
   };
 
   return (
@@ -141,6 +188,7 @@ export const AddStripeCredentialsForm = ({
           type="password"
           autoComplete="off"
           label="Secret Key"
+          helperText="Secret key, or restricted key with write permissions for PaymentIntents, Refunds and Webhook Endpoints, and read permission for Charges. Customers write permission is also needed to save payment methods, and Checkout Sessions write permission to use Stripe Checkout. Account read permission is needed to rotate the key later."
           name="secretKey"
           size="medium"
         />
@@ -151,6 +199,90 @@ export const AddStripeCredentialsForm = ({
           name="publishableKey"
           size="medium"
         />
+        <FormMultiselect
+          control={control}
+          label="PaymentIntent fields allowed from storefront"
+          helperText="Fields that storefront can set in PaymentIntent using transaction data. Other fields will be rejected."
+          name="paymentIntentDataAllowList"
+          options={paymentIntentDataFieldOptions}
+          size="medium"
+        />
+        <FormSelect
+          control={control}
+          label="Payment flow"
+          helperText="Payment Element confirms PaymentIntent in the storefront, Checkout Session redirects customer to Stripe-hosted page. Storefront can override it with paymentFlow in transaction data."
+          name="paymentFlow"
+          options={paymentFlowOptions}
+          size="medium"
+        />
+        <FormCheckbox
+          control={control}
+          label="Save payment methods of logged-in customers in Stripe Customers"
+          name="savePaymentMethods"
+        />
+        {isMissingSavePaymentMethodsPermission && (
+          <Box display="flex" flexDirection="row" alignItems="center" columnGap={4}>
+            <Text as="p" variant="body" size="medium" color="textCriticalDefault">
+              Payment methods are not saved until the app is granted the MANAGE_USERS permission.
+              It&apos;s needed to keep Stripe Customer ids in Saleor users.
+            </Text>
+            <Button
+              variant="secondary"
+              size="medium"
+              type="button"
+              onClick={() => {
+                void appBridge?.dispatch(
+                  actions.RequestPermissions([SAVE_PAYMENT_METHODS_PERMISSION], router.asPath),
+                );
+              }}
+            >
+              Grant permission
+            </Button>
+          </Box>
+        )}
+        <FormCheckbox
+          control={control}
+          label="Increment card authorizations when charging more than authorized"
+          name="incrementalAuthorization"
+        />
+        <FormCheckbox
+          control={control}
+          label="Capture card authorizations in several parts (multicapture)"
+          name="multicapture"
+        />
+        <FormInput
+          control={control}
+          autoComplete="off"
+          label="Stripe Connect account ID"
+          helperText="Optional. Payments of channels using this configuration will be made for this connected account, e.g. a vendor of your marketplace."
+          name="connectedAccountId"
+          size="medium"
+        />
+        <FormSelect
+          control={control}
+          label="Connect charge type"
+          helperText="Destination charges are created on your platform account and transferred to the connected account. Direct charges are created on the connected account. Direct charges need a configuration created with this option, because their events are sent to a Connect webhook."
+          name="connectChargeType"
+          options={connectChargeTypeOptions}
+          size="medium"
+        />
+        <FormSelect
+          control={control}
+          label="Application fee"
+          helperText="Fee collected by your platform from each payment of the connected account."
+          name="applicationFeeType"
+          options={applicationFeeTypeOptions}
+          size="medium"
+        />
+        <FormInput
+          control={control}
+          type="number"
+          autoComplete="off"
+          label="Application fee value"
+          helperText="Percent of the payment, or amount in the currency of the payment."
+          name="applicationFeeValue"
+          size="medium"
+        />
       </Box>
     </RoundedBoxWithFooter>
   );
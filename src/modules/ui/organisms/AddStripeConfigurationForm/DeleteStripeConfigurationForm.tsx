@@ -4,6 +4,7 @@ import { useAppBridge } from "@saleor/app-sdk/app-bridge";
 import { RoundedBoxWithFooter } from "../../atoms/RoundedActionBox/RoundedActionBox";
 import { ConfirmationButton } from "../../molecules/ConfirmationButton/ConfirmationButton";
 import { trpcClient } from "@/modules/trpc/trpc-client";
+import { useConfigVersion } from "@/modules/trpc/use-config-version";
 import { getErrorHandler } from "@/modules/trpc/utils";
 
 export const DeleteStripeConfigurationForm = ({
@@ -16,6 +17,7 @@ export const DeleteStripeConfigurationForm = ({
   const context = trpcClient.useContext();
   const router = useRouter();
   const { appBridge } = useAppBridge();
+  const { getVersion } = useConfigVersion();
 
   const { mutateAsync: deleteConfig } =
     trpcClient.paymentAppConfigurationRouter.paymentConfig.delete.useMutation({
@@ -33,7 +35,7 @@ export const DeleteStripeConfigurationForm = ({
     if (!configurationId) {
       return;
     }
-    await deleteConfig({ configurationId });
+    await deleteConfig({ configurationId, version: getVersion() });
     await router.replace("/configurations/list");
     await context.paymentAppConfigurationRouter.invalidate();
   };
@@ -0,0 +1,103 @@
+import { Box, Button, Text } from "@saleor/macaw-ui/next";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useAppBridge } from "@saleor/app-sdk/app-bridge";
+import { type SubmitHandler, useForm } from "react-hook-form";
+import { RoundedBoxWithFooter } from "../../atoms/RoundedActionBox/RoundedActionBox";
+import { FormInput } from "@/modules/ui/atoms/macaw-ui/FormInput";
+import { trpcClient } from "@/modules/trpc/trpc-client";
+import { useConfigVersion } from "@/modules/trpc/use-config-version";
+import { getFieldErrorHandler, getFormFields } from "@/modules/trpc/utils";
+import { paymentConfigSecretKeyRotate } from "@/modules/payment-app-configuration/input-schemas";
+
+const rotateSecretKeyFormSchema = paymentConfigSecretKeyRotate.pick({ secretKey: true });
+
+const actionId = "rotate-secret-key-form";
+
+export const RotateSecretKeyForm = ({
+  configurationId,
+  previousSecretKeyExpiresAt,
+}: {
+  configurationId: string;
+  previousSecretKeyExpiresAt: string | null | undefined;
+}) => {
+  const context = trpcClient.useContext();
+  const { appBridge } = useAppBridge();
+  const { getVersion, refetchVersion } = useConfigVersion();
+
+  const {
+    handleSubmit,
+    reset,
+    setError,
+    control,
+    formState: { defaultValues },
+  } = useForm({
+    resolver: zodResolver(rotateSecretKeyFormSchema),
+    defaultValues: { secretKey: "" },
+  });
+
+  const { mutate: rotateSecretKey, isLoading } =
+    trpcClient.paymentAppConfigurationRouter.paymentConfig.rotateSecretKey.useMutation({
+      onSuccess: (data) => {
+        reset();
+        context.paymentAppConfigurationRouter.paymentConfig.get.setData({ configurationId }, data);
+        void refetchVersion();
+        void appBridge?.dispatch({
+          type: "notification",
+          payload: {
+            title: "Secret key rotated",
+            text: "The previous key will keep working until the grace period ends",
+            status: "success",
+            actionId,
+          },
+        });
+      },
+      onError: getFieldErrorHandler({
+        appBridge,
+        setError,
+        actionId,
+        fieldName: "root",
+        formFields: getFormFields(defaultValues),
+      }),
+    });
+
+  const handleRotate: SubmitHandler<{ secretKey: string }> = ({ secretKey }) => {
+    rotateSecretKey({ configurationId, secretKey, version: getVersion() });
+  };
+
+  return (
+    <RoundedBoxWithFooter
+      as="form"
+      method="POST"
+      autoComplete="off"
+      // eslint-disable-next-line @typescript-eslint/no-misused-promises
+      onSubmit={handleSubmit(handleRotate)}
+      footer={
+        <Box display="flex" flexDirection="row" columnGap={4}>
+          <Button variant="primary" size="medium" type="submit" disabled={isLoading}>
+            Rotate secret key
+          </Button>
+        </Box>
+      }
+    >
+      <Box paddingBottom={6} rowGap={4} display="flex" flexDirection="column" width="100%">
+        <Text as="p" variant="body" size="medium">
+          The new key must belong to the same Stripe account. The current key keeps working as a
+          fallback for 24 hours, so you can roll it in Stripe Dashboard afterwards.
+        </Text>
+        {previousSecretKeyExpiresAt && (
+          <Text as="p" variant="body" size="medium">
+            Previous key works until {new Date(previousSecretKeyExpiresAt).toLocaleString()}.
+          </Text>
+        )}
+        <FormInput
+          control={control}
+          type="password"
+          autoComplete="off"
+          label="New Secret Key"
+          name="secretKey"
+          size="medium"
+        />
+      </Box>
+    </RoundedBoxWithFooter>
+  );
+};
@@ -0,0 +1,197 @@
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  Box,
+  Button,
+  PlusIcon,
+  Text,
+  TrashBinIcon,
+} from "@saleor/macaw-ui/next";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useAppBridge } from "@saleor/app-sdk/app-bridge";
+import { useEffect } from "react";
+import { type SubmitHandler, useFieldArray, useForm } from "react-hook-form";
+import { RoundedBoxWithFooter } from "../../atoms/RoundedActionBox/RoundedActionBox";
+import { FormInput } from "@/modules/ui/atoms/macaw-ui/FormInput";
+import { FormSelect } from "@/modules/ui/atoms/macaw-ui/FormSelect";
+import { trpcClient } from "@/modules/trpc/trpc-client";
+import { useConfigVersion } from "@/modules/trpc/use-config-version";
+import { getFieldErrorHandler, getFormFields } from "@/modules/trpc/utils";
+import { channelRulesUpdate } from "@/modules/payment-app-configuration/input-schemas";
+import { type ChannelRuleType } from "@/modules/payment-app-configuration/channel-rules";
+import { type PaymentAppUserVisibleEntries } from "@/modules/payment-app-configuration/app-config";
+
+// Select can't hold null, so an empty string stands for no default configuration
+const channelRulesFormSchema = channelRulesUpdate.extend({ defaultConfigurationId: z.string() });
+type ChannelRulesFormValues = z.infer<typeof channelRulesFormSchema>;
+
+const ruleTypeOptions: Array<{ label: string; value: ChannelRuleType }> = [
+  { label: "Channel slug", value: "slug" },
+  { label: "Currency", value: "currency" },
+];
+
+const actionId = "channel-rules-form";
+
+export const ChannelRulesForm = ({
+  configurations,
+  channelRules,
+  defaultConfigurationId,
+  disabled,
+}: {
+  configurations: PaymentAppUserVisibleEntries;
+  channelRules: ChannelRulesFormValues["channelRules"];
+  defaultConfigurationId: string | null;
+  disabled?: boolean;
+}) => {
+  const context = trpcClient.useContext();
+  const { appBridge } = useAppBridge();
+  const { getVersion, refetchVersion } = useConfigVersion();
+
+  const {
+    handleSubmit,
+    reset,
+    setError,
+    control,
+    formState: { defaultValues },
+  } = useForm<ChannelRulesFormValues>({
+    resolver: zodResolver(channelRulesFormSchema),
+    defaultValues: { channelRules, defaultConfigurationId: defaultConfigurationId ?? "" },
+  });
+  const { fields, append, remove, move } = useFieldArray({ control, name: "channelRules" });
+
+  useEffect(() => {
+    reset({ channelRules, defaultConfigurationId: defaultConfigurationId ?? "" });
+  }, [channelRules, defaultConfigurationId, reset]);
+
+  const { mutate: updateRules, isLoading } =
+    trpcClient.paymentAppConfigurationRouter.mapping.updateRules.useMutation({
+      onSuccess: (data) => {
+        context.paymentAppConfigurationRouter.mapping.getRules.setData(undefined, data);
+        void refetchVersion();
+        void appBridge?.dispatch({
+          type: "notification",
+          payload: { title: "Saved", status: "success", actionId },
+        });
+      },
+      onError: getFieldErrorHandler({
+        appBridge,
+        setError,
+        actionId,
+        fieldName: "root",
+        formFields: getFormFields(defaultValues),
+      }),
+    });
+
+  const handleRulesSave: SubmitHandler<ChannelRulesFormValues> = (data) => {
+    updateRules({
+      channelRules: data.channelRules,
+      defaultConfigurationId: data.defaultConfigurationId || null,
+      version: getVersion(),
+    });
+  };
+
+  const configurationOptions = configurations.map((config) => ({
+    label: config.configurationName,
+    value: config.configurationId,
+  }));
+
+  return (
+    <RoundedBoxWithFooter
+      as="form"
+      method="POST"
+      autoComplete="off"
+      // eslint-disable-next-line @typescript-eslint/no-misused-promises
+      onSubmit={handleSubmit(handleRulesSave)}
+      footer={
+        <Box display="flex" flexDirection="row" columnGap={4}>
+          <Button
+            variant="secondary"
+            size="medium"
+            type="button"
+            disabled={disabled || configurations.length === 0}
+            onClick={() =>
+              append({
+                type: "slug",
+                pattern: "",
+                configurationId: configurations[0].configurationId,
+              })
+            }
+          >
+            <PlusIcon size="small" />
+            Add rule
+          </Button>
+          <Button variant="primary" size="medium" type="submit" disabled={disabled || isLoading}>
+            Save
+          </Button>
+        </Box>
+      }
+    >
+      <Box paddingBottom={6} rowGap={4} display="flex" flexDirection="column" width="100%">
+        <Text as="p" variant="body" size="medium">
+          Channels without configuration assigned use the first matching rule, or the default
+          configuration when no rule matches. Slug patterns support * and ? wildcards.
+        </Text>
+        {fields.map((field, index) => (
+          <Box key={field.id} display="flex" columnGap={2} alignItems="flex-start">
+            <Text variant="bodyStrong" size="medium" paddingTop={3}>
+              {index + 1}.
+            </Text>
+            <FormSelect
+              control={control}
+              label="Match by"
+              name={`channelRules.${index}.type`}
+              options={ruleTypeOptions}
+              size="small"
+            />
+            <FormInput
+              control={control}
+              autoComplete="off"
+              label="Pattern"
+              name={`channelRules.${index}.pattern`}
+              size="small"
+            />
+            <FormSelect
+              control={control}
+              label="Configuration"
+              name={`channelRules.${index}.configurationId`}
+              options={configurationOptions}
+              size="small"
+            />
+            <Button
+              variant="tertiary"
+              size="small"
+              type="button"
+              icon={<ArrowUpIcon />}
+              disabled={index === 0}
+              onClick={() => move(index, index - 1)}
+            />
+            <Button
+              variant="tertiary"
+              size="small"
+              type="button"
+              icon={<ArrowDownIcon />}
+              disabled={index === fields.length - 1}
+              onClick={() => move(index, index + 1)}
+            />
+            <Button
+              variant="tertiary"
+              size="small"
+              type="button"
+              icon={<TrashBinIcon />}
+              onClick={() => remove(index)}
+            />
+          </Box>
+        ))}
+        <FormSelect
+          control={control}
+          label="Default configuration"
+          helperText="Used for channels that don't match any rule."
+          name="defaultConfigurationId"
+          options={[{ label: "(none)", value: "" }, ...configurationOptions]}
+          size="medium"
+        />
+      </Box>
+    </RoundedBoxWithFooter>
+  );
+};
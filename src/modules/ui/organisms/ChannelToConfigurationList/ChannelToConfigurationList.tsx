@@ -7,9 +7,17 @@ import {
   type PaymentAppUserVisibleEntries,
   type ChannelMapping,
 } from "@/modules/payment-app-configuration/app-config";
+import { type ChannelRule } from "@/modules/payment-app-configuration/channel-rules";
+
+type ChannelRulesProps = {
+  channelRules: ChannelRule[];
+  defaultConfigurationId: string | null;
+};
 
 export const ChannelToConfigurationList = ({
   channelMappings,
+  channelRules,
+  defaultConfigurationId,
   configurations,
   channels,
   disabled,
@@ -18,11 +26,13 @@ export const ChannelToConfigurationList = ({
   configurations: PaymentAppUserVisibleEntries;
   channels: readonly Channel[];
   disabled?: boolean;
-}) => {
+} & ChannelRulesProps) => {
   return Object.keys(channelMappings).length > 0 ? (
     <NotEmpty
       disabled={disabled}
       channelMappings={channelMappings}
+      channelRules={channelRules}
+      defaultConfigurationId={defaultConfigurationId}
       configurations={configurations}
       channels={channels}
     />
@@ -33,6 +43,8 @@ export const ChannelToConfigurationList = ({
 
 const NotEmpty = ({
   channelMappings,
+  channelRules,
+  defaultConfigurationId,
   configurations,
   channels,
   disabled,
@@ -41,7 +53,7 @@ const NotEmpty = ({
   configurations: PaymentAppUserVisibleEntries;
   channels: readonly Channel[];
   disabled?: boolean;
-}) => {
+} & ChannelRulesProps) => {
   return (
     <RoundedBox>
       <Box paddingX={6} paddingTop={4} paddingBottom={6} display="flex">
@@ -50,6 +62,8 @@ const NotEmpty = ({
           channels={channels}
           configurations={configurations}
           channelMappings={channelMappings}
+          channelRules={channelRules}
+          defaultConfigurationId={defaultConfigurationId}
         />
       </Box>
     </RoundedBox>
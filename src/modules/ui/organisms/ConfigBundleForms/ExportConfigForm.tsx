@@ -0,0 +1,106 @@
+import { Box, Button, Input, Text } from "@saleor/macaw-ui/next";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useAppBridge } from "@saleor/app-sdk/app-bridge";
+import { type SubmitHandler, useForm } from "react-hook-form";
+import { RoundedBoxWithFooter } from "../../atoms/RoundedActionBox/RoundedActionBox";
+import { FormInput } from "@/modules/ui/atoms/macaw-ui/FormInput";
+import { FormCheckbox } from "@/modules/ui/atoms/macaw-ui/FormCheckbox";
+import { trpcClient } from "@/modules/trpc/trpc-client";
+import { getFieldErrorHandler, getFormFields } from "@/modules/trpc/utils";
+import { type ConfigExport, configExport } from "@/modules/payment-app-configuration/input-schemas";
+
+const actionId = "export-config-form";
+
+const downloadBundle = (bundle: string) => {
+  const url = URL.createObjectURL(new Blob([bundle], { type: "text/plain" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `stripe-configuration-${new Date().toISOString().slice(0, 10)}.txt`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const ExportConfigForm = ({ disabled }: { disabled?: boolean }) => {
+  const { appBridge } = useAppBridge();
+
+  const {
+    handleSubmit,
+    setError,
+    control,
+    formState: { defaultValues },
+  } = useForm<ConfigExport>({
+    resolver: zodResolver(configExport),
+    defaultValues: { includeSecrets: false, passphrase: "" },
+  });
+
+  const {
+    mutate: exportConfig,
+    data,
+    isLoading,
+  } = trpcClient.paymentAppConfigurationRouter.paymentConfig.exportConfig.useMutation({
+    onSuccess: ({ bundle }) => {
+      downloadBundle(bundle);
+      void appBridge?.dispatch({
+        type: "notification",
+        payload: { title: "Configuration exported", status: "success", actionId },
+      });
+    },
+    onError: getFieldErrorHandler({
+      appBridge,
+      setError,
+      actionId,
+      fieldName: "root",
+      formFields: getFormFields(defaultValues),
+    }),
+  });
+
+  const handleExport: SubmitHandler<ConfigExport> = (values) => {
+    exportConfig(values);
+  };
+
+  return (
+    <RoundedBoxWithFooter
+      as="form"
+      method="POST"
+      autoComplete="off"
+      // eslint-disable-next-line @typescript-eslint/no-misused-promises
+      onSubmit={handleSubmit(handleExport)}
+      footer={
+        <Box display="flex" flexDirection="row" columnGap={4}>
+          <Button variant="primary" size="medium" type="submit" disabled={disabled || isLoading}>
+            Export
+          </Button>
+        </Box>
+      }
+    >
+      <Box paddingBottom={6} rowGap={4} display="flex" flexDirection="column" width="100%">
+        <Text as="p" variant="body" size="medium">
+          Exports configurations, channel assignments and rules. The bundle is encrypted with the
+          passphrase, which is needed to import it.
+        </Text>
+        <FormInput
+          control={control}
+          type="password"
+          autoComplete="off"
+          label="Passphrase"
+          name="passphrase"
+          size="medium"
+        />
+        <FormCheckbox
+          control={control}
+          name="includeSecrets"
+          label="Include secret keys. Without them, import only updates configurations with the same names."
+        />
+        {data && (
+          <Input
+            label="Exported bundle"
+            helperText="Copy it if the download didn't start"
+            value={data.bundle}
+            readOnly
+            size="medium"
+          />
+        )}
+      </Box>
+    </RoundedBoxWithFooter>
+  );
+};
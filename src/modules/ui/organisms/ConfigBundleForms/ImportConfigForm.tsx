@@ -0,0 +1,123 @@
+import { Box, Button, Text } from "@saleor/macaw-ui/next";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useAppBridge } from "@saleor/app-sdk/app-bridge";
+import { type SubmitHandler, useForm } from "react-hook-form";
+import { RoundedBoxWithFooter } from "../../atoms/RoundedActionBox/RoundedActionBox";
+import { FormInput } from "@/modules/ui/atoms/macaw-ui/FormInput";
+import { trpcClient } from "@/modules/trpc/trpc-client";
+import { useConfigVersion } from "@/modules/trpc/use-config-version";
+import { getFieldErrorHandler, getFormFields } from "@/modules/trpc/utils";
+import { type ConfigImport, configImport } from "@/modules/payment-app-configuration/input-schemas";
+
+const importConfigFormSchema = configImport.omit({ version: true });
+
+const actionId = "import-config-form";
+
+export const ImportConfigForm = ({ disabled }: { disabled?: boolean }) => {
+  const context = trpcClient.useContext();
+  const { appBridge } = useAppBridge();
+  const { getVersion } = useConfigVersion();
+
+  const {
+    handleSubmit,
+    reset,
+    setError,
+    control,
+    formState: { defaultValues },
+  } = useForm<ConfigImport>({
+    resolver: zodResolver(importConfigFormSchema),
+    defaultValues: { bundle: "", passphrase: "" },
+  });
+
+  const {
+    mutate: importConfig,
+    data,
+    isLoading,
+  } = trpcClient.paymentAppConfigurationRouter.paymentConfig.importConfig.useMutation({
+    onSuccess: (result) => {
+      reset();
+      void context.paymentAppConfigurationRouter.invalidate();
+      const issues = [
+        ...result.skippedConfigurations,
+        ...result.skippedChannels,
+        ...result.environmentWarnings,
+      ];
+      void appBridge?.dispatch({
+        type: "notification",
+        payload: {
+          title: "Configuration imported",
+          text: `Imported ${result.importedConfigurations.length} configurations`,
+          status: issues.length > 0 ? "warning" : "success",
+          actionId,
+        },
+      });
+    },
+    onError: getFieldErrorHandler({
+      appBridge,
+      setError,
+      actionId,
+      fieldName: "root",
+      formFields: getFormFields(defaultValues),
+    }),
+  });
+
+  const handleImport: SubmitHandler<ConfigImport> = (values) => {
+    importConfig({ ...values, version: getVersion() });
+  };
+
+  return (
+    <RoundedBoxWithFooter
+      as="form"
+      method="POST"
+      autoComplete="off"
+      // eslint-disable-next-line @typescript-eslint/no-misused-promises
+      onSubmit={handleSubmit(handleImport)}
+      footer={
+        <Box display="flex" flexDirection="row" columnGap={4}>
+          <Button variant="primary" size="medium" type="submit" disabled={disabled || isLoading}>
+            Import
+          </Button>
+        </Box>
+      }
+    >
+      <Box paddingBottom={6} rowGap={4} display="flex" flexDirection="column" width="100%">
+        <Text as="p" variant="body" size="medium">
+          Keys are validated and Stripe webhooks are updated or created for this app. Configurations
+          are matched by name and channels by slug, channel rules and the default configuration are
+          replaced.
+        </Text>
+        <FormInput
+          control={control}
+          autoComplete="off"
+          label="Bundle"
+          helperText="Contents of the exported file"
+          name="bundle"
+          size="medium"
+        />
+        <FormInput
+          control={control}
+          type="password"
+          autoComplete="off"
+          label="Passphrase"
+          name="passphrase"
+          size="medium"
+        />
+        {data && data.skippedConfigurations.length > 0 && (
+          <Text as="p" variant="body" size="medium" color="textCriticalDefault">
+            Skipped configurations without secret key: {data.skippedConfigurations.join(", ")}
+          </Text>
+        )}
+        {data && data.skippedChannels.length > 0 && (
+          <Text as="p" variant="body" size="medium" color="textCriticalDefault">
+            Skipped channels missing in this Saleor: {data.skippedChannels.join(", ")}
+          </Text>
+        )}
+        {data?.environmentWarnings.map((warning) => (
+          <Text key={warning} as="p" variant="body" size="medium" color="textCriticalDefault">
+            {warning}
+          </Text>
+        ))}
+      </Box>
+    </RoundedBoxWithFooter>
+  );
+};
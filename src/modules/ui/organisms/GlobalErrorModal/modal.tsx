@@ -3,16 +3,25 @@ import { Box, Button, Text } from "@saleor/macaw-ui/next";
 import { modalOverlay, modal } from "../../atoms/modal.css";
 import {
   useErrorModalActions,
+  useErrorModalCanReloadConfig,
   useErrorModalMessage,
   useErrorModalOpen,
   useErrorModalTitle,
 } from "./state";
+import { trpcClient } from "@/modules/trpc/trpc-client";
 
 export const ErrorModal = () => {
   const isOpen = useErrorModalOpen();
   const title = useErrorModalTitle();
   const message = useErrorModalMessage();
+  const canReloadConfig = useErrorModalCanReloadConfig();
   const { closeModal } = useErrorModalActions();
+  const context = trpcClient.useContext();
+
+  const reloadConfig = () => {
+    void context.paymentAppConfigurationRouter.invalidate();
+    closeModal();
+  };
 
   return (
     <AlertDialog.Root open={isOpen}>
@@ -34,6 +43,13 @@ export const ErrorModal = () => {
                 Close
               </Button>
             </AlertDialog.Cancel>
+            {canReloadConfig && (
+              <AlertDialog.Action asChild>
+                <Button type="button" size="large" variant="primary" onClick={reloadConfig}>
+                  Reload configuration
+                </Button>
+              </AlertDialog.Action>
+            )}
           </Box>
         </AlertDialog.Content>
       </AlertDialog.Portal>
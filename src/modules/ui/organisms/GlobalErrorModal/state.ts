@@ -4,6 +4,8 @@ export interface ErrorModalState {
   isOpen: boolean;
   title?: string;
   message: string | null;
+  // Set when the error is fixed by loading the latest configuration
+  canReloadConfig?: boolean;
 
   actions: {
     openModal: ({ message, title }: { message: string; title?: string }) => void;
@@ -19,11 +21,14 @@ export const useErrorModalStore = create<ErrorModalState>((set) => ({
   actions: {
     openModal: ({ message, title }: { message: string; title?: string }) =>
       set(() => ({ isOpen: true, message, title })),
-    closeModal: () => set(() => ({ isOpen: false, message: null, title: undefined })),
+    closeModal: () =>
+      set(() => ({ isOpen: false, message: null, title: undefined, canReloadConfig: undefined })),
   },
 }));
 
 export const useErrorModalOpen = () => useErrorModalStore((state) => state.isOpen);
 export const useErrorModalMessage = () => useErrorModalStore((state) => state.message);
 export const useErrorModalTitle = () => useErrorModalStore((state) => state.title);
+export const useErrorModalCanReloadConfig = () =>
+  useErrorModalStore((state) => state.canReloadConfig);
 export const useErrorModalActions = () => useErrorModalStore((state) => state.actions);
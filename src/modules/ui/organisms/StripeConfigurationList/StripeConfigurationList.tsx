@@ -1,11 +1,16 @@
 import { Box, Button, Text } from "@saleor/macaw-ui/next";
 import Link from "next/link";
+import { useEffect } from "react";
+import { useAppBridge } from "@saleor/app-sdk/app-bridge";
 import {
   RoundedActionBox,
   RoundedBoxWithFooter,
 } from "@/modules/ui/atoms/RoundedActionBox/RoundedActionBox";
 import { ConfigurationsTable } from "@/modules/ui/molecules/ConfigurationsTable/ConfigurationsTable";
 import { type PaymentAppUserVisibleEntries } from "@/modules/payment-app-configuration/app-config";
+import { trpcClient } from "@/modules/trpc/trpc-client";
+import { useConfigVersion } from "@/modules/trpc/use-config-version";
+import { getErrorHandler } from "@/modules/trpc/utils";
 
 export const StripeConfigurationsList = ({
   configurations,
@@ -16,17 +21,68 @@ export const StripeConfigurationsList = ({
 };
 
 const NotEmpty = ({ configurations }: { configurations: PaymentAppUserVisibleEntries }) => {
+  const context = trpcClient.useContext();
+  const { appBridge } = useAppBridge();
+  const { getVersion } = useConfigVersion();
+
+  const {
+    mutate: checkWebhooks,
+    data: webhookHealth,
+    isLoading: isChecking,
+  } = trpcClient.paymentAppConfigurationRouter.paymentConfig.checkWebhooks.useMutation({
+    onError: getErrorHandler({
+      appBridge,
+      actionId: "check-webhooks",
+      message: "Error while checking Stripe webhooks",
+      title: "API Error",
+    }),
+  });
+  const { mutate: repairWebhook, isLoading: isRepairing } =
+    trpcClient.paymentAppConfigurationRouter.paymentConfig.repairWebhook.useMutation({
+      onSuccess: async () => {
+        await context.paymentAppConfigurationRouter.paymentConfig.invalidate();
+        checkWebhooks();
+      },
+      onError: getErrorHandler({
+        appBridge,
+        actionId: "repair-webhook",
+        message: "Error while repairing Stripe webhook",
+        title: "API Error",
+      }),
+    });
+
+  useEffect(() => {
+    checkWebhooks();
+  }, [checkWebhooks]);
+
   return (
     <RoundedBoxWithFooter
       footer={
-        <Link href={"/configurations/add"} passHref legacyBehavior>
-          <Button as="a" size="large" variant="primary">
-            Add new configuration
+        <Box display="flex" flexDirection="row" columnGap={4}>
+          <Button
+            size="large"
+            variant="secondary"
+            disabled={isChecking}
+            onClick={() => checkWebhooks()}
+          >
+            Check webhooks
           </Button>
-        </Link>
+          <Link href={"/configurations/add"} passHref legacyBehavior>
+            <Button as="a" size="large" variant="primary">
+              Add new configuration
+            </Button>
+          </Link>
+        </Box>
       }
     >
-      <ConfigurationsTable configurations={configurations} />
+      <ConfigurationsTable
+        configurations={configurations}
+        webhookHealth={webhookHealth}
+        repairDisabled={isChecking || isRepairing}
+        onWebhookRepair={(configurationId) =>
+          repairWebhook({ configurationId, version: getVersion() })
+        }
+      />
     </RoundedBoxWithFooter>
   );
 };
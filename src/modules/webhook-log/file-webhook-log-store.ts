@@ -0,0 +1,92 @@
+import { open, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { setTimeout } from "node:timers/promises";
+import { z } from "zod";
+import {
+  DEFAULT_WEBHOOK_LOG_LIST_LIMIT,
+  MAX_WEBHOOK_LOG_ENTRIES,
+  type WebhookLogEntry,
+  webhookLogEntrySchema,
+  type WebhookLogStore,
+} from "./webhook-log-store";
+import { createLogger, redactError } from "@/lib/logger";
+import { unpackPromise } from "@/lib/utils";
+
+const webhookLogFileSchema = z.record(z.string(), webhookLogEntrySchema.array());
+
+type WebhookLogFile = z.infer<typeof webhookLogFileSchema>;
+
+const LOCK_RETRY_MS = 10;
+// Lock of a process that crashed while holding it
+const STALE_LOCK_MS = 10_000;
+
+/**
+ * Stores entries in a JSON file, similar to FileAPL.
+ * Not suitable for serverless or multi-instance deployments, use Upstash there
+ */
+export class FileWebhookLogStore implements WebhookLogStore {
+  private fileName: string;
+
+  constructor({ fileName = ".stripe-webhook-log.json" }: { fileName?: string } = {}) {
+    this.fileName = fileName;
+  }
+
+  private async readEntries(): Promise<WebhookLogFile> {
+    const logger = createLogger(
+      { fileName: this.fileName },
+      { msgPrefix: "[FileWebhookLogStore] " },
+    );
+
+    try {
+      const content = await readFile(this.fileName, "utf-8");
+      return webhookLogFileSchema.parse(JSON.parse(content));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn({ err: redactError(err) }, "Couldn't read webhook log file");
+      }
+      return {};
+    }
+  }
+
+  /** Lock file is created exclusively, so entries appended at the same time aren't lost */
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const lockFileName = `${this.fileName}.lock`;
+    for (;;) {
+      const [lockError, handle] = await unpackPromise(open(lockFileName, "wx"));
+      if (handle) {
+        await handle.close();
+        break;
+      }
+      if ((lockError as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw lockError;
+      }
+      const lockStats = await stat(lockFileName).catch(() => null);
+      if (lockStats && Date.now() - lockStats.mtimeMs > STALE_LOCK_MS) {
+        await rm(lockFileName, { force: true });
+      } else {
+        await setTimeout(LOCK_RETRY_MS);
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await rm(lockFileName, { force: true });
+    }
+  }
+
+  async append(saleorApiUrl: string, entry: WebhookLogEntry) {
+    await this.withLock(async () => {
+      const entries = await this.readEntries();
+      entries[saleorApiUrl] = [...(entries[saleorApiUrl] ?? []), entry].slice(
+        -MAX_WEBHOOK_LOG_ENTRIES,
+      );
+
+      await writeFile(this.fileName, JSON.stringify(entries));
+    });
+  }
+
+  async list(saleorApiUrl: string, limit = DEFAULT_WEBHOOK_LOG_LIST_LIMIT) {
+    const entries = await this.readEntries();
+    return (entries[saleorApiUrl] ?? []).slice(-limit).reverse();
+  }
+}
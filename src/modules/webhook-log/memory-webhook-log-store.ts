@@ -0,0 +1,22 @@
+import {
+  DEFAULT_WEBHOOK_LOG_LIST_LIMIT,
+  MAX_WEBHOOK_LOG_ENTRIES,
+  type WebhookLogEntry,
+  type WebhookLogStore,
+} from "./webhook-log-store";
+
+/** Keeps entries only for the lifetime of the process, use it for development and tests */
+export class MemoryWebhookLogStore implements WebhookLogStore {
+  private entries = new Map<string, WebhookLogEntry[]>();
+
+  async append(saleorApiUrl: string, entry: WebhookLogEntry) {
+    this.entries.set(
+      saleorApiUrl,
+      [...(this.entries.get(saleorApiUrl) ?? []), entry].slice(-MAX_WEBHOOK_LOG_ENTRIES),
+    );
+  }
+
+  async list(saleorApiUrl: string, limit = DEFAULT_WEBHOOK_LOG_LIST_LIMIT) {
+    return (this.entries.get(saleorApiUrl) ?? []).slice(-limit).reverse();
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { type Client } from "urql";
+import { processTransactionEventReport } from "../webhooks/stripe-webhook";
+import {
+  replayWebhookLogEntry,
+  WebhookLogEntryNotFoundError,
+  WebhookLogEntryNotReplayableError,
+} from "./webhook-log-replay";
+import { withWebhookLog } from "./webhook-log";
+import { getWebhookLogStore } from "./webhook-log-store-factory";
+import { TransactionEventReportErrorCode, TransactionEventTypeEnum } from "generated/graphql";
+
+vi.mock("../webhooks/stripe-webhook", () => ({
+  processTransactionEventReport: vi.fn(),
+}));
+
+const client = {} as Client;
+
+const transactionEventReport = {
+  transactionId: "VHJhbnNhY3Rpb25JdGVtOjE=",
+  amount: 10,
+  availableActions: [],
+  externalUrl: "https://dashboard.stripe.com/test/payments/pi_1",
+  pspReference: "pi_1",
+  time: "2023-01-01T00:00:00.000Z",
+  type: TransactionEventTypeEnum.ChargeSuccess,
+};
+
+const logStripeWebhook = async (saleorApiUrl: string, errors: string[]) => {
+  await withWebhookLog(
+    { saleorApiUrl, source: "stripe", eventType: "payment_intent.succeeded", payload: {} },
+    async (draft) => {
+      draft.transactionEventReport = transactionEventReport;
+      draft.errors = errors;
+    },
+  );
+  const [entry] = await getWebhookLogStore().list(saleorApiUrl);
+  return entry;
+};
+
+describe("replayWebhookLogEntry", () => {
+  beforeEach(() => {
+    vi.mocked(processTransactionEventReport).mockReset();
+  });
+
+  it("sends the report again and stores the result as a new entry", async () => {
+    const saleorApiUrl = "https://replay.localhost:8080/graphql/";
+    const entry = await logStripeWebhook(saleorApiUrl, ["Transaction not found"]);
+    vi.mocked(processTransactionEventReport).mockResolvedValue({
+      data: { transactionEventReport: { alreadyProcessed: false, errors: [] } },
+      errors: [],
+    });
+
+    await expect(replayWebhookLogEntry({ client, saleorApiUrl, id: entry.id })).resolves.toEqual({
+      errors: [],
+    });
+
+    expect(processTransactionEventReport).toHaveBeenCalledWith({ client, transactionEventReport });
+    const [replayEntry] = await getWebhookLogStore().list(saleorApiUrl);
+    expect(replayEntry).toMatchObject({
+      source: "replay",
+      replayOf: entry.id,
+      transactionEventReport,
+      errors: [],
+    });
+  });
+
+  it("returns errors when Saleor rejects the report again", async () => {
+    const saleorApiUrl = "https://replay-failed.localhost:8080/graphql/";
+    const entry = await logStripeWebhook(saleorApiUrl, ["Transaction not found"]);
+    vi.mocked(processTransactionEventReport).mockResolvedValue({
+      data: undefined,
+      errors: [
+        { code: TransactionEventReportErrorCode.NotFound, message: "Transaction not found" },
+      ],
+    });
+
+    await expect(replayWebhookLogEntry({ client, saleorApiUrl, id: entry.id })).resolves.toEqual({
+      errors: ["Transaction not found"],
+    });
+  });
+
+  it("throws for missing and successful entries", async () => {
+    const saleorApiUrl = "https://replay-invalid.localhost:8080/graphql/";
+    const entry = await logStripeWebhook(saleorApiUrl, []);
+
+    await expect(replayWebhookLogEntry({ client, saleorApiUrl, id: "missing" })).rejects.toThrow(
+      WebhookLogEntryNotFoundError,
+    );
+    await expect(replayWebhookLogEntry({ client, saleorApiUrl, id: entry.id })).rejects.toThrow(
+      WebhookLogEntryNotReplayableError,
+    );
+    expect(processTransactionEventReport).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,65 @@
+import { type Client } from "urql";
+import { processTransactionEventReport } from "../webhooks/stripe-webhook";
+import { getWebhookLogEntry, withWebhookLog } from "./webhook-log";
+import { isReplayableWebhookLogEntry } from "./webhook-log-store";
+import { BaseTrpcError, type TrpcErrorOptions } from "@/errors";
+import { createLogger } from "@/lib/logger";
+
+export const WebhookLogEntryNotFoundError = BaseTrpcError.subclass("WebhookLogEntryNotFoundError", {
+  props: { trpcCode: "NOT_FOUND" } as TrpcErrorOptions,
+});
+export const WebhookLogEntryNotReplayableError = BaseTrpcError.subclass(
+  "WebhookLogEntryNotReplayableError",
+  { props: { trpcCode: "BAD_REQUEST" } as TrpcErrorOptions },
+);
+
+/**
+ * Sends failed `TransactionEventReport` from the entry to Saleor again.
+ * Result is stored as a new entry that points to the replayed one
+ */
+export const replayWebhookLogEntry = async ({
+  client,
+  saleorApiUrl,
+  id,
+}: {
+  client: Client;
+  saleorApiUrl: string;
+  id: string;
+}) => {
+  const logger = createLogger({ saleorApiUrl, id }, { msgPrefix: "[replayWebhookLogEntry] " });
+
+  const entry = await getWebhookLogEntry(saleorApiUrl, id);
+  if (!entry) {
+    throw new WebhookLogEntryNotFoundError("Webhook log entry was not found");
+  }
+  const { transactionEventReport } = entry;
+  if (!transactionEventReport || !isReplayableWebhookLogEntry(entry)) {
+    throw new WebhookLogEntryNotReplayableError(
+      "Only failed entries with a transaction event report can be replayed",
+    );
+  }
+
+  return withWebhookLog(
+    {
+      saleorApiUrl,
+      source: "replay",
+      eventType: entry.eventType,
+      payload: null,
+      transactionId: entry.transactionId,
+      pspReference: entry.pspReference,
+      replayOf: entry.id,
+    },
+    async (draft) => {
+      draft.transactionEventReport = transactionEventReport;
+      const { data, errors } = await processTransactionEventReport({
+        client,
+        transactionEventReport,
+      });
+      draft.response = data;
+      draft.errors = errors.map((err) => err.message ?? "Unknown error");
+
+      logger.info({ errors: draft.errors.length }, "Transaction event report replayed");
+      return { errors: draft.errors };
+    },
+  );
+};
@@ -0,0 +1,44 @@
+import { type WebhookLogStore } from "./webhook-log-store";
+import { MemoryWebhookLogStore } from "./memory-webhook-log-store";
+import { FileWebhookLogStore } from "./file-webhook-log-store";
+import { UpstashWebhookLogStore } from "./upstash-webhook-log-store";
+import { env } from "@/lib/env.mjs";
+import { invariant } from "@/lib/invariant";
+import { isTest } from "@/lib/isEnv";
+
+/**
+ * Store is picked the same way as APL in `saleor-app.ts`.
+ * Set `WEBHOOK_LOG_STORE` to use a different backend than APL
+ */
+const createWebhookLogStore = (): WebhookLogStore => {
+  if (isTest()) {
+    return new MemoryWebhookLogStore();
+  }
+
+  const storeType = env.WEBHOOK_LOG_STORE ?? (env.APL === "upstash" ? "upstash" : "file");
+
+  /* c8 ignore start */
+  switch (storeType) {
+    case "upstash":
+      invariant(env.UPSTASH_URL, "Missing UPSTASH_URL env variable!");
+      invariant(env.UPSTASH_TOKEN, "Missing UPSTASH_TOKEN env variable!");
+      return new UpstashWebhookLogStore({
+        restURL: env.UPSTASH_URL,
+        restToken: env.UPSTASH_TOKEN,
+      });
+    case "memory":
+      return new MemoryWebhookLogStore();
+    case "file":
+      return new FileWebhookLogStore();
+  }
+  /* c8 ignore stop */
+};
+
+let webhookLogStore: WebhookLogStore | undefined;
+
+export const getWebhookLogStore = () => {
+  if (!webhookLogStore) {
+    webhookLogStore = createWebhookLogStore();
+  }
+  return webhookLogStore;
+};
@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { TransactionActionEnum, TransactionEventTypeEnum } from "generated/graphql";
+
+/**
+ * - `stripe` - Stripe webhook
+ * - `saleor` - Saleor sync webhook
+ * - `replay` - failed `TransactionEventReport` sent again from the dashboard
+ */
+export const webhookLogSourceSchema = z.enum(["stripe", "saleor", "replay"]);
+
+// Same as TransactionEventReportMutationVariables, stored to be able to replay it
+export const transactionEventReportSchema = z.object({
+  transactionId: z.string().min(1),
+  amount: z.number(),
+  availableActions: z.nativeEnum(TransactionActionEnum).array().nullish(),
+  externalUrl: z.string(),
+  message: z.string().nullish(),
+  pspReference: z.string(),
+  time: z.string(),
+  type: z.nativeEnum(TransactionEventTypeEnum),
+});
+
+export const webhookLogEntrySchema = z.object({
+  id: z.string().min(1),
+  createdAt: z.string().datetime(),
+  source: webhookLogSourceSchema,
+  // Stripe event type or name of the Saleor webhook
+  eventType: z.string(),
+  transactionId: z.string().nullable(),
+  // PaymentIntent id for most of the entries
+  pspReference: z.string().nullable(),
+  // Secrets and personal data are redacted before the payload is stored
+  payload: z.unknown(),
+  transactionEventReport: transactionEventReportSchema.nullable(),
+  response: z.unknown(),
+  errors: z.string().array(),
+  durationMs: z.number().nonnegative(),
+  replayOf: z.string().nullable(),
+});
+
+export type WebhookLogSource = z.infer<typeof webhookLogSourceSchema>;
+export type TransactionEventReport = z.infer<typeof transactionEventReportSchema>;
+export type WebhookLogEntry = z.infer<typeof webhookLogEntrySchema>;
+
+export const isReplayableWebhookLogEntry = (entry: WebhookLogEntry) =>
+  !!entry.transactionEventReport && entry.errors.length > 0;
+
+/**
+ * Log of webhooks handled for given Saleor instance, only the newest entries are kept.
+ * `list` returns the newest entries first
+ */
+export interface WebhookLogStore {
+  append(saleorApiUrl: string, entry: WebhookLogEntry): Promise<void>;
+  list(saleorApiUrl: string, limit?: number): Promise<WebhookLogEntry[]>;
+}
+
+export const MAX_WEBHOOK_LOG_ENTRIES = 500;
+export const DEFAULT_WEBHOOK_LOG_LIST_LIMIT = 100;
@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { protectedClientProcedure } from "../trpc/protected-client-procedure";
+import { router } from "../trpc/trpc-server";
+import {
+  DEFAULT_WEBHOOK_LOG_LIST_LIMIT,
+  MAX_WEBHOOK_LOG_ENTRIES,
+  webhookLogEntrySchema,
+} from "./webhook-log-store";
+import { listWebhookLogEntries } from "./webhook-log";
+import { replayWebhookLogEntry } from "./webhook-log-replay";
+
+export const webhookLogRouter = router({
+  list: protectedClientProcedure
+    .input(
+      z
+        .object({
+          // Saleor transaction id or PaymentIntent id
+          query: z.string().trim().optional(),
+          failedOnly: z.boolean().optional(),
+          limit: z.number().int().positive().max(MAX_WEBHOOK_LOG_ENTRIES),
+        })
+        .default({ limit: DEFAULT_WEBHOOK_LOG_LIST_LIMIT }),
+    )
+    .output(webhookLogEntrySchema.array())
+    .query(async ({ input, ctx }) => {
+      ctx.logger.info(
+        { query: input.query, failedOnly: input.failedOnly, limit: input.limit },
+        "webhookLogRouter.list called",
+      );
+      return listWebhookLogEntries(ctx.saleorApiUrl, input);
+    }),
+  replay: protectedClientProcedure
+    .input(z.object({ id: z.string().min(1) }))
+    .output(z.object({ errors: z.string().array() }))
+    .mutation(async ({ input, ctx }) => {
+      ctx.logger.info({ id: input.id }, "webhookLogRouter.replay called");
+      return replayWebhookLogEntry({
+        client: ctx.apiClient,
+        saleorApiUrl: ctx.saleorApiUrl,
+        id: input.id,
+      });
+    }),
+});
@@ -0,0 +1,225 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, it, expect, afterEach, beforeEach } from "vitest";
+import { listWebhookLogEntries, redactWebhookPayload, withWebhookLog } from "./webhook-log";
+import { getWebhookLogStore } from "./webhook-log-store-factory";
+import { FileWebhookLogStore } from "./file-webhook-log-store";
+import { type WebhookLogEntry } from "./webhook-log-store";
+import { TransactionEventTypeEnum } from "generated/graphql";
+
+const transactionEventReport = {
+  transactionId: "VHJhbnNhY3Rpb25JdGVtOjE=",
+  amount: 10,
+  availableActions: [],
+  externalUrl: "https://dashboard.stripe.com/test/payments/pi_1",
+  pspReference: "pi_1",
+  time: "2023-01-01T00:00:00.000Z",
+  type: TransactionEventTypeEnum.ChargeSuccess,
+};
+
+describe("redactWebhookPayload", () => {
+  it("redacts secrets and personal data in nested objects and arrays", () => {
+    expect(
+      redactWebhookPayload({
+        id: "evt_1",
+        data: {
+          object: {
+            id: "pi_1",
+            client_secret: "pi_1_secret_abcdefgh",
+            receipt_email: null,
+            charges: [{ billing_details: { name: "John Doe" }, amount: 1000 }],
+          },
+        },
+      }),
+    ).toEqual({
+      id: "evt_1",
+      data: {
+        object: {
+          id: "pi_1",
+          client_secret: expect.not.stringContaining("pi_1_secret_abcdefgh") as string,
+          receipt_email: null,
+          charges: [
+            { billing_details: expect.not.objectContaining({ name: "John Doe" }), amount: 1000 },
+          ],
+        },
+      },
+    });
+  });
+
+  it("redacts Customer ephemeral key and app config of TRANSACTION_INITIALIZE_SESSION", () => {
+    expect(
+      redactWebhookPayload({
+        recipient: {
+          id: "app-id",
+          privateMetadata: [{ key: "payment-app-config-private", value: "encrypted-config" }],
+        },
+        response: {
+          pspReference: "pi_1",
+          data: {
+            paymentIntent: { client_secret: "pi_1_secret_abcdefgh" },
+            publishableKey: "pk_test_1",
+            customer: { id: "cus_1", ephemeralKey: "ek_test_abcdefgh" },
+          },
+        },
+      }),
+    ).toEqual({
+      recipient: { id: "app-id", privateMetadata: "[REDACTED]" },
+      response: {
+        pspReference: "pi_1",
+        data: {
+          paymentIntent: {
+            client_secret: expect.not.stringContaining("pi_1_secret_abcdefgh") as string,
+          },
+          publishableKey: "pk_test_1",
+          customer: {
+            id: "cus_1",
+            ephemeralKey: expect.not.stringContaining("ek_test_abcdefgh") as string,
+          },
+        },
+      },
+    });
+  });
+});
+
+describe("withWebhookLog", () => {
+  it("stores entry with the report, response and timing", async () => {
+    const saleorApiUrl = "https://success.localhost:8080/graphql/";
+
+    const result = await withWebhookLog(
+      { saleorApiUrl, source: "stripe", eventType: "payment_intent.succeeded", payload: {} },
+      async (draft) => {
+        draft.transactionId = transactionEventReport.transactionId;
+        draft.pspReference = transactionEventReport.pspReference;
+        draft.transactionEventReport = transactionEventReport;
+        draft.response = { ok: true };
+        return "result";
+      },
+    );
+
+    expect(result).toBe("result");
+    const [entry] = await getWebhookLogStore().list(saleorApiUrl);
+    expect(entry).toMatchObject({
+      source: "stripe",
+      eventType: "payment_intent.succeeded",
+      transactionId: transactionEventReport.transactionId,
+      pspReference: "pi_1",
+      transactionEventReport,
+      response: { ok: true },
+      errors: [],
+      replayOf: null,
+    });
+    expect(entry.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("stores error of the handler and rethrows it", async () => {
+    const saleorApiUrl = "https://thrown.localhost:8080/graphql/";
+
+    await expect(
+      withWebhookLog(
+        { saleorApiUrl, source: "saleor", eventType: "TransactionInitializeSession", payload: {} },
+        async () => {
+          throw new Error("Stripe is down");
+        },
+      ),
+    ).rejects.toThrow("Stripe is down");
+
+    const [entry] = await getWebhookLogStore().list(saleorApiUrl);
+    expect(entry.errors).toEqual(["Stripe is down"]);
+  });
+
+  it("keeps errors set by the handler", async () => {
+    const saleorApiUrl = "https://saleor-errors.localhost:8080/graphql/";
+
+    await expect(
+      withWebhookLog(
+        { saleorApiUrl, source: "stripe", eventType: "charge.refunded", payload: {} },
+        async (draft) => {
+          draft.errors = ["Transaction not found"];
+          throw new Error("Unexpected response");
+        },
+      ),
+    ).rejects.toThrow();
+
+    const [entry] = await getWebhookLogStore().list(saleorApiUrl);
+    expect(entry.errors).toEqual(["Transaction not found"]);
+  });
+});
+
+describe("listWebhookLogEntries", () => {
+  it("filters entries by transaction id or PaymentIntent id, and by failure", async () => {
+    const saleorApiUrl = "https://filter.localhost:8080/graphql/";
+    const log = (pspReference: string, errors: string[]) =>
+      withWebhookLog(
+        {
+          saleorApiUrl,
+          source: "stripe",
+          eventType: "payment_intent.succeeded",
+          payload: {},
+          transactionId: `transaction-${pspReference}`,
+          pspReference,
+        },
+        async (draft) => {
+          draft.errors = errors;
+        },
+      );
+    await log("pi_1", []);
+    await log("pi_2", ["Transaction not found"]);
+    await log("pi_3", []);
+
+    const byPspReference = await listWebhookLogEntries(saleorApiUrl, { query: "PI_2", limit: 10 });
+    expect(byPspReference.map((entry) => entry.pspReference)).toEqual(["pi_2"]);
+
+    const byTransactionId = await listWebhookLogEntries(saleorApiUrl, {
+      query: "transaction-pi_3",
+      limit: 10,
+    });
+    expect(byTransactionId.map((entry) => entry.pspReference)).toEqual(["pi_3"]);
+
+    const failed = await listWebhookLogEntries(saleorApiUrl, { failedOnly: true, limit: 10 });
+    expect(failed.map((entry) => entry.pspReference)).toEqual(["pi_2"]);
+
+    const newest = await listWebhookLogEntries(saleorApiUrl, { limit: 2 });
+    expect(newest.map((entry) => entry.pspReference)).toEqual(["pi_3", "pi_2"]);
+  });
+});
+
+describe("FileWebhookLogStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "webhook-log-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps entries appended at the same time by several store instances", async () => {
+    const fileName = path.join(dir, "webhook-log.json");
+    const saleorApiUrl = "https://file.localhost:8080/graphql/";
+    const createEntry = (id: string): WebhookLogEntry => ({
+      id,
+      createdAt: "2023-01-01T00:00:00.000Z",
+      source: "stripe",
+      eventType: "payment_intent.succeeded",
+      transactionId: null,
+      pspReference: null,
+      payload: {},
+      transactionEventReport: null,
+      response: null,
+      errors: [],
+      durationMs: 0,
+      replayOf: null,
+    });
+
+    await Promise.all(
+      ["1", "2", "3"].map((id) =>
+        new FileWebhookLogStore({ fileName }).append(saleorApiUrl, createEntry(id)),
+      ),
+    );
+
+    const entries = await new FileWebhookLogStore({ fileName }).list(saleorApiUrl);
+    expect(entries.map((entry) => entry.id).sort()).toEqual(["1", "2", "3"]);
+  });
+});
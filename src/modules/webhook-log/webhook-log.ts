@@ -0,0 +1,133 @@
+import { uuidv7 } from "uuidv7";
+import {
+  MAX_WEBHOOK_LOG_ENTRIES,
+  type WebhookLogEntry,
+  type WebhookLogSource,
+} from "./webhook-log-store";
+import { getWebhookLogStore } from "./webhook-log-store-factory";
+import { createLogger, redactError, redactLogValue } from "@/lib/logger";
+import { isObject } from "@/lib/utils";
+
+// Secrets, e.g. PaymentIntent `client_secret` or Customer `ephemeralKey`, app config kept in
+// `privateMetadata`, and personal data of the customer
+const SENSITIVE_KEY_PATTERN =
+  /secret|token|password|ephemeral_?key|metadata|email|phone|address|billing_details|shipping|first_?name|last_?name/i;
+
+export const redactWebhookPayload = (payload: unknown): unknown => {
+  if (Array.isArray(payload)) {
+    return payload.map(redactWebhookPayload);
+  }
+  if (!isObject(payload)) {
+    return payload;
+  }
+
+  return Object.fromEntries(
+    Object.entries(payload).map(([key, value]) => [
+      key,
+      SENSITIVE_KEY_PATTERN.test(key) && value !== null
+        ? redactLogValue(value)
+        : redactWebhookPayload(value),
+    ]),
+  );
+};
+
+/** Fields of the entry set by the webhook handler while it runs */
+export type WebhookLogDraft = Pick<
+  WebhookLogEntry,
+  "transactionId" | "pspReference" | "transactionEventReport" | "response" | "errors"
+>;
+
+/**
+ * Runs the webhook handler and stores the entry once it finishes, also when it throws.
+ * Handler fills in the draft with what it finds out on the way.
+ * Errors of the store are only logged, so they never fail the webhook
+ */
+export const withWebhookLog = async <T>(
+  {
+    saleorApiUrl,
+    source,
+    eventType,
+    payload,
+    transactionId = null,
+    pspReference = null,
+    replayOf = null,
+  }: {
+    saleorApiUrl: string;
+    source: WebhookLogSource;
+    eventType: string;
+    payload: unknown;
+    transactionId?: string | null;
+    pspReference?: string | null;
+    replayOf?: string | null;
+  },
+  handle: (draft: WebhookLogDraft) => Promise<T>,
+): Promise<T> => {
+  const logger = createLogger(
+    { saleorApiUrl, source, eventType },
+    { msgPrefix: "[withWebhookLog] " },
+  );
+  const startedAt = Date.now();
+  const draft: WebhookLogDraft = {
+    transactionId,
+    pspReference,
+    transactionEventReport: null,
+    response: null,
+    errors: [],
+  };
+
+  try {
+    return await handle(draft);
+  } catch (err) {
+    // Handler may have already added more detailed errors, e.g. from Saleor response
+    if (draft.errors.length === 0) {
+      draft.errors.push(err instanceof Error ? err.message : String(err));
+    }
+    throw err;
+  } finally {
+    const entry: WebhookLogEntry = {
+      id: uuidv7(),
+      createdAt: new Date(startedAt).toISOString(),
+      source,
+      eventType,
+      payload: redactWebhookPayload(payload),
+      durationMs: Date.now() - startedAt,
+      replayOf,
+      ...draft,
+      response: redactWebhookPayload(draft.response),
+    };
+
+    try {
+      await getWebhookLogStore().append(saleorApiUrl, entry);
+      logger.debug({ id: entry.id, errors: entry.errors.length }, "Webhook log entry saved");
+    } catch (err) {
+      logger.error({ err: redactError(err) }, "Couldn't save webhook log entry");
+    }
+  }
+};
+
+/** Matches transaction id, or PaymentIntent id and other PSP references */
+const matchesWebhookLogQuery = (entry: WebhookLogEntry, query: string) =>
+  [entry.transactionId, entry.pspReference, entry.transactionEventReport?.pspReference].some(
+    (value) => value?.toLowerCase().includes(query.toLowerCase()),
+  );
+
+export const listWebhookLogEntries = async (
+  saleorApiUrl: string,
+  { query, failedOnly, limit }: { query?: string; failedOnly?: boolean; limit: number },
+) => {
+  const entries = await getWebhookLogStore().list(
+    saleorApiUrl,
+    // All kept entries are searched when the list is filtered
+    query || failedOnly ? MAX_WEBHOOK_LOG_ENTRIES : limit,
+  );
+
+  return entries
+    .filter((entry) => !query || matchesWebhookLogQuery(entry, query))
+    .filter((entry) => !failedOnly || entry.errors.length > 0)
+    .slice(0, limit);
+};
+
+export const getWebhookLogEntry = async (saleorApiUrl: string, id: string) => {
+  const entries = await getWebhookLogStore().list(saleorApiUrl, MAX_WEBHOOK_LOG_ENTRIES);
+  return entries.find((entry) => entry.id === id) ?? null;
+};
@@ -9,6 +9,7 @@ import {
   type TransactionInitializeSessionEventFragment,
   type TransactionChargeRequestedEventFragment,
   TransactionActionEnum,
+  TransactionEventTypeEnum,
   type OrderOrCheckoutLines_Order_Fragment,
   type TransactionRefundRequestedEventFragment,
   type TransactionCancelationRequestedEventFragment,
@@ -16,9 +17,21 @@ import {
   type OrderOrCheckoutSourceObject_Order_Fragment,
   type OrderLine,
   type TransactionProcessSessionEventFragment,
+  type ListStoredPaymentMethodsEventFragment,
+  type StoredPaymentMethodDeleteRequestedEventFragment,
+  type PaymentGatewayInitializeTokenizationSessionEventFragment,
+  type PaymentMethodInitializeTokenizationSessionEventFragment,
+  type PaymentMethodProcessTokenizationSessionEventFragment,
+  PermissionEnum,
+  TokenizedPaymentFlowEnum,
 } from "generated/graphql";
 import { type JSONValue } from "@/types";
-import { getFilledMetadata } from "@/modules/payment-app-configuration/__tests__/utils";
+import {
+  filledFakeMatadataConfig,
+  getFilledMetadata,
+} from "@/modules/payment-app-configuration/__tests__/utils";
+import { getFakePaymentAppConfigurator } from "@/modules/payment-app-configuration/__tests__/payment-app-configuration-factory";
+import { testEnv } from "@/__tests__/test-env.mjs";
 
 type DeepPartial<T> = T extends object
   ? {
@@ -54,7 +67,7 @@ export const createMockPaymentGatewayInitializeSessionEvent: CreateMockAsyncFn<
         __typename: "Checkout",
         id: "c29tZS1jaGVja291dC1pZA==",
         languageCode: LanguageCodeEnum.PlPl,
-        channel: { id: "1", slug: "default-channel" },
+        channel: { id: "1", slug: "default-channel", currencyCode: "PLN" },
         total: {
           gross: {
             amount: 123.45,
@@ -86,10 +99,12 @@ export const createMockTransactionChargeRequestedEvent: CreateMockAsyncFn<
         amount: 99.99 + 123.0, // gross delivery cost
         actionType: TransactionActionEnum.Charge,
       },
+      issuedAt: new Date().toISOString(),
       transaction: {
         __typename: "TransactionItem",
         id: "555555",
         pspReference: "",
+        events: [{ id: "VHJhbnNhY3Rpb25FdmVudDox", type: TransactionEventTypeEnum.ChargeRequest }],
         authorizedAmount: {
           __typename: "Money",
           currency: "PLN",
@@ -97,7 +112,7 @@ export const createMockTransactionChargeRequestedEvent: CreateMockAsyncFn<
         },
         sourceObject: {
           __typename: "Order",
-          channel: { id: "1", slug: "default-channel" },
+          channel: { id: "1", slug: "default-channel", currencyCode: "PLN" },
           deliveryMethod: {
             __typename: "ShippingMethod",
             id: "some-shipping-id",
@@ -149,9 +164,10 @@ export const createMockTransactionRefundRequestedEvent: CreateMockAsyncFn<
         __typename: "TransactionItem",
         id: "55555",
         pspReference: "",
+        events: [{ id: "VHJhbnNhY3Rpb25FdmVudDox", type: TransactionEventTypeEnum.RefundRequest }],
         sourceObject: {
           __typename: "Order",
-          channel: { id: "1", slug: "default-channel" },
+          channel: { id: "1", slug: "default-channel", currencyCode: "PLN" },
           deliveryMethod: {
             __typename: "ShippingMethod",
             id: "some-shipping-id",
@@ -199,12 +215,14 @@ export const createMockTransactionCancelationRequestedEvent: CreateMockAsyncFn<
         amount: 99.99 + 123.0,
         actionType: TransactionActionEnum.Cancel,
       },
+      issuedAt: new Date().toISOString(),
       transaction: {
         __typename: "TransactionItem",
         id: "555555",
         pspReference: "",
+        events: [{ id: "VHJhbnNhY3Rpb25FdmVudDox", type: TransactionEventTypeEnum.CancelRequest }],
         sourceObject: {
-          channel: { id: "1", slug: "default-channel" },
+          channel: { id: "1", slug: "default-channel", currencyCode: "PLN" },
         },
       },
     } as const,
@@ -286,7 +304,7 @@ export const createMockTransactionInitializeSessionSourceObjectCheckout: CreateM
     {
       __typename: "Checkout",
       id: "c29tZS1jaGVja291dC1pZA==",
-      channel: { id: "1", slug: "default-channel" },
+      channel: { id: "1", slug: "default-channel", currencyCode: "PLN" },
       languageCode: LanguageCodeEnum.PlPl,
       total: {
         gross: {
@@ -344,6 +362,7 @@ export const createMockTransactionInitializeSessionSourceObjectCheckout: CreateM
         companyName: "",
       },
       userEmail: "test@saleor.io",
+      user: null,
       lines: [createMockCheckoutLine(overrides?.lines?.[0] as CheckoutLine | undefined)],
     },
     overrides,
@@ -357,7 +376,7 @@ export const createMockTransactionInitializeSessionSourceObjectOrder: CreateMock
     {
       __typename: "Order",
       id: "c29tZS1jaGVja291dC1pZA==",
-      channel: { id: "1", slug: "default-channel" },
+      channel: { id: "1", slug: "default-channel", currencyCode: "PLN" },
       languageCodeEnum: LanguageCodeEnum.PlPl,
       total: {
         gross: {
@@ -415,6 +434,7 @@ export const createMockTransactionInitializeSessionSourceObjectOrder: CreateMock
         companyName: "",
       },
       userEmail: "test@saleor.io",
+      user: null,
       lines: [createMockOrderLine(overrides?.lines?.[0] as OrderLine | undefined)],
     },
     overrides,
@@ -435,7 +455,7 @@ export const createMockTransactionInitializeSessionEvent: CreateMockAsyncFn<
       },
       merchantReference: "123123123",
       sourceObject: createMockTransactionInitializeSessionSourceObjectCheckout(),
-      recipient: await createMockApp(overrides?.recipient),
+      recipient: { ...(await createMockApp()), permissions: [] },
       transaction: {
         __typename: "TransactionItem",
         id: "555555",
@@ -487,3 +507,62 @@ export const createMockStripeDataActionNotRequired = () => {
     },
   };
 };
+
+/** App allowed to save payment methods, with saving enabled in the configuration */
+export const createMockStoredPaymentMethodsApp = async () => ({
+  ...(await createMockApp()),
+  privateMetadata: await getFakePaymentAppConfigurator(
+    {
+      ...filledFakeMatadataConfig,
+      configurations: filledFakeMatadataConfig.configurations.map((entry) => ({
+        ...entry,
+        savePaymentMethods: true,
+      })),
+    },
+    testEnv.TEST_SALEOR_API_URL,
+  ).getRawConfig(),
+  permissions: [{ code: PermissionEnum.ManageUsers }],
+});
+
+const createMockStoredPaymentMethodsEventBase = async () =>
+  ({
+    recipient: await createMockStoredPaymentMethodsApp(),
+    user: { id: "VXNlcjox", email: "customer@example.com" },
+    channel: { id: "1", slug: "default-channel", currencyCode: "PLN" },
+  }) as const;
+
+export const createMockListStoredPaymentMethodsEvent =
+  async (): Promise<ListStoredPaymentMethodsEventFragment> => ({
+    __typename: "ListStoredPaymentMethods",
+    ...(await createMockStoredPaymentMethodsEventBase()),
+  });
+
+export const createMockStoredPaymentMethodDeleteRequestedEvent =
+  async (): Promise<StoredPaymentMethodDeleteRequestedEventFragment> => ({
+    __typename: "StoredPaymentMethodDeleteRequested",
+    ...(await createMockStoredPaymentMethodsEventBase()),
+    paymentMethodId: "pm_1",
+  });
+
+export const createMockPaymentGatewayInitializeTokenizationSessionEvent =
+  async (): Promise<PaymentGatewayInitializeTokenizationSessionEventFragment> => ({
+    __typename: "PaymentGatewayInitializeTokenizationSession",
+    ...(await createMockStoredPaymentMethodsEventBase()),
+    data: null,
+  });
+
+export const createMockPaymentMethodInitializeTokenizationSessionEvent =
+  async (): Promise<PaymentMethodInitializeTokenizationSessionEventFragment> => ({
+    __typename: "PaymentMethodInitializeTokenizationSession",
+    ...(await createMockStoredPaymentMethodsEventBase()),
+    data: null,
+    paymentFlowToSupport: TokenizedPaymentFlowEnum.Interactive,
+  });
+
+export const createMockPaymentMethodProcessTokenizationSessionEvent =
+  async (): Promise<PaymentMethodProcessTokenizationSessionEventFragment> => ({
+    __typename: "PaymentMethodProcessTokenizationSession",
+    ...(await createMockStoredPaymentMethodsEventBase()),
+    data: null,
+    id: "seti_1",
+  });
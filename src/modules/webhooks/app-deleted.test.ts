@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { AppDeletedWebhookHandler } from "./app-deleted";
+import { createMockApp } from "./__tests__/utils";
+import { deleteStripeWebhook } from "@/modules/payment-app-configuration/webhook-manager";
+import { testEnv } from "@/__tests__/test-env.mjs";
+import { saleorApp } from "@/saleor-app";
+
+vi.mock("@/modules/payment-app-configuration/webhook-manager", () => {
+  return {
+    deleteStripeWebhook: vi.fn(async () => {}),
+  };
+});
+
+describe("AppDeletedWebhookHandler", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("deletes Stripe webhooks and auth data", async () => {
+    const aplDelete = vi.spyOn(saleorApp.apl, "delete");
+
+    await AppDeletedWebhookHandler(
+      { __typename: "AppDeleted", recipient: await createMockApp() },
+      testEnv.TEST_SALEOR_API_URL,
+    );
+
+    expect(deleteStripeWebhook).toHaveBeenCalledWith({
+      webhookId: testEnv.TEST_PAYMENT_APP_WEBHOOK_ID,
+      secretKey: testEnv.TEST_PAYMENT_APP_SECRET_KEY,
+    });
+    expect(aplDelete).toHaveBeenCalledWith(testEnv.TEST_SALEOR_API_URL);
+  });
+
+  it("deletes auth data when Stripe webhook can't be deleted", async () => {
+    vi.mocked(deleteStripeWebhook).mockRejectedValueOnce(new Error("No such webhook endpoint"));
+    const aplDelete = vi.spyOn(saleorApp.apl, "delete");
+
+    await expect(
+      AppDeletedWebhookHandler(
+        { __typename: "AppDeleted", recipient: await createMockApp() },
+        testEnv.TEST_SALEOR_API_URL,
+      ),
+    ).resolves.toBeUndefined();
+    expect(aplDelete).toHaveBeenCalledWith(testEnv.TEST_SALEOR_API_URL);
+  });
+});
@@ -0,0 +1,49 @@
+import { getWebhookPaymentAppConfigurator } from "../payment-app-configuration/payment-app-configuration-factory";
+import { deleteStripeWebhook } from "../payment-app-configuration/webhook-manager";
+import { type AppDeletedEventFragment } from "generated/graphql";
+import { invariant } from "@/lib/invariant";
+import { createLogger, redactError } from "@/lib/logger";
+import { unpackPromise } from "@/lib/utils";
+import { saleorApp } from "@/saleor-app";
+
+/**
+ * Stripe keeps sending events to the endpoints of uninstalled app, so they're removed
+ * together with auth data. Failed deletions are only logged, the app is gone anyway
+ */
+export const AppDeletedWebhookHandler = async (
+  event: AppDeletedEventFragment,
+  saleorApiUrl: string,
+) => {
+  const logger = createLogger({ saleorApiUrl }, { msgPrefix: "[AppDeletedWebhookHandler] " });
+  const app = event.recipient;
+  invariant(app, "Missing event.recipient!");
+
+  const { privateMetadata } = app;
+  const configurator = getWebhookPaymentAppConfigurator({ privateMetadata }, saleorApiUrl);
+  const appConfig = await configurator.getConfig();
+
+  // the same endpoint can be shared by several configurations
+  const webhooks = new Map(
+    appConfig.configurations.map((entry) => [entry.webhookId, entry.secretKey]),
+  );
+  logger.info({ webhooksLength: webhooks.size }, "Deleting Stripe webhooks");
+
+  const results = await Promise.all(
+    [...webhooks].map(async ([webhookId, secretKey]) => {
+      const [err] = await unpackPromise(deleteStripeWebhook({ webhookId, secretKey }));
+      if (err) {
+        logger.warn({ webhookId, err: redactError(err) }, "Couldn't delete Stripe webhook");
+      }
+      return !err;
+    }),
+  );
+
+  await saleorApp.apl.delete(saleorApiUrl);
+  logger.info(
+    {
+      deletedWebhooks: results.filter(Boolean).length,
+      failedWebhooks: results.filter((ok) => !ok).length,
+    },
+    "App data removed",
+  );
+};
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { ListStoredPaymentMethodsWebhookHandler } from "./list-stored-payment-methods";
+import { StoredPaymentMethodsDisabledError } from "./stored-payment-methods";
+import { createMockApp, createMockListStoredPaymentMethodsEvent } from "./__tests__/utils";
+import { setupRecording } from "@/__tests__/polly";
+import { testEnv } from "@/__tests__/test-env.mjs";
+
+describe("ListStoredPaymentMethodsWebhookHandler", () => {
+  setupRecording({});
+
+  it("lists payment methods of the user's Stripe Customer", async (ctx) => {
+    ctx.polly?.server.post(testEnv.TEST_SALEOR_API_URL).intercept((_req, res) => {
+      res.json({ data: { user: { id: "VXNlcjox", privateMetafield: "cus_1" } } });
+    });
+    ctx.polly?.server
+      .get("https://api.stripe.com/v1/customers/cus_1/payment_methods")
+      .intercept((_req, res) => {
+        res.json({
+          object: "list",
+          has_more: false,
+          data: [
+            {
+              id: "pm_1",
+              object: "payment_method",
+              type: "card",
+              customer: "cus_1",
+              billing_details: { name: null },
+              card: { brand: "visa", last4: "4242", exp_month: 12, exp_year: 2030 },
+            },
+          ],
+        });
+      });
+
+    const event = await createMockListStoredPaymentMethodsEvent();
+    await expect(
+      ListStoredPaymentMethodsWebhookHandler(event, testEnv.TEST_SALEOR_API_URL),
+    ).resolves.toEqual({
+      paymentMethods: [
+        {
+          id: "pm_1",
+          supportedPaymentFlows: ["INTERACTIVE"],
+          type: "card",
+          creditCardInfo: { brand: "visa", lastDigits: "4242", expMonth: 12, expYear: 2030 },
+        },
+      ],
+    });
+  });
+
+  it("returns no payment methods when the user doesn't have a Stripe Customer", async (ctx) => {
+    ctx.polly?.server.post(testEnv.TEST_SALEOR_API_URL).intercept((_req, res) => {
+      res.json({ data: { user: { id: "VXNlcjox", privateMetafield: null } } });
+    });
+
+    const event = await createMockListStoredPaymentMethodsEvent();
+    await expect(
+      ListStoredPaymentMethodsWebhookHandler(event, testEnv.TEST_SALEOR_API_URL),
+    ).resolves.toEqual({ paymentMethods: [] });
+  });
+
+  it("throws when the app can't save payment methods", async () => {
+    const event = {
+      ...(await createMockListStoredPaymentMethodsEvent()),
+      recipient: { ...(await createMockApp()), permissions: [] },
+    };
+
+    await expect(
+      ListStoredPaymentMethodsWebhookHandler(event, testEnv.TEST_SALEOR_API_URL),
+    ).rejects.toThrow(StoredPaymentMethodsDisabledError);
+  });
+});
@@ -0,0 +1,47 @@
+import {
+  listStripeCustomerPaymentMethods,
+  stripePaymentMethodToStoredPaymentMethod,
+} from "../stripe/stored-payment-methods";
+import { createStripeRequestBudget } from "../stripe/stripe-request-budget";
+import { withSecretKeyFallback } from "../payment-app-configuration/secret-key-rotation";
+import {
+  getStoredPaymentMethodsConfig,
+  getStoredStripeCustomerIdForEvent,
+} from "./stored-payment-methods";
+import { type ListStoredPaymentMethodsResponse } from "@/schemas/ListStoredPaymentMethods/ListStoredPaymentMethodsResponse.mjs";
+import { type ListStoredPaymentMethodsEventFragment } from "generated/graphql";
+import { createLogger } from "@/lib/logger";
+
+export const ListStoredPaymentMethodsWebhookHandler = async (
+  event: ListStoredPaymentMethodsEventFragment,
+  saleorApiUrl: string,
+): Promise<ListStoredPaymentMethodsResponse> => {
+  const budget = createStripeRequestBudget();
+  const logger = createLogger(
+    { saleorApiUrl },
+    { msgPrefix: "[ListStoredPaymentMethodsWebhookHandler] " },
+  );
+  logger.debug({ userId: event.user.id, channel: event.channel }, "Received event");
+
+  const { stripeConfig, stripeAccount } = await getStoredPaymentMethodsConfig(event, saleorApiUrl);
+
+  const customerId = await getStoredStripeCustomerIdForEvent(
+    event,
+    stripeConfig.configurationId,
+    saleorApiUrl,
+  );
+  if (!customerId) {
+    logger.debug("User doesn't have a Stripe Customer");
+    return { paymentMethods: [] };
+  }
+
+  const paymentMethods = await withSecretKeyFallback(stripeConfig, (secretKey) =>
+    listStripeCustomerPaymentMethods({ customerId, secretKey, stripeAccount, budget }),
+  );
+  logger.info(
+    { customerId, paymentMethodsLength: paymentMethods.length },
+    "Listed stored payment methods",
+  );
+
+  return { paymentMethods: paymentMethods.map(stripePaymentMethodToStoredPaymentMethod) };
+};
@@ -23,7 +23,7 @@ export const PaymentGatewayInitializeSessionWebhookHandler = async (
   const appConfig = await configurator.getConfig();
 
   const stripeConfig = paymentAppFullyConfiguredEntrySchema.parse(
-    getConfigurationForChannel(appConfig, event.sourceObject.channel.id),
+    getConfigurationForChannel(appConfig, event.sourceObject.channel),
   );
 
   logger.info({}, "Processing Payment Gateway Initialize request");
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { PaymentGatewayInitializeTokenizationSessionWebhookHandler } from "./payment-gateway-initialize-tokenization-session";
+import { StoredPaymentMethodsDisabledError } from "./stored-payment-methods";
+import {
+  createMockApp,
+  createMockPaymentGatewayInitializeTokenizationSessionEvent,
+  createMockStoredPaymentMethodsApp,
+} from "./__tests__/utils";
+import { testEnv } from "@/__tests__/test-env.mjs";
+
+describe("PaymentGatewayInitializeTokenizationSessionWebhookHandler", () => {
+  it("returns publishable key of the channel configuration", async () => {
+    const event = await createMockPaymentGatewayInitializeTokenizationSessionEvent();
+    await expect(
+      PaymentGatewayInitializeTokenizationSessionWebhookHandler(event, testEnv.TEST_SALEOR_API_URL),
+    ).resolves.toEqual({
+      result: "SUCCESSFULLY_INITIALIZED",
+      data: { publishableKey: testEnv.TEST_PAYMENT_APP_PUBLISHABLE_KEY },
+    });
+  });
+
+  it("throws when saving payment methods isn't enabled in the configuration", async () => {
+    const event = await createMockPaymentGatewayInitializeTokenizationSessionEvent();
+    const { privateMetadata } = await createMockApp();
+
+    await expect(
+      PaymentGatewayInitializeTokenizationSessionWebhookHandler(
+        {
+          ...event,
+          recipient: { ...(await createMockStoredPaymentMethodsApp()), privateMetadata },
+        },
+        testEnv.TEST_SALEOR_API_URL,
+      ),
+    ).rejects.toThrow(StoredPaymentMethodsDisabledError);
+  });
+});
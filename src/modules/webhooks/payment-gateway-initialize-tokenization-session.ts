@@ -0,0 +1,22 @@
+import { getStoredPaymentMethodsConfig } from "./stored-payment-methods";
+import { type PaymentGatewayInitializeTokenizationSessionResponse } from "@/schemas/PaymentGatewayInitializeTokenizationSession/PaymentGatewayInitializeTokenizationSessionResponse.mjs";
+import { type PaymentGatewayInitializeTokenizationSessionEventFragment } from "generated/graphql";
+import { createLogger } from "@/lib/logger";
+
+export const PaymentGatewayInitializeTokenizationSessionWebhookHandler = async (
+  event: PaymentGatewayInitializeTokenizationSessionEventFragment,
+  saleorApiUrl: string,
+): Promise<PaymentGatewayInitializeTokenizationSessionResponse> => {
+  const logger = createLogger(
+    { saleorApiUrl },
+    { msgPrefix: "[PaymentGatewayInitializeTokenizationSessionWebhookHandler] " },
+  );
+
+  const { stripeConfig } = await getStoredPaymentMethodsConfig(event, saleorApiUrl);
+
+  logger.info({}, "Processing Payment Gateway Initialize Tokenization request");
+  return {
+    result: "SUCCESSFULLY_INITIALIZED",
+    data: { publishableKey: stripeConfig.publishableKey },
+  };
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { PaymentMethodInitializeTokenizationSessionWebhookHandler } from "./payment-method-initialize-tokenization-session";
+import { createMockPaymentMethodInitializeTokenizationSessionEvent } from "./__tests__/utils";
+import { setupRecording } from "@/__tests__/polly";
+import { testEnv } from "@/__tests__/test-env.mjs";
+
+describe("PaymentMethodInitializeTokenizationSessionWebhookHandler", () => {
+  setupRecording({});
+
+  it("creates SetupIntent for the user's Stripe Customer", async (ctx) => {
+    ctx.polly?.server.post(testEnv.TEST_SALEOR_API_URL).intercept((_req, res) => {
+      res.json({ data: { user: { id: "VXNlcjox", privateMetafield: "cus_1" } } });
+    });
+    ctx.polly?.server.get("https://api.stripe.com/v1/customers/cus_1").intercept((_req, res) => {
+      res.json({ id: "cus_1", object: "customer", email: "customer@example.com" });
+    });
+    ctx.polly?.server.post("https://api.stripe.com/v1/setup_intents").intercept((req, res) => {
+      const params = new URLSearchParams(req.body as string);
+      expect(params.get("customer")).toBe("cus_1");
+      expect(params.get("usage")).toBe("on_session");
+      expect(params.get("metadata[saleorUserId]")).toBe("VXNlcjox");
+      res.json({
+        id: "seti_1",
+        object: "setup_intent",
+        client_secret: "seti_1_secret_1",
+        customer: "cus_1",
+        payment_method: null,
+        last_setup_error: null,
+        status: "requires_payment_method",
+      });
+    });
+
+    const event = await createMockPaymentMethodInitializeTokenizationSessionEvent();
+    await expect(
+      PaymentMethodInitializeTokenizationSessionWebhookHandler(event, testEnv.TEST_SALEOR_API_URL),
+    ).resolves.toEqual({
+      result: "ADDITIONAL_ACTION_REQUIRED",
+      id: "seti_1",
+      data: {
+        setupIntent: { client_secret: "seti_1_secret_1" },
+        publishableKey: testEnv.TEST_PAYMENT_APP_PUBLISHABLE_KEY,
+      },
+    });
+  });
+});
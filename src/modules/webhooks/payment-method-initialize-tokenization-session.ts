@@ -0,0 +1,77 @@
+import {
+  createStripeSetupIntent,
+  getSetupIntentUsage,
+  stripeSetupIntentToTokenizationResult,
+} from "../stripe/stored-payment-methods";
+import { getOrCreateStripeCustomer } from "../stripe/stripe-customer";
+import { createStripeRequestBudget } from "../stripe/stripe-request-budget";
+import { withSecretKeyFallback } from "../payment-app-configuration/secret-key-rotation";
+import {
+  createSaleorClientForStoredPaymentMethods,
+  getSaleorCustomerFromStoredPaymentMethodsEvent,
+  getStoredPaymentMethodsConfig,
+} from "./stored-payment-methods";
+import { type PaymentMethodInitializeTokenizationSessionResponse } from "@/schemas/PaymentMethodInitializeTokenizationSession/PaymentMethodInitializeTokenizationSessionResponse.mjs";
+import { type PaymentMethodInitializeTokenizationSessionEventFragment } from "generated/graphql";
+import { createLogger } from "@/lib/logger";
+
+/**
+ * Creates SetupIntent for the user's Stripe Customer.
+ * It's confirmed in the storefront, and checked in PAYMENT_METHOD_PROCESS_TOKENIZATION_SESSION
+ */
+export const PaymentMethodInitializeTokenizationSessionWebhookHandler = async (
+  event: PaymentMethodInitializeTokenizationSessionEventFragment,
+  saleorApiUrl: string,
+): Promise<PaymentMethodInitializeTokenizationSessionResponse> => {
+  const budget = createStripeRequestBudget();
+  const logger = createLogger(
+    { saleorApiUrl },
+    { msgPrefix: "[PaymentMethodInitializeTokenizationSessionWebhookHandler] " },
+  );
+  logger.debug(
+    {
+      userId: event.user.id,
+      channel: event.channel,
+      paymentFlowToSupport: event.paymentFlowToSupport,
+    },
+    "Received event",
+  );
+
+  const { stripeConfig, stripeAccount } = await getStoredPaymentMethodsConfig(event, saleorApiUrl);
+  const client = await createSaleorClientForStoredPaymentMethods(saleorApiUrl);
+
+  const stripeCustomer = await withSecretKeyFallback(stripeConfig, (secretKey) =>
+    getOrCreateStripeCustomer({
+      client,
+      customer: getSaleorCustomerFromStoredPaymentMethodsEvent(event),
+      configurationId: stripeConfig.configurationId,
+      secretKey,
+      stripeAccount,
+      budget,
+    }),
+  );
+
+  const setupIntent = await withSecretKeyFallback(stripeConfig, (secretKey) =>
+    createStripeSetupIntent({
+      setupIntentCreateParams: {
+        customer: stripeCustomer.id,
+        usage: getSetupIntentUsage(event.paymentFlowToSupport),
+        automatic_payment_methods: { enabled: true },
+        metadata: {
+          saleorUserId: event.user.id,
+          channelId: event.channel.id,
+          saleorApiUrl,
+        },
+      },
+      secretKey,
+      stripeAccount,
+      budget,
+    }),
+  );
+  logger.info(
+    { customerId: stripeCustomer.id, setupIntentId: setupIntent.id },
+    "Created SetupIntent",
+  );
+
+  return stripeSetupIntentToTokenizationResult(setupIntent, stripeConfig.publishableKey);
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { PaymentMethodProcessTokenizationSessionWebhookHandler } from "./payment-method-process-tokenization-session";
+import { createMockPaymentMethodProcessTokenizationSessionEvent } from "./__tests__/utils";
+import { StoredPaymentMethodNotFoundError } from "@/modules/stripe/stored-payment-methods";
+import { setupRecording } from "@/__tests__/polly";
+import { testEnv } from "@/__tests__/test-env.mjs";
+
+const createSetupIntent = (customer: string) => ({
+  id: "seti_1",
+  object: "setup_intent",
+  client_secret: "seti_1_secret_1",
+  customer,
+  payment_method: "pm_1",
+  last_setup_error: null,
+  status: "succeeded",
+});
+
+describe("PaymentMethodProcessTokenizationSessionWebhookHandler", () => {
+  setupRecording({});
+
+  it("returns saved payment method of succeeded SetupIntent", async (ctx) => {
+    ctx.polly?.server.post(testEnv.TEST_SALEOR_API_URL).intercept((_req, res) => {
+      res.json({ data: { user: { id: "VXNlcjox", privateMetafield: "cus_1" } } });
+    });
+    ctx.polly?.server
+      .get("https://api.stripe.com/v1/setup_intents/seti_1")
+      .intercept((_req, res) => {
+        res.json(createSetupIntent("cus_1"));
+      });
+
+    const event = await createMockPaymentMethodProcessTokenizationSessionEvent();
+    await expect(
+      PaymentMethodProcessTokenizationSessionWebhookHandler(event, testEnv.TEST_SALEOR_API_URL),
+    ).resolves.toEqual({ result: "SUCCESSFULLY_TOKENIZED", id: "pm_1", data: {} });
+  });
+
+  it("throws when SetupIntent belongs to another Stripe Customer", async (ctx) => {
+    ctx.polly?.server.post(testEnv.TEST_SALEOR_API_URL).intercept((_req, res) => {
+      res.json({ data: { user: { id: "VXNlcjox", privateMetafield: "cus_1" } } });
+    });
+    ctx.polly?.server
+      .get("https://api.stripe.com/v1/setup_intents/seti_1")
+      .intercept((_req, res) => {
+        res.json(createSetupIntent("cus_other"));
+      });
+
+    const event = await createMockPaymentMethodProcessTokenizationSessionEvent();
+    await expect(
+      PaymentMethodProcessTokenizationSessionWebhookHandler(event, testEnv.TEST_SALEOR_API_URL),
+    ).rejects.toThrow(StoredPaymentMethodNotFoundError);
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  retrieveStripeCustomerSetupIntent,
+  StoredPaymentMethodNotFoundError,
+  stripeSetupIntentToTokenizationResult,
+} from "../stripe/stored-payment-methods";
+import { createStripeRequestBudget } from "../stripe/stripe-request-budget";
+import { withSecretKeyFallback } from "../payment-app-configuration/secret-key-rotation";
+import {
+  getStoredPaymentMethodsConfig,
+  getStoredStripeCustomerIdForEvent,
+} from "./stored-payment-methods";
+import { type PaymentMethodProcessTokenizationSessionResponse } from "@/schemas/PaymentMethodProcessTokenizationSession/PaymentMethodProcessTokenizationSessionResponse.mjs";
+import { type PaymentMethodProcessTokenizationSessionEventFragment } from "generated/graphql";
+import { createLogger } from "@/lib/logger";
+
+/** `event.id` is the SetupIntent id returned by PAYMENT_METHOD_INITIALIZE_TOKENIZATION_SESSION */
+export const PaymentMethodProcessTokenizationSessionWebhookHandler = async (
+  event: PaymentMethodProcessTokenizationSessionEventFragment,
+  saleorApiUrl: string,
+): Promise<PaymentMethodProcessTokenizationSessionResponse> => {
+  const budget = createStripeRequestBudget();
+  const logger = createLogger(
+    { saleorApiUrl },
+    { msgPrefix: "[PaymentMethodProcessTokenizationSessionWebhookHandler] " },
+  );
+  logger.debug(
+    { userId: event.user.id, setupIntentId: event.id, channel: event.channel },
+    "Received event",
+  );
+
+  const { stripeConfig, stripeAccount } = await getStoredPaymentMethodsConfig(event, saleorApiUrl);
+
+  const customerId = await getStoredStripeCustomerIdForEvent(
+    event,
+    stripeConfig.configurationId,
+    saleorApiUrl,
+  );
+  if (!customerId) {
+    throw new StoredPaymentMethodNotFoundError("User doesn't have a Stripe Customer");
+  }
+
+  const setupIntent = await withSecretKeyFallback(stripeConfig, (secretKey) =>
+    retrieveStripeCustomerSetupIntent({
+      customerId,
+      setupIntentId: event.id,
+      secretKey,
+      stripeAccount,
+      budget,
+    }),
+  );
+
+  const result = stripeSetupIntentToTokenizationResult(setupIntent, stripeConfig.publishableKey);
+  logger.info(
+    { customerId, setupIntentId: setupIntent.id, result: result.result },
+    "Processed SetupIntent",
+  );
+  return result;
+};
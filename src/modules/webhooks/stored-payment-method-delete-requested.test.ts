@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { StoredPaymentMethodDeleteRequestedWebhookHandler } from "./stored-payment-method-delete-requested";
+import { createMockStoredPaymentMethodDeleteRequestedEvent } from "./__tests__/utils";
+import { StoredPaymentMethodNotFoundError } from "@/modules/stripe/stored-payment-methods";
+import { setupRecording } from "@/__tests__/polly";
+import { testEnv } from "@/__tests__/test-env.mjs";
+
+describe("StoredPaymentMethodDeleteRequestedWebhookHandler", () => {
+  setupRecording({});
+
+  it("detaches payment method from the user's Stripe Customer", async (ctx) => {
+    ctx.polly?.server.post(testEnv.TEST_SALEOR_API_URL).intercept((_req, res) => {
+      res.json({ data: { user: { id: "VXNlcjox", privateMetafield: "cus_1" } } });
+    });
+    ctx.polly?.server
+      .get("https://api.stripe.com/v1/payment_methods/pm_1")
+      .intercept((_req, res) => {
+        res.json({ id: "pm_1", object: "payment_method", customer: "cus_1" });
+      });
+    ctx.polly?.server
+      .post("https://api.stripe.com/v1/payment_methods/pm_1/detach")
+      .intercept((_req, res) => {
+        res.json({ id: "pm_1", object: "payment_method", customer: null });
+      });
+
+    const event = await createMockStoredPaymentMethodDeleteRequestedEvent();
+    await expect(
+      StoredPaymentMethodDeleteRequestedWebhookHandler(event, testEnv.TEST_SALEOR_API_URL),
+    ).resolves.toEqual({ result: "SUCCESSFULLY_DELETED" });
+  });
+
+  it("throws when the user doesn't have a Stripe Customer", async (ctx) => {
+    ctx.polly?.server.post(testEnv.TEST_SALEOR_API_URL).intercept((_req, res) => {
+      res.json({ data: { user: { id: "VXNlcjox", privateMetafield: null } } });
+    });
+
+    const event = await createMockStoredPaymentMethodDeleteRequestedEvent();
+    await expect(
+      StoredPaymentMethodDeleteRequestedWebhookHandler(event, testEnv.TEST_SALEOR_API_URL),
+    ).rejects.toThrow(StoredPaymentMethodNotFoundError);
+  });
+});
@@ -0,0 +1,52 @@
+import {
+  detachStripeCustomerPaymentMethod,
+  StoredPaymentMethodNotFoundError,
+} from "../stripe/stored-payment-methods";
+import { createStripeRequestBudget } from "../stripe/stripe-request-budget";
+import { withSecretKeyFallback } from "../payment-app-configuration/secret-key-rotation";
+import {
+  getStoredPaymentMethodsConfig,
+  getStoredStripeCustomerIdForEvent,
+} from "./stored-payment-methods";
+import { type StoredPaymentMethodDeleteRequestedResponse } from "@/schemas/StoredPaymentMethodDeleteRequested/StoredPaymentMethodDeleteRequestedResponse.mjs";
+import { type StoredPaymentMethodDeleteRequestedEventFragment } from "generated/graphql";
+import { createLogger } from "@/lib/logger";
+
+export const StoredPaymentMethodDeleteRequestedWebhookHandler = async (
+  event: StoredPaymentMethodDeleteRequestedEventFragment,
+  saleorApiUrl: string,
+): Promise<StoredPaymentMethodDeleteRequestedResponse> => {
+  const budget = createStripeRequestBudget();
+  const logger = createLogger(
+    { saleorApiUrl },
+    { msgPrefix: "[StoredPaymentMethodDeleteRequestedWebhookHandler] " },
+  );
+  logger.debug(
+    { userId: event.user.id, paymentMethodId: event.paymentMethodId, channel: event.channel },
+    "Received event",
+  );
+
+  const { stripeConfig, stripeAccount } = await getStoredPaymentMethodsConfig(event, saleorApiUrl);
+
+  const customerId = await getStoredStripeCustomerIdForEvent(
+    event,
+    stripeConfig.configurationId,
+    saleorApiUrl,
+  );
+  if (!customerId) {
+    throw new StoredPaymentMethodNotFoundError("User doesn't have stored payment methods");
+  }
+
+  await withSecretKeyFallback(stripeConfig, (secretKey) =>
+    detachStripeCustomerPaymentMethod({
+      customerId,
+      paymentMethodId: event.paymentMethodId,
+      secretKey,
+      stripeAccount,
+      budget,
+    }),
+  );
+  logger.info({ customerId, paymentMethodId: event.paymentMethodId }, "Deleted payment method");
+
+  return { result: "SUCCESSFULLY_DELETED" };
+};
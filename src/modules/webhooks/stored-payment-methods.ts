@@ -0,0 +1,80 @@
+import {
+  getStoredStripeCustomerId,
+  hasSavePaymentMethodsPermission,
+  SAVE_PAYMENT_METHODS_PERMISSION,
+  type SaleorCustomer,
+} from "../stripe/stripe-customer";
+import { getStripeAccountForDirectCharges } from "../stripe/stripe-connect";
+import { getWebhookPaymentAppConfigurator } from "../payment-app-configuration/payment-app-configuration-factory";
+import { paymentAppFullyConfiguredEntrySchema } from "../payment-app-configuration/config-entry";
+import { getConfigurationForChannel } from "../payment-app-configuration/payment-app-configuration";
+import { type ListStoredPaymentMethodsEventFragment } from "generated/graphql";
+import { BaseError } from "@/errors";
+import { invariant } from "@/lib/invariant";
+import { createServerClient } from "@/lib/create-graphq-client";
+import { saleorApp } from "@/saleor-app";
+
+export const StoredPaymentMethodsDisabledError = BaseError.subclass(
+  "StoredPaymentMethodsDisabledError",
+);
+
+/** All stored payment method and tokenization events carry the same recipient, user and channel */
+type StoredPaymentMethodsEvent = Pick<
+  ListStoredPaymentMethodsEventFragment,
+  "recipient" | "user" | "channel"
+>;
+
+/**
+ * Configuration of the channel, if it allows saving payment methods.
+ * The app also needs the permission to keep Stripe Customer ids in Saleor users
+ */
+export const getStoredPaymentMethodsConfig = async (
+  event: StoredPaymentMethodsEvent,
+  saleorApiUrl: string,
+) => {
+  const app = event.recipient;
+  invariant(app, "Missing event.recipient!");
+
+  if (!hasSavePaymentMethodsPermission(app.permissions)) {
+    throw new StoredPaymentMethodsDisabledError(
+      `App doesn't have the ${SAVE_PAYMENT_METHODS_PERMISSION} permission needed to save payment methods`,
+    );
+  }
+
+  const { privateMetadata } = app;
+  const configurator = getWebhookPaymentAppConfigurator({ privateMetadata }, saleorApiUrl);
+  const appConfig = await configurator.getConfig();
+
+  const stripeConfig = paymentAppFullyConfiguredEntrySchema.parse(
+    getConfigurationForChannel(appConfig, event.channel),
+  );
+  if (!stripeConfig.savePaymentMethods) {
+    throw new StoredPaymentMethodsDisabledError(
+      "Saving payment methods isn't enabled in the configuration of the channel",
+    );
+  }
+
+  return { stripeConfig, stripeAccount: getStripeAccountForDirectCharges(stripeConfig) };
+};
+
+export const getSaleorCustomerFromStoredPaymentMethodsEvent = (
+  event: StoredPaymentMethodsEvent,
+): SaleorCustomer => ({ id: event.user.id, email: event.user.email });
+
+export const createSaleorClientForStoredPaymentMethods = async (saleorApiUrl: string) => {
+  const authData = await saleorApp.apl.get(saleorApiUrl);
+  invariant(authData, `APL for ${saleorApiUrl} not found`);
+  return createServerClient(saleorApiUrl, authData.token);
+};
+
+/** Stripe Customer id saved for the user, or `null` when they never saved a payment method */
+export const getStoredStripeCustomerIdForEvent = async (
+  event: StoredPaymentMethodsEvent,
+  configurationId: string,
+  saleorApiUrl: string,
+) =>
+  getStoredStripeCustomerId({
+    client: await createSaleorClientForStoredPaymentMethods(saleorApiUrl),
+    customer: getSaleorCustomerFromStoredPaymentMethodsEvent(event),
+    configurationId,
+  });
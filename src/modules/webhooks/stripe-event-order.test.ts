@@ -0,0 +1,164 @@
+/// <reference types="stripe-event-types" />
+import { describe, it, expect } from "vitest";
+import type Stripe from "stripe";
+import {
+  downgradeOutdatedTransactionEventReport,
+  getOutdatedStripeEventReason,
+} from "./stripe-event-order";
+import { TransactionActionEnum, TransactionEventTypeEnum } from "generated/graphql";
+
+const createPaymentIntent = (status: Stripe.PaymentIntent.Status) =>
+  ({ id: "pi_1", object: "payment_intent", status }) as Stripe.PaymentIntent;
+
+const createPaymentIntentEvent = (
+  type: Stripe.DiscriminatedEvent.PaymentIntentEvent["type"],
+  status: Stripe.PaymentIntent.Status,
+) =>
+  ({
+    type,
+    data: { object: createPaymentIntent(status) },
+  }) as Stripe.DiscriminatedEvent;
+
+const createRefund = (status: string) =>
+  ({ id: "re_1", object: "refund", status }) as Stripe.Refund;
+
+const createCharge = (amountRefunded: number) =>
+  ({ id: "ch_1", object: "charge", amount_refunded: amountRefunded }) as Stripe.Charge;
+
+describe("getOutdatedStripeEventReason", () => {
+  it("doesn't mark events delivered in order as outdated", () => {
+    const sequence = [
+      createPaymentIntentEvent("payment_intent.created", "requires_payment_method"),
+      createPaymentIntentEvent("payment_intent.processing", "processing"),
+      createPaymentIntentEvent("payment_intent.succeeded", "succeeded"),
+    ];
+
+    // Each event is checked when PaymentIntent is in the state from that event
+    expect(
+      sequence.map((event) =>
+        getOutdatedStripeEventReason(
+          event,
+          createPaymentIntent((event.data.object as Stripe.PaymentIntent).status),
+        ),
+      ),
+    ).toEqual([null, null, null]);
+  });
+
+  it("marks events delivered after PaymentIntent succeeded as outdated", () => {
+    const current = createPaymentIntent("succeeded");
+    const reorderedSequence = [
+      createPaymentIntentEvent("payment_intent.succeeded", "succeeded"),
+      createPaymentIntentEvent("payment_intent.processing", "processing"),
+      createPaymentIntentEvent("payment_intent.created", "requires_payment_method"),
+    ];
+
+    expect(reorderedSequence.map((event) => getOutdatedStripeEventReason(event, current))).toEqual([
+      null,
+      "PaymentIntent is already succeeded",
+      "PaymentIntent is already succeeded",
+    ]);
+  });
+
+  it("marks authorization adjustment delivered after capture as outdated", () => {
+    const event = createPaymentIntentEvent(
+      "payment_intent.amount_capturable_updated",
+      "requires_capture",
+    );
+
+    expect(getOutdatedStripeEventReason(event, createPaymentIntent("succeeded"))).toBe(
+      "PaymentIntent is already succeeded",
+    );
+  });
+
+  it("marks failed payment delivered after successful retry as outdated", () => {
+    const event = createPaymentIntentEvent(
+      "payment_intent.payment_failed",
+      "requires_payment_method",
+    );
+
+    expect(getOutdatedStripeEventReason(event, createPaymentIntent("processing"))).toBe(
+      "PaymentIntent is already processing",
+    );
+    expect(
+      getOutdatedStripeEventReason(event, createPaymentIntent("requires_payment_method")),
+    ).toBeNull();
+  });
+
+  it("marks pending refund delivered after refund succeeded as outdated", () => {
+    const event = {
+      type: "charge.refund.updated",
+      data: { object: createRefund("pending") },
+    } as Stripe.DiscriminatedEvent;
+
+    expect(getOutdatedStripeEventReason(event, createRefund("succeeded"))).toBe(
+      "Refund is already succeeded",
+    );
+    expect(getOutdatedStripeEventReason(event, createRefund("pending"))).toBeNull();
+  });
+
+  it("marks charge.refunded with smaller refunded amount than current as outdated", () => {
+    const event = {
+      type: "charge.refunded",
+      data: { object: createCharge(500) },
+    } as Stripe.DiscriminatedEvent;
+
+    expect(getOutdatedStripeEventReason(event, createCharge(1000))).toBe(
+      "Charge has more refunds already",
+    );
+    expect(getOutdatedStripeEventReason(event, createCharge(500))).toBeNull();
+  });
+
+  it("doesn't check events when current object is unknown", () => {
+    const event = createPaymentIntentEvent("payment_intent.processing", "processing");
+
+    expect(getOutdatedStripeEventReason(event, null)).toBeNull();
+  });
+});
+
+describe("downgradeOutdatedTransactionEventReport", () => {
+  it("reports outdated event as INFO without changing available actions", () => {
+    expect(
+      downgradeOutdatedTransactionEventReport(
+        {
+          transactionId: "420",
+          amount: 20,
+          availableActions: [],
+          externalUrl: "https://dashboard.stripe.com/payments/pi_1",
+          message: "",
+          pspReference: "pi_1",
+          time: "2023-12-01T13:19:54.000Z",
+          type: TransactionEventTypeEnum.ChargeRequest,
+        },
+        { eventType: "payment_intent.processing", reason: "PaymentIntent is already succeeded" },
+      ),
+    ).toEqual({
+      transactionId: "420",
+      amount: 20,
+      externalUrl: "https://dashboard.stripe.com/payments/pi_1",
+      message: "Outdated payment_intent.processing event: PaymentIntent is already succeeded",
+      pspReference: "pi_1",
+      time: "2023-12-01T13:19:54.000Z",
+      type: TransactionEventTypeEnum.Info,
+    });
+  });
+
+  it("keeps original message", () => {
+    expect(
+      downgradeOutdatedTransactionEventReport(
+        {
+          transactionId: "420",
+          amount: 20,
+          availableActions: [TransactionActionEnum.Refund],
+          externalUrl: "https://dashboard.stripe.com/payments/pi_1",
+          message: "requested_by_customer",
+          pspReference: "pi_1",
+          time: "2023-12-01T13:19:54.000Z",
+          type: TransactionEventTypeEnum.ChargeFailure,
+        },
+        { eventType: "payment_intent.canceled", reason: "PaymentIntent is already succeeded" },
+      ).message,
+    ).toBe(
+      "Outdated payment_intent.canceled event: PaymentIntent is already succeeded. requested_by_customer",
+    );
+  });
+});
@@ -0,0 +1,142 @@
+/// <reference types="stripe-event-types" />
+import type Stripe from "stripe";
+import { getStripeApiClient } from "../stripe/stripe-api";
+import {
+  TransactionEventTypeEnum,
+  type TransactionEventReportMutationVariables,
+} from "generated/graphql";
+
+// Higher number = later in the lifecycle. Object can't go back to an earlier status,
+// except for failed payment which returns to `requires_payment_method` and can be retried
+const paymentIntentStatusOrder: Record<Stripe.PaymentIntent.Status, number> = {
+  requires_payment_method: 0,
+  requires_confirmation: 1,
+  requires_action: 2,
+  processing: 3,
+  requires_capture: 4,
+  canceled: 5,
+  succeeded: 5,
+};
+
+const refundStatusOrder: Record<string, number> = {
+  pending: 0,
+  requires_action: 0,
+  canceled: 1,
+  failed: 1,
+  succeeded: 1,
+};
+
+/** Object from the event, as it is currently in Stripe */
+export type CurrentStripeEventObject = Stripe.PaymentIntent | Stripe.Refund | Stripe.Charge;
+
+/**
+ * Stripe doesn't guarantee the order of events, e.g. `payment_intent.processing`
+ * can be delivered after `payment_intent.succeeded`.
+ * Fetches the current state of the event's object, only for events that we check
+ */
+export const retrieveCurrentStripeEventObject = async ({
+  stripeEvent,
+  secretKey,
+  stripeAccount,
+}: {
+  stripeEvent: Stripe.DiscriminatedEvent;
+  secretKey: string;
+  stripeAccount?: string;
+}): Promise<CurrentStripeEventObject | null> => {
+  const stripe = getStripeApiClient(secretKey, stripeAccount);
+
+  switch (stripeEvent.type) {
+    case "payment_intent.succeeded":
+    case "payment_intent.processing":
+    case "payment_intent.payment_failed":
+    case "payment_intent.created":
+    case "payment_intent.canceled":
+    case "payment_intent.partially_funded":
+    case "payment_intent.amount_capturable_updated":
+    case "payment_intent.requires_action":
+      return stripe.paymentIntents.retrieve(stripeEvent.data.object.id);
+    case "charge.refund.updated":
+      return stripe.refunds.retrieve(stripeEvent.data.object.id);
+    case "charge.refunded":
+      return stripe.charges.retrieve(stripeEvent.data.object.id);
+    default:
+      return null;
+  }
+};
+
+/**
+ * Compares object from the event with its current state in Stripe.
+ * Returns the reason why the event is outdated, or null if it's not
+ */
+export const getOutdatedStripeEventReason = (
+  stripeEvent: Stripe.DiscriminatedEvent,
+  currentObject: CurrentStripeEventObject | null,
+): string | null => {
+  if (!currentObject) {
+    return null;
+  }
+
+  switch (stripeEvent.type) {
+    case "payment_intent.succeeded":
+    case "payment_intent.processing":
+    case "payment_intent.payment_failed":
+    case "payment_intent.created":
+    case "payment_intent.canceled":
+    case "payment_intent.partially_funded":
+    case "payment_intent.amount_capturable_updated":
+    case "payment_intent.requires_action": {
+      if (currentObject.object !== "payment_intent") {
+        return null;
+      }
+      const eventStatus = stripeEvent.data.object.status;
+      const currentStatus = currentObject.status;
+      if (paymentIntentStatusOrder[eventStatus] < paymentIntentStatusOrder[currentStatus]) {
+        return `PaymentIntent is already ${currentStatus}`;
+      }
+      return null;
+    }
+
+    case "charge.refund.updated": {
+      if (currentObject.object !== "refund") {
+        return null;
+      }
+      const eventStatus = stripeEvent.data.object.status ?? "";
+      const currentStatus = currentObject.status ?? "";
+      if ((refundStatusOrder[eventStatus] ?? 0) < (refundStatusOrder[currentStatus] ?? 0)) {
+        return `Refund is already ${currentStatus}`;
+      }
+      return null;
+    }
+
+    case "charge.refunded": {
+      if (currentObject.object !== "charge") {
+        return null;
+      }
+      if (stripeEvent.data.object.amount_refunded < currentObject.amount_refunded) {
+        return "Charge has more refunds already";
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * Outdated events are still reported to keep them in transaction history,
+ * but as INFO so they don't change the transaction state or available actions
+ */
+export const downgradeOutdatedTransactionEventReport = (
+  transactionEventReport: TransactionEventReportMutationVariables,
+  { eventType, reason }: { eventType: string; reason: string },
+): TransactionEventReportMutationVariables => {
+  const { availableActions: _availableActions, ...rest } = transactionEventReport;
+  return {
+    ...rest,
+    type: TransactionEventTypeEnum.Info,
+    message: [`Outdated ${eventType} event: ${reason}`, transactionEventReport.message]
+      .filter(Boolean)
+      .join(". "),
+  };
+};
@@ -6,10 +6,13 @@ import type Stripe from "stripe";
 import type * as configurationFactoryModule from "../payment-app-configuration/payment-app-configuration-factory";
 import { getFilledFakeMetadataConfigurator } from "../payment-app-configuration/__tests__/utils";
 import { getStripeApiClient } from "../stripe/stripe-api";
-import { stripeWebhookHandler } from "./stripe-webhook";
+import {
+  stripeEventToTransactionEventReportMutationVariables,
+  stripeWebhookHandler,
+} from "./stripe-webhook";
 import { testEnv } from "@/__tests__/test-env.mjs";
 import { setupRecording } from "@/__tests__/polly";
-import { TransactionActionEnum } from "generated/graphql";
+import { TransactionActionEnum, TransactionEventTypeEnum } from "generated/graphql";
 
 vi.mock("../payment-app-configuration/payment-app-configuration-factory", async () => {
   const actual = await vi.importActual<typeof configurationFactoryModule>(
@@ -29,7 +32,7 @@ type DeepPartial<T> = T extends object
   : T;
 
 const createMockStripeEvent = (
-  overrides: DeepPartial<Stripe.DiscriminatedEvent.PaymentIntentEvent>,
+  overrides: DeepPartial<Stripe.DiscriminatedEvent.PaymentIntentEvent> & { id?: string },
 ) => {
   return merge(
     {
@@ -240,6 +243,82 @@ const createMockStripeEvent = (
   );
 };
 
+const createMockDisputeEvent = (
+  overrides: DeepPartial<Stripe.DiscriminatedEvent.ChargeDisputeEvent> & { id?: string },
+): Stripe.DiscriminatedEvent.ChargeDisputeEvent => {
+  return merge(
+    {
+      id: "evt_1OJ2V8EosEcNBN5mTkFvbNXC",
+      object: "event",
+      api_version: "2023-10-16",
+      created: 1701436794,
+      data: {
+        object: {
+          id: "dp_1OJ2V8EosEcNBN5m2aGkPs8F",
+          object: "dispute",
+          amount: 2000,
+          balance_transactions: [],
+          charge: "ch_3NQ63WEosEcNBN5m1xPmXlzQ",
+          created: 1701436794,
+          currency: "usd",
+          evidence: {},
+          evidence_details: {
+            due_by: 1702252799,
+            has_evidence: false,
+            past_due: false,
+            submission_count: 0,
+          },
+          is_charge_refundable: false,
+          livemode: false,
+          metadata: {},
+          payment_intent: "pi_3NQ63WEosEcNBN5m1AB4zgVN",
+          reason: "fraudulent",
+          status: "needs_response",
+        },
+      },
+      livemode: false,
+      pending_webhooks: 1,
+      request: { id: null, idempotency_key: null },
+      type: "charge.dispute.created",
+    },
+    overrides,
+  ) as Stripe.DiscriminatedEvent.ChargeDisputeEvent;
+};
+
+const createMockCheckoutSessionEvent = (
+  overrides: DeepPartial<Stripe.DiscriminatedEvent.CheckoutSessionEvent>,
+): Stripe.DiscriminatedEvent.CheckoutSessionEvent => {
+  return merge(
+    {
+      id: "evt_1OJ2V8EosEcNBN5mCsCmpltD",
+      object: "event",
+      api_version: "2023-10-16",
+      created: 1701436794,
+      data: {
+        object: {
+          id: "cs_test_a1OJ2V8EosEcNBN5m",
+          object: "checkout.session",
+          amount_total: 2000,
+          client_reference_id: "555555",
+          created: 1701436794,
+          currency: "usd",
+          livemode: false,
+          metadata: { transactionId: "555555", channelId: "1", captureMethod: "automatic" },
+          mode: "payment",
+          payment_intent: "pi_3NQ63WEosEcNBN5m1AB4zgVN",
+          payment_status: "paid",
+          status: "complete",
+        },
+      },
+      livemode: false,
+      pending_webhooks: 1,
+      request: { id: null, idempotency_key: null },
+      type: "checkout.session.completed",
+    },
+    overrides,
+  ) as Stripe.DiscriminatedEvent.CheckoutSessionEvent;
+};
+
 const createMockRequest = ({
   body,
   query,
@@ -353,6 +432,11 @@ describe("stripe-webhook", () => {
           data: { transactionEventReport: { alreadyProcessed: false, errors: [] } },
         });
       });
+      ctx.polly?.server
+        .get(`https://api.stripe.com/v1/payment_intents/${event.data.object.id}`)
+        .intercept((_req, res) => {
+          res.json(event.data.object);
+        });
 
       const stripe = getStripeApiClient(testEnv.TEST_PAYMENT_APP_SECRET_KEY);
       const body = JSON.stringify(event);
@@ -388,7 +472,10 @@ describe("stripe-webhook", () => {
 
     it("handles payment_intent.payment_failed", async (ctx) => {
       const localGraphqlUrl = testEnv.TEST_SALEOR_API_URL;
-      const event = createMockStripeEvent({ type: "payment_intent.payment_failed" });
+      const event = createMockStripeEvent({
+        id: "evt_3NQ63WEosEcNBN5m1xRNP0Fc",
+        type: "payment_intent.payment_failed",
+      });
 
       ctx.polly?.server.post(localGraphqlUrl).on("request", (req) => {
         expect(req.headers["authorization-bearer"]).toEqual(testEnv.TEST_SALEOR_APP_TOKEN);
@@ -417,6 +504,11 @@ describe("stripe-webhook", () => {
           data: { transactionEventReport: { alreadyProcessed: false, errors: [] } },
         });
       });
+      ctx.polly?.server
+        .get(`https://api.stripe.com/v1/payment_intents/${event.data.object.id}`)
+        .intercept((_req, res) => {
+          res.json(event.data.object);
+        });
 
       const stripe = getStripeApiClient(testEnv.TEST_PAYMENT_APP_SECRET_KEY);
       const body = JSON.stringify(event);
@@ -449,5 +541,263 @@ describe("stripe-webhook", () => {
         }
       `);
     });
+
+    it("acknowledges duplicated event without reporting it to Saleor again", async (ctx) => {
+      const localGraphqlUrl = testEnv.TEST_SALEOR_API_URL;
+      const event = createMockStripeEvent({
+        id: "evt_3NQ63WEosEcNBN5m1Xt4zQqa",
+        type: "payment_intent.succeeded",
+      });
+
+      const onRequest = vi.fn();
+      ctx.polly?.server.post(localGraphqlUrl).on("request", onRequest);
+      ctx.polly?.server.post(localGraphqlUrl).intercept((_req, res) => {
+        res.json({
+          data: { transactionEventReport: { alreadyProcessed: false, errors: [] } },
+        });
+      });
+      ctx.polly?.server
+        .get(`https://api.stripe.com/v1/payment_intents/${event.data.object.id}`)
+        .intercept((_req, res) => {
+          res.json(event.data.object);
+        });
+
+      const stripe = getStripeApiClient(testEnv.TEST_PAYMENT_APP_SECRET_KEY);
+      const body = JSON.stringify(event);
+      const createRequest = () =>
+        createMockRequest({
+          body,
+          query: {
+            saleorApiUrl: testEnv.TEST_SALEOR_API_URL,
+          },
+          headers: {
+            "stripe-signature": stripe.webhooks.generateTestHeaderString({
+              payload: body,
+              secret: testEnv.TEST_PAYMENT_APP_WEBHOOK_SECRET,
+            }),
+          },
+        });
+
+      await expect(stripeWebhookHandler(createRequest())).resolves.not.toBeNull();
+      await expect(stripeWebhookHandler(createRequest())).resolves.toBeNull();
+      expect(onRequest).toHaveBeenCalledTimes(1);
+    });
+    it("reports payment_intent.processing delivered after payment_intent.succeeded as INFO", async (ctx) => {
+      const localGraphqlUrl = testEnv.TEST_SALEOR_API_URL;
+      const event = createMockStripeEvent({
+        id: "evt_3NQ63WEosEcNBN5m1kQ7Jm2C",
+        type: "payment_intent.processing",
+        data: { object: { status: "processing" } },
+      });
+
+      ctx.polly?.server.post(localGraphqlUrl).on("request", (req) => {
+        const variables = req.jsonBody().variables;
+        expect(variables).toEqual({
+          transactionId: "420",
+          amount: 20,
+          externalUrl: `https://dashboard.stripe.com/payments/${event.data.object.id}`,
+          message:
+            "Outdated payment_intent.processing event: PaymentIntent is already succeeded. (created by Stripe CLI)",
+          pspReference: event.data.object.id,
+          time: expect.any(String),
+          type: "INFO",
+        });
+      });
+      ctx.polly?.server.post(localGraphqlUrl).intercept((_req, res) => {
+        res.json({
+          data: { transactionEventReport: { alreadyProcessed: false, errors: [] } },
+        });
+      });
+      ctx.polly?.server
+        .get(`https://api.stripe.com/v1/payment_intents/${event.data.object.id}`)
+        .intercept((_req, res) => {
+          res.json({ ...event.data.object, status: "succeeded" });
+        });
+
+      const stripe = getStripeApiClient(testEnv.TEST_PAYMENT_APP_SECRET_KEY);
+      const body = JSON.stringify(event);
+      const signature = stripe.webhooks.generateTestHeaderString({
+        payload: body,
+        secret: testEnv.TEST_PAYMENT_APP_WEBHOOK_SECRET,
+      });
+
+      await expect(
+        stripeWebhookHandler(
+          createMockRequest({
+            body,
+            query: {
+              saleorApiUrl: testEnv.TEST_SALEOR_API_URL,
+            },
+            headers: {
+              "stripe-signature": signature,
+            },
+          }),
+        ),
+      ).resolves.not.toBeNull();
+    });
+  });
+
+  describe("stripeEventToTransactionEventReportMutationVariables", () => {
+    it("maps charge.dispute.funds_withdrawn to CHARGE_BACK", async () => {
+      const event = createMockDisputeEvent({ type: "charge.dispute.funds_withdrawn" });
+
+      await expect(
+        stripeEventToTransactionEventReportMutationVariables("420", event),
+      ).resolves.toEqual({
+        transactionId: "420",
+        amount: 20,
+        externalUrl: "https://dashboard.stripe.com/payments/pi_3NQ63WEosEcNBN5m1AB4zgVN",
+        message:
+          "Dispute needs_response, reason: fraudulent, evidence due by: 2023-12-10T23:59:59.000Z",
+        pspReference: "dp_1OJ2V8EosEcNBN5m2aGkPs8F",
+        time: "2023-12-01T13:19:54.000Z",
+        type: TransactionEventTypeEnum.ChargeBack,
+        availableActions: [],
+      });
+    });
+
+    it("maps charge.dispute.funds_reinstated to REFUND_REVERSE", async () => {
+      const event = createMockDisputeEvent({
+        type: "charge.dispute.funds_reinstated",
+        data: { object: { status: "won", evidence_details: { due_by: null } } },
+      });
+
+      await expect(
+        stripeEventToTransactionEventReportMutationVariables("420", event),
+      ).resolves.toMatchObject({
+        message: "Dispute won, reason: fraudulent",
+        type: TransactionEventTypeEnum.RefundReverse,
+        availableActions: [TransactionActionEnum.Refund],
+      });
+    });
+
+    it.each(["charge.dispute.created", "charge.dispute.updated", "charge.dispute.closed"] as const)(
+      "maps %s to INFO",
+      async (type) => {
+        const event = createMockDisputeEvent({ type });
+
+        await expect(
+          stripeEventToTransactionEventReportMutationVariables("420", event),
+        ).resolves.toMatchObject({
+          amount: 20,
+          pspReference: "evt_1OJ2V8EosEcNBN5mTkFvbNXC",
+          type: TransactionEventTypeEnum.Info,
+          availableActions: [],
+        });
+      },
+    );
+
+    it("reports each dispute status change with a different pspReference", async () => {
+      const updated = createMockDisputeEvent({
+        id: "evt_1OJ2V8EosEcNBN5mUpdated",
+        type: "charge.dispute.updated",
+        data: { object: { status: "under_review" } },
+      });
+      const closed = createMockDisputeEvent({
+        id: "evt_1OJ2V8EosEcNBN5mClosed",
+        type: "charge.dispute.closed",
+        data: { object: { status: "lost" } },
+      });
+
+      const [updatedVariables, closedVariables] = await Promise.all([
+        stripeEventToTransactionEventReportMutationVariables("420", updated),
+        stripeEventToTransactionEventReportMutationVariables("420", closed),
+      ]);
+
+      expect(updatedVariables?.pspReference).not.toEqual(closedVariables?.pspReference);
+      expect(closedVariables?.message).toContain("Dispute lost");
+    });
+
+    it("falls back to charge id in externalUrl when dispute has no payment intent", async () => {
+      const event = createMockDisputeEvent({ data: { object: { payment_intent: null } } });
+
+      await expect(
+        stripeEventToTransactionEventReportMutationVariables("420", event),
+      ).resolves.toMatchObject({
+        externalUrl: "https://dashboard.stripe.com/payments/ch_3NQ63WEosEcNBN5m1xPmXlzQ",
+      });
+    });
+
+    it.each(["checkout.session.completed", "checkout.session.async_payment_succeeded"] as const)(
+      "maps %s to INFO",
+      async (type) => {
+        const event = createMockCheckoutSessionEvent({ type });
+
+        await expect(
+          stripeEventToTransactionEventReportMutationVariables("555555", event),
+        ).resolves.toMatchObject({
+          amount: 20,
+          externalUrl: "https://dashboard.stripe.com/payments/pi_3NQ63WEosEcNBN5m1AB4zgVN",
+          pspReference: "pi_3NQ63WEosEcNBN5m1AB4zgVN",
+          type: TransactionEventTypeEnum.Info,
+          availableActions: [],
+        });
+      },
+    );
+
+    it.each([
+      { captureMethod: "automatic", type: TransactionEventTypeEnum.ChargeFailure },
+      { captureMethod: "manual", type: TransactionEventTypeEnum.AuthorizationFailure },
+    ])(
+      "maps checkout.session.async_payment_failed with $captureMethod capture to $type",
+      async ({ captureMethod, type }) => {
+        const event = createMockCheckoutSessionEvent({
+          type: "checkout.session.async_payment_failed",
+          data: { object: { metadata: { captureMethod }, payment_status: "unpaid" } },
+        });
+
+        await expect(
+          stripeEventToTransactionEventReportMutationVariables("555555", event),
+        ).resolves.toMatchObject({
+          message: "Checkout Session delayed payment failed",
+          type,
+        });
+      },
+    );
+
+    it("maps checkout.session.expired without PaymentIntent to failure with session id", async () => {
+      const event = createMockCheckoutSessionEvent({
+        type: "checkout.session.expired",
+        data: { object: { payment_intent: null, payment_status: "unpaid", status: "expired" } },
+      });
+
+      await expect(
+        stripeEventToTransactionEventReportMutationVariables("555555", event),
+      ).resolves.toEqual({
+        transactionId: "555555",
+        amount: 20,
+        externalUrl: "",
+        message: "Checkout Session expired",
+        pspReference: "cs_test_a1OJ2V8EosEcNBN5m",
+        time: "2023-12-01T13:19:54.000Z",
+        type: TransactionEventTypeEnum.ChargeFailure,
+        availableActions: [],
+      });
+    });
+
+    it("keeps charge and cancel available after partial capture", async () => {
+      const event = createMockStripeEvent({
+        type: "payment_intent.amount_capturable_updated",
+        data: {
+          object: {
+            status: "requires_capture",
+            capture_method: "manual",
+            amount_capturable: 1200,
+            amount_received: 800,
+          },
+        },
+      }) as Stripe.DiscriminatedEvent;
+
+      await expect(
+        stripeEventToTransactionEventReportMutationVariables("420", event),
+      ).resolves.toMatchObject({
+        type: TransactionEventTypeEnum.AuthorizationAdjustment,
+        availableActions: [
+          TransactionActionEnum.Cancel,
+          TransactionActionEnum.Refund,
+          TransactionActionEnum.Charge,
+        ],
+      });
+    });
   });
 });
@@ -5,18 +5,36 @@ import * as Sentry from "@sentry/nextjs";
 import { type NextApiRequest } from "next";
 import Stripe from "stripe";
 import { type Client } from "urql";
-import { getStripeApiClient, getStripeExternalUrlForIntentId } from "../stripe/stripe-api";
+import uniq from "lodash-es/uniq";
+import uniqBy from "lodash-es/uniqBy";
+import {
+  getStripeApiClient,
+  getStripeExternalUrlForIntentId,
+  retrieveStripeDisputedObject,
+} from "../stripe/stripe-api";
 import { getPaymentAppConfigurator } from "../payment-app-configuration/payment-app-configuration-factory";
 import { getConfigurationForChannel } from "../payment-app-configuration/payment-app-configuration";
 import { type PaymentAppConfig } from "../payment-app-configuration/app-config";
+import { type PaymentAppConfigEntry } from "../payment-app-configuration/config-entry";
+import { type RulesChannel } from "../payment-app-configuration/channel-rules";
+import { fetchChannels } from "../payment-app-configuration/mapping-manager";
+import { withSecretKeyFallback } from "../payment-app-configuration/secret-key-rotation";
 import { getSaleorAmountFromStripeAmount } from "../stripe/currencies";
+import { getProcessedEventStore } from "../processed-events/processed-event-store-factory";
+import { processEventOnce } from "../processed-events/process-event-once";
+import { type WebhookLogDraft, withWebhookLog } from "../webhook-log/webhook-log";
+import {
+  downgradeOutdatedTransactionEventReport,
+  getOutdatedStripeEventReason,
+  retrieveCurrentStripeEventObject,
+} from "./stripe-event-order";
 import {
   MissingSignatureError,
   UnexpectedTransactionEventReportError,
 } from "./stripe-webhook.errors";
 import { createClient } from "@/lib/create-graphq-client";
 import { getAuthDataForRequest } from "@/backend-lib/api-route-utils";
-import { createLogger } from "@/lib/logger";
+import { createLogger, redactError } from "@/lib/logger";
 import {
   type TransactionEventReportMutation,
   type TransactionEventReportMutationVariables,
@@ -33,36 +51,85 @@ export const stripeWebhookHandler = async (req: NextApiRequest) => {
   const client = createClient(authData.saleorApiUrl, async () => ({ token: authData.token }));
   const configurator = getPaymentAppConfigurator(client, authData.saleorApiUrl);
   const appConfig = await configurator.getConfig();
+  const channels = await getRulesChannels(client, appConfig);
 
-  const stripeEvent = await requestToStripeEvent({ req, appConfig });
-  if (!stripeEvent) {
+  const verifiedEvent = await requestToStripeEvent({ req, appConfig, channels });
+  if (!verifiedEvent) {
     logger.debug("stripeEvent was null");
     return null;
   }
 
-  return processStripeEvent({ stripeEvent, appConfig, client });
+  const processAndLogStripeEvent = () =>
+    withWebhookLog(
+      {
+        saleorApiUrl: authData.saleorApiUrl,
+        source: "stripe",
+        eventType: verifiedEvent.stripeEvent.type,
+        payload: verifiedEvent.stripeEvent,
+        transactionId: getTransactionIdFromEventData(verifiedEvent.stripeEvent.data),
+      },
+      (webhookLog) =>
+        processStripeEvent({ ...verifiedEvent, appConfig, channels, client, webhookLog }),
+    );
+
+  const eventId = getStripeEventId(verifiedEvent.stripeEvent);
+  if (!eventId) {
+    return processAndLogStripeEvent();
+  }
+
+  const processed = await processEventOnce({
+    store: getProcessedEventStore(),
+    saleorApiUrl: authData.saleorApiUrl,
+    eventId,
+    eventType: verifiedEvent.stripeEvent.type,
+    process: processAndLogStripeEvent,
+  });
+
+  return processed.duplicate ? null : processed.result;
 };
 
+// Rules match channel slug and currency, but Stripe events only carry the channel id
+const getRulesChannels = async (
+  client: Client,
+  appConfig: PaymentAppConfig,
+): Promise<readonly RulesChannel[]> =>
+  appConfig.channelRules?.length ? fetchChannels(client) : [];
+
+const getRulesChannel = (channels: readonly RulesChannel[], channelId: string | null) =>
+  channelId ? channels.find((channel) => channel.id === channelId) ?? { id: channelId } : null;
+
+// Some of the discriminated event types don't declare `id` even though every Stripe event has it
+const getStripeEventId = (stripeEvent: Stripe.DiscriminatedEvent) =>
+  "id" in stripeEvent && typeof stripeEvent.id === "string" ? stripeEvent.id : "";
+
+// Connect events come from connected accounts and carry their id
+const getStripeEventAccount = (stripeEvent: Stripe.DiscriminatedEvent) =>
+  "account" in stripeEvent && typeof stripeEvent.account === "string"
+    ? stripeEvent.account
+    : undefined;
+
 async function processStripeEvent({
   stripeEvent,
+  configEntry,
   appConfig,
+  channels,
   client,
+  webhookLog,
 }: {
   stripeEvent: Stripe.DiscriminatedEvent;
+  configEntry: PaymentAppConfigEntry;
   appConfig: PaymentAppConfig;
+  channels: readonly RulesChannel[];
   client: Client;
+  webhookLog: WebhookLogDraft;
 }) {
   const logger = createLogger({}, { msgPrefix: "[processStripeEvent] " });
-  logger.debug(
-    {
-      id: "id" in stripeEvent && typeof stripeEvent.id === "string" ? stripeEvent.id : "",
-      type: stripeEvent.type,
-    },
-    "Got Stripe event",
-  );
+  logger.debug({ id: getStripeEventId(stripeEvent), type: stripeEvent.type }, "Got Stripe event");
 
   const transactionEventReport = await stripeEventToTransactionEventReport({
     appConfig,
+    channels,
+    configEntry,
     stripeEvent,
   });
   logger.debug({
@@ -81,6 +148,14 @@ async function processStripeEvent({
   if (!transactionEventReport) {
     return;
   }
+  webhookLog.transactionId = transactionEventReport.transactionId;
+  webhookLog.pspReference = transactionEventReport.pspReference;
+  webhookLog.transactionEventReport = {
+    ...transactionEventReport,
+    availableActions: transactionEventReport.availableActions
+      ? [transactionEventReport.availableActions].flat()
+      : null,
+  };
 
   const transactionEventReportResult = await processTransactionEventReport({
     client,
@@ -93,6 +168,10 @@ async function processStripeEvent({
     },
     "Received response from event report",
   );
+  webhookLog.response = transactionEventReportResult.data;
+  webhookLog.errors = transactionEventReportResult.errors.map(
+    (err) => err.message ?? "Unknown error",
+  );
 
   if (transactionEventReportResult.errors.length > 0) {
     const message = transactionEventReportResult.errors.map((err) => err.message).join("\n");
@@ -103,7 +182,7 @@ async function processStripeEvent({
   return transactionEventReportResult;
 }
 
-async function processTransactionEventReport({
+export async function processTransactionEventReport({
   client,
   transactionEventReport,
 }: {
@@ -124,10 +203,12 @@ async function processTransactionEventReport({
 async function requestToStripeEvent({
   req,
   appConfig,
+  channels,
 }: {
   req: NextApiRequest;
   appConfig: PaymentAppConfig;
-}): Promise<Stripe.DiscriminatedEvent | null> {
+  channels: readonly RulesChannel[];
+}): Promise<{ stripeEvent: Stripe.DiscriminatedEvent; configEntry: PaymentAppConfigEntry } | null> {
   const logger = createLogger({}, { msgPrefix: "[requestToStripeEvent] " });
 
   const signature = req.headers["stripe-signature"];
@@ -141,37 +222,63 @@ async function requestToStripeEvent({
   const unsafeParsedBody = JSON.parse(body.toString()) as Stripe.DiscriminatedEvent;
   const channelId = getChannelIdFromEventData(unsafeParsedBody.data);
 
-  const configEntry = getConfigurationForChannel(appConfig, channelId);
+  const configEntries = __do(() => {
+    if (channelId || !isEventWithoutMetadata(unsafeParsedBody)) {
+      const configEntry = getConfigurationForChannel(
+        appConfig,
+        getRulesChannel(channels, channelId),
+      );
+      return configEntry ? [configEntry] : [];
+    }
+    // Events such as disputes don't have our metadata, so we don't know the channel yet
+    // The signature can only be verified with the webhook secret of the right configuration
+    return uniqBy(appConfig.configurations, (entry) => entry.webhookSecret);
+  });
 
-  if (!configEntry || !configEntry.secretKey) {
+  if (configEntries.length === 0) {
     logger.warn(`Missing configuration for channel ${channelId || "<undefined>"}`);
     return null;
   }
 
-  const stripe = getStripeApiClient(configEntry.secretKey);
-  const [stripeEventError, stripeEvent] = await unpackPromise(
-    stripe.webhooks.constructEventAsync(
-      body,
-      signature,
-      configEntry.webhookSecret,
-    ) as Promise<Stripe.DiscriminatedEvent>,
-  );
+  for (const configEntry of configEntries) {
+    if (!configEntry.secretKey) {
+      continue;
+    }
 
-  if (stripeEventError instanceof Stripe.errors.StripeSignatureVerificationError) {
-    logger.warn(
-      { message: stripeEventError.message, name: stripeEventError.name },
-      "Invalid signature for event",
+    const stripe = getStripeApiClient(configEntry.secretKey);
+    const [stripeEventError, stripeEvent] = await unpackPromise(
+      stripe.webhooks.constructEventAsync(
+        body,
+        signature,
+        configEntry.webhookSecret,
+      ) as Promise<Stripe.DiscriminatedEvent>,
     );
-    return null;
-  } else if (stripeEventError) {
-    Sentry.captureException(stripeEventError);
-    logger.error({ message: stripeEventError.message, name: stripeEventError.name });
-    return null;
+
+    if (stripeEventError instanceof Stripe.errors.StripeSignatureVerificationError) {
+      logger.warn(
+        {
+          message: stripeEventError.message,
+          name: stripeEventError.name,
+          configurationId: configEntry.configurationId,
+        },
+        "Invalid signature for event",
+      );
+      continue;
+    } else if (stripeEventError) {
+      Sentry.captureException(stripeEventError);
+      logger.error({ message: stripeEventError.message, name: stripeEventError.name });
+      return null;
+    }
+
+    return { stripeEvent, configEntry };
   }
 
-  return stripeEvent;
+  return null;
 }
 
+const isEventWithoutMetadata = (stripeEvent: Stripe.DiscriminatedEvent) =>
+  stripeEvent.type.startsWith("charge.dispute.");
+
 async function buffer(readable: Readable) {
   const chunks = [];
   for await (const chunk of readable) {
@@ -217,31 +324,102 @@ const getChannelIdFromEventData = <T>(data?: T) => {
 
 async function stripeEventToTransactionEventReport({
   appConfig,
+  channels,
+  configEntry,
   stripeEvent,
 }: {
   appConfig: PaymentAppConfig;
+  channels: readonly RulesChannel[];
+  configEntry: PaymentAppConfigEntry;
   stripeEvent: Stripe.DiscriminatedEvent;
 }): Promise<TransactionEventReportMutationVariables | null> {
   const logger = createLogger({}, { msgPrefix: "[stripeEventToTransactionEventReport] " });
 
-  const transactionId = getTransactionIdFromEventData(stripeEvent.data);
+  const eventData = await getStripeEventDataWithMetadata({ stripeEvent, configEntry });
+
+  const transactionId = getTransactionIdFromEventData(eventData);
   if (!transactionId) {
     logger.warn("stripeEvent is missing metadata.transactionId");
     return null;
   }
-  const channelId = getChannelIdFromEventData(stripeEvent.data);
+  const channelId = getChannelIdFromEventData(eventData);
   if (!channelId) {
     logger.warn("stripeEvent is missing metadata.channelId");
     return null;
   }
 
-  const stripeConfig = getConfigurationForChannel(appConfig, channelId);
+  const stripeConfig = getConfigurationForChannel(appConfig, getRulesChannel(channels, channelId));
   if (!stripeConfig) {
     logger.warn(`Missing configuration for channel: ${channelId}`);
     return null;
   }
+  const stripeAccount = getStripeEventAccount(stripeEvent);
+  if (stripeAccount && stripeAccount !== stripeConfig.connectedAccountId) {
+    logger.warn(
+      { account: stripeAccount, configurationId: stripeConfig.configurationId },
+      "Connect event comes from an account that isn't configured for the channel",
+    );
+    return null;
+  }
+
+  const transactionEventReport = await stripeEventToTransactionEventReportMutationVariables(
+    transactionId,
+    stripeEvent,
+  );
+  if (!transactionEventReport) {
+    return null;
+  }
 
-  return stripeEventToTransactionEventReportMutationVariables(transactionId, stripeEvent);
+  const [currentObjectError, currentObject] = await unpackPromise(
+    withSecretKeyFallback(stripeConfig, (secretKey) =>
+      retrieveCurrentStripeEventObject({ stripeEvent, secretKey, stripeAccount }),
+    ),
+  );
+  if (currentObjectError) {
+    logger.warn(
+      { err: redactError(currentObjectError) },
+      "Couldn't retrieve current object from Stripe, reporting event as is",
+    );
+    return transactionEventReport;
+  }
+
+  const outdatedReason = getOutdatedStripeEventReason(stripeEvent, currentObject);
+  if (!outdatedReason) {
+    return transactionEventReport;
+  }
+
+  logger.info({ type: stripeEvent.type, outdatedReason }, "Event is outdated, reporting as INFO");
+  return downgradeOutdatedTransactionEventReport(transactionEventReport, {
+    eventType: stripeEvent.type,
+    reason: outdatedReason,
+  });
+}
+
+async function getStripeEventDataWithMetadata({
+  stripeEvent,
+  configEntry,
+}: {
+  stripeEvent: Stripe.DiscriminatedEvent;
+  configEntry: PaymentAppConfigEntry;
+}): Promise<{ object: unknown }> {
+  switch (stripeEvent.type) {
+    case "charge.dispute.created":
+    case "charge.dispute.updated":
+    case "charge.dispute.closed":
+    case "charge.dispute.funds_withdrawn":
+    case "charge.dispute.funds_reinstated": {
+      const disputedObject = await withSecretKeyFallback(configEntry, (secretKey) =>
+        retrieveStripeDisputedObject({
+          dispute: stripeEvent.data.object,
+          secretKey,
+          stripeAccount: getStripeEventAccount(stripeEvent),
+        }),
+      );
+      return { object: disputedObject };
+    }
+    default:
+      return stripeEvent.data;
+  }
 }
 
 export async function stripeEventToTransactionEventReportMutationVariables(
@@ -258,7 +436,12 @@ export async function stripeEventToTransactionEventReportMutationVariables(
     return null;
   }
 
-  const availableActions = getAvailableActionsForType(partialVariables.type);
+  const availableActions = isPartiallyCapturedPaymentIntentEvent(stripeEvent)
+    ? uniq([
+        ...getAvailableActionsForType(partialVariables.type),
+        ...partiallyCapturedAvailableActions,
+      ])
+    : getAvailableActionsForType(partialVariables.type);
 
   const result = {
     transactionId,
@@ -289,7 +472,26 @@ export async function stripeEventToTransactionEventReportMutationVariables(
   return result;
 }
 
-const getAvailableActionsForType = (
+/** With multicapture, the rest of the authorization can still be charged or released */
+const partiallyCapturedAvailableActions = [
+  TransactionActionEnum.Refund,
+  TransactionActionEnum.Charge,
+  TransactionActionEnum.Cancel,
+];
+
+const isPartiallyCapturedPaymentIntentEvent = (stripeEvent: Stripe.DiscriminatedEvent) => {
+  if (!stripeEvent.type.startsWith("payment_intent.")) {
+    return false;
+  }
+  const paymentIntent = stripeEvent.data.object as Stripe.PaymentIntent;
+  return (
+    paymentIntent.status === "requires_capture" &&
+    paymentIntent.amount_received > 0 &&
+    paymentIntent.amount_capturable > 0
+  );
+};
+
+export const getAvailableActionsForType = (
   type: TransactionEventTypeEnum,
 ): readonly TransactionActionEnum[] => {
   switch (type) {
@@ -348,7 +550,161 @@ function stripeEventToPartialTransactionEventReportMutationVariables(
       return stripeChargeRefundUpdatedEventToPartialTransactionEventReportMutationVariables(
         stripeEvent,
       );
+    case "charge.dispute.created":
+    case "charge.dispute.updated":
+    case "charge.dispute.closed":
+    case "charge.dispute.funds_withdrawn":
+    case "charge.dispute.funds_reinstated":
+      return stripeChargeDisputeEventToPartialTransactionEventReportMutationVariables(stripeEvent);
+    case "checkout.session.completed":
+    case "checkout.session.expired":
+    case "checkout.session.async_payment_succeeded":
+    case "checkout.session.async_payment_failed":
+      return stripeCheckoutSessionEventToPartialTransactionEventReportMutationVariables(
+        stripeEvent,
+      );
+    default:
+      return null;
+  }
+}
+
+function stripeCheckoutSessionEventToPartialTransactionEventReportMutationVariables(
+  stripeEvent: Stripe.DiscriminatedEvent.CheckoutSessionEvent,
+) {
+  const session = stripeEvent.data.object;
+  const paymentIntentId =
+    typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : session.payment_intent?.id;
+
+  // PaymentIntent isn't created until the customer submits the payment
+  const pspReference = paymentIntentId || session.id;
+  const externalUrl = paymentIntentId ? getStripeExternalUrlForIntentId(paymentIntentId) : "";
+  const manualCapture = session.metadata?.captureMethod === "manual";
+
+  const amount =
+    session.amount_total && session.currency
+      ? getSaleorAmountFromStripeAmount({
+          amount: session.amount_total,
+          currency: session.currency,
+        })
+      : 0;
+
+  switch (stripeEvent.type) {
+    // PaymentIntent events report the payment itself
+    case "checkout.session.completed":
+      return {
+        amount,
+        type: TransactionEventTypeEnum.Info,
+        message: `Checkout Session completed, payment status: ${session.payment_status}`,
+        pspReference,
+        externalUrl,
+      };
+
+    case "checkout.session.async_payment_succeeded":
+      return {
+        amount,
+        type: TransactionEventTypeEnum.Info,
+        message: "Checkout Session delayed payment succeeded",
+        pspReference,
+        externalUrl,
+      };
+
+    case "checkout.session.async_payment_failed":
+      return {
+        amount,
+        type: manualCapture
+          ? TransactionEventTypeEnum.AuthorizationFailure
+          : TransactionEventTypeEnum.ChargeFailure,
+        message: "Checkout Session delayed payment failed",
+        pspReference,
+        externalUrl,
+      };
+
+    case "checkout.session.expired":
+      return {
+        amount,
+        type: manualCapture
+          ? TransactionEventTypeEnum.AuthorizationFailure
+          : TransactionEventTypeEnum.ChargeFailure,
+        message: "Checkout Session expired",
+        pspReference,
+        externalUrl,
+      };
+
+    default:
+      assertUnreachableButNotThrow(stripeEvent.type);
+      return null;
+  }
+}
+
+const getDisputeMessage = (dispute: Stripe.Dispute) => {
+  const dueBy = dispute.evidence_details.due_by;
+  return [
+    `Dispute ${dispute.status}`,
+    `reason: ${dispute.reason}`,
+    dueBy && `evidence due by: ${new Date(dueBy * 1000).toISOString()}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+};
+
+function stripeChargeDisputeEventToPartialTransactionEventReportMutationVariables(
+  stripeEvent: Stripe.DiscriminatedEvent.ChargeDisputeEvent,
+) {
+  const dispute = stripeEvent.data.object;
+  const paymentIntentId =
+    typeof dispute.payment_intent === "string"
+      ? dispute.payment_intent
+      : dispute.payment_intent?.id;
+  const chargeId = typeof dispute.charge === "string" ? dispute.charge : dispute.charge.id;
+
+  // we can use chargeID for externalURL - it automatically redirects to the right place
+  const externalUrl = getStripeExternalUrlForIntentId(paymentIntentId || chargeId);
+  const pspReference = dispute.id;
+
+  const amount = getSaleorAmountFromStripeAmount({
+    amount: dispute.amount,
+    currency: dispute.currency,
+  });
+  const message = getDisputeMessage(dispute);
+
+  switch (stripeEvent.type) {
+    // funds were taken from the merchant
+    case "charge.dispute.funds_withdrawn":
+      return {
+        amount,
+        type: TransactionEventTypeEnum.ChargeBack,
+        message,
+        pspReference,
+        externalUrl,
+      };
+
+    // merchant won the dispute and funds were returned
+    case "charge.dispute.funds_reinstated":
+      return {
+        amount,
+        type: TransactionEventTypeEnum.RefundReverse,
+        message,
+        pspReference,
+        externalUrl,
+      };
+
+    // Saleor skips events with the same type and pspReference, so each status change
+    // is reported with the id of its Stripe event
+    case "charge.dispute.created":
+    case "charge.dispute.updated":
+    case "charge.dispute.closed":
+      return {
+        amount,
+        type: TransactionEventTypeEnum.Info,
+        message,
+        pspReference: getStripeEventId(stripeEvent),
+        externalUrl,
+      };
+
     default:
+      assertUnreachableButNotThrow(stripeEvent.type);
       return null;
   }
 }
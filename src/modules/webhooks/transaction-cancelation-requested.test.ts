@@ -71,4 +71,79 @@ describe("TransactionCancelationRequestedWebhookHandler", () => {
       expect(cancelationResult.externalUrl).toContain(pspReference);
     });
   });
+
+  describe("after partial capture", () => {
+    const paymentIntentUrl = "https://api.stripe.com/v1/payment_intents/pi_partial";
+
+    const createPaymentIntent = (status: string) => ({
+      id: "pi_partial",
+      object: "payment_intent",
+      amount: 22299,
+      amount_capturable: 0,
+      amount_received: 10000,
+      capture_method: "manual",
+      currency: "usd",
+      status,
+    });
+
+    const cancel = async () =>
+      TransactionCancelationRequestedWebhookHandler(
+        await createMockTransactionCancelationRequestedEvent({
+          transaction: { pspReference: "pi_partial" },
+        }),
+        testEnv.TEST_SALEOR_API_URL,
+      );
+
+    it("reports the remainder released by Stripe as canceled", async (ctx) => {
+      ctx.polly?.server.post(`${paymentIntentUrl}/cancel`).intercept((_req, res) => {
+        res.status(400).json({
+          error: {
+            type: "invalid_request_error",
+            code: "payment_intent_unexpected_state",
+            message: "You cannot cancel this PaymentIntent because it has a status of succeeded.",
+          },
+        });
+      });
+      ctx.polly?.server.get(paymentIntentUrl).intercept((_req, res) => {
+        res.json(createPaymentIntent("succeeded"));
+      });
+
+      const cancelationResult = await cancel();
+
+      expect(cancelationResult).toEqual({
+        pspReference: "pi_partial",
+        amount: 122.99,
+        result: TransactionEventTypeEnum.CancelSuccess,
+        externalUrl: expect.stringContaining("pi_partial"),
+      });
+    });
+
+    it("releases the remainder of multicapture authorization", async (ctx) => {
+      ctx.polly?.server.post(`${paymentIntentUrl}/cancel`).intercept((_req, res) => {
+        res.json(createPaymentIntent("canceled"));
+      });
+
+      const cancelationResult = await cancel();
+
+      expect(cancelationResult.amount).toEqual(122.99);
+      expect(cancelationResult.result).toEqual(TransactionEventTypeEnum.CancelSuccess);
+    });
+
+    it("throws when the payment intent can't be canceled", async (ctx) => {
+      ctx.polly?.server.post(`${paymentIntentUrl}/cancel`).intercept((_req, res) => {
+        res.status(400).json({
+          error: {
+            type: "invalid_request_error",
+            code: "payment_intent_unexpected_state",
+            message: "You cannot cancel this PaymentIntent because it has a status of succeeded.",
+          },
+        });
+      });
+      ctx.polly?.server.get(paymentIntentUrl).intercept((_req, res) => {
+        res.json({ ...createPaymentIntent("succeeded"), amount_received: 22299 });
+      });
+
+      await expect(cancel()).rejects.toThrowError("You cannot cancel this PaymentIntent");
+    });
+  });
 });
@@ -1,11 +1,13 @@
 import { getWebhookPaymentAppConfigurator } from "../payment-app-configuration/payment-app-configuration-factory";
 import { paymentAppFullyConfiguredEntrySchema } from "../payment-app-configuration/config-entry";
 import { getConfigurationForChannel } from "../payment-app-configuration/payment-app-configuration";
-import {
-  getStripeExternalUrlForIntentId,
-  processStripePaymentIntentCancelRequest,
-} from "../stripe/stripe-api";
+import { getStripeExternalUrlForIntentId } from "../stripe/stripe-api";
+import { releaseStripePaymentIntentAuthorization } from "../stripe/multicapture";
 import { getSaleorAmountFromStripeAmount } from "../stripe/currencies";
+import { getStripeAccountForDirectCharges } from "../stripe/stripe-connect";
+import { createStripeRequestBudget } from "../stripe/stripe-request-budget";
+import { getSaleorRequestEventId, getStripeIdempotencyKey } from "../stripe/stripe-idempotency";
+import { withSecretKeyFallback } from "../payment-app-configuration/secret-key-rotation";
 import { type TransactionCancelationRequestedResponse } from "@/schemas/TransactionCancelationRequested/TransactionCancelationRequestedResponse.mjs";
 import {
   TransactionEventTypeEnum,
@@ -18,6 +20,7 @@ export const TransactionCancelationRequestedWebhookHandler = async (
   event: TransactionCancelationRequestedEventFragment,
   saleorApiUrl: string,
 ): Promise<TransactionCancelationRequestedResponse> => {
+  const budget = createStripeRequestBudget();
   const app = event.recipient;
   invariant(app, "Missing event.recipient!");
   invariant(
@@ -31,29 +34,44 @@ export const TransactionCancelationRequestedWebhookHandler = async (
   const configurator = getWebhookPaymentAppConfigurator({ privateMetadata }, saleorApiUrl);
   const appConfig = await configurator.getConfig();
   const stripeConfig = paymentAppFullyConfiguredEntrySchema.parse(
-    getConfigurationForChannel(appConfig, event.transaction.sourceObject?.channel.id),
+    getConfigurationForChannel(appConfig, event.transaction.sourceObject?.channel),
   );
+  const stripeAccount = getStripeAccountForDirectCharges(stripeConfig);
 
-  const stripePaymentIntentCancelResponse = await processStripePaymentIntentCancelRequest({
-    paymentIntentId: event.transaction.pspReference,
-    secretKey: stripeConfig.secretKey,
+  const paymentIntentId = event.transaction.pspReference;
+  const idempotencyKey = getStripeIdempotencyKey({
+    transactionId: event.transaction.id,
+    action: event.action.actionType,
+    amount: event.action.amount,
+    requestEventId: getSaleorRequestEventId(event.action.actionType, event.transaction.events),
   });
+  const { paymentIntent, releasedStripeAmount } = await withSecretKeyFallback(
+    stripeConfig,
+    (secretKey) =>
+      releaseStripePaymentIntentAuthorization({
+        paymentIntentId,
+        secretKey,
+        stripeAccount,
+        budget,
+        idempotencyKey,
+      }),
+  );
 
   const transactionCancelationRequestedResponse: TransactionCancelationRequestedResponse =
-    stripePaymentIntentCancelResponse.status === "canceled"
-      ? // Sync flow
+    releasedStripeAmount !== null
+      ? // Sync flow; only the amount that wasn't captured is released
         {
-          pspReference: stripePaymentIntentCancelResponse.id,
+          pspReference: paymentIntent.id,
           amount: getSaleorAmountFromStripeAmount({
-            amount: stripePaymentIntentCancelResponse.amount,
-            currency: stripePaymentIntentCancelResponse.currency,
+            amount: releasedStripeAmount,
+            currency: paymentIntent.currency,
           }),
           result: TransactionEventTypeEnum.CancelSuccess,
-          externalUrl: getStripeExternalUrlForIntentId(stripePaymentIntentCancelResponse.id),
+          externalUrl: getStripeExternalUrlForIntentId(paymentIntent.id),
         }
       : // Async flow; waiting for confirmation
         {
-          pspReference: stripePaymentIntentCancelResponse.id,
+          pspReference: paymentIntent.id,
         };
 
   return transactionCancelationRequestedResponse;
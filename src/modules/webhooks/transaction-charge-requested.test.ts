@@ -3,6 +3,7 @@ import { describe, it, expect } from "vitest";
 import { getStripeApiClient } from "../stripe/stripe-api";
 import { TransactionChargeRequestedWebhookHandler } from "./transaction-charge-requested";
 import {
+  createMockApp,
   createMockTransactionChargeRequestedEvent,
   createMockStripeDataActionNotRequired,
   createMockTransactionInitializeSessionEvent,
@@ -10,6 +11,8 @@ import {
 import { TransactionInitializeSessionWebhookHandler } from "./transaction-initialize-session";
 import { setupRecording } from "@/__tests__/polly";
 import { testEnv } from "@/__tests__/test-env.mjs";
+import { getFakePaymentAppConfigurator } from "@/modules/payment-app-configuration/__tests__/payment-app-configuration-factory";
+import { filledFakeMatadataConfig } from "@/modules/payment-app-configuration/__tests__/utils";
 
 import { TransactionEventTypeEnum, TransactionFlowStrategyEnum } from "generated/graphql";
 import { invariant } from "@/lib/invariant";
@@ -115,4 +118,70 @@ describe("TransactionChargeRequestedWebhookHandler", () => {
       expect(chargeResult.externalUrl).toContain(pspReference);
     });
   });
+
+  describe("multicapture", () => {
+    it("reports only the amount captured by each partial capture", async (ctx) => {
+      // PaymentIntent with multicapture available, Stripe sums up captures in amount_received
+      const paymentIntent = {
+        id: "pi_1",
+        object: "payment_intent",
+        amount: 22299,
+        amount_capturable: 22299,
+        amount_received: 0,
+        currency: "pln",
+        status: "requires_capture",
+        latest_charge: {
+          id: "ch_1",
+          object: "charge",
+          payment_method_details: { card: { multicapture: { status: "available" } } },
+        },
+      };
+      ctx.polly?.server
+        .get("https://api.stripe.com/v1/payment_intents/pi_1")
+        .intercept((_req, res) => {
+          res.json(paymentIntent);
+        });
+      ctx.polly?.server
+        .post("https://api.stripe.com/v1/payment_intents/pi_1/capture")
+        .intercept((req, res) => {
+          const params = new URLSearchParams(req.body as string);
+          const amountToCapture = Number(params.get("amount_to_capture"));
+          expect(params.get("final_capture")).toBe("false");
+          paymentIntent.amount_capturable -= amountToCapture;
+          paymentIntent.amount_received += amountToCapture;
+          res.json(paymentIntent);
+        });
+
+      const privateMetadata = await getFakePaymentAppConfigurator(
+        {
+          ...filledFakeMatadataConfig,
+          configurations: [{ ...filledFakeMatadataConfig.configurations[0], multicapture: true }],
+        },
+        testEnv.TEST_SALEOR_API_URL,
+      ).getRawConfig();
+
+      const chargeResults = [];
+      for (const amount of [50, 70]) {
+        const transactionChargeEvent = await createMockTransactionChargeRequestedEvent({
+          action: { amount },
+          transaction: { pspReference: "pi_1" },
+        });
+        chargeResults.push(
+          await TransactionChargeRequestedWebhookHandler(
+            {
+              ...transactionChargeEvent,
+              recipient: { ...(await createMockApp()), privateMetadata },
+            },
+            testEnv.TEST_SALEOR_API_URL,
+          ),
+        );
+      }
+
+      expect(paymentIntent.amount_received).toBe(12000);
+      expect(chargeResults).toEqual([
+        expect.objectContaining({ amount: 50, result: TransactionEventTypeEnum.ChargeSuccess }),
+        expect.objectContaining({ amount: 70, result: TransactionEventTypeEnum.ChargeSuccess }),
+      ]);
+    });
+  });
 });
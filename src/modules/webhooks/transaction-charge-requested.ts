@@ -10,6 +10,12 @@ import {
   getSaleorAmountFromStripeAmount,
   getStripeAmountFromSaleorMoney,
 } from "../stripe/currencies";
+import { ensureStripePaymentIntentAuthorizedAmount } from "../stripe/incremental-authorization";
+import { isFinalStripeCapture } from "../stripe/multicapture";
+import { getStripeAccountForDirectCharges } from "../stripe/stripe-connect";
+import { createStripeRequestBudget } from "../stripe/stripe-request-budget";
+import { getSaleorRequestEventId, getStripeIdempotencyKey } from "../stripe/stripe-idempotency";
+import { withSecretKeyFallback } from "../payment-app-configuration/secret-key-rotation";
 import { type TransactionChargeRequestedResponse } from "@/schemas/TransactionChargeRequested/TransactionChargeRequestedResponse.mjs";
 import {
   type TransactionChargeRequestedEventFragment,
@@ -22,6 +28,7 @@ export const TransactionChargeRequestedWebhookHandler = async (
   event: TransactionChargeRequestedEventFragment,
   saleorApiUrl: string,
 ): Promise<TransactionChargeRequestedResponse> => {
+  const budget = createStripeRequestBudget();
   const app = event.recipient;
   invariant(app, "Missing event.recipient!");
   invariant(
@@ -36,29 +43,82 @@ export const TransactionChargeRequestedWebhookHandler = async (
   const configurator = getWebhookPaymentAppConfigurator({ privateMetadata }, saleorApiUrl);
   const appConfig = await configurator.getConfig();
   const stripeConfig = paymentAppFullyConfiguredEntrySchema.parse(
-    getConfigurationForChannel(appConfig, event.transaction.sourceObject?.channel.id),
+    getConfigurationForChannel(appConfig, event.transaction.sourceObject?.channel),
   );
+  const stripeAccount = getStripeAccountForDirectCharges(stripeConfig);
 
-  const stripePaymentIntentCaptureResponse = await processStripePaymentIntentCaptureRequest({
-    paymentIntentId: event.transaction.pspReference,
-    stripeAmount: getStripeAmountFromSaleorMoney({
-      amount: event.action.amount,
-      currency: event.transaction.sourceObject.total.gross.currency,
-    }),
-    secretKey: stripeConfig.secretKey,
+  const stripeAmount = getStripeAmountFromSaleorMoney({
+    amount: event.action.amount,
+    currency: event.transaction.sourceObject.total.gross.currency,
   });
 
+  const transactionId = event.transaction.id;
+  const paymentIntentId = event.transaction.pspReference;
+  const requestEventId = getSaleorRequestEventId(event.action.actionType, event.transaction.events);
+  const getIdempotencyKey = (action: string) =>
+    getStripeIdempotencyKey({
+      transactionId,
+      action,
+      amount: event.action.amount,
+      requestEventId,
+    });
+
+  if (stripeConfig.incrementalAuthorization) {
+    // e.g. order was edited after authorization and its total grew
+    await withSecretKeyFallback(stripeConfig, (secretKey) =>
+      ensureStripePaymentIntentAuthorizedAmount({
+        paymentIntentId,
+        stripeAmount,
+        secretKey,
+        stripeAccount,
+        budget,
+        idempotencyKey: getIdempotencyKey("INCREMENT_AUTHORIZATION"),
+      }),
+    );
+  }
+
+  const finalCapture = stripeConfig.multicapture
+    ? await withSecretKeyFallback(stripeConfig, (secretKey) =>
+        isFinalStripeCapture({
+          paymentIntentId,
+          stripeAmount,
+          secretKey,
+          stripeAccount,
+          budget,
+        }),
+      )
+    : true;
+
+  const stripePaymentIntentCaptureResponse = await withSecretKeyFallback(
+    stripeConfig,
+    (secretKey) =>
+      processStripePaymentIntentCaptureRequest({
+        paymentIntentId,
+        stripeAmount,
+        finalCapture,
+        secretKey,
+        stripeAccount,
+        budget,
+        idempotencyKey: getIdempotencyKey(event.action.actionType),
+      }),
+  );
+
   const pspReference = stripePaymentIntentCaptureResponse.id;
+  // `amount_received` sums up all captures, Saleor expects only the amount captured by this request
   const amount = getSaleorAmountFromStripeAmount({
-    amount: stripePaymentIntentCaptureResponse.amount_received,
+    amount: stripeAmount,
     currency: stripePaymentIntentCaptureResponse.currency,
   });
   const externalUrl = getStripeExternalUrlForIntentId(pspReference);
 
-  const result = stripePaymentIntentToTransactionResult(
-    TransactionFlowStrategyEnum.Charge,
-    stripePaymentIntentCaptureResponse,
-  );
+  // After a partial capture the rest stays authorized, so the PaymentIntent still requires capture
+  const result =
+    !finalCapture && stripePaymentIntentCaptureResponse.status === "requires_capture"
+      ? "CHARGE_SUCCESS"
+      : stripePaymentIntentToTransactionResult(
+          TransactionFlowStrategyEnum.Charge,
+          stripePaymentIntentCaptureResponse,
+        );
 
   if (result === "CHARGE_SUCCESS" || result === "CHARGE_FAILURE") {
     // Sync flow
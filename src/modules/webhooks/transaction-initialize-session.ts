@@ -1,24 +1,56 @@
 import {
+  createStripeCustomerEphemeralKey,
   getEnvironmentFromKey,
   getStripeExternalUrlForIntentId,
+  initializeStripeCheckoutSession,
   initializeStripePaymentIntent,
   stripePaymentIntentToTransactionResult,
   transactionSessionInitializeEventToStripeCreate,
 } from "../stripe/stripe-api";
 import { getSaleorAmountFromStripeAmount } from "../stripe/currencies";
+import {
+  getPaymentFlow,
+  parseCheckoutSessionData,
+  transactionSessionInitializeEventToStripeCheckoutSessionCreate,
+} from "../stripe/checkout-session";
+import {
+  getOrCreateStripeCustomer,
+  getSaleorCustomerFromEvent,
+  hasSavePaymentMethodsPermission,
+  SAVE_PAYMENT_METHODS_PERMISSION,
+} from "../stripe/stripe-customer";
+import { withIncrementalAuthorization } from "../stripe/incremental-authorization";
+import { withMulticapture } from "../stripe/multicapture";
+import { getStripeAccountForDirectCharges } from "../stripe/stripe-connect";
+import {
+  createStripeRequestBudget,
+  type StripeRequestBudget,
+} from "../stripe/stripe-request-budget";
+import { getStripeInitializeIdempotencyKey } from "../stripe/stripe-idempotency";
+import { withSecretKeyFallback } from "../payment-app-configuration/secret-key-rotation";
 import { getWebhookPaymentAppConfigurator } from "../payment-app-configuration/payment-app-configuration-factory";
-import { paymentAppFullyConfiguredEntrySchema } from "../payment-app-configuration/config-entry";
+import {
+  type PaymentAppConfigEntryFullyConfigured,
+  paymentAppFullyConfiguredEntrySchema,
+} from "../payment-app-configuration/config-entry";
 import { obfuscateConfig, obfuscateValue } from "../app-configuration/utils";
 import { getConfigurationForChannel } from "../payment-app-configuration/payment-app-configuration";
 import { type TransactionInitializeSessionResponse } from "@/schemas/TransactionInitializeSession/TransactionInitializeSessionResponse.mjs";
-import { type TransactionInitializeSessionEventFragment } from "generated/graphql";
+import {
+  TransactionFlowStrategyEnum,
+  type TransactionInitializeSessionEventFragment,
+} from "generated/graphql";
 import { invariant } from "@/lib/invariant";
-import { createLogger } from "@/lib/logger";
+import { createLogger, redactError } from "@/lib/logger";
+import { __do, unpackPromise } from "@/lib/utils";
+import { createServerClient } from "@/lib/create-graphq-client";
+import { saleorApp } from "@/saleor-app";
 
 export const TransactionInitializeSessionWebhookHandler = async (
   event: TransactionInitializeSessionEventFragment,
   saleorApiUrl: string,
 ): Promise<TransactionInitializeSessionResponse> => {
+  const budget = createStripeRequestBudget();
   const logger = createLogger(
     { saleorApiUrl },
     { msgPrefix: "[TransactionInitializeSessionWebhookHandler] " },
@@ -45,25 +77,62 @@ export const TransactionInitializeSessionWebhookHandler = async (
   const appConfig = await configurator.getConfig();
 
   const stripeConfig = paymentAppFullyConfiguredEntrySchema.parse(
-    getConfigurationForChannel(appConfig, event.sourceObject.channel.id),
+    getConfigurationForChannel(appConfig, event.sourceObject.channel),
   );
+  const stripeAccount = getStripeAccountForDirectCharges(stripeConfig);
 
-  logger.info({}, "Processing Transaction Initialize request");
+  const paymentFlow = getPaymentFlow(event.data, stripeConfig.paymentFlow);
+  const idempotencyKey = getStripeInitializeIdempotencyKey({
+    transactionId: event.transaction.id,
+    amount: event.action.amount,
+  });
+  logger.info({ paymentFlow }, "Processing Transaction Initialize request");
+
+  if (paymentFlow === "checkoutSession") {
+    return initializeCheckoutSession(event, stripeConfig, saleorApiUrl, budget, idempotencyKey);
+  }
 
-  const paymentIntentCreateParams = transactionSessionInitializeEventToStripeCreate(event);
+  const stripeCustomer = stripeConfig.savePaymentMethods
+    ? await getStripeCustomerForEvent(event, stripeConfig, saleorApiUrl, budget)
+    : null;
+
+  const paymentIntentCreateParams = __do(() => {
+    const params = transactionSessionInitializeEventToStripeCreate(
+      event,
+      saleorApiUrl,
+      stripeConfig.paymentIntentDataAllowList,
+      stripeConfig,
+    );
+    const withIncrementalAuthorizationParams = stripeConfig.incrementalAuthorization
+      ? withIncrementalAuthorization(params)
+      : params;
+    return stripeConfig.multicapture
+      ? withMulticapture(withIncrementalAuthorizationParams)
+      : withIncrementalAuthorizationParams;
+  });
+  if (stripeCustomer) {
+    paymentIntentCreateParams.customer = stripeCustomer.id;
+    paymentIntentCreateParams.setup_future_usage ??= "off_session";
+  }
   logger.debug({
     paymentIntentCreateParams: obfuscateConfig(paymentIntentCreateParams),
     environment: getEnvironmentFromKey(stripeConfig.publishableKey),
   });
 
-  const stripePaymentIntent = await initializeStripePaymentIntent({
-    paymentIntentCreateParams,
-    secretKey: stripeConfig.secretKey,
-  });
+  const stripePaymentIntent = await withSecretKeyFallback(stripeConfig, (secretKey) =>
+    initializeStripePaymentIntent({
+      paymentIntentCreateParams,
+      secretKey,
+      stripeAccount,
+      budget,
+      idempotencyKey,
+    }),
+  );
 
   const data = {
     paymentIntent: { client_secret: stripePaymentIntent.client_secret },
     publishableKey: stripeConfig.publishableKey,
+    ...(stripeCustomer && { customer: stripeCustomer }),
   };
   logger.debug(
     {
@@ -73,6 +142,7 @@ export const TransactionInitializeSessionWebhookHandler = async (
           : "",
       },
       publishableKey: obfuscateValue(data.publishableKey),
+      customer: stripeCustomer && { id: stripeCustomer.id },
     },
     "Transaction Initialize response",
   );
@@ -104,3 +174,115 @@ export const TransactionInitializeSessionWebhookHandler = async (
 
   return transactionInitializeSessionResponse;
 };
+
+/**
+ * Finds or creates Stripe Customer of the logged-in buyer, with ephemeral key for Payment Element.
+ * Skipped when the app wasn't granted the permission to keep Customer ids in Saleor users.
+ * Errors are only logged - the buyer can still pay without saved payment methods
+ */
+const getStripeCustomerForEvent = async (
+  event: TransactionInitializeSessionEventFragment,
+  stripeConfig: PaymentAppConfigEntryFullyConfigured,
+  saleorApiUrl: string,
+  budget: StripeRequestBudget,
+) => {
+  const logger = createLogger({ saleorApiUrl }, { msgPrefix: "[getStripeCustomerForEvent] " });
+  const stripeAccount = getStripeAccountForDirectCharges(stripeConfig);
+
+  const customer = getSaleorCustomerFromEvent(event);
+  if (!customer) {
+    logger.debug("Buyer isn't logged in, skipping Stripe Customer");
+    return null;
+  }
+  if (!hasSavePaymentMethodsPermission(event.recipient?.permissions)) {
+    logger.warn(
+      { permission: SAVE_PAYMENT_METHODS_PERMISSION },
+      "App doesn't have the permission needed to save payment methods, skipping Stripe Customer",
+    );
+    return null;
+  }
+
+  const [error, stripeCustomer] = await unpackPromise(
+    __do(async () => {
+      const authData = await saleorApp.apl.get(saleorApiUrl);
+      invariant(authData, `APL for ${saleorApiUrl} not found`);
+
+      const { id } = await withSecretKeyFallback(stripeConfig, (secretKey) =>
+        getOrCreateStripeCustomer({
+          client: createServerClient(saleorApiUrl, authData.token),
+          customer,
+          configurationId: stripeConfig.configurationId,
+          secretKey,
+          stripeAccount,
+          budget,
+        }),
+      );
+      const ephemeralKey = await withSecretKeyFallback(stripeConfig, (secretKey) =>
+        createStripeCustomerEphemeralKey({
+          customerId: id,
+          secretKey,
+          stripeAccount,
+          budget,
+        }),
+      );
+      invariant(ephemeralKey.secret, "Missing ephemeral key secret");
+
+      return { id, ephemeralKey: ephemeralKey.secret };
+    }),
+  );
+  if (error) {
+    logger.warn({ err: redactError(error) }, "Couldn't get Stripe Customer, skipping");
+    return null;
+  }
+  return stripeCustomer;
+};
+
+const initializeCheckoutSession = async (
+  event: TransactionInitializeSessionEventFragment,
+  stripeConfig: PaymentAppConfigEntryFullyConfigured,
+  saleorApiUrl: string,
+  budget: StripeRequestBudget,
+  idempotencyKey: string,
+): Promise<TransactionInitializeSessionResponse> => {
+  const logger = createLogger({}, { msgPrefix: "[initializeCheckoutSession] " });
+  const stripeAccount = getStripeAccountForDirectCharges(stripeConfig);
+
+  const checkoutSessionCreateParams =
+    transactionSessionInitializeEventToStripeCheckoutSessionCreate(
+      event,
+      saleorApiUrl,
+      parseCheckoutSessionData(event.data),
+      stripeConfig,
+    );
+  logger.debug({
+    checkoutSessionCreateParams: obfuscateConfig(checkoutSessionCreateParams),
+    environment: getEnvironmentFromKey(stripeConfig.publishableKey),
+  });
+
+  const checkoutSession = await withSecretKeyFallback(stripeConfig, (secretKey) =>
+    initializeStripeCheckoutSession({
+      checkoutSessionCreateParams,
+      secretKey,
+      stripeAccount,
+      budget,
+      idempotencyKey,
+    }),
+  );
+  invariant(checkoutSession.url, "Missing Checkout Session url");
+  logger.debug({ id: checkoutSession.id }, "Checkout Session created");
+
+  // Payment is reported by webhooks once the customer completes the Checkout page
+  return {
+    data: {
+      checkoutSession: { id: checkoutSession.id, url: checkoutSession.url },
+      publishableKey: stripeConfig.publishableKey,
+    },
+    result:
+      event.action.actionType === TransactionFlowStrategyEnum.Charge
+        ? "CHARGE_ACTION_REQUIRED"
+        : "AUTHORIZATION_ACTION_REQUIRED",
+    amount: event.action.amount,
+    time: new Date(checkoutSession.created * 1000).toISOString(),
+    message: "",
+  };
+};
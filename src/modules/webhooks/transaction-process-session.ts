@@ -10,6 +10,9 @@ import {
   updateStripePaymentIntent,
 } from "../stripe/stripe-api";
 import { getSaleorAmountFromStripeAmount } from "../stripe/currencies";
+import { getStripeAccountForDirectCharges } from "../stripe/stripe-connect";
+import { createStripeRequestBudget } from "../stripe/stripe-request-budget";
+import { withSecretKeyFallback } from "../payment-app-configuration/secret-key-rotation";
 import { type TransactionProcessSessionEventFragment } from "generated/graphql";
 import { type TransactionProcessSessionResponse } from "@/schemas/TransactionProcessSession/TransactionProcessSessionResponse.mjs";
 import { createLogger } from "@/lib/logger";
@@ -19,6 +22,7 @@ export const TransactionProcessSessionWebhookHandler = async (
   event: TransactionProcessSessionEventFragment,
   saleorApiUrl: string,
 ): Promise<TransactionProcessSessionResponse> => {
+  const budget = createStripeRequestBudget();
   const logger = createLogger({}, { msgPrefix: "[TransactionProcessSessionWebhookHandler] " });
   logger.debug(
     {
@@ -42,22 +46,32 @@ export const TransactionProcessSessionWebhookHandler = async (
   const appConfig = await configurator.getConfig();
 
   const stripeConfig = paymentAppFullyConfiguredEntrySchema.parse(
-    getConfigurationForChannel(appConfig, event.sourceObject.channel.id),
+    getConfigurationForChannel(appConfig, event.sourceObject.channel),
   );
+  const stripeAccount = getStripeAccountForDirectCharges(stripeConfig);
 
   logger.info({}, "Processing Transaction Initialize request");
 
-  const paymentIntentUpdateParams = transactionSessionProcessEventToStripeUpdate(event);
+  const paymentIntentUpdateParams = transactionSessionProcessEventToStripeUpdate(
+    event,
+    saleorApiUrl,
+    stripeConfig.paymentIntentDataAllowList,
+    stripeConfig,
+  );
   logger.debug({
     paymentIntentUpdateParams: obfuscateConfig(paymentIntentUpdateParams),
     environment: getEnvironmentFromKey(stripeConfig.publishableKey),
   });
 
-  const stripePaymentIntent = await updateStripePaymentIntent({
-    intentId: event.transaction.pspReference,
-    paymentIntentUpdateParams,
-    secretKey: stripeConfig.secretKey,
-  });
+  const stripePaymentIntent = await withSecretKeyFallback(stripeConfig, (secretKey) =>
+    updateStripePaymentIntent({
+      intentId: event.transaction.pspReference,
+      paymentIntentUpdateParams,
+      secretKey,
+      stripeAccount,
+      budget,
+    }),
+  );
 
   const data = {
     paymentIntent: { client_secret: stripePaymentIntent.client_secret },
@@ -224,4 +224,110 @@ describe("TransactionRefundRequestedWebhookHandler", () => {
       expect(refundResult.externalUrl).toContain(pspReference);
     });
   });
+
+  describe("duplicate refund request", () => {
+    it("returns the original refund instead of refunding again", async (ctx) => {
+      // Stripe returns the original object for a request with already used idempotency key
+      const refunds = new Map<string, { id: string }>();
+      const idempotencyKeys: string[] = [];
+      ctx.polly?.server.post("https://api.stripe.com/v1/refunds").intercept((req, res) => {
+        const idempotencyKey = req.getHeader("idempotency-key") as string;
+        idempotencyKeys.push(idempotencyKey);
+        const refund = refunds.get(idempotencyKey) ?? {
+          id: `re_${refunds.size + 1}`,
+          object: "refund",
+          amount: 22299,
+          currency: "pln",
+          payment_intent: "pi_1",
+          status: "succeeded",
+        };
+        refunds.set(idempotencyKey, refund);
+        res.json(refund);
+      });
+
+      const transactionRefundEvent = await createMockTransactionRefundRequestedEvent({
+        issuedAt: "2024-01-01T10:00:00+00:00",
+        transaction: { pspReference: "pi_1" },
+      });
+      const refundResult = await TransactionRefundRequestedWebhookHandler(
+        transactionRefundEvent,
+        testEnv.TEST_SALEOR_API_URL,
+      );
+      // Saleor sends the webhook again with the time of the new attempt
+      const duplicateRefundResult = await TransactionRefundRequestedWebhookHandler(
+        { ...transactionRefundEvent, issuedAt: "2024-01-01T10:00:20+00:00" },
+        testEnv.TEST_SALEOR_API_URL,
+      );
+
+      expect(refunds.size).toBe(1);
+      expect(idempotencyKeys[0]).toEqual(idempotencyKeys[1]);
+      expect(duplicateRefundResult).toEqual(refundResult);
+      expect(refundResult).toMatchObject({
+        pspReference: "re_1",
+        result: TransactionEventTypeEnum.RefundSuccess,
+      });
+    });
+
+    it("refunds again when Saleor requests another refund of the same amount", async (ctx) => {
+      const idempotencyKeys: string[] = [];
+      ctx.polly?.server.post("https://api.stripe.com/v1/refunds").intercept((req, res) => {
+        idempotencyKeys.push(req.getHeader("idempotency-key") as string);
+        res.json({
+          id: `re_${idempotencyKeys.length}`,
+          object: "refund",
+          amount: 22299,
+          currency: "pln",
+          payment_intent: "pi_1",
+          status: "succeeded",
+        });
+      });
+
+      const refundRequestEvents = [
+        { id: "VHJhbnNhY3Rpb25FdmVudDox", type: TransactionEventTypeEnum.RefundRequest },
+        { id: "VHJhbnNhY3Rpb25FdmVudDoy", type: TransactionEventTypeEnum.RefundSuccess },
+        { id: "VHJhbnNhY3Rpb25FdmVudDoz", type: TransactionEventTypeEnum.RefundRequest },
+      ];
+      // every refund request is recorded by Saleor as a transaction event
+      for (const events of [refundRequestEvents.slice(0, 1), refundRequestEvents]) {
+        await TransactionRefundRequestedWebhookHandler(
+          await createMockTransactionRefundRequestedEvent({
+            transaction: { pspReference: "pi_1", events },
+          }),
+          testEnv.TEST_SALEOR_API_URL,
+        );
+      }
+
+      expect(idempotencyKeys).toHaveLength(2);
+      expect(idempotencyKeys[0]).not.toEqual(idempotencyKeys[1]);
+    });
+
+    it("uses key of the transaction, action and amount without a refund request event", async (ctx) => {
+      const idempotencyKeys: string[] = [];
+      ctx.polly?.server.post("https://api.stripe.com/v1/refunds").intercept((req, res) => {
+        idempotencyKeys.push(req.getHeader("idempotency-key") as string);
+        res.json({
+          id: "re_1",
+          object: "refund",
+          amount: 22299,
+          currency: "pln",
+          payment_intent: "pi_1",
+          status: "succeeded",
+        });
+      });
+
+      const transactionRefundEvent = await createMockTransactionRefundRequestedEvent({
+        transaction: { pspReference: "pi_1" },
+      });
+      await TransactionRefundRequestedWebhookHandler(
+        {
+          ...transactionRefundEvent,
+          transaction: { ...transactionRefundEvent.transaction!, events: [] },
+        },
+        testEnv.TEST_SALEOR_API_URL,
+      );
+
+      // Refunds of the same amount share this key, so Stripe returns the first one for 24 hours
+      expect(idempotencyKeys).toEqual(["saleor:55555:REFUND:222.99"]);
+    });
+  });
 });
@@ -9,6 +9,10 @@ import {
   getStripeExternalUrlForIntentId,
   processStripePaymentIntentRefundRequest,
 } from "../stripe/stripe-api";
+import { getStripeAccountForDirectCharges } from "../stripe/stripe-connect";
+import { createStripeRequestBudget } from "../stripe/stripe-request-budget";
+import { getSaleorRequestEventId, getStripeIdempotencyKey } from "../stripe/stripe-idempotency";
+import { withSecretKeyFallback } from "../payment-app-configuration/secret-key-rotation";
 import { invariant } from "@/lib/invariant";
 import { type TransactionRefundRequestedResponse } from "@/schemas/TransactionRefundRequesed/TransactionRefundRequestedResponse.mjs";
 import {
@@ -21,6 +25,7 @@ export const TransactionRefundRequestedWebhookHandler = async (
   event: TransactionRefundRequestedEventFragment,
   saleorApiUrl: string,
 ): Promise<TransactionRefundRequestedResponse> => {
+  const budget = createStripeRequestBudget();
   const app = event.recipient;
 
   invariant(app, "Missing event.recipient!");
@@ -35,20 +40,36 @@ export const TransactionRefundRequestedWebhookHandler = async (
   const configurator = getWebhookPaymentAppConfigurator({ privateMetadata }, saleorApiUrl);
   const appConfig = await configurator.getConfig();
   const stripeConfig = paymentAppFullyConfiguredEntrySchema.parse(
-    getConfigurationForChannel(appConfig, event.transaction.sourceObject?.channel.id),
+    getConfigurationForChannel(appConfig, event.transaction.sourceObject?.channel),
   );
+  const stripeAccount = getStripeAccountForDirectCharges(stripeConfig);
 
-  const stripePaymentIntentRefundResponse = await processStripePaymentIntentRefundRequest({
-    stripeAmount:
-      event.action.amount && event.transaction.sourceObject?.total?.gross?.currency
-        ? getStripeAmountFromSaleorMoney({
-            amount: event.action.amount,
-            currency: event.transaction.sourceObject.total.gross.currency,
-          })
-        : undefined,
-    paymentIntentId: event.transaction.pspReference,
-    secretKey: stripeConfig.secretKey,
+  const stripeAmount =
+    event.action.amount && event.transaction.sourceObject?.total?.gross?.currency
+      ? getStripeAmountFromSaleorMoney({
+          amount: event.action.amount,
+          currency: event.transaction.sourceObject.total.gross.currency,
+        })
+      : undefined;
+  const paymentIntentId = event.transaction.pspReference;
+  // Refund requested again by hand, e.g. in the Dashboard, gets a new REFUND_REQUEST event and so
+  // a new key on purpose - it's a separate refund, not a duplicate of the previous webhook
+  const idempotencyKey = getStripeIdempotencyKey({
+    transactionId: event.transaction.id,
+    action: event.action.actionType,
+    amount: event.action.amount,
+    requestEventId: getSaleorRequestEventId(event.action.actionType, event.transaction.events),
   });
+  const stripePaymentIntentRefundResponse = await withSecretKeyFallback(stripeConfig, (secretKey) =>
+    processStripePaymentIntentRefundRequest({
+      stripeAmount,
+      paymentIntentId,
+      secretKey,
+      stripeAccount,
+      budget,
+      idempotencyKey,
+    }),
+  );
 
   const pspReference = stripePaymentIntentRefundResponse.id;
   const amount = getSaleorAmountFromStripeAmount({
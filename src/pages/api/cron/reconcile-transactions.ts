@@ -0,0 +1,74 @@
+import { timingSafeEqual } from "node:crypto";
+import { type NextApiRequest, type NextApiResponse } from "next";
+import * as Sentry from "@sentry/nextjs";
+import { createLogger, redactError } from "@/lib/logger";
+import { createServerClient } from "@/lib/create-graphq-client";
+import { env } from "@/lib/env.mjs";
+import { unpackPromise } from "@/lib/utils";
+import { saleorApp } from "@/saleor-app";
+import { reconcileTransactions } from "@/modules/reconciliation/reconciliation";
+
+const DEFAULT_SINCE_HOURS = 24;
+
+const isAuthorized = (req: NextApiRequest, secret: string) => {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(req.headers.authorization ?? "");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+/**
+ * Scheduled reconciliation, enabled when `RECONCILIATION_CRON_SECRET` is set.
+ * Scheduler has to send it as `Authorization: Bearer <secret>` header
+ */
+export default async function ReconcileTransactionsHandler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+): Promise<void> {
+  if (!env.RECONCILIATION_CRON_SECRET) {
+    res.status(404).end("Not Found");
+    return;
+  }
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    res.status(405).end("Method Not Allowed");
+    return;
+  }
+  if (!isAuthorized(req, env.RECONCILIATION_CRON_SECRET)) {
+    res.status(401).end("Unauthorized");
+    return;
+  }
+
+  const logger = createLogger({}, { msgPrefix: "[ReconcileTransactionsHandler] " });
+  logger.info("Handler was called");
+
+  const dryRun = req.query.dryRun === "true";
+  const sinceHours = Number(req.query.since ?? DEFAULT_SINCE_HOURS);
+  if (!Number.isFinite(sinceHours) || sinceHours <= 0) {
+    res.status(400).json({ message: "since must be a positive number of hours" });
+    return;
+  }
+  const since = new Date(Date.now() - sinceHours * 60 * 60 * 1000);
+
+  const allAuthData = await saleorApp.apl.getAll();
+  const instances = await Promise.all(
+    allAuthData.map(async ({ saleorApiUrl, token }) => {
+      const [error, result] = await unpackPromise(
+        reconcileTransactions({
+          client: createServerClient(saleorApiUrl, token),
+          saleorApiUrl,
+          since,
+          dryRun,
+        }),
+      );
+      if (error) {
+        Sentry.captureException(error);
+        logger.error({ err: redactError(error), saleorApiUrl }, "Reconciliation failed");
+        return { saleorApiUrl, error: error.message };
+      }
+      return { saleorApiUrl, ...result };
+    }),
+  );
+
+  logger.info("ReconcileTransactionsHandler finished OK");
+  res.status(200).json({ dryRun, since: since.toISOString(), instances });
+}
@@ -8,6 +8,12 @@ import { transactionCancelationRequestedSyncWebhook } from "./webhooks/saleor/tr
 import { transactionChargeRequestedSyncWebhook } from "./webhooks/saleor/transaction-charge-requested";
 import { transactionProcessSessionSyncWebhook } from "./webhooks/saleor/transaction-process-session";
 import { transactionRefundRequestedSyncWebhook } from "./webhooks/saleor/transaction-refund-requested";
+import { listStoredPaymentMethodsSyncWebhook } from "./webhooks/saleor/list-stored-payment-methods";
+import { storedPaymentMethodDeleteRequestedSyncWebhook } from "./webhooks/saleor/stored-payment-method-delete-requested";
+import { paymentGatewayInitializeTokenizationSessionSyncWebhook } from "./webhooks/saleor/payment-gateway-initialize-tokenization-session";
+import { paymentMethodInitializeTokenizationSessionSyncWebhook } from "./webhooks/saleor/payment-method-initialize-tokenization-session";
+import { paymentMethodProcessTokenizationSessionSyncWebhook } from "./webhooks/saleor/payment-method-process-tokenization-session";
+import { appDeletedAsyncWebhook } from "./webhooks/saleor/app-deleted";
 
 export default createManifestHandler({
   async manifestFactory(context) {
@@ -19,7 +25,7 @@ export default createManifestHandler({
       appUrl: `${context.appBaseUrl}`,
       permissions: ["HANDLE_PAYMENTS"],
       version: packageJson.version,
-      requiredSaleorVersion: ">=3.14.0",
+      requiredSaleorVersion: ">=3.16.0",
       homepageUrl: "https://github.com/saleor/saleor-app-payment-stripe",
       supportUrl: "https://github.com/saleor/saleor-app-payment-stripe/issues",
       brand: {
@@ -34,6 +40,16 @@ export default createManifestHandler({
         transactionCancelationRequestedSyncWebhook.getWebhookManifest(context.appBaseUrl),
         transactionChargeRequestedSyncWebhook.getWebhookManifest(context.appBaseUrl),
         transactionRefundRequestedSyncWebhook.getWebhookManifest(context.appBaseUrl),
+        listStoredPaymentMethodsSyncWebhook.getWebhookManifest(context.appBaseUrl),
+        storedPaymentMethodDeleteRequestedSyncWebhook.getWebhookManifest(context.appBaseUrl),
+        paymentGatewayInitializeTokenizationSessionSyncWebhook.getWebhookManifest(
+          context.appBaseUrl,
+        ),
+        paymentMethodInitializeTokenizationSessionSyncWebhook.getWebhookManifest(
+          context.appBaseUrl,
+        ),
+        paymentMethodProcessTokenizationSessionSyncWebhook.getWebhookManifest(context.appBaseUrl),
+        appDeletedAsyncWebhook.getWebhookManifest(context.appBaseUrl),
       ],
       extensions: [],
     };
@@ -0,0 +1,37 @@
+import * as Sentry from "@sentry/nextjs";
+import { SaleorAsyncWebhook } from "@saleor/app-sdk/handlers/next";
+import { type PageConfig } from "next";
+import { UntypedAppDeletedDocument, type AppDeletedEventFragment } from "generated/graphql";
+import { saleorApp } from "@/saleor-app";
+import { createLogger, redactError } from "@/lib/logger";
+import { AppDeletedWebhookHandler } from "@/modules/webhooks/app-deleted";
+
+export const config: PageConfig = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+export const appDeletedAsyncWebhook = new SaleorAsyncWebhook<AppDeletedEventFragment>({
+  name: "AppDeleted",
+  apl: saleorApp.apl,
+  event: "APP_DELETED",
+  query: UntypedAppDeletedDocument,
+  webhookPath: "/api/webhooks/saleor/app-deleted",
+});
+
+export default appDeletedAsyncWebhook.createHandler(async (_req, res, ctx) => {
+  const logger = createLogger({ event: ctx.event }, { msgPrefix: "[appDeleted] " });
+  const { authData, payload } = ctx;
+  logger.info("handler called");
+
+  try {
+    await AppDeletedWebhookHandler(payload, authData.saleorApiUrl);
+    logger.info("AppDeletedWebhookHandler was successful");
+    return res.status(200).end();
+  } catch (err) {
+    logger.error({ err: redactError(err) }, "AppDeletedWebhookHandler error");
+    Sentry.captureException(err);
+    return res.status(500).end();
+  }
+});
@@ -0,0 +1,39 @@
+import { SaleorSyncWebhook } from "@saleor/app-sdk/handlers/next";
+import { type PageConfig } from "next";
+import { saleorApp } from "@/saleor-app";
+import {
+  UntypedListStoredPaymentMethodsDocument,
+  type ListStoredPaymentMethodsEventFragment,
+} from "generated/graphql";
+import { ListStoredPaymentMethodsWebhookHandler } from "@/modules/webhooks/list-stored-payment-methods";
+import { getSyncWebhookHandler } from "@/backend-lib/api-route-utils";
+import ValidateListStoredPaymentMethodsResponse from "@/schemas/ListStoredPaymentMethods/ListStoredPaymentMethodsResponse.mjs";
+
+export const config: PageConfig = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+export const listStoredPaymentMethodsSyncWebhook =
+  new SaleorSyncWebhook<ListStoredPaymentMethodsEventFragment>({
+    name: "ListStoredPaymentMethods",
+    apl: saleorApp.apl,
+    event: "LIST_STORED_PAYMENT_METHODS",
+    query: UntypedListStoredPaymentMethodsDocument,
+    webhookPath: "/api/webhooks/saleor/list-stored-payment-methods",
+  });
+
+export default listStoredPaymentMethodsSyncWebhook.createHandler(
+  getSyncWebhookHandler(
+    "listStoredPaymentMethodsSyncWebhook",
+    ListStoredPaymentMethodsWebhookHandler,
+    ValidateListStoredPaymentMethodsResponse,
+    (_payload, _errorResponse) => {
+      // Saleor doesn't expect an error here, so the storefront just sees no stored payment methods
+      return {
+        paymentMethods: [],
+      };
+    },
+  ),
+);
@@ -0,0 +1,39 @@
+import { SaleorSyncWebhook } from "@saleor/app-sdk/handlers/next";
+import { type PageConfig } from "next";
+import { saleorApp } from "@/saleor-app";
+import {
+  UntypedPaymentGatewayInitializeTokenizationSessionDocument,
+  type PaymentGatewayInitializeTokenizationSessionEventFragment,
+} from "generated/graphql";
+import { PaymentGatewayInitializeTokenizationSessionWebhookHandler } from "@/modules/webhooks/payment-gateway-initialize-tokenization-session";
+import { getSyncWebhookHandler } from "@/backend-lib/api-route-utils";
+import ValidatePaymentGatewayInitializeTokenizationSessionResponse from "@/schemas/PaymentGatewayInitializeTokenizationSession/PaymentGatewayInitializeTokenizationSessionResponse.mjs";
+
+export const config: PageConfig = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+export const paymentGatewayInitializeTokenizationSessionSyncWebhook =
+  new SaleorSyncWebhook<PaymentGatewayInitializeTokenizationSessionEventFragment>({
+    name: "PaymentGatewayInitializeTokenizationSession",
+    apl: saleorApp.apl,
+    event: "PAYMENT_GATEWAY_INITIALIZE_TOKENIZATION_SESSION",
+    query: UntypedPaymentGatewayInitializeTokenizationSessionDocument,
+    webhookPath: "/api/webhooks/saleor/payment-gateway-initialize-tokenization-session",
+  });
+
+export default paymentGatewayInitializeTokenizationSessionSyncWebhook.createHandler(
+  getSyncWebhookHandler(
+    "paymentGatewayInitializeTokenizationSessionSyncWebhook",
+    PaymentGatewayInitializeTokenizationSessionWebhookHandler,
+    ValidatePaymentGatewayInitializeTokenizationSessionResponse,
+    (_payload, errorResponse) => {
+      return {
+        result: "FAILED_TO_INITIALIZE",
+        error: errorResponse.message,
+      } as const;
+    },
+  ),
+);
@@ -0,0 +1,39 @@
+import { SaleorSyncWebhook } from "@saleor/app-sdk/handlers/next";
+import { type PageConfig } from "next";
+import { saleorApp } from "@/saleor-app";
+import {
+  UntypedPaymentMethodInitializeTokenizationSessionDocument,
+  type PaymentMethodInitializeTokenizationSessionEventFragment,
+} from "generated/graphql";
+import { PaymentMethodInitializeTokenizationSessionWebhookHandler } from "@/modules/webhooks/payment-method-initialize-tokenization-session";
+import { getSyncWebhookHandler } from "@/backend-lib/api-route-utils";
+import ValidatePaymentMethodInitializeTokenizationSessionResponse from "@/schemas/PaymentMethodInitializeTokenizationSession/PaymentMethodInitializeTokenizationSessionResponse.mjs";
+
+export const config: PageConfig = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+export const paymentMethodInitializeTokenizationSessionSyncWebhook =
+  new SaleorSyncWebhook<PaymentMethodInitializeTokenizationSessionEventFragment>({
+    name: "PaymentMethodInitializeTokenizationSession",
+    apl: saleorApp.apl,
+    event: "PAYMENT_METHOD_INITIALIZE_TOKENIZATION_SESSION",
+    query: UntypedPaymentMethodInitializeTokenizationSessionDocument,
+    webhookPath: "/api/webhooks/saleor/payment-method-initialize-tokenization-session",
+  });
+
+export default paymentMethodInitializeTokenizationSessionSyncWebhook.createHandler(
+  getSyncWebhookHandler(
+    "paymentMethodInitializeTokenizationSessionSyncWebhook",
+    PaymentMethodInitializeTokenizationSessionWebhookHandler,
+    ValidatePaymentMethodInitializeTokenizationSessionResponse,
+    (_payload, errorResponse) => {
+      return {
+        result: "FAILED_TO_TOKENIZE",
+        error: errorResponse.message,
+      } as const;
+    },
+  ),
+);
@@ -0,0 +1,39 @@
+import { SaleorSyncWebhook } from "@saleor/app-sdk/handlers/next";
+import { type PageConfig } from "next";
+import { saleorApp } from "@/saleor-app";
+import {
+  UntypedPaymentMethodProcessTokenizationSessionDocument,
+  type PaymentMethodProcessTokenizationSessionEventFragment,
+} from "generated/graphql";
+import { PaymentMethodProcessTokenizationSessionWebhookHandler } from "@/modules/webhooks/payment-method-process-tokenization-session";
+import { getSyncWebhookHandler } from "@/backend-lib/api-route-utils";
+import ValidatePaymentMethodProcessTokenizationSessionResponse from "@/schemas/PaymentMethodProcessTokenizationSession/PaymentMethodProcessTokenizationSessionResponse.mjs";
+
+export const config: PageConfig = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+export const paymentMethodProcessTokenizationSessionSyncWebhook =
+  new SaleorSyncWebhook<PaymentMethodProcessTokenizationSessionEventFragment>({
+    name: "PaymentMethodProcessTokenizationSession",
+    apl: saleorApp.apl,
+    event: "PAYMENT_METHOD_PROCESS_TOKENIZATION_SESSION",
+    query: UntypedPaymentMethodProcessTokenizationSessionDocument,
+    webhookPath: "/api/webhooks/saleor/payment-method-process-tokenization-session",
+  });
+
+export default paymentMethodProcessTokenizationSessionSyncWebhook.createHandler(
+  getSyncWebhookHandler(
+    "paymentMethodProcessTokenizationSessionSyncWebhook",
+    PaymentMethodProcessTokenizationSessionWebhookHandler,
+    ValidatePaymentMethodProcessTokenizationSessionResponse,
+    (_payload, errorResponse) => {
+      return {
+        result: "FAILED_TO_TOKENIZE",
+        error: errorResponse.message,
+      } as const;
+    },
+  ),
+);
@@ -0,0 +1,39 @@
+import { SaleorSyncWebhook } from "@saleor/app-sdk/handlers/next";
+import { type PageConfig } from "next";
+import { saleorApp } from "@/saleor-app";
+import {
+  UntypedStoredPaymentMethodDeleteRequestedDocument,
+  type StoredPaymentMethodDeleteRequestedEventFragment,
+} from "generated/graphql";
+import { StoredPaymentMethodDeleteRequestedWebhookHandler } from "@/modules/webhooks/stored-payment-method-delete-requested";
+import { getSyncWebhookHandler } from "@/backend-lib/api-route-utils";
+import ValidateStoredPaymentMethodDeleteRequestedResponse from "@/schemas/StoredPaymentMethodDeleteRequested/StoredPaymentMethodDeleteRequestedResponse.mjs";
+
+export const config: PageConfig = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+export const storedPaymentMethodDeleteRequestedSyncWebhook =
+  new SaleorSyncWebhook<StoredPaymentMethodDeleteRequestedEventFragment>({
+    name: "StoredPaymentMethodDeleteRequested",
+    apl: saleorApp.apl,
+    event: "STORED_PAYMENT_METHOD_DELETE_REQUESTED",
+    query: UntypedStoredPaymentMethodDeleteRequestedDocument,
+    webhookPath: "/api/webhooks/saleor/stored-payment-method-delete-requested",
+  });
+
+export default storedPaymentMethodDeleteRequestedSyncWebhook.createHandler(
+  getSyncWebhookHandler(
+    "storedPaymentMethodDeleteRequestedSyncWebhook",
+    StoredPaymentMethodDeleteRequestedWebhookHandler,
+    ValidateStoredPaymentMethodDeleteRequestedResponse,
+    (_payload, errorResponse) => {
+      return {
+        result: "FAILED_TO_DELETE",
+        error: errorResponse.message,
+      } as const;
+    },
+  ),
+);
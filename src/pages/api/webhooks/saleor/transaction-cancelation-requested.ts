@@ -9,6 +9,7 @@ import {
   TransactionEventTypeEnum,
 } from "generated/graphql";
 import { getSyncWebhookHandler } from "@/backend-lib/api-route-utils";
+import { STRIPE_REQUEST_TIMEOUT_MESSAGE } from "@/modules/stripe/stripe-request-budget";
 import { TransactionCancelationRequestedWebhookHandler } from "@/modules/webhooks/transaction-cancelation-requested";
 import ValidateTransactionCancelationRequestedResponse from "@/schemas/TransactionCancelationRequested/TransactionCancelationRequestedResponse.mjs";
 
@@ -40,5 +41,9 @@ export default transactionCancelationRequestedSyncWebhook.createHandler(
         pspReference: uuidv7(),
       } as const;
     },
+    (payload) => ({
+      message: STRIPE_REQUEST_TIMEOUT_MESSAGE,
+      pspReference: payload.transaction?.pspReference || uuidv7(),
+    }),
   ),
 );
@@ -8,6 +8,7 @@ import {
   TransactionEventTypeEnum,
 } from "generated/graphql";
 import { getSyncWebhookHandler } from "@/backend-lib/api-route-utils";
+import { STRIPE_REQUEST_TIMEOUT_MESSAGE } from "@/modules/stripe/stripe-request-budget";
 import { TransactionChargeRequestedWebhookHandler } from "@/modules/webhooks/transaction-charge-requested";
 import ValidateTransactionChargeRequestedResponse from "@/schemas/TransactionChargeRequested/TransactionChargeRequestedResponse.mjs";
 
@@ -39,5 +40,9 @@ export default transactionChargeRequestedSyncWebhook.createHandler(
         pspReference: uuidv7(),
       } as const;
     },
+    (payload) => ({
+      message: STRIPE_REQUEST_TIMEOUT_MESSAGE,
+      pspReference: payload.transaction?.pspReference || uuidv7(),
+    }),
   ),
 );
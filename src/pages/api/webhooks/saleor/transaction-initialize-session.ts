@@ -10,6 +10,7 @@ import {
 } from "generated/graphql";
 import { TransactionInitializeSessionWebhookHandler } from "@/modules/webhooks/transaction-initialize-session";
 import { getSyncWebhookHandler } from "@/backend-lib/api-route-utils";
+import { STRIPE_REQUEST_TIMEOUT_MESSAGE } from "@/modules/stripe/stripe-request-budget";
 import ValidateTransactionInitializeSessionResponse from "@/schemas/TransactionInitializeSession/TransactionInitializeSessionResponse.mjs";
 
 export const config: PageConfig = {
@@ -45,5 +46,14 @@ export default transactionInitializeSessionSyncWebhook.createHandler(
         pspReference: uuidv7(),
       } as const;
     },
+    (payload) =>
+      ({
+        amount: payload.action.amount,
+        result:
+          payload.action.actionType === TransactionFlowStrategyEnum.Authorization
+            ? TransactionEventTypeEnum.AuthorizationRequest
+            : TransactionEventTypeEnum.ChargeRequest,
+        message: STRIPE_REQUEST_TIMEOUT_MESSAGE,
+      }) as const,
   ),
 );
@@ -10,6 +10,7 @@ import {
 } from "generated/graphql";
 import { TransactionProcessSessionWebhookHandler } from "@/modules/webhooks/transaction-process-session";
 import { getSyncWebhookHandler } from "@/backend-lib/api-route-utils";
+import { STRIPE_REQUEST_TIMEOUT_MESSAGE } from "@/modules/stripe/stripe-request-budget";
 import ValidateTransactionProcessSessionResponse from "@/schemas/TransactionProcessSession/TransactionProcessSessionResponse.mjs";
 
 export const config: PageConfig = {
@@ -45,5 +46,15 @@ export default transactionProcessSessionSyncWebhook.createHandler(
         pspReference: uuidv7(),
       } as const;
     },
+    (payload) =>
+      ({
+        amount: payload.action.amount,
+        result:
+          payload.action.actionType === TransactionFlowStrategyEnum.Authorization
+            ? TransactionEventTypeEnum.AuthorizationRequest
+            : TransactionEventTypeEnum.ChargeRequest,
+        message: STRIPE_REQUEST_TIMEOUT_MESSAGE,
+        pspReference: payload.transaction.pspReference,
+      }) as const,
   ),
 );
@@ -8,6 +8,7 @@ import {
 } from "generated/graphql";
 import { saleorApp } from "@/saleor-app";
 import { getSyncWebhookHandler } from "@/backend-lib/api-route-utils";
+import { STRIPE_REQUEST_TIMEOUT_MESSAGE } from "@/modules/stripe/stripe-request-budget";
 import { TransactionRefundRequestedWebhookHandler } from "@/modules/webhooks/transaction-refund-requested";
 import ValidateTransactionRefundRequestedResponse from "@/schemas/TransactionRefundRequesed/TransactionRefundRequestedResponse.mjs";
 
@@ -39,5 +40,9 @@ export default transactionRefundRequestedSyncWebhook.createHandler(
         pspReference: uuidv7(),
       } as const;
     },
+    (payload) => ({
+      message: STRIPE_REQUEST_TIMEOUT_MESSAGE,
+      pspReference: payload.transaction?.pspReference || uuidv7(),
+    }),
   ),
 );
@@ -1,5 +1,6 @@
 import { useAppBridge, withAuthorization } from "@saleor/app-sdk/app-bridge";
 import { Box, Text } from "@saleor/macaw-ui/next";
+import Link from "next/link";
 import { AppLayout, AppLayoutRow } from "@/modules/ui/templates/AppLayout";
 import { trpcClient } from "@/modules/trpc/trpc-client";
 import { getErrorHandler } from "@/modules/trpc/utils";
@@ -7,10 +8,13 @@ import { useFetchChannelsQuery } from "generated/graphql";
 import { StripeConfigurationsList } from "@/modules/ui/organisms/StripeConfigurationList/StripeConfigurationList";
 import { ChannelToConfigurationList } from "@/modules/ui/organisms/ChannelToConfigurationList/ChannelToConfigurationList";
 import { Skeleton } from "@/modules/ui/atoms/Skeleton/Skeleton";
+import { ChannelRulesForm } from "@/modules/ui/organisms/ChannelRulesForm/ChannelRulesForm";
+import { ExportConfigForm } from "@/modules/ui/organisms/ConfigBundleForms/ExportConfigForm";
+import { ImportConfigForm } from "@/modules/ui/organisms/ConfigBundleForms/ImportConfigForm";
 
 function ListConfigurationPage() {
   const { appBridge } = useAppBridge();
-  const [allConfigurations, channelMappings] = trpcClient.useQueries((t) => [
+  const [allConfigurations, channelMappings, channelRules] = trpcClient.useQueries((t) => [
     t.paymentAppConfigurationRouter.paymentConfig.getAll(undefined, {
       onError: getErrorHandler({
         appBridge,
@@ -27,15 +31,33 @@ function ListConfigurationPage() {
         title: "API Error",
       }),
     }),
+    t.paymentAppConfigurationRouter.mapping.getRules(undefined, {
+      onError: getErrorHandler({
+        appBridge,
+        actionId: "channel-rules-get",
+        message: "Error while fetching the channel rules",
+        title: "API Error",
+      }),
+    }),
   ]);
 
   const [channels] = useFetchChannelsQuery();
 
-  const hasAnyConfigs = allConfigurations.data && allConfigurations.data.length > 0;
+  const configurations = allConfigurations.data?.configurations || [];
+  const hasAnyConfigs = configurations.length > 0;
   const hasAnyMappings = Object.values(channelMappings.data || {}).filter(Boolean).length > 0;
 
   return (
-    <AppLayout title="Stripe">
+    <AppLayout
+      title="Stripe"
+      description={
+        <Text as="p" variant="body" size="medium">
+          Every change of configurations and channel assignments is recorded in{" "}
+          <Link href="/history">History</Link>. Handled webhooks can be inspected and failed ones
+          replayed in the <Link href="/webhook-log">Webhook log</Link>.
+        </Text>
+      }
+    >
       <AppLayoutRow
         title="Stripe Configurations"
         description="Create Stripe configurations that can be later assigned to Saleor channels."
@@ -44,7 +66,7 @@ function ListConfigurationPage() {
         {allConfigurations.isLoading ? (
           <Skeleton height={40} />
         ) : (
-          <StripeConfigurationsList configurations={allConfigurations.data || []} />
+          <StripeConfigurationsList configurations={configurations} />
         )}
       </AppLayoutRow>
       <AppLayoutRow
@@ -73,12 +95,43 @@ function ListConfigurationPage() {
         ) : (
           <ChannelToConfigurationList
             disabled={!hasAnyConfigs || channelMappings.isLoading}
-            configurations={allConfigurations.data || []}
+            configurations={configurations}
             channelMappings={channelMappings.data || {}}
+            channelRules={channelRules.data?.channelRules || []}
+            defaultConfigurationId={channelRules.data?.defaultConfigurationId ?? null}
             channels={channels.data?.channels || []}
           />
         )}
       </AppLayoutRow>
+      <AppLayoutRow
+        disabled={!hasAnyConfigs || channelRules.isLoading}
+        title="Channel rules"
+        description="Assign configurations to channels by slug or currency, and choose the default configuration for new channels."
+      >
+        {channelRules.isLoading ? (
+          <Skeleton height={40} />
+        ) : (
+          <ChannelRulesForm
+            disabled={!hasAnyConfigs}
+            configurations={configurations}
+            channelRules={channelRules.data?.channelRules || []}
+            defaultConfigurationId={channelRules.data?.defaultConfigurationId ?? null}
+          />
+        )}
+      </AppLayoutRow>
+      <AppLayoutRow
+        disabled={!hasAnyConfigs}
+        title="Export configuration"
+        description="Export configurations and channel assignments to move them to another Saleor instance, e.g. from staging to production."
+      >
+        <ExportConfigForm disabled={!hasAnyConfigs} />
+      </AppLayoutRow>
+      <AppLayoutRow
+        title="Import configuration"
+        description="Import configurations exported from another Saleor instance."
+      >
+        <ImportConfigForm />
+      </AppLayoutRow>
     </AppLayout>
   );
 }
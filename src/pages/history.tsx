@@ -0,0 +1,45 @@
+import { useAppBridge, withAuthorization } from "@saleor/app-sdk/app-bridge";
+import { Box, Text } from "@saleor/macaw-ui/next";
+import { AppLayout } from "@/modules/ui/templates/AppLayout";
+import { trpcClient } from "@/modules/trpc/trpc-client";
+import { getErrorHandler } from "@/modules/trpc/utils";
+import { Skeleton } from "@/modules/ui/atoms/Skeleton/Skeleton";
+import { RoundedActionBox, RoundedBox } from "@/modules/ui/atoms/RoundedActionBox/RoundedActionBox";
+import { AuditLogTable } from "@/modules/ui/molecules/AuditLogTable/AuditLogTable";
+
+function HistoryPage() {
+  const { appBridge } = useAppBridge();
+  const { data: entries, isLoading } = trpcClient.auditLogRouter.list.useQuery(undefined, {
+    onError: getErrorHandler({
+      appBridge,
+      actionId: "audit-log-list",
+      message: "Error while fetching the history of changes",
+      title: "API Error",
+    }),
+  });
+
+  return (
+    <AppLayout
+      title="Stripe > History"
+      description="Changes of configurations and channel assignments, newest first. Secrets are obfuscated."
+    >
+      {isLoading ? (
+        <Skeleton height={40} />
+      ) : entries && entries.length > 0 ? (
+        <RoundedBox>
+          <Box paddingX={6} paddingTop={4} paddingBottom={6} display="flex">
+            <AuditLogTable entries={entries} />
+          </Box>
+        </RoundedBox>
+      ) : (
+        <RoundedActionBox>
+          <Text as="p" variant="body" size="medium">
+            No changes were recorded yet.
+          </Text>
+        </RoundedActionBox>
+      )}
+    </AppLayout>
+  );
+}
+
+export default withAuthorization()(HistoryPage);
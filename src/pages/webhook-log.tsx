@@ -0,0 +1,96 @@
+import { useAppBridge, withAuthorization } from "@saleor/app-sdk/app-bridge";
+import { Box, Checkbox, Input, Text } from "@saleor/macaw-ui/next";
+import { useState } from "react";
+import { AppLayout } from "@/modules/ui/templates/AppLayout";
+import { trpcClient } from "@/modules/trpc/trpc-client";
+import { getErrorHandler } from "@/modules/trpc/utils";
+import { Skeleton } from "@/modules/ui/atoms/Skeleton/Skeleton";
+import { RoundedActionBox, RoundedBox } from "@/modules/ui/atoms/RoundedActionBox/RoundedActionBox";
+import { WebhookLogTable } from "@/modules/ui/molecules/WebhookLogTable/WebhookLogTable";
+import { DEFAULT_WEBHOOK_LOG_LIST_LIMIT } from "@/modules/webhook-log/webhook-log-store";
+
+const actionId = "webhook-log-replay";
+
+function WebhookLogPage() {
+  const { appBridge } = useAppBridge();
+  const context = trpcClient.useContext();
+  const [query, setQuery] = useState("");
+  const [failedOnly, setFailedOnly] = useState(false);
+
+  const { data: entries, isLoading } = trpcClient.webhookLogRouter.list.useQuery(
+    { query: query.trim() || undefined, failedOnly, limit: DEFAULT_WEBHOOK_LOG_LIST_LIMIT },
+    {
+      keepPreviousData: true,
+      onError: getErrorHandler({
+        appBridge,
+        actionId: "webhook-log-list",
+        message: "Error while fetching the webhook log",
+        title: "API Error",
+      }),
+    },
+  );
+
+  const replay = trpcClient.webhookLogRouter.replay.useMutation({
+    onSuccess: async ({ errors }) => {
+      await context.webhookLogRouter.list.invalidate();
+      void appBridge?.dispatch({
+        type: "notification",
+        payload:
+          errors.length > 0
+            ? { title: "Replay failed", text: errors.join(", "), status: "error", actionId }
+            : { title: "Transaction event reported", status: "success", actionId },
+      });
+    },
+    onError: getErrorHandler({
+      appBridge,
+      actionId,
+      message: "Error while replaying the webhook",
+      title: "API Error",
+    }),
+  });
+
+  return (
+    <AppLayout
+      title="Stripe > Webhook log"
+      description="Stripe and Saleor webhooks handled by the app, newest first. Secrets and personal data are redacted. Failed transaction event reports can be sent to Saleor again."
+    >
+      <Box display="flex" flexDirection="column" rowGap={4}>
+        <Box display="flex" columnGap={4} alignItems="center">
+          <Input
+            label="Transaction or PaymentIntent id"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            size="medium"
+          />
+          <Checkbox
+            checked={failedOnly}
+            onCheckedChange={(checked) => setFailedOnly(checked === true)}
+          >
+            <Text>Failed only</Text>
+          </Checkbox>
+        </Box>
+        {isLoading ? (
+          <Skeleton height={40} />
+        ) : entries && entries.length > 0 ? (
+          <RoundedBox>
+            <Box paddingX={6} paddingTop={4} paddingBottom={6} display="flex">
+              <WebhookLogTable
+                entries={entries}
+                onReplay={(id) => replay.mutate({ id })}
+                replayingId={replay.isLoading ? replay.variables?.id : undefined}
+              />
+            </Box>
+          </RoundedBox>
+        ) : (
+          <RoundedActionBox>
+            <Text as="p" variant="body" size="medium">
+              No webhooks were recorded yet.
+            </Text>
+          </RoundedActionBox>
+        )}
+      </Box>
+    </AppLayout>
+  );
+}
+
+export default withAuthorization()(WebhookLogPage);
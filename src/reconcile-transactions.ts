@@ -0,0 +1,83 @@
+import "./load-env";
+import { parseArgs } from "node:util";
+import { type AuthData } from "@saleor/app-sdk/APL";
+import { saleorApp } from "./saleor-app";
+import { createServerClient } from "./lib/create-graphq-client";
+import { unpackPromise } from "./lib/utils";
+import {
+  formatMissingTransactionEvent,
+  reconcileTransactions,
+} from "./modules/reconciliation/reconciliation";
+
+const DEFAULT_SINCE_HOURS = 24;
+
+const apl = saleorApp.apl;
+const allAuthData = await apl.getAll();
+
+const {
+  values: { dryRun, since },
+} = parseArgs({
+  options: {
+    dryRun: {
+      type: "boolean",
+      short: "d",
+    },
+    // Hours back from now to look for PaymentIntents and refunds
+    since: {
+      type: "string",
+      short: "s",
+      default: String(DEFAULT_SINCE_HOURS),
+    },
+  },
+});
+
+const sinceHours = Number(since);
+if (!Number.isFinite(sinceHours) || sinceHours <= 0) {
+  throw new Error(`--since must be a positive number of hours, got: ${since}`);
+}
+const sinceDate = new Date(Date.now() - sinceHours * 60 * 60 * 1000);
+
+const processedInstances = await Promise.all(
+  allAuthData.map(async (authData) => {
+    const [error, result] = await unpackPromise(processInstance(authData));
+    return [authData, error, result] as const;
+  }),
+);
+
+processedInstances.forEach(([authData, error, result]) => {
+  if (error) {
+    console.error(
+      `❌ ${authData.saleorApiUrl}: Error while reconciling transactions\n${JSON.stringify(
+        error,
+        null,
+        2,
+      )}`,
+    );
+  }
+
+  if (result) {
+    const icon = result.errors.length > 0 ? "⚠️" : "✅";
+    console.info(
+      `${icon} ${authData.saleorApiUrl}: ${result.checked} Stripe objects checked, ${
+        result.missing.length
+      } events missing in Saleor${dryRun ? "" : `, ${result.reported} reported`}`,
+    );
+    result.missing.forEach((event) => console.info(formatMissingTransactionEvent(event)));
+    result.errors.forEach((message) => console.warn(`! ${message}`));
+  }
+});
+
+if (processedInstances.some(([, error, result]) => error || result?.errors.length)) {
+  process.exitCode = 1;
+}
+
+async function processInstance(authData: AuthData) {
+  const client = createServerClient(authData.saleorApiUrl, authData.token);
+
+  return reconcileTransactions({
+    client,
+    saleorApiUrl: authData.saleorApiUrl,
+    since: sinceDate,
+    dryRun: Boolean(dryRun),
+  });
+}
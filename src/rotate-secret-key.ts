@@ -0,0 +1,85 @@
+import "./load-env";
+import { parseArgs } from "node:util";
+import { type AuthData } from "@saleor/app-sdk/APL";
+import { type MetadataEntry } from "@saleor/app-sdk/settings-manager";
+import { FetchAppDetailsDocument } from "../generated/graphql";
+import { saleorApp } from "./saleor-app";
+import { createServerClient } from "./lib/create-graphq-client";
+import { invariant } from "./lib/invariant";
+import { unpackPromise } from "./lib/utils";
+import { mutatePrivateMetadata } from "./modules/app-configuration/metadata-manager";
+import { getEncryptionKeys, reencryptMetadata } from "./modules/app-configuration/encryption";
+
+/**
+ * Encrypts private metadata of every instance from APL with the current `SECRET_KEY`.
+ * Keys used before have to be listed in `PREVIOUS_SECRET_KEYS` until the command succeeds for all instances
+ */
+const apl = saleorApp.apl;
+const allAuthData = await apl.getAll();
+const encryptionKeys = getEncryptionKeys();
+
+const {
+  values: { dryRun },
+} = parseArgs({
+  options: {
+    dryRun: {
+      type: "boolean",
+      short: "d",
+    },
+  },
+});
+
+const processedInstances = await Promise.all(
+  allAuthData.map(async (authData) => {
+    const [error, result] = await unpackPromise(processInstance(authData));
+    return [authData, error, result] as const;
+  }),
+);
+
+processedInstances.forEach(([authData, error, result]) => {
+  if (error) {
+    console.error(
+      `❌ ${authData.saleorApiUrl}: Error while re-encrypting metadata\n${JSON.stringify(
+        error,
+        null,
+        2,
+      )}`,
+    );
+  }
+
+  if (result) {
+    console.info(
+      `✅ ${authData.saleorApiUrl}: ${result.reencrypted} of ${result.total} metadata values ${
+        dryRun ? "to re-encrypt" : "re-encrypted"
+      }`,
+    );
+  }
+});
+
+if (processedInstances.some(([, error]) => error)) {
+  process.exitCode = 1;
+}
+
+async function processInstance(authData: AuthData) {
+  const client = createServerClient(authData.saleorApiUrl, authData.token);
+  const { data: appDetailsResponse } = await client.query(FetchAppDetailsDocument, {}).toPromise();
+
+  if (!appDetailsResponse) {
+    throw new Error("Cannot fetch app details");
+  }
+
+  invariant(appDetailsResponse.app?.privateMetadata, "Missing private metadata");
+
+  const privateMetadata = appDetailsResponse.app.privateMetadata as MetadataEntry[];
+  // Every value is decrypted before anything is saved, so the instance is never left partially rotated
+  const reencryptedMetadata = reencryptMetadata(privateMetadata, encryptionKeys);
+
+  if (!dryRun && reencryptedMetadata.length > 0) {
+    await mutatePrivateMetadata(client, reencryptedMetadata);
+  }
+
+  return {
+    total: privateMetadata.length,
+    reencrypted: reencryptedMetadata.length,
+  };
+}
@@ -13,6 +13,7 @@ import { invariant } from "./lib/invariant";
 import { BaseError } from "./errors";
 import { unpackPromise } from "./lib/utils";
 import {
+  createPrivateSettingsManager,
   createWebhookPrivateSettingsManager,
   mutatePrivateMetadata,
 } from "./modules/app-configuration/metadata-manager";
@@ -90,6 +91,7 @@ async function processInstance(authData: AuthData) {
       (metadata) => mutatePrivateMetadata(client, metadata),
     ),
     authData.saleorApiUrl,
+    () => createPrivateSettingsManager(client),
   );
 
   const migrations = await getMigrationsToRun(configurator, appDetailsResponse.shop.schemaVersion);
@@ -13,4 +13,6 @@ export type StrictRequired<T> = {
 export type Channel = {
   readonly id: string;
   readonly name: string;
+  readonly slug: string;
+  readonly currencyCode: string;
 };